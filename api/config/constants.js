@@ -20,6 +20,18 @@ const GOOGLE_SHEETS_CONFIG = {
     sheetId: process.env.GOOGLE_SHEETS_ID3,
     sheetName: process.env.GOOGLE_SHEETS_NAME4 || 'Portfolio Drafts',
   },
+  CUSTOM_SKELETONS: {
+    sheetId: process.env.GOOGLE_SHEETS_ID3,
+    sheetName: process.env.GOOGLE_SHEETS_NAME6 || 'Custom Skeletons',
+  },
+  BLOG_POSTS: {
+    sheetId: process.env.GOOGLE_SHEETS_ID3,
+    sheetName: process.env.GOOGLE_SHEETS_NAME7 || 'Blog Posts',
+  },
+  GENERATION_JOBS: {
+    sheetId: process.env.GOOGLE_SHEETS_ID3,
+    sheetName: process.env.GOOGLE_SHEETS_NAME8 || 'Generation Jobs',
+  },
   CREDENTIALS: {
     clientEmail: process.env.GOOGLE_SHEETS_CLIENT_EMAIL,
     privateKey: process.env.GOOGLE_SHEETS_PRIVATE_KEY,
@@ -100,6 +112,38 @@ const NETLIFY_CONFIG = {
   DEPLOY_TIMEOUT: 300000, // 5 minutes
 };
 
+// Files deployed next to the portfolio's pages (see services/siteBundler.js)
+const SITE_BUNDLE_CONFIG = {
+  IMAGE_DIR: 'assets/images',
+  IMAGE_HOSTS: ['res.cloudinary.com'], // only uploaded images are downloaded; others stay hot-linked
+  MAX_IMAGES: 80,
+  MAX_IMAGE_SIZE: 10 * 1024 * 1024, // 10MB
+  IMAGE_TIMEOUT: 20000,
+  DOWNLOAD_CONCURRENCY: 6,
+  DOWNLOAD_BUDGET: 60000, // all of a deploy's downloads, well inside the 300s function limit
+  // Reading a live site back for a redeploy
+  MAX_PAGES: 50,
+  MAX_PAGE_SIZE: 5 * 1024 * 1024, // 5MB
+  PAGE_TIMEOUT: 15000,
+};
+
+// Hosts portfolios can be deployed to besides Netlify (see services/deployProviders)
+const DEPLOY_PROVIDER_CONFIG = {
+  GITHUB_API_BASE_URL: 'https://api.github.com',
+  VERCEL_API_BASE_URL: 'https://api.vercel.com',
+  CLOUDFLARE_API_BASE_URL: 'https://api.cloudflare.com/client/v4',
+  POLL_INTERVAL: 2000,
+  DEPLOY_TIMEOUT: 300000, // 5 minutes
+};
+
+// Generation Jobs
+const GENERATION_JOB_CONFIG = {
+  STALE_AFTER_MS: 10 * 60 * 1000, // Running jobs with no updates for 10 minutes are treated as interrupted
+  RETENTION_MS: 24 * 60 * 60 * 1000, // 24 hours
+  MAX_LISTED_JOBS: 10,
+  WRITE_INTERVAL_MS: 5000, // Sheets allows 60 writes a minute, shared by every job and the other sheets
+};
+
 // Skeleton Templates
 const SKELETON_TEMPLATES = {
   NEWSPAPER: 'newspaper',
@@ -108,6 +152,25 @@ const SKELETON_TEMPLATES = {
   GALLERY_FIRST: 'gallery-first',
 };
 
+// User-uploaded skeletons (Pro)
+const CUSTOM_SKELETON_CONFIG = {
+  ID_PREFIX: 'custom-',
+  MAX_HTML_LENGTH: 225000, // Split across five Google Sheets cells of 45,000 characters (50,000 character limit)
+  MAX_PER_USER: 10,
+  MAX_PROJECTS: 12,
+  REQUIRED_SLOTS: ['name', 'email', 'projects'],
+};
+
+// Markdown blog posts published with a portfolio
+const POST_CONFIG = {
+  ID_PREFIX: 'post-',
+  MAX_TITLE_LENGTH: 120,
+  MAX_SUMMARY_LENGTH: 300,
+  MAX_MARKDOWN_LENGTH: 45000, // Stored in a single Google Sheets cell (50,000 character limit)
+  MAX_PER_USER: 100,
+  STATUSES: ['draft', 'published'],
+};
+
 // API Response Messages
 const MESSAGES = {
   ERRORS: {
@@ -140,6 +203,11 @@ module.exports = {
   CORS_CONFIG,
   VALIDATION_LIMITS,
   NETLIFY_CONFIG,
+  SITE_BUNDLE_CONFIG,
+  DEPLOY_PROVIDER_CONFIG,
+  GENERATION_JOB_CONFIG,
   SKELETON_TEMPLATES,
+  CUSTOM_SKELETON_CONFIG,
+  POST_CONFIG,
   MESSAGES,
 };
@@ -14,20 +14,20 @@ const calculateSha = (content) => {
 };
 
 /**
- * Recursively get all files from a directory
+ * Recursively get all files from a directory; relativePath is relative to the directory first passed in
  */
-const getFilesRecursively = async (dir) => {
+const getFilesRecursively = async (dir, rootDir = dir) => {
   const entries = await fs.readdir(dir, { withFileTypes: true });
   const files = [];
 
   for (const entry of entries) {
     const fullPath = path.join(dir, entry.name);
     if (entry.isDirectory()) {
-      files.push(...(await getFilesRecursively(fullPath)));
+      files.push(...(await getFilesRecursively(fullPath, rootDir)));
     } else if (entry.isFile()) {
       files.push({
         path: fullPath,
-        relativePath: `/${path.relative(dir, fullPath).replace(/\\/g, '/')}`,
+        relativePath: `/${path.relative(rootDir, fullPath).replace(/\\/g, '/')}`,
         content: await fs.readFile(fullPath)
       });
     }
@@ -5,6 +5,7 @@
 
 const { GoogleSheetsTracker } = require('../utils/googleSheets');
 const htmlValidator = require('../utils/htmlValidator');
+const htmlFragments = require('../utils/htmlFragments');
 const { Logger } = require('../utils/logger');
 
 const helperLogger = new Logger('PortfolioHelpers');
@@ -105,7 +106,93 @@ Return ONLY the COMPLETE HTML starting with <!DOCTYPE html> and ending with </ht
   }
 };
 
-const processAutoContinuation = async (anthropic, partialHtml, portfolioData, completeProjectData, comprehensiveAnalysis, selectedSkeleton, customDesignRequest, attempt = 1) => {
+const processMissingSectionsRequest = async (anthropic, partialHtml, portfolioData, completeProjectData, missingSections) => {
+  helperLogger.info(`🧩 Regenerating missing sections: ${missingSections.map(section => section.label).join(', ')}`);
+
+  try {
+    // Only the new sections come back, so the prompt can carry the existing page as reference
+    const sectionsPrompt = `This HTML portfolio was cut off during generation. Write ONLY the sections listed below so they can be added to the existing page.
+
+CONTEXT:
+- User: ${portfolioData.personalInfo.name} - ${portfolioData.personalInfo.title}
+- Bio: ${portfolioData.personalInfo.bio || 'Not provided'}
+- Email: ${portfolioData.personalInfo.email || 'Not provided'}
+- Projects: ${(portfolioData.projects || []).map(project => `${project.title}${project.description ? ` (${project.description})` : ''}`).join('; ') || 'None'}
+
+SECTIONS TO WRITE:
+${missingSections.map(section => `- ${section.label}`).join('\n')}
+
+EXISTING HTML (for reference only, do not repeat it):
+\`\`\`html
+${partialHtml}
+\`\`\`
+
+INSTRUCTIONS:
+1. Return one top-level element per section (for example <section id="contact">...</section> or <footer>...</footer>)
+2. Reuse the class names, fonts and colors already defined in the existing HTML
+3. If the sections need extra CSS, put it in a single <style> element before them
+4. A footer must read: 2025 ${portfolioData.personalInfo.name} — product of Interract Agency. All rights reserved.
+5. Do NOT return <!DOCTYPE>, <html>, <head> or <body> tags, and no explanations`;
+
+    const response = await anthropic.messages.create({
+      model: 'claude-sonnet-4-20250514',
+      max_tokens: 6000,
+      temperature: 0.7,
+      messages: [{ role: 'user', content: sectionsPrompt }]
+    });
+
+    let sectionsHtml = response.content[0].text.trim();
+
+    // Clean the response
+    if (sectionsHtml.startsWith('```html')) {
+      sectionsHtml = sectionsHtml.replace(/^```html\n/, '').replace(/\n```$/, '');
+    } else if (sectionsHtml.startsWith('```')) {
+      sectionsHtml = sectionsHtml.replace(/^```\n/, '').replace(/\n```$/, '');
+    }
+
+    let completedHTML = htmlFragments.insertSections(partialHtml, sectionsHtml);
+    completedHTML = updateHtmlWithProjectImages(completedHTML, completeProjectData);
+
+    const finalValidation = htmlValidator.validateCompleteness(completedHTML);
+    const stillMissing = htmlValidator.detectMissingSections(completedHTML, portfolioData);
+
+    helperLogger.info(`✅ Missing sections added: ${finalValidation.isComplete ? 'Complete' : 'Still incomplete'}`);
+
+    const portfolioId = `${portfolioData.personalInfo.name.replace(/[^a-zA-Z0-9]/g, '_')}_${Date.now()}`;
+
+    return {
+      success: true,
+      portfolio: {
+        html: completedHTML,
+        metadata: {
+          title: `${portfolioData.personalInfo.name} - Portfolio`,
+          overview: portfolioData.personalInfo.bio || `Portfolio of ${portfolioData.personalInfo.name}, ${portfolioData.personalInfo.title}`,
+          generatedAt: new Date().toISOString(),
+          generationSystem: 'ENHANCED_V2_SECTIONS',
+          regeneratedSections: missingSections.map(section => section.key),
+          projectData: completeProjectData,
+          projectCount: completeProjectData.totalProjects || 0,
+          imageCount: completeProjectData.totalImages || 0,
+          isContinuation: true,
+          validationResult: finalValidation,
+          missingSections: stillMissing,
+          portfolioId: portfolioId
+        }
+      }
+    };
+
+  } catch (error) {
+    helperLogger.error('❌ Missing sections request failed:', error);
+    return {
+      success: false,
+      error: 'Section regeneration failed',
+      details: error.message
+    };
+  }
+};
+
+// onAttempt({ attempt, html, validation }) is called after every continuation attempt
+const processAutoContinuation = async (anthropic, partialHtml, portfolioData, completeProjectData, comprehensiveAnalysis, selectedSkeleton, customDesignRequest, attempt = 1, onAttempt = null) => {
   const maxAttempts = 2; // Reduced for faster response
   
   if (attempt > maxAttempts) {
@@ -156,17 +243,23 @@ Complete the HTML with proper closing tags and responsive design. Return ONLY th
 
     // Validate the continued result
     const finalValidation = htmlValidator.validateCompleteness(continuedHTML);
+
+    if (onAttempt) {
+      onAttempt({ attempt, html: continuedHTML, validation: finalValidation });
+    }
     
     if (!finalValidation.isComplete && attempt < maxAttempts) {
       helperLogger.info(`⚠️ Auto-continuation ${attempt} still incomplete, trying again...`);
       return await processAutoContinuation(
+        anthropic,
         continuedHTML, 
         portfolioData, 
         completeProjectData, 
         comprehensiveAnalysis,
         selectedSkeleton,
         customDesignRequest,
-        attempt + 1
+        attempt + 1,
+        onAttempt
       );
     }
 
@@ -603,6 +696,7 @@ const updateHtmlWithProjectImages = (html, completeProjectData) => {
 
 module.exports = {
   processContinuationRequest,
+  processMissingSectionsRequest,
   processAutoContinuation,
   getProjectImagesFromSheets,
   updateHtmlWithProjectImages
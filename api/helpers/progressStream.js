@@ -0,0 +1,144 @@
+/**
+ * Progress Stream Helper
+ * Server-Sent Events for long-running endpoints, with a plain JSON fallback
+ */
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+/**
+ * Check whether the client asked for an event stream
+ * @param {object} req - Express request object
+ * @returns {boolean} True when the Accept header includes text/event-stream
+ */
+const wantsEventStream = (req) => (req.headers.accept || '').includes('text/event-stream');
+
+/**
+ * Create a progress reporter for a request.
+ * When the client accepts text/event-stream, progress is written as SSE events and the final
+ * payload is sent as a "result" event. Otherwise progress calls are no-ops and send() responds
+ * with regular JSON, so existing callers keep working.
+ * @param {object} req - Express request object
+ * @param {object} res - Express response object
+ * @returns {object} { enabled, progress, partial, checkpoint, send }
+ */
+const createProgressStream = (req, res) => {
+  const enabled = wantsEventStream(req);
+  let closed = false;
+  let heartbeat = null;
+
+  const write = (event, data) => {
+    if (!enabled || closed) return;
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    // compression() buffers output until flushed
+    if (typeof res.flush === 'function') res.flush();
+  };
+
+  if (enabled) {
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+
+    // Keep proxies from dropping the connection during long model calls
+    heartbeat = setInterval(() => {
+      if (closed) return;
+      res.write(': keep-alive\n\n');
+      if (typeof res.flush === 'function') res.flush();
+    }, HEARTBEAT_INTERVAL_MS);
+
+    res.on('close', () => {
+      closed = true;
+      clearInterval(heartbeat);
+    });
+  }
+
+  return {
+    enabled,
+
+    /**
+     * Report a generation stage
+     * @param {string} stage - Machine-readable stage name
+     * @param {number} percent - Overall progress, 0-100
+     * @param {string} message - Human-readable status
+     * @param {object} extra - Additional fields for the event
+     */
+    progress: (stage, percent, message, extra = {}) => {
+      write('progress', { stage, percent: Math.round(percent), message, ...extra });
+    },
+
+    /**
+     * Send the HTML generated so far
+     * @param {string} html - Partial HTML
+     */
+    partial: (html) => {
+      write('partial', { html });
+    },
+
+    /**
+     * Share an intermediate result (analysis summary, continuation attempts...)
+     * @param {string} name - Checkpoint name
+     * @param {*} data - Checkpoint data
+     */
+    checkpoint: (name, data) => {
+      write('checkpoint', { name, data });
+    },
+
+    /**
+     * Send the final payload and end the response
+     * @param {object} payload - Response body
+     * @param {number} statusCode - HTTP status code for the JSON fallback
+     * @returns {object} Express response
+     */
+    send: (payload, statusCode = 200) => {
+      if (!enabled) {
+        return res.status(statusCode).json(payload);
+      }
+
+      // Headers are already sent, so the status travels inside the event
+      write('result', { ...payload, statusCode });
+      closed = true;
+      clearInterval(heartbeat);
+      return res.end();
+    }
+  };
+};
+
+/**
+ * Report to two reporters at once, e.g. the client's stream and a generation job.
+ * The first one's send() is returned, so the response is what the caller gets back.
+ * @param {object} primary - Reporter answering the request
+ * @param {object} secondary - Reporter that only records
+ * @returns {object} { enabled, progress, partial, checkpoint, send }
+ */
+const teeProgress = (primary, secondary) => ({
+  enabled: primary.enabled,
+
+  progress: (...args) => {
+    primary.progress(...args);
+    secondary.progress(...args);
+  },
+
+  partial: (html) => {
+    primary.partial(html);
+    secondary.partial(html);
+  },
+
+  checkpoint: (name, data) => {
+    primary.checkpoint(name, data);
+    secondary.checkpoint(name, data);
+  },
+
+  send: (payload, statusCode) => {
+    secondary.send(payload, statusCode);
+    return primary.send(payload, statusCode);
+  }
+});
+
+module.exports = {
+  wantsEventStream,
+  createProgressStream,
+  teeProgress
+};
@@ -1,20 +1,39 @@
 /**
  * Deployment Routes
- * Handles Netlify deployment operations and deployment tracking
+ * Handles deployments to Netlify and the other providers, custom domains, and deployment tracking and management
  */
 
 const express = require('express');
 const router = express.Router();
-const axios = require('axios');
-const crypto = require('crypto');
 const { GoogleSheetsTracker } = require('../utils/googleSheets');
+const { netlifyService } = require('../services/netlifyService');
+const { siteBundler } = require('../services/siteBundler');
+const { siteBuilder } = require('../services/siteBuilder');
+const { postService } = require('../services/postService');
+const { DEFAULT_PROVIDER, getProvider, listProviders } = require('../services/deployProviders');
+const { TIER_LIMITS } = require('../config/constants');
 const { Logger } = require('../utils/logger');
 
 const logger = new Logger('DeploymentRoutes');
 
-const NETLIFY_API = 'https://api.netlify.com/api/v1';
-const POLL_INTERVAL_MS = 2000;
-const MAX_STATUS_POLLS = 60;
+// Extra pages of multi-page portfolios, e.g. projects/brand-refresh.html
+const SITE_PAGE_PATTERN = /^[a-z0-9-]+(\/[a-z0-9-]+)*\.html$/;
+
+// Binary assets (images, fonts) arrive as base64 data URLs
+const DATA_URL_PATTERN = /^data:[\w.+-]+\/[\w.+-]+;base64,([A-Za-z0-9+/=]+)$/;
+
+// Custom domains: lowercase hostnames of two or more labels, e.g. www.adalee.dev
+const DOMAIN_PATTERN = /^(?=.{4,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+/**
+ * Turn the request's assets into manifest contents: text stays as is, data URLs become Buffers
+ */
+const decodeAssets = (assets) => Object.fromEntries(
+  Object.entries(assets).map(([assetPath, content]) => {
+    const dataUrl = content.match(DATA_URL_PATTERN);
+    return [assetPath, dataUrl ? Buffer.from(dataUrl[1], 'base64') : content];
+  })
+);
 
 const createTracker = ({ sheetId, sheetName, fallbackName }) =>
   new GoogleSheetsTracker({
@@ -61,6 +80,14 @@ const formatProjectIds = (projectIds) => {
   return JSON.stringify({ 1: 'unknown' });
 };
 
+const parseProjectIds = (value) => {
+  try {
+    return Object.values(JSON.parse(value || '{}')).filter(id => id && id !== 'unknown');
+  } catch {
+    return [];
+  }
+};
+
 const checkUserLimits = async (req, email) => {
   const limitsResponse = await fetch(
     `${req.protocol}://${req.get('host')}/api/check-user-limits?email=${encodeURIComponent(email)}`
@@ -93,8 +120,24 @@ const buildPaywallError = ({ paywall, tier, limits, usage, remaining }) => ({
   remaining,
 });
 
-const trackPortfolioDeployment = async ({ email, projectIds, finalUrl, tier }) => {
-  const tracker = ensureTracker(
+const PORTFOLIO_DETAILS_HEADERS = [
+  'Timestamp',
+  'Email',
+  'Project ID(s)',
+  'Portfolio URL',
+  'Tier at Deploy',
+  'Site ID',
+  'Site Name',
+  'Portfolio ID',
+  'Last Deployed',
+  'Provider',
+  'Custom Domain',
+  'Deploy ID',
+  'Taken Offline'
+];
+
+const getPortfolioDetailsTracker = () =>
+  ensureTracker(
     createTracker({
       sheetId: process.env.GOOGLE_SHEETS_ID3,
       sheetName: process.env.GOOGLE_SHEETS_NAME5,
@@ -103,26 +146,30 @@ const trackPortfolioDeployment = async ({ email, projectIds, finalUrl, tier }) =
     'Portfolio Details'
   );
 
-  await ensureSheetHeaders(tracker, [
-    'Timestamp',
-    'Email',
-    'Project ID(s)',
-    'Portfolio URL',
-    'Tier at Deploy'
-  ]);
+const trackPortfolioDeployment = async ({ email, projectIds, finalUrl, tier, siteId, siteName, portfolioId, provider, deployId }) => {
+  const tracker = getPortfolioDetailsTracker();
+  await ensureSheetHeaders(tracker, PORTFOLIO_DETAILS_HEADERS);
 
+  const timestamp = new Date().toISOString();
   await tracker.sheets.spreadsheets.values.append({
     spreadsheetId: tracker.sheetId,
-    range: `${tracker.sheetName}!A:E`,
+    range: `${tracker.sheetName}!A:L`,
     valueInputOption: 'USER_ENTERED',
     insertDataOption: 'INSERT_ROWS',
     resource: {
       values: [[
-        new Date().toISOString(),
+        timestamp,
         email,
         formatProjectIds(projectIds),
         finalUrl,
-        tier
+        tier,
+        siteId,
+        siteName,
+        portfolioId || '',
+        timestamp,
+        provider,
+        '',
+        deployId || ''
       ]]
     },
   });
@@ -130,6 +177,168 @@ const trackPortfolioDeployment = async ({ email, projectIds, finalUrl, tier }) =
   logger.success(`Portfolio deployment tracked successfully for ${email}`);
 };
 
+/**
+ * The user's site for a portfolio on a provider, by site id or by the id of the portfolio deployed to it.
+ * Rows tracked before other providers existed are Netlify sites.
+ * @returns {Promise<Object|null>} - { rowIndex, siteId, siteName, url, customDomain }, or null when it was never deployed
+ */
+const findTrackedSite = async ({ email, siteId, portfolioId, provider = DEFAULT_PROVIDER }) => {
+  if (!siteId && !portfolioId) return null;
+
+  const tracker = getPortfolioDetailsTracker();
+  const response = await tracker.sheets.spreadsheets.values.get({
+    spreadsheetId: tracker.sheetId,
+    range: `${tracker.sheetName}!A:K`,
+  });
+
+  const rows = response.data.values || [];
+  const rowIndex = rows.findLastIndex((row, index) =>
+    index > 0 && row[1] === email && row[5] && (row[9] || DEFAULT_PROVIDER) === provider &&
+    (siteId ? row[5] === siteId : row[7] === portfolioId)
+  );
+
+  if (rowIndex === -1) return null;
+
+  const row = rows[rowIndex];
+  return { rowIndex, siteId: row[5], siteName: row[6] || '', url: row[3] || '', customDomain: row[10] || '' };
+};
+
+/**
+ * Hosts a tracked site is served from: its provider URL and custom domain
+ */
+const trackedSiteHosts = (site) => [site.url, site.customDomain && `https://${site.customDomain}`]
+  .filter(Boolean)
+  .map(url => {
+    try {
+      return new URL(url).hostname.toLowerCase();
+    } catch (error) {
+      return null;
+    }
+  })
+  .filter(Boolean);
+
+/**
+ * Record a redeploy on the site's existing row, so it doesn't count as another deployment
+ */
+const trackRedeployment = async ({ rowIndex, projectIds, finalUrl, portfolioId, deployId }) => {
+  const tracker = getPortfolioDetailsTracker();
+  const row = rowIndex + 1;
+
+  await tracker.sheets.spreadsheets.values.batchUpdate({
+    spreadsheetId: tracker.sheetId,
+    resource: {
+      valueInputOption: 'USER_ENTERED',
+      data: [
+        { range: `${tracker.sheetName}!C${row}:D${row}`, values: [[formatProjectIds(projectIds), finalUrl]] },
+        { range: `${tracker.sheetName}!H${row}:I${row}`, values: [[portfolioId || '', new Date().toISOString()]] },
+        { range: `${tracker.sheetName}!L${row}:M${row}`, values: [[deployId || '', '']] }
+      ]
+    },
+  });
+
+  logger.success(`Redeployment tracked on row ${row}`);
+};
+
+/**
+ * Record the custom domain connected to a tracked site
+ */
+const trackCustomDomain = async ({ rowIndex, domain }) => {
+  const tracker = getPortfolioDetailsTracker();
+  const row = rowIndex + 1;
+
+  await tracker.sheets.spreadsheets.values.update({
+    spreadsheetId: tracker.sheetId,
+    range: `${tracker.sheetName}!K${row}`,
+    valueInputOption: 'USER_ENTERED',
+    resource: { values: [[domain]] },
+  });
+
+  logger.success(`Custom domain ${domain} tracked on row ${row}`);
+};
+
+/**
+ * Every site tracked for a user, most recently deployed first.
+ * Rows tracked before other providers existed are Netlify sites; rows from before redeploys have no site id.
+ */
+const listTrackedSites = async (email) => {
+  const tracker = getPortfolioDetailsTracker();
+  const response = await tracker.sheets.spreadsheets.values.get({
+    spreadsheetId: tracker.sheetId,
+    range: `${tracker.sheetName}!A:M`,
+  });
+
+  return (response.data.values || [])
+    .filter((row, index) => index > 0 && row[1] === email)
+    .map(row => {
+      const provider = getProvider(row[9] || DEFAULT_PROVIDER);
+      return {
+        siteId: row[5] || null,
+        siteName: row[6] || '',
+        url: row[3] || '',
+        provider: provider?.id || row[9],
+        platform: provider?.name || row[9],
+        deployedAt: row[0] || null,
+        lastDeployedAt: row[8] || row[0] || null,
+        deployId: row[11] || null,
+        portfolioId: row[7] || null,
+        projectIds: parseProjectIds(row[2]),
+        tier: row[4] || '',
+        customDomain: row[10] || '',
+        takenOfflineAt: row[12] || null
+      };
+    })
+    .sort((a, b) => new Date(b.lastDeployedAt || 0) - new Date(a.lastDeployedAt || 0));
+};
+
+/**
+ * Mark a tracked site as taken offline; the row stays so it keeps counting as a deployment
+ */
+const trackSiteOffline = async ({ rowIndex }) => {
+  const tracker = getPortfolioDetailsTracker();
+  const row = rowIndex + 1;
+
+  await tracker.sheets.spreadsheets.values.update({
+    spreadsheetId: tracker.sheetId,
+    range: `${tracker.sheetName}!M${row}`,
+    valueInputOption: 'USER_ENTERED',
+    resource: { values: [[new Date().toISOString()]] },
+  });
+
+  logger.success(`Site on row ${row} marked as taken offline`);
+};
+
+/**
+ * Error response for a failed request to a deployment provider
+ */
+const buildProviderErrorResponse = (
+  error,
+  fallbackError,
+  providerName = 'Netlify',
+  invalidDetails = 'The HTML content or site name may be invalid'
+) => {
+  const errorResponse = {
+    success: false,
+    error: fallbackError,
+    details: error.message
+  };
+
+  if (error.response?.status === 401) {
+    errorResponse.error = `Invalid ${providerName} credentials`;
+    errorResponse.details = `Please check your ${providerName} token or keys`;
+  } else if (error.response?.status === 403) {
+    errorResponse.error = 'Insufficient permissions';
+    errorResponse.details = `Your ${providerName} credentials do not have permission to manage this site`;
+  } else if (error.response?.status === 404) {
+    errorResponse.error = 'Site not found';
+    errorResponse.details = `The site or deploy no longer exists on ${providerName}`;
+  } else if (error.response?.status === 422) {
+    errorResponse.error = 'Invalid request data';
+    errorResponse.details = invalidDetails;
+  }
+
+  return errorResponse;
+};
+
 const getDeploymentTracker = () =>
   ensureTracker(
     createTracker({
@@ -207,36 +416,125 @@ const updateDeploymentUrl = async ({ email, url }) => {
 };
 
 /**
- * POST /api/deploy-folder-to-netlify-with-paywall
- * Deploy a portfolio to Netlify with paywall checks
+ * GET /api/deploy-providers
+ * The hosts portfolios can be deployed to and the credentials each needs
+ */
+router.get('/deploy-providers', (req, res) => {
+  res.json({
+    success: true,
+    data: {
+      defaultProvider: DEFAULT_PROVIDER,
+      providers: listProviders()
+    }
+  });
+});
+
+/**
+ * POST /api/deploy-site
+ * Deploy a portfolio to a provider (Netlify unless `provider` says otherwise) with paywall checks
  *
  * This is the main deployment endpoint that:
- * 1. Checks user limits and tier permissions
- * 2. Creates a Netlify site
- * 3. Deploys the portfolio HTML
- * 4. Tracks deployment in Google Sheets
+ * 1. Finds the site the portfolio was deployed to on that provider before, if any
+ * 2. Checks user limits and tier permissions (redeploys to an existing site are always allowed)
+ * 3. Bundles the pages, their images and any extra assets into one file manifest
+ * 4. Deploys the manifest to that site, or to a new one, uploading only the files the provider lacks
+ * 5. Tracks deployment in Google Sheets
  */
 const deployWithPaywallHandler = async (req, res) => {
-  const { htmlContent, netlifyToken, personName, userEmail, projectIds } = req.body;
+  const {
+    htmlContent,
+    provider: providerId = DEFAULT_PROVIDER,
+    credentials = {},
+    netlifyToken,
+    personName,
+    userEmail,
+    projectIds,
+    pages = {},
+    assets = {},
+    siteId: requestedSiteId,
+    portfolioId
+  } = req.body;
+
+  const provider = getProvider(providerId);
+  if (!provider) {
+    return res.status(400).json({
+      success: false,
+      error: 'Unknown deployment provider',
+      details: `Choose one of: ${listProviders().map(({ id }) => id).join(', ')}`
+    });
+  }
 
-  if (!htmlContent || !netlifyToken || !personName || !userEmail) {
+  // The Netlify endpoints take the token on its own
+  const providerCredentials = provider.id === 'netlify' && netlifyToken
+    ? { ...credentials, token: netlifyToken }
+    : credentials;
+
+  if (!htmlContent || !personName || !userEmail) {
     return res.status(400).json({
       success: false,
-      error: 'Missing required parameters: htmlContent, netlifyToken, personName, and userEmail are required'
+      error: 'Missing required parameters: htmlContent, personName, and userEmail are required'
+    });
+  }
+
+  const missingCredentials = provider.getMissingCredentials(providerCredentials);
+  if (missingCredentials.length > 0) {
+    return res.status(400).json({
+      success: false,
+      error: `Missing ${provider.name} credentials`,
+      details: `${missingCredentials.join(', ')} required`
+    });
+  }
+
+  const invalidCredentials = await provider.getInvalidCredentials(providerCredentials);
+  if (invalidCredentials.length > 0) {
+    return res.status(400).json({
+      success: false,
+      error: `Invalid ${provider.name} credentials`,
+      details: invalidCredentials.join('; ')
+    });
+  }
+
+  const invalidPages = Object.entries(pages || {})
+    .filter(([pagePath, pageHtml]) => !SITE_PAGE_PATTERN.test(pagePath) || pagePath === 'index.html' || typeof pageHtml !== 'string')
+    .map(([pagePath]) => pagePath);
+  if (invalidPages.length > 0) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid pages',
+      details: `Pages must be HTML files with lowercase paths: ${invalidPages.join(', ')}`
+    });
+  }
+
+  const invalidAssets = Object.entries(assets || {})
+    .filter(([assetPath, content]) => !siteBundler.isSiteFile(assetPath) || assetPath.endsWith('.html') || typeof content !== 'string')
+    .map(([assetPath]) => assetPath);
+  if (invalidAssets.length > 0) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid assets',
+      details: `Assets must be CSS, JS, image, font or text files with lowercase paths: ${invalidAssets.join(', ')}`
     });
   }
 
-  let siteId;
   const startTime = Date.now();
 
   try {
-    // STEP 1: Check user limits before deployment
+    // STEP 1: Find the site this portfolio already lives on
+    let trackedSite = null;
+    try {
+      trackedSite = await findTrackedSite({ email: userEmail, siteId: requestedSiteId, portfolioId, provider: provider.id });
+    } catch (lookupError) {
+      logger.warn(`Could not look up previous deployments for ${userEmail}: ${lookupError.message}`);
+    }
+    const siteId = requestedSiteId || trackedSite?.siteId || null;
+
+    // STEP 2: Check user limits before deployment
     logger.info(`Checking deployment permissions for: ${userEmail}`);
     const limitsData = await checkUserLimits(req, userEmail);
     const { tier, canCreate, paywall, limits, usage, remaining } = limitsData;
 
-    // STEP 2: Enforce paywall rules
-    if (!canCreate.deployments) {
+    // STEP 3: Enforce paywall rules; updating a site the user already deployed is not a new deployment
+    if (!trackedSite && !canCreate.deployments) {
       logger.warn(`Deployment blocked for ${userEmail}: ${paywall.reason}`);
       return res.status(403).json(
         buildPaywallError({ paywall, tier, limits, usage, remaining })
@@ -245,239 +543,466 @@ const deployWithPaywallHandler = async (req, res) => {
 
     logger.success(`Deployment authorized for ${userEmail} (${tier} tier)`);
 
-    // STEP 3: Proceed with deployment using existing logic
-    const timestamp = Date.now();
-    const siteName = `${personName.replace(/[^a-zA-Z0-9-]/g, '-').substring(0, 30)}-portfolio-${timestamp}`;
-
-    logger.info(`Starting deployment for: ${personName} (${tier} tier)`);
-
-    // Create new Netlify site
-    logger.info('Creating Netlify site...');
-    const siteResponse = await axios.post(
-      `${NETLIFY_API}/sites`,
-      {
-        name: siteName,
-        custom_domain: null
-      },
-      {
-        headers: {
-          'Authorization': `Bearer ${netlifyToken}`,
-          'Content-Type': 'application/json'
-        },
-        timeout: 30000
+    // STEP 4: Build the blog from the posts published now, so posts written after generation go live too
+    let site = { html: htmlContent, pages: pages || {} };
+    if (postService.isAvailable()) {
+      try {
+        const posts = await postService.listPublished(userEmail);
+        site = siteBuilder.rebuildBlog(htmlContent, pages || {}, { personName, posts });
+      } catch (postsError) {
+        logger.warn(`Could not load posts for ${userEmail}, deploying the blog as generated: ${postsError.message}`);
       }
+    }
+
+    // STEP 5: Bundle the home page, any case study or blog pages, their images and the extra assets;
+    // a site read back from where it is live has its images on its own hosts
+    const siteFiles = await siteBundler.bundle(
+      { ...decodeAssets(assets || {}), 'index.html': site.html, ...site.pages },
+      { personName, siteHosts: trackedSite ? trackedSiteHosts(trackedSite) : [] }
     );
 
-    siteId = siteResponse.data.id;
-    const siteUrl = siteResponse.data.ssl_url || siteResponse.data.url;
-    logger.success(`Site created successfully: ${siteId}`);
+    // STEP 6: Deploy
+    logger.info(`Starting ${provider.name} ${siteId ? `redeployment to ${siteId}` : 'deployment'} for: ${personName} (${tier} tier)`);
+    const deployment = await provider.deploy(siteFiles, { personName, credentials: providerCredentials, siteId });
 
-    // Calculate SHA1 hash for HTML content
-    const htmlSha1 = crypto.createHash('sha1').update(htmlContent, 'utf8').digest('hex');
-    logger.debug(`HTML SHA1 calculated: ${htmlSha1}`);
+    logger.info(`Live URL: ${deployment.url}`);
+
+    // STEP 7: Track deployment in Google Sheets (Portfolio Details)
+    if (deployment.url && deployment.state === 'ready') {
+      try {
+        if (trackedSite && trackedSite.siteId === deployment.siteId) {
+          await trackRedeployment({
+            rowIndex: trackedSite.rowIndex,
+            projectIds,
+            finalUrl: deployment.url,
+            portfolioId,
+            deployId: deployment.deployId
+          });
+        } else {
+          await trackPortfolioDeployment({
+            email: userEmail,
+            projectIds,
+            finalUrl: deployment.url,
+            tier,
+            siteId: deployment.siteId,
+            siteName: deployment.siteName,
+            portfolioId,
+            provider: provider.id,
+            deployId: deployment.deployId,
+          });
+        }
+      } catch (trackingError) {
+        logger.error('Error tracking portfolio deployment', trackingError);
+        // Don't fail the entire deployment if tracking fails
+      }
+    }
 
-    // Create deployment with proper file digest format
-    logger.info('Creating deployment with file digest...');
-    const deployPayload = {
-      files: {
-        "index.html": htmlSha1
+    return res.json({
+      success: true,
+      deployment: {
+        provider: provider.id,
+        platform: provider.name,
+        url: deployment.url,
+        siteId: deployment.siteId,
+        deployId: deployment.deployId,
+        status: deployment.state,
+        siteName: deployment.siteName,
+        redeployed: deployment.redeployed,
+        pageCount: Object.keys(siteFiles).filter(filePath => filePath.endsWith('.html')).length,
+        fileCount: deployment.fileCount,
+        uploadedCount: deployment.uploadedCount,
+        deployTime: deployment.deploymentTime,
+        ready: deployment.state === 'ready'
       },
-      draft: false
-    };
+      tier: tier,
+      message: deployment.redeployed
+        ? 'Portfolio updated successfully!'
+        : 'Portfolio deployed successfully!'
+    });
 
-    const deployResponse = await axios.post(
-      `${NETLIFY_API}/sites/${siteId}/deploys`,
-      deployPayload,
-      {
-        headers: {
-          'Authorization': `Bearer ${netlifyToken}`,
-          'Content-Type': 'application/json'
-        },
-        timeout: 30000
+  } catch (error) {
+    const totalTime = Math.round((Date.now() - startTime) / 1000);
+    logger.error(`Deployment failed after ${totalTime}s`, error);
+
+    const statusCode = error.response?.status || 500;
+    return res.status(statusCode).json({
+      ...buildProviderErrorResponse(error, 'Deployment failed', provider.name),
+      deployTime: totalTime
+    });
+  }
+};
+
+router.post('/deploy-site', deployWithPaywallHandler);
+
+/**
+ * POST /api/deploy-folder-to-netlify-with-paywall
+ * POST /api/deploy-folder-to-netlify
+ * Legacy endpoints from before other providers; same as /deploy-site
+ */
+router.post('/deploy-folder-to-netlify-with-paywall', deployWithPaywallHandler);
+
+router.post('/deploy-folder-to-netlify', async (req, res) => {
+  return deployWithPaywallHandler(req, res);
+});
+
+/**
+ * GET /api/netlify-sites/:siteId/deploys
+ * Deploy history of a site, newest first, with the deploy that is live marked.
+ * The user's Netlify token is sent as a Bearer token in the Authorization header.
+ */
+router.get('/netlify-sites/:siteId/deploys', async (req, res) => {
+  const netlifyToken = (req.get('Authorization') || '').replace(/^Bearer\s+/i, '');
+
+  if (!netlifyToken) {
+    return res.status(401).json({
+      success: false,
+      error: 'Netlify token is required'
+    });
+  }
+
+  try {
+    const { siteId } = req.params;
+    const [site, deploys] = await Promise.all([
+      netlifyService.getSiteInfo(siteId, netlifyToken),
+      netlifyService.listDeploys(siteId, netlifyToken)
+    ]);
+    const liveDeployId = site.published_deploy?.id || null;
+
+    res.json({
+      success: true,
+      data: {
+        siteId,
+        siteName: site.name,
+        url: site.ssl_url || site.url,
+        liveDeployId,
+        deploys: deploys.map(deploy => ({ ...deploy, isLive: deploy.id === liveDeployId }))
       }
-    );
+    });
 
-    const deployId = deployResponse.data.id;
-    const requiredFiles = deployResponse.data.required || [];
-    const deployState = deployResponse.data.state;
+  } catch (error) {
+    logger.error('Error fetching deploy history', error);
+    res.status(error.response?.status || 500).json(buildProviderErrorResponse(error, 'Failed to load deploy history'));
+  }
+});
 
-    logger.success(`Deployment created: ${deployId}`);
-    logger.debug(`Initial state: ${deployState}`);
-    logger.debug(`Required files: ${requiredFiles.length > 0 ? requiredFiles.join(', ') : 'none'}`);
+/**
+ * POST /api/netlify-sites/:siteId/rollback
+ * Publish an earlier deploy of a site again
+ */
+router.post('/netlify-sites/:siteId/rollback', async (req, res) => {
+  const { netlifyToken, deployId } = req.body;
 
-    // Upload HTML file if required by Netlify
-    if (requiredFiles.includes(htmlSha1)) {
-      logger.info('Uploading HTML file to Netlify...');
+  if (!netlifyToken || !deployId) {
+    return res.status(400).json({
+      success: false,
+      error: 'Netlify token and deploy ID are required'
+    });
+  }
 
-      try {
-        await axios.put(
-          `${NETLIFY_API}/deploys/${deployId}/files/index.html`,
-          htmlContent,
-          {
-            headers: {
-              'Authorization': `Bearer ${netlifyToken}`,
-              'Content-Type': 'application/octet-stream'
-            },
-            maxContentLength: Infinity,
-            maxBodyLength: Infinity,
-            timeout: 60000
-          }
-        );
-        logger.success('HTML file uploaded successfully');
-      } catch (uploadError) {
-        logger.error('File upload failed', uploadError);
-        throw new Error(`File upload failed: ${uploadError.response?.data?.message || uploadError.message}`);
+  try {
+    const deploy = await netlifyService.restoreDeploy(req.params.siteId, deployId, netlifyToken);
+
+    res.json({
+      success: true,
+      message: 'Site rolled back successfully',
+      data: {
+        deployId: deploy.id,
+        state: deploy.state,
+        publishedAt: deploy.published_at || null
       }
-    } else {
-      logger.info('No file upload required (file already exists on Netlify)');
-    }
+    });
 
-    // Poll deployment status until ready
-    logger.info('Waiting for deployment to complete...');
-    let currentDeployState = deployState || 'building';
-    const maxAttempts = 60;
-    let attempts = 0;
-    const statusesToWaitFor = ['building', 'processing', 'uploading', 'prepared', 'preparing'];
+  } catch (error) {
+    logger.error('Error rolling back site', error);
+    res.status(error.response?.status || 500).json(buildProviderErrorResponse(error, 'Rollback failed'));
+  }
+});
 
-    while (statusesToWaitFor.includes(currentDeployState) && attempts < maxAttempts) {
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      attempts++;
+/**
+ * GET /api/netlify-sites/:siteId/status
+ * State of a deploy of a site (`?deployId=`), or of the deploy that is live when none is given.
+ * The user's Netlify token is sent as a Bearer token in the Authorization header.
+ */
+router.get('/netlify-sites/:siteId/status', async (req, res) => {
+  const netlifyToken = (req.get('Authorization') || '').replace(/^Bearer\s+/i, '');
 
-      try {
-        const statusResponse = await axios.get(
-          `${NETLIFY_API}/sites/${siteId}/deploys/${deployId}`,
-          {
-            headers: { 'Authorization': `Bearer ${netlifyToken}` },
-            timeout: 10000
-          }
-        );
-
-        currentDeployState = statusResponse.data.state;
-        const progress = `(${Math.round((Date.now() - startTime) / 1000)}s elapsed)`;
-
-        logger.debug(`Deploy status check ${attempts}/60: ${currentDeployState} ${progress}`);
-
-        if (['error', 'crashed', 'cancelled'].includes(currentDeployState)) {
-          logger.error(`Deploy failed with status: ${currentDeployState}`);
-          break;
-        }
+  if (!netlifyToken) {
+    return res.status(401).json({
+      success: false,
+      error: 'Netlify token is required'
+    });
+  }
 
-      } catch (statusError) {
-        logger.warn(`Status check ${attempts} failed: ${statusError.message}`);
-        if (attempts >= maxAttempts - 5) break;
+  try {
+    const { siteId } = req.params;
+    const site = await netlifyService.getSiteInfo(siteId, netlifyToken);
+    const deployId = req.query.deployId || site.published_deploy?.id;
+    const deploy = deployId
+      ? (await netlifyService.checkDeploymentStatus(siteId, deployId, netlifyToken)).data
+      : null;
+
+    res.json({
+      success: true,
+      data: {
+        siteId,
+        url: site.ssl_url || site.url,
+        deployId: deploy?.id || null,
+        state: deploy?.state || 'new',
+        isLive: !!deploy && deploy.id === site.published_deploy?.id,
+        publishedAt: deploy?.published_at || null,
+        errorMessage: deploy?.error_message || null
       }
-    }
+    });
 
-    // Get final site information
-    let finalSiteData;
-    try {
-      const finalSiteResponse = await axios.get(
-        `${NETLIFY_API}/sites/${siteId}`,
-        { headers: { 'Authorization': `Bearer ${netlifyToken}` } }
-      );
-      finalSiteData = finalSiteResponse.data;
-    } catch (siteError) {
-      logger.warn('Could not fetch final site data', siteError);
-      finalSiteData = siteResponse.data;
-    }
+  } catch (error) {
+    logger.error('Error checking deployment status', error);
+    res.status(error.response?.status || 500).json(buildProviderErrorResponse(error, 'Failed to check deployment status'));
+  }
+});
 
-    const finalUrl = finalSiteData.ssl_url || finalSiteData.url;
-    const totalTime = Math.round((Date.now() - startTime) / 1000);
+/**
+ * DELETE /api/netlify-sites/:siteId?email=
+ * Take a site offline by deleting it on Netlify. The tracked deployment is kept and marked as offline.
+ */
+router.delete('/netlify-sites/:siteId', async (req, res) => {
+  const netlifyToken = (req.get('Authorization') || '').replace(/^Bearer\s+/i, '');
+  const { email } = req.query;
 
-    logger.success(`Deployment completed in ${totalTime}s`);
-    logger.info(`Live URL: ${finalUrl}`);
-    logger.info(`Final status: ${currentDeployState}`);
+  if (!netlifyToken || !email) {
+    return res.status(400).json({
+      success: false,
+      error: 'Netlify token and email are required'
+    });
+  }
 
-    // STEP 4: Track deployment in Google Sheets (Portfolio Details)
-    if (userEmail && finalUrl && currentDeployState === 'ready') {
-      try {
-        await trackPortfolioDeployment({
-          email: userEmail,
-          projectIds,
-          finalUrl,
-          tier,
-        });
-      } catch (trackingError) {
-        logger.error('Error tracking portfolio deployment', trackingError);
-        // Don't fail the entire deployment if tracking fails
+  try {
+    const { siteId } = req.params;
+    await netlifyService.deleteSite(siteId, netlifyToken);
+
+    try {
+      const trackedSite = await findTrackedSite({ email, siteId });
+      if (trackedSite) {
+        await trackSiteOffline({ rowIndex: trackedSite.rowIndex });
       }
+    } catch (trackingError) {
+      logger.error('Error tracking site taken offline', trackingError);
+      // The site is gone either way
     }
 
-    return res.json({
+    res.json({
       success: true,
-      deployment: {
-        url: finalUrl,
-        siteId: siteId,
-        deployId: deployId,
-        status: currentDeployState,
-        siteName: siteName,
-        deployTime: totalTime,
-        ready: currentDeployState === 'ready'
-      },
-      tier: tier,
-      message: currentDeployState === 'ready' ?
-        'Portfolio deployed successfully!' :
-        `Portfolio deployed with status: ${currentDeployState}`
+      message: 'Site taken offline'
     });
 
   } catch (error) {
-    const totalTime = Math.round((Date.now() - startTime) / 1000);
-    logger.error(`Deployment failed after ${totalTime}s`, error);
+    logger.error('Error taking site offline', error);
+    res.status(error.response?.status || 500).json(buildProviderErrorResponse(error, 'Failed to take site offline'));
+  }
+});
 
-    // Clean up failed site
-    if (siteId) {
-      try {
-        logger.info('Attempting to clean up failed site...');
-        await axios.delete(`${NETLIFY_API}/sites/${siteId}`, {
-          headers: { 'Authorization': `Bearer ${netlifyToken}` }
-        });
-        logger.success('Failed site cleaned up successfully');
-      } catch (cleanupError) {
-        logger.warn('Could not clean up failed site', cleanupError);
-      }
+/**
+ * GET /api/deployments?email=
+ * The user's deployed sites from the Portfolio Details sheet, most recently deployed first
+ */
+router.get('/deployments', async (req, res) => {
+  const { email } = req.query;
+
+  if (!email) {
+    return res.status(400).json({
+      success: false,
+      error: 'Email is required'
+    });
+  }
+
+  try {
+    const sites = await listTrackedSites(email);
+
+    res.json({
+      success: true,
+      data: sites
+    });
+
+  } catch (error) {
+    logger.error('Error listing deployments', error);
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: 'Failed to load deployments',
+      details: process.env.NODE_ENV === 'development' ? error.message : 'Please try again later'
+    });
+  }
+});
+
+/**
+ * GET /api/deployments/:siteId/content?email=&provider=
+ * A deployed site's pages as they are live, so it can be edited and redeployed without a draft
+ */
+router.get('/deployments/:siteId/content', async (req, res) => {
+  const { email, provider = DEFAULT_PROVIDER } = req.query;
+
+  if (!email) {
+    return res.status(400).json({
+      success: false,
+      error: 'Email is required'
+    });
+  }
+
+  try {
+    const site = await findTrackedSite({ email, siteId: req.params.siteId, provider });
+    if (!site) {
+      return res.status(404).json({
+        success: false,
+        error: 'Site not found',
+        details: 'This site is not one of your deployments'
+      });
     }
 
-    const errorResponse = {
+    // Hosts redirect the site's own URL to a custom domain once it is live
+    const content = await siteBundler.fetchSite(site.url);
+
+    res.json({
+      success: true,
+      data: content
+    });
+
+  } catch (error) {
+    logger.error('Error reading live site', error);
+    res.status(502).json({
       success: false,
-      error: 'Deployment failed',
-      details: error.message,
-      deployTime: totalTime
+      error: 'Failed to load the live site',
+      details: process.env.NODE_ENV === 'development' ? error.message : 'Make sure the site is online and try again'
+    });
+  }
+});
+
+/**
+ * Provider, credentials, site and domain of a custom domain request
+ * @returns {Object} - { provider, credentials, siteId, domain }, or { error } with the 400 response to send
+ */
+const parseCustomDomainRequest = ({ provider: providerId = DEFAULT_PROVIDER, credentials = {}, siteId, domain }) => {
+  const provider = getProvider(providerId);
+  if (!provider || !provider.supportsCustomDomains) {
+    return {
+      error: {
+        success: false,
+        error: 'Custom domains are not supported',
+        details: `Sites on ${provider?.name || providerId} cannot be connected to a custom domain`
+      }
     };
+  }
 
-    // Handle specific error cases
-    if (error.response?.data) {
-      if (error.response.data.error) {
-        errorResponse.error = error.response.data.error;
+  const normalizedDomain = String(domain || '').trim().toLowerCase()
+    .replace(/^https?:\/\//, '')
+    .replace(/[/.]+$/, '');
+  if (!siteId || !DOMAIN_PATTERN.test(normalizedDomain)) {
+    return {
+      error: {
+        success: false,
+        error: 'Site ID and a valid domain are required',
+        details: 'Enter a domain like www.example.com'
       }
-      if (error.response.data.message) {
-        errorResponse.details = error.response.data.message;
+    };
+  }
+
+  const missingCredentials = provider.getMissingCredentials(credentials);
+  if (missingCredentials.length > 0) {
+    return {
+      error: {
+        success: false,
+        error: `Missing ${provider.name} credentials`,
+        details: `${missingCredentials.join(', ')} required`
       }
+    };
+  }
+
+  return { provider, credentials, siteId, domain: normalizedDomain };
+};
+
+/**
+ * POST /api/custom-domains
+ * Connect a custom domain to a deployed site (Student and Pro tiers).
+ * Responds with the DNS records to add and where verification and the certificate stand.
+ */
+router.post('/custom-domains', async (req, res) => {
+  const { userEmail } = req.body;
 
-      if (error.response.status === 401) {
-        errorResponse.error = 'Invalid Netlify token';
-        errorResponse.details = 'Please check your Netlify Personal Access Token';
-      } else if (error.response.status === 403) {
-        errorResponse.error = 'Insufficient permissions';
-        errorResponse.details = 'Your Netlify token does not have permission to create sites';
-      } else if (error.response.status === 422) {
-        errorResponse.error = 'Invalid request data';
-        errorResponse.details = 'The HTML content or site name may be invalid';
+  if (!userEmail) {
+    return res.status(400).json({
+      success: false,
+      error: 'User email is required'
+    });
+  }
+
+  const request = parseCustomDomainRequest(req.body);
+  if (request.error) {
+    return res.status(400).json(request.error);
+  }
+  const { provider, credentials, siteId, domain } = request;
+
+  try {
+    const { tier } = await checkUserLimits(req, userEmail);
+    if (!TIER_LIMITS[tier]?.features.includes('custom-domain')) {
+      logger.warn(`Custom domain blocked for ${userEmail} (${tier} tier)`);
+      return res.status(403).json({
+        success: false,
+        error: 'CUSTOM_DOMAIN_BLOCKED',
+        paywall: true,
+        details: 'Custom domains are available on the Student and Pro tiers. Please upgrade to use your own domain.',
+        tier,
+        upgradeRequired: 'Student'
+      });
+    }
+
+    logger.info(`Connecting ${domain} to ${provider.name} site ${siteId}`);
+    const customDomain = await provider.addCustomDomain(siteId, domain, credentials);
+
+    try {
+      const trackedSite = await findTrackedSite({ email: userEmail, siteId, provider: provider.id });
+      if (trackedSite) {
+        await trackCustomDomain({ rowIndex: trackedSite.rowIndex, domain });
       }
+    } catch (trackingError) {
+      logger.error('Error tracking custom domain', trackingError);
+      // The domain is connected either way
     }
 
-    const statusCode = error.response?.status || 500;
-    return res.status(statusCode).json(errorResponse);
-  }
-};
+    res.json({
+      success: true,
+      data: customDomain
+    });
 
-router.post('/deploy-folder-to-netlify-with-paywall', deployWithPaywallHandler);
+  } catch (error) {
+    logger.error(`Error connecting custom domain ${domain}`, error);
+    res.status(error.response?.status || 500).json(
+      buildProviderErrorResponse(error, 'Failed to connect domain', provider.name, 'The domain may be invalid or in use by another site')
+    );
+  }
+});
 
 /**
- * POST /api/deploy-folder-to-netlify
- * Legacy endpoint that redirects to the paywall-enabled version
+ * POST /api/custom-domains/status
+ * Where DNS verification and the certificate of a connected custom domain stand; the Deployment page polls this
  */
-router.post('/deploy-folder-to-netlify', async (req, res) => {
-  return deployWithPaywallHandler(req, res);
+router.post('/custom-domains/status', async (req, res) => {
+  const request = parseCustomDomainRequest(req.body);
+  if (request.error) {
+    return res.status(400).json(request.error);
+  }
+  const { provider, credentials, siteId, domain } = request;
+
+  try {
+    const customDomain = await provider.getCustomDomain(siteId, domain, credentials);
+
+    res.json({
+      success: true,
+      data: customDomain
+    });
+
+  } catch (error) {
+    logger.error(`Error checking custom domain ${domain}`, error);
+    res.status(error.response?.status || 500).json(
+      buildProviderErrorResponse(error, 'Failed to check domain', provider.name, 'The domain may be invalid or in use by another site')
+    );
+  }
 });
 
 /**
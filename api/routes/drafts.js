@@ -60,7 +60,8 @@ router.post('/save-draft', async (req, res) => {
     res.json({
       success: true,
       message: 'Draft saved successfully',
-      timestamp: result.timestamp
+      timestamp: result.timestamp,
+      draftId: result.draftId
     });
 
   } catch (error) {
@@ -7,19 +7,31 @@ const express = require('express');
 const path = require('path');
 const fs = require('fs-extra');
 const Anthropic = require('@anthropic-ai/sdk');
+const { waitUntil } = require('@vercel/functions');
 const JSZip = require('jszip');
 const PromptGenerator = require('../utils/promptGenerator');
 const ImageParser = require('../utils/imageParser');
 const htmlValidator = require('../utils/htmlValidator');
+const htmlFragments = require('../utils/htmlFragments');
 const qualityAnalyzer = require('../utils/validators/qualityAnalyzer');
 const { validatePortfolioData } = require('../middleware/portfolioMiddleware');
 const { GoogleSheetsTracker } = require('../utils/googleSheets');
 const {
   processContinuationRequest,
+  processMissingSectionsRequest,
   processAutoContinuation,
   getProjectImagesFromSheets,
   updateHtmlWithProjectImages
 } = require('../helpers/portfolioHelpers');
+const { createProgressStream, teeProgress } = require('../helpers/progressStream');
+const { generationJobService } = require('../services/generationJobService');
+const { skeletonRenderer } = require('../services/skeletonRenderer');
+const { customSkeletonService } = require('../services/customSkeletonService');
+const { siteBuilder } = require('../services/siteBuilder');
+const { postService } = require('../services/postService');
+const { getFilesRecursively } = require('../helpers/fileHelpers');
+const themeTokens = require('../utils/themeTokens');
+const mediaVariants = require('../utils/mediaVariants');
 const { Logger } = require('../utils/logger');
 
 const anthropic = new Anthropic({
@@ -35,6 +47,108 @@ const tempDir = process.env.NODE_ENV === 'production' || process.env.VERCEL
 
 fs.ensureDirSync(tempDir);
 
+// Largest element (in characters) we will send for an element-scoped AI edit
+const MAX_SCOPED_FRAGMENT_LENGTH = 40000;
+
+// Token streaming covers this slice of the overall generation progress
+const GENERATION_MAX_TOKENS = 8000;
+const GENERATION_PROGRESS_START = 35;
+const GENERATION_PROGRESS_END = 80;
+// Send the partial HTML preview every time this many new characters arrive
+const PARTIAL_HTML_INTERVAL_CHARS = 1500;
+
+/**
+ * Rewrite a single element with Claude and splice it back into the document.
+ * Only the element and the CSS that applies to it are sent, so the response stays
+ * small and everything outside the element is returned byte-for-byte.
+ */
+const handleScopedAiEdit = async (res, { htmlContent, editRequest, targetElementId }) => {
+  const fragment = htmlFragments.extractFragment(htmlContent, targetElementId);
+  if (!fragment) {
+    return res.status(400).json({
+      success: false,
+      error: 'Element not found',
+      details: `Could not find the selected element (${targetElementId}) in the document`
+    });
+  }
+
+  if (fragment.fragmentHtml.length > MAX_SCOPED_FRAGMENT_LENGTH) {
+    return res.status(400).json({
+      success: false,
+      error: 'Selected element too large',
+      details: 'Select a smaller section, or edit the whole page instead'
+    });
+  }
+
+  const prompt = `You are a web design assistant that helps modify HTML/CSS based on user requests.
+The user selected one <${fragment.tagName}> element of their portfolio and wants the following change applied to it:
+"${editRequest}"
+
+CSS that currently applies to this element (for context, do not return it):
+\`\`\`css
+${fragment.cssContext || '/* no stylesheet rules */'}
+\`\`\`
+
+The selected element:
+\`\`\`html
+${fragment.fragmentHtml}
+\`\`\`
+
+Respond with ONLY the modified element: a single <${fragment.tagName}> root element that replaces the one above.
+Keep its existing classes and ids unless the request requires changing them.
+If new CSS rules are needed, put them in a <style> element as the first child of the root element.
+Do not include any explanations or markdown formatting.`;
+
+  const response = await anthropic.messages.create({
+    model: 'claude-sonnet-4-20250514',
+    max_tokens: 4000,
+    temperature: 0.7,
+    messages: [{ role: 'user', content: prompt }]
+  });
+
+  if (response.stop_reason === 'max_tokens') {
+    return res.json({
+      success: false,
+      error: 'Edit incomplete',
+      details: 'The rewritten element was cut off. Try selecting a smaller section.'
+    });
+  }
+
+  let modifiedFragment = response.content[0].text.trim();
+  if (modifiedFragment.startsWith('```html')) {
+    modifiedFragment = modifiedFragment.replace(/^```html\n/, '').replace(/\n```$/, '');
+  } else if (modifiedFragment.startsWith('```')) {
+    modifiedFragment = modifiedFragment.replace(/^```\n/, '').replace(/\n```$/, '');
+  }
+
+  const fragmentValidation = htmlFragments.validateFragment(modifiedFragment);
+  if (!fragmentValidation.isValid) {
+    logger.warn('Scoped AI edit returned an invalid fragment:', fragmentValidation.issues);
+    return res.json({
+      success: false,
+      error: 'Invalid AI response',
+      details: fragmentValidation.issues.join('; ')
+    });
+  }
+
+  const modifiedHtml = htmlFragments.spliceFragment(htmlContent, fragment, modifiedFragment);
+
+  return res.json({
+    success: true,
+    modifiedHtml,
+    metadata: {
+      processedAt: new Date().toISOString(),
+      request: editRequest,
+      scope: 'element',
+      targetElementId,
+      originalLength: htmlContent.length,
+      modifiedLength: modifiedHtml.length,
+      fragmentLength: modifiedFragment.length,
+      isComplete: true
+    }
+  });
+};
+
 const sheetsTracker = new GoogleSheetsTracker({
   clientEmail: process.env.GOOGLE_SHEETS_CLIENT_EMAIL,
   privateKey: process.env.GOOGLE_SHEETS_PRIVATE_KEY,
@@ -171,7 +285,116 @@ module.exports = ({ upload }) => {
   });
 
 
-  router.post('/generate-portfolio', upload.any(), validatePortfolioData, async (req, res) => {
+  /**
+   * Multi-page sites get a case study page per project and published posts get a blog;
+   * other portfolios are returned as they are
+   */
+  const buildSite = (html, siteMode, portfolioData, completeProjectData, posts = []) => (
+    siteMode === 'multi-page' || posts.length > 0
+      ? siteBuilder.build(html, portfolioData, completeProjectData.projectImages, {
+        caseStudies: siteMode === 'multi-page',
+        posts
+      })
+      : { html, pages: {} }
+  );
+
+  /**
+   * The user's published posts; a portfolio is still generated without its blog if they can't be loaded
+   */
+  const loadPublishedPosts = async (email) => {
+    try {
+      return await postService.listPublished(email);
+    } catch (error) {
+      logger.warn(`Could not load posts for ${email}, generating without a blog: ${error.message}`);
+      return [];
+    }
+  };
+
+  /**
+   * Save a generated portfolio's HTML, and its case study and blog pages, and schedule its cleanup
+   */
+  const savePortfolioHtml = async (portfolioData, html, pages = {}) => {
+    const portfolioId = `${portfolioData.personalInfo.name.replace(/[^a-zA-Z0-9]/g, '_')}_${Date.now()}`;
+    const portfolioFolder = path.join(tempDir, `portfolio_${portfolioId}`);
+    await fs.ensureDir(portfolioFolder);
+    await fs.writeFile(path.join(portfolioFolder, 'index.html'), html);
+
+    for (const [pagePath, pageHtml] of Object.entries(pages)) {
+      await fs.outputFile(path.join(portfolioFolder, pagePath), pageHtml);
+    }
+
+    // Clean up temporary files after 24 hours
+    setTimeout(() => {
+      fs.remove(portfolioFolder).catch(() => {});
+    }, 24 * 60 * 60 * 1000);
+
+    return { portfolioId, portfolioFolder };
+  };
+
+  /**
+   * Render the selected skeleton with the user's data instead of calling Claude.
+   * Used for instant generation and when Claude is unavailable (no API key, rate limited).
+   */
+  const sendRenderedSkeleton = async (stream, { portfolioData, completeProjectData, selectedSkeleton, customSkeleton, siteMode, posts, processingStartTime, reason }) => {
+    logger.info(`🧩 Rendering ${selectedSkeleton} skeleton locally (${reason})...`);
+    stream.progress('rendering', 60, 'Placing your content in the layout');
+
+    const rendered = customSkeleton
+      ? skeletonRenderer.renderTemplate(customSkeleton, portfolioData, completeProjectData.projectImages)
+      : await skeletonRenderer.render(selectedSkeleton, portfolioData, completeProjectData.projectImages);
+    // Built-in skeletons declare the theme tokens and media variants; custom ones may not
+    const themedHtml = mediaVariants.ensureVariants(themeTokens.ensureThemeTokens(rendered.html));
+    const { missingSlots } = rendered;
+    stream.partial(themedHtml);
+
+    const { html, pages } = buildSite(themedHtml, siteMode, portfolioData, completeProjectData, posts);
+
+    stream.progress('saving', 97, 'Saving your portfolio');
+    const { portfolioId, portfolioFolder } = await savePortfolioHtml(portfolioData, html, pages);
+    const processingTimeMs = Date.now() - processingStartTime;
+
+    logger.info(`✅ Skeleton portfolio rendered in ${processingTimeMs}ms`);
+
+    stream.progress('complete', 100, 'Portfolio ready');
+    return stream.send({
+      success: true,
+      portfolio: {
+        html,
+        pages,
+        metadata: {
+          title: `${portfolioData.personalInfo.name} - Portfolio`,
+          overview: portfolioData.personalInfo.bio || `Portfolio of ${portfolioData.personalInfo.name}, ${portfolioData.personalInfo.title}`,
+          generatedAt: new Date().toISOString(),
+          processingTime: processingTimeMs,
+          generationSystem: 'SKELETON_RENDERER',
+          renderReason: reason,
+
+          // Design inputs
+          selectedSkeleton,
+          skeletonUsed: true,
+          missingSlots,
+          siteMode,
+
+          // Project data
+          projectData: completeProjectData,
+          projectCount: completeProjectData.totalProjects || 0,
+          imageCount: completeProjectData.totalImages || 0,
+
+          // File management
+          portfolioId,
+          portfolioFolder
+        }
+      }
+    });
+  };
+
+  /**
+   * Run the full generation pipeline and report through a progress reporter
+   * (an SSE stream from createProgressStream, teed into a job reporter when the generation is recorded).
+   * @param {Object} req - Request with portfolioData, files, body and headers
+   * @param {Object} stream - Reporter with progress, partial, checkpoint and send
+   */
+  const runPortfolioGeneration = async (req, stream) => {
     const processingStartTime = Date.now();
 
     try {
@@ -184,11 +407,36 @@ module.exports = ({ upload }) => {
       const partialHtml = req.body.partialHtml;
       const selectedSkeleton = req.body.selectedSkeleton || portfolioData.selectedSkeleton || 'none';
       const customDesignRequest = req.body.customDesignRequest || portfolioData.customDesignRequest || '';
+      const renderMode = req.body.renderMode || portfolioData.renderMode || 'ai';
+      // 'multi-page' adds a case study page per project to the home page
+      const siteMode = req.body.siteMode || portfolioData.siteMode || 'single-page';
+
+      // Custom skeletons belong to the user who uploaded them
+      let customSkeleton = null;
+      if (customSkeletonService.isCustomId(selectedSkeleton)) {
+        customSkeleton = await customSkeletonService.get(portfolioData.personalInfo?.email, selectedSkeleton)
+          .catch(error => {
+            logger.error(`Failed to load custom skeleton ${selectedSkeleton}:`, error);
+            return null;
+          });
+
+        if (!customSkeleton) {
+          return stream.send({
+            success: false,
+            error: 'Skeleton Not Found',
+            details: 'The selected custom skeleton could not be loaded. Please choose another skeleton.'
+          }, 404);
+        }
+      }
+
+      const canRenderLocally = !isContinuation && (!!customSkeleton || skeletonRenderer.supports(selectedSkeleton));
 
       logger.info(`📋 Generation Parameters:
       - User: ${portfolioData.personalInfo?.name || 'Unknown'}
       - Selected Skeleton: ${selectedSkeleton}
       - Custom Design Request: ${customDesignRequest ? 'Yes' : 'No'}
+      - Render Mode: ${renderMode}
+      - Site Mode: ${siteMode}
       - Total Files: ${files.length}
       - Is Continuation: ${isContinuation}`);
 
@@ -226,6 +474,7 @@ module.exports = ({ upload }) => {
 
       // STEP 1: Load complete project data from Google Sheets
       logger.info('📊 Loading complete project data from Google Sheets...');
+      stream.progress('project-data', 5, 'Loading your projects');
       const completeProjectData = await getProjectImagesFromSheets(portfolioData.personalInfo.email);
 
       if (!completeProjectData || !completeProjectData.projectImages) {
@@ -235,15 +484,34 @@ module.exports = ({ upload }) => {
         completeProjectData.totalImages = 0;
       }
 
+      const posts = await loadPublishedPosts(portfolioData.personalInfo.email);
+
       logger.info(`✅ Project Data Loaded:
       - Total Projects: ${completeProjectData.totalProjects || 0}
-      - Total Images: ${completeProjectData.totalImages || 0}`);
+      - Total Images: ${completeProjectData.totalImages || 0}
+      - Published Posts: ${posts.length}`);
+
+      // Instant mode: drop the user's data into the skeleton without calling Claude
+      if (renderMode === 'instant') {
+        if (!canRenderLocally) {
+          return stream.send({
+            success: false,
+            error: 'Instant Generation Unavailable',
+            details: 'Instant generation needs a skeleton to be selected'
+          }, 400);
+        }
+
+        return await sendRenderedSkeleton(stream, {
+          portfolioData, completeProjectData, selectedSkeleton, customSkeleton, siteMode, posts, processingStartTime, reason: 'instant'
+        });
+      }
 
       // STEP 2: Run Comprehensive Analysis (only if not continuation)
       let comprehensiveAnalysis = null;
 
       if (!isContinuation) {
         logger.info('🔍 Running Comprehensive Analysis...');
+        stream.progress('analysis', 10, 'Analyzing your projects and style');
 
         try {
           // Enhanced analysis with all inputs
@@ -255,7 +523,8 @@ module.exports = ({ upload }) => {
               selectedSkeleton,
               customDesignRequest,
               hasProjectImages: projectImageFiles.length > 0,
-              userAgent: req.headers['user-agent'] || 'unknown'
+              userAgent: req.headers['user-agent'] || 'unknown',
+              onPhase: (phase, message) => stream.progress('analysis', 10 + phase * 4, message, { phase })
             }
           );
 
@@ -266,6 +535,14 @@ module.exports = ({ upload }) => {
           - Content Strategy: ${comprehensiveAnalysis.analysisLevels?.contentQuality?.strategy || 'unknown'}
           - Industry Focus: ${comprehensiveAnalysis.analysisLevels?.industryIntelligence?.detectedIndustry || 'unknown'}`);
 
+          stream.checkpoint('analysis', {
+            systemStatus: comprehensiveAnalysis.systemStatus,
+            overallConfidence: comprehensiveAnalysis.overallConfidence,
+            visualStyle: comprehensiveAnalysis.analysisLevels?.visualIntelligence?.visualDNA?.category,
+            contentStrategy: comprehensiveAnalysis.analysisLevels?.contentQuality?.strategy,
+            industryFocus: comprehensiveAnalysis.analysisLevels?.industryIntelligence?.detectedIndustry
+          });
+
           // Log detailed analysis results
           if (comprehensiveAnalysis.analysisLevels?.visualIntelligence) {
             const visual = comprehensiveAnalysis.analysisLevels.visualIntelligence;
@@ -290,6 +567,7 @@ module.exports = ({ upload }) => {
       // STEP 3: Handle continuation requests
       if (isContinuation && partialHtml) {
         logger.info('🔄 Processing continuation request...');
+        stream.progress('continuation', 40, 'Completing unfinished sections');
 
         try {
           const continuationResult = await processContinuationRequest(
@@ -304,7 +582,7 @@ module.exports = ({ upload }) => {
 
           if (continuationResult.success) {
             logger.info('✅ Continuation successful');
-            return res.json(continuationResult);
+            return stream.send(continuationResult);
           } else {
             logger.info('⚠️ Continuation failed, proceeding with fresh generation');
           }
@@ -316,6 +594,7 @@ module.exports = ({ upload }) => {
 
   // STEP 4: Generate Enhanced Anthropic Messages (FIXED VERSION)
   logger.info('🤖 Generating enhanced Anthropic messages...');
+  stream.progress('prompt', 30, 'Designing your layout');
 
   let anthropicMessages;
   try {
@@ -327,6 +606,7 @@ module.exports = ({ upload }) => {
       moodboardFiles, // Pass raw files, let the generator handle processing safely
       {
         selectedSkeleton,
+        customSkeleton,
         customDesignRequest,
         hasProjectImages: projectImageFiles.length > 0,
         systemStatus: comprehensiveAnalysis?.systemStatus || 'BASIC'
@@ -365,19 +645,56 @@ module.exports = ({ upload }) => {
     }];
   }
 
-      // STEP 5: Call Anthropic API
+      // STEP 5: Call Anthropic API (the skeleton renderer stands in when Claude is unavailable)
       if (!process.env.ANTHROPIC_API_KEY) {
+        if (canRenderLocally) {
+          return await sendRenderedSkeleton(stream, {
+            portfolioData, completeProjectData, selectedSkeleton, customSkeleton, siteMode, posts, processingStartTime, reason: 'missing-api-key'
+          });
+        }
         throw new Error('ANTHROPIC_API_KEY not configured');
       }
 
       logger.info('🤖 Sending request to Claude...');
-      const response = await anthropic.messages.create({
+      stream.progress('generating', GENERATION_PROGRESS_START, 'Writing your portfolio');
+
+      const generation = anthropic.messages.stream({
         model: 'claude-sonnet-4-20250514',
-        max_tokens: 8000,
+        max_tokens: GENERATION_MAX_TOKENS,
         temperature: 0.7,
         messages: anthropicMessages
       });
 
+      if (stream.enabled) {
+        let streamedText = '';
+        let lastPartialLength = 0;
+
+        generation.on('text', (text) => {
+          streamedText += text;
+          if (streamedText.length - lastPartialLength < PARTIAL_HTML_INTERVAL_CHARS) return;
+          lastPartialLength = streamedText.length;
+
+          // Roughly four characters per token
+          const tokenShare = Math.min(streamedText.length / 4 / GENERATION_MAX_TOKENS, 1);
+          const percent = GENERATION_PROGRESS_START + tokenShare * (GENERATION_PROGRESS_END - GENERATION_PROGRESS_START);
+          stream.progress('generating', percent, 'Writing your portfolio', { characters: streamedText.length });
+          stream.partial(streamedText.replace(/^```(?:html)?\n/, ''));
+        });
+      }
+
+      let response;
+      try {
+        response = await generation.finalMessage();
+      } catch (generationError) {
+        const isRateLimited = generationError.status === 429 || /rate.?limit/i.test(generationError.message || '');
+        if (!isRateLimited || !canRenderLocally) throw generationError;
+
+        logger.warn('⚠️ Claude is rate limited, falling back to the skeleton renderer');
+        return await sendRenderedSkeleton(stream, {
+          portfolioData, completeProjectData, selectedSkeleton, customSkeleton, siteMode, posts, processingStartTime, reason: 'rate-limited'
+        });
+      }
+
       // STEP 6: Process HTML response
       let generatedHTML = response.content[0].text.trim();
 
@@ -392,13 +709,16 @@ module.exports = ({ upload }) => {
 
       // STEP 7: Update HTML with project images
       logger.info('🖼️ Updating HTML with project images...');
+      stream.progress('images', 82, 'Placing your project images');
       const htmlWithImages = updateHtmlWithProjectImages(generatedHTML, completeProjectData);
 
       if (htmlWithImages !== generatedHTML) {
         logger.info('✅ HTML successfully updated with project images');
       }
+      stream.partial(htmlWithImages);
 
       // STEP 8: Validate HTML completeness
+      stream.progress('validation', 85, 'Checking the generated page');
       const validation = htmlValidator.validateCompleteness(htmlWithImages);
 
       logger.info(`🔍 HTML Validation:
@@ -409,6 +729,9 @@ module.exports = ({ upload }) => {
       // STEP 9: Handle incomplete generation with auto-continuation
       if (!validation.isComplete && !isContinuation && validation.canContinue) {
         logger.info('🔄 Generation incomplete, attempting auto-continuation...');
+        stream.progress('continuation', 87, 'Completing unfinished sections');
+
+        const continuationAttempts = [];
 
         try {
         const autoContinuationResult = await processAutoContinuation(
@@ -419,19 +742,29 @@ module.exports = ({ upload }) => {
           comprehensiveAnalysis,
           selectedSkeleton,
             customDesignRequest,
-            1 // First attempt
+            1, // First attempt
+            ({ attempt, html, validation: attemptValidation }) => {
+              continuationAttempts.push({
+                attempt,
+                isComplete: attemptValidation.isComplete,
+                estimatedCompletion: attemptValidation.estimatedCompletion,
+                completedAt: new Date().toISOString()
+              });
+              stream.checkpoint('continuationAttempts', continuationAttempts);
+              stream.partial(html);
+            }
           );
 
           if (autoContinuationResult && autoContinuationResult.success) {
             logger.info('✅ Auto-continuation successful');
-            return res.json(autoContinuationResult);
+            return stream.send(autoContinuationResult);
           }
         } catch (autoError) {
           logger.error('❌ Auto-continuation failed:', autoError);
         }
 
         // Return incomplete response if auto-continuation fails
-        return res.json({
+        return stream.send({
           success: false,
           incomplete: true,
           partialHtml: htmlWithImages,
@@ -453,15 +786,21 @@ module.exports = ({ upload }) => {
         });
       }
 
+      // Preview's theme panel swaps the --theme-* tokens, so every portfolio must declare them,
+      // and every portfolio ships its colour scheme and reduced motion variants
+      const themePalettes = moodboardFiles.length > 0 ? themeTokens.buildPalettes(comprehensiveAnalysis) : [];
+      const themedHTML = mediaVariants.ensureVariants(themeTokens.ensureThemeTokens(htmlWithImages, themePalettes[0]?.theme));
+
       // STEP 10: Apply quality validation and auto-fixes
-      let finalHTML = htmlWithImages;
+      let finalHTML = themedHTML;
       let validationResults = null;
       let autoFixApplied = false;
 
       try {
         logger.info('🔍 Running quality validation...');
+        stream.progress('quality', 90, 'Reviewing quality');
         validationResults = await qualityAnalyzer.validatePortfolio(
-          htmlWithImages,
+          themedHTML,
           portfolioData,
           completeProjectData
         );
@@ -470,8 +809,9 @@ module.exports = ({ upload }) => {
 
         if (validationResults.overall.score < 85) {
           logger.info('🔧 Applying auto-fixes...');
+          stream.progress('auto-fix', 93, 'Applying final touches');
           const autoFixResult = await qualityAnalyzer.applyAutoFixes(
-            htmlWithImages,
+            themedHTML,
             validationResults,
             portfolioData,
             completeProjectData
@@ -511,27 +851,29 @@ module.exports = ({ upload }) => {
         throw new Error('Generated content does not appear to be valid HTML');
       }
 
-      // STEP 12: Save portfolio files
-      const portfolioId = `${portfolioData.personalInfo.name.replace(/[^a-zA-Z0-9]/g, '_')}_${Date.now()}`;
-      const portfolioFolder = path.join(tempDir, `portfolio_${portfolioId}`);
-      await fs.ensureDir(portfolioFolder);
+      // STEP 12: Build the case study and blog pages and save the portfolio files
+      const site = buildSite(finalHTML, siteMode, portfolioData, completeProjectData, posts);
+      finalHTML = site.html;
 
-      const htmlFilePath = path.join(portfolioFolder, 'index.html');
-      await fs.writeFile(htmlFilePath, finalHTML);
+      stream.progress('saving', 97, 'Saving your portfolio');
+      const { portfolioId, portfolioFolder } = await savePortfolioHtml(portfolioData, finalHTML, site.pages);
 
       const processingTimeMs = Date.now() - processingStartTime;
 
       logger.info(`✅ Portfolio generation successful!
       - Processing time: ${processingTimeMs}ms
       - Final HTML length: ${finalHTML.length} characters
+      - Extra pages: ${Object.keys(site.pages).length}
       - Quality score: ${validationResults?.overall?.score || 'unknown'}
       - Auto-fixes applied: ${autoFixApplied}`);
 
       // STEP 13: Return success response
-      res.json({
+      stream.progress('complete', 100, 'Portfolio ready');
+      stream.send({
         success: true,
         portfolio: {
           html: finalHTML,
+          pages: site.pages,
           metadata: {
             title: `${portfolioData.personalInfo.name} - Portfolio`,
             overview: portfolioData.personalInfo.bio || `Portfolio of ${portfolioData.personalInfo.name}, ${portfolioData.personalInfo.title}`,
@@ -544,7 +886,9 @@ module.exports = ({ upload }) => {
             customDesignRequest: customDesignRequest || null,
             hasCustomRequest: !!customDesignRequest,
             skeletonUsed: selectedSkeleton !== 'none',
+            siteMode,
             moodboardImagesUsed: moodboardFiles.length,
+            themePalettes,
 
             // Project data
             projectData: completeProjectData,
@@ -578,11 +922,6 @@ module.exports = ({ upload }) => {
         }
       });
 
-      // Clean up temporary files after 24 hours
-      setTimeout(() => {
-        fs.remove(portfolioFolder).catch(() => {});
-      }, 24 * 60 * 60 * 1000);
-
     } catch (error) {
       logger.error('❌ Portfolio generation error:', error);
 
@@ -590,43 +929,221 @@ module.exports = ({ upload }) => {
 
       // Enhanced error handling with specific error types
       if (error.message && error.message.includes('API key')) {
-        return res.status(500).json({
+        return stream.send({
           success: false,
           error: 'API Configuration Error',
           details: 'Anthropic API key is not configured properly',
           processingTime: processingTimeMs
-        });
+        }, 500);
       }
 
       if (error.message && error.message.includes('rate limit')) {
-        return res.status(429).json({
+        return stream.send({
           success: false,
           error: 'Rate Limit Exceeded',
           details: 'API rate limit exceeded. Please try again later.',
           processingTime: processingTimeMs
-        });
+        }, 429);
       }
 
       if (error.message && error.message.includes('max_tokens')) {
-        return res.status(400).json({
+        return stream.send({
           success: false,
           error: 'Content Too Large',
           details: 'The portfolio content is too large to process. Try reducing the number of projects or images.',
           processingTime: processingTimeMs
-        });
+        }, 400);
       }
 
-      res.status(500).json({
+      stream.send({
         success: false,
         error: 'Portfolio Generation Failed',
         details: process.env.NODE_ENV === 'development' ? error.message : 'An unexpected error occurred during portfolio generation',
         timestamp: new Date().toISOString(),
         processingTime: processingTimeMs,
         errorType: error.name || 'UnknownError'
+      }, 500);
+    }
+  };
+
+  /**
+   * Record a generation as a job, so it shows up on the Dashboard and what it produced can be recovered.
+   * @returns {Promise<Object|null>} - the job, or null when it can't be recorded
+   */
+  const recordGenerationJob = async (req) => {
+    const email = req.portfolioData.personalInfo?.email;
+    if (!email || !generationJobService.isAvailable()) return null;
+
+    try {
+      return await generationJobService.createJob(email, {
+        portfolioData: req.portfolioData,
+        portfolioName: req.body.portfolioName || req.portfolioData.portfolioName
       });
+    } catch (error) {
+      logger.warn(`⚠️ Generation will not be recorded as a job: ${error.message}`);
+      return null;
     }
+  };
+
+  router.post('/generate-portfolio', upload.any(), validatePortfolioData, async (req, res) => {
+    const stream = createProgressStream(req, res);
+    const job = await recordGenerationJob(req);
+
+    if (!job) {
+      return runPortfolioGeneration(req, stream);
+    }
+
+    const reporter = generationJobService.createReporter(job);
+    const generation = runPortfolioGeneration(req, teeProgress(stream, reporter)).then(() => reporter.flush());
+    // On Vercel the function is frozen once the response ends; keep it until the job's last update is stored
+    waitUntil(generation);
+    return generation;
   });
 
+  /**
+   * GET /api/generation-jobs?email=
+   * Recent generation jobs for a user (without HTML)
+   */
+  router.get('/generation-jobs', async (req, res) => {
+    try {
+      const { email } = req.query;
+
+      if (!email) {
+        return res.status(400).json({
+          success: false,
+          error: 'Email is required'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: await generationJobService.listJobs(email)
+      });
+
+    } catch (error) {
+      logger.error('❌ Failed to list generation jobs:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to load generation jobs',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'Please try again later'
+      });
+    }
+  });
+
+  /**
+   * GET /api/generation-jobs/:jobId?email=
+   * Full status of one job, including partial HTML and the result once finished
+   */
+  router.get('/generation-jobs/:jobId', async (req, res) => {
+    try {
+      const job = await generationJobService.getJob(req.params.jobId);
+
+      if (!job || !generationJobService.isOwner(job, req.query.email)) {
+        return res.status(404).json({
+          success: false,
+          error: 'Generation job not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: job
+      });
+
+    } catch (error) {
+      logger.error('❌ Failed to load generation job:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to load generation job',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'Please try again later'
+      });
+    }
+  });
+
+
+  // Completeness report for a partial portfolio (used by the /incomplete recovery page)
+  router.post('/validate-portfolio-html', async (req, res) => {
+    try {
+      const { htmlContent, portfolioData } = req.body;
+
+      if (!htmlContent) {
+        return res.status(400).json({
+          success: false,
+          error: 'HTML content is required'
+        });
+      }
+
+      res.json({
+        success: true,
+        data: {
+          ...htmlValidator.validateCompleteness(htmlContent),
+          missingSections: htmlValidator.detectMissingSections(htmlContent, portfolioData || {})
+        }
+      });
+
+    } catch (error) {
+      logger.error('❌ Portfolio validation error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to validate portfolio',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'Please try again later'
+      });
+    }
+  });
+
+  // Generate only the sections a partial portfolio is missing and add them to the page
+  router.post('/regenerate-missing-sections', async (req, res) => {
+    try {
+      const { partialHtml, portfolioData, sections } = req.body;
+
+      if (!partialHtml || !portfolioData?.personalInfo?.name) {
+        return res.status(400).json({
+          success: false,
+          error: 'Partial HTML and portfolio data are required'
+        });
+      }
+
+      if (!process.env.ANTHROPIC_API_KEY) {
+        return res.status(500).json({
+          success: false,
+          error: 'API Configuration Error',
+          details: 'Anthropic API key is not configured properly'
+        });
+      }
+
+      const missingSections = htmlValidator.detectMissingSections(partialHtml, portfolioData)
+        .filter(section => !Array.isArray(sections) || sections.includes(section.key));
+
+      if (missingSections.length === 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'No missing sections to regenerate'
+        });
+      }
+
+      const completeProjectData = portfolioData.personalInfo.email
+        ? await getProjectImagesFromSheets(portfolioData.personalInfo.email)
+        : { projectImages: [] };
+
+      const result = await processMissingSectionsRequest(
+        anthropic,
+        partialHtml,
+        portfolioData,
+        completeProjectData,
+        missingSections
+      );
+
+      res.status(result.success ? 200 : 500).json(result);
+
+    } catch (error) {
+      logger.error('❌ Missing sections error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to regenerate missing sections',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'Please try again later'
+      });
+    }
+  });
 
   router.post('/download-portfolio', async (req, res) => {
     try {
@@ -650,18 +1167,9 @@ module.exports = ({ upload }) => {
 
       const zip = new JSZip();
 
-      // Read all files in the portfolio folder
-      const files = await fs.readdir(portfolioFolder);
-
-      for (const fileName of files) {
-        const filePath = path.join(portfolioFolder, fileName);
-        const stats = await fs.stat(filePath);
-
-        if (stats.isFile()) {
-          const fileContent = await fs.readFile(filePath);
-          zip.file(fileName, fileContent);
-        }
-      }
+      // Multi-page sites keep their case study pages in subfolders
+      const files = await getFilesRecursively(portfolioFolder);
+      files.forEach(file => zip.file(file.relativePath.slice(1), file.content));
 
       const zipContent = await zip.generateAsync({ type: 'nodebuffer' });
 
@@ -684,7 +1192,7 @@ module.exports = ({ upload }) => {
     logger.info('AI Edit Route Hit:', req.method, req.url);
 
     try {
-      const { htmlContent, editRequest, isContinuation, partialHtml } = req.body;
+      const { htmlContent, editRequest, isContinuation, partialHtml, targetElementId } = req.body;
 
       // Validation
       if (!htmlContent || !editRequest) {
@@ -703,6 +1211,11 @@ module.exports = ({ upload }) => {
         });
       }
 
+      // Element-scoped edit: only the selected element is rewritten
+      if (targetElementId) {
+        return await handleScopedAiEdit(res, { htmlContent, editRequest, targetElementId });
+      }
+
       // Determine if this is a continuation request
       const shouldContinue = isContinuation && partialHtml;
 
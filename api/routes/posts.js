@@ -0,0 +1,220 @@
+/**
+ * Post Routes
+ * Handles users' Markdown blog posts, published with their portfolio
+ */
+
+const express = require('express');
+const router = express.Router();
+const { googleSheetsService } = require('../services/googleSheetsService');
+const { postService } = require('../services/postService');
+const { Logger } = require('../utils/logger');
+
+const logger = new Logger('PostRoutes');
+
+/**
+ * GET /api/posts
+ * Get all posts for a user, drafts included
+ */
+router.get('/posts', async (req, res) => {
+  try {
+    const { email } = req.query;
+
+    if (!email) {
+      return res.status(400).json({
+        success: false,
+        error: 'Email is required'
+      });
+    }
+
+    // Check if Google Sheets service is ready
+    if (!googleSheetsService.isReady()) {
+      return res.status(500).json({
+        success: false,
+        error: 'Google Sheets integration not configured'
+      });
+    }
+
+    const posts = await postService.list(email);
+
+    logger.info(`Retrieved ${posts.length} posts for ${email}`);
+
+    res.json({
+      success: true,
+      data: posts
+    });
+
+  } catch (error) {
+    logger.error('Error fetching posts:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch posts',
+      details: process.env.NODE_ENV === 'development' ? error.message : 'Please try again later'
+    });
+  }
+});
+
+/**
+ * POST /api/posts
+ * Validate and save a new post
+ */
+router.post('/posts', async (req, res) => {
+  try {
+    const { email, title, summary, markdown, status } = req.body;
+
+    if (!email) {
+      return res.status(400).json({
+        success: false,
+        error: 'Email is required'
+      });
+    }
+
+    // Check if Google Sheets service is ready
+    if (!googleSheetsService.isReady()) {
+      return res.status(500).json({
+        success: false,
+        error: 'Google Sheets integration not configured for posts'
+      });
+    }
+
+    const { post, errors, limitError } = await postService.create(email, { title, summary, markdown, status });
+
+    if (limitError) {
+      return res.status(403).json({
+        success: false,
+        error: 'Post limit reached',
+        details: limitError
+      });
+    }
+
+    if (!post) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.join('. ')
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Post saved successfully',
+      data: post
+    });
+
+  } catch (error) {
+    logger.error('Error saving post:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to save post',
+      details: process.env.NODE_ENV === 'development' ? error.message : 'Please try again later'
+    });
+  }
+});
+
+/**
+ * PUT /api/posts/:id
+ * Save changes to one of a user's posts, including publishing and unpublishing it
+ */
+router.put('/posts/:id', async (req, res) => {
+  try {
+    const { email, title, summary, markdown, status } = req.body;
+
+    if (!email) {
+      return res.status(400).json({
+        success: false,
+        error: 'Email is required'
+      });
+    }
+
+    // Check if Google Sheets service is ready
+    if (!googleSheetsService.isReady()) {
+      return res.status(500).json({
+        success: false,
+        error: 'Google Sheets integration not configured'
+      });
+    }
+
+    // Fields left out of the request keep their saved values
+    const fields = Object.fromEntries(
+      Object.entries({ title, summary, markdown, status }).filter(([, value]) => value !== undefined)
+    );
+    const result = await postService.update(email, req.params.id, fields);
+
+    if (!result) {
+      return res.status(404).json({
+        success: false,
+        error: 'Post not found'
+      });
+    }
+
+    if (!result.post) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: result.errors.join('. ')
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Post updated successfully',
+      data: result.post
+    });
+
+  } catch (error) {
+    logger.error('Error updating post:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update post',
+      details: process.env.NODE_ENV === 'development' ? error.message : 'Please try again later'
+    });
+  }
+});
+
+/**
+ * DELETE /api/posts/:id
+ * Delete one of a user's posts
+ */
+router.delete('/posts/:id', async (req, res) => {
+  try {
+    const { email } = req.query;
+
+    if (!email) {
+      return res.status(400).json({
+        success: false,
+        error: 'Email is required'
+      });
+    }
+
+    // Check if Google Sheets service is ready
+    if (!googleSheetsService.isReady()) {
+      return res.status(500).json({
+        success: false,
+        error: 'Google Sheets integration not configured'
+      });
+    }
+
+    const deleted = await postService.remove(email, req.params.id);
+
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: 'Post not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Post deleted successfully'
+    });
+
+  } catch (error) {
+    logger.error('Error deleting post:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete post',
+      details: process.env.NODE_ENV === 'development' ? error.message : 'Please try again later'
+    });
+  }
+});
+
+module.exports = router;
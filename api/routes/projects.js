@@ -902,5 +902,64 @@ module.exports = (upload) => {
     }
   });
 
+  /**
+   * POST /api/upload-portfolio-image
+   * Upload a single replacement image from the Preview image editor
+   */
+  router.post('/upload-portfolio-image', upload.single('image'), async (req, res) => {
+    try {
+      const { userEmail } = req.body;
+
+      if (!req.file) {
+        return res.status(400).json({
+          success: false,
+          error: 'An image file is required'
+        });
+      }
+
+      if (!userEmail) {
+        return res.status(400).json({
+          success: false,
+          error: 'User email is required'
+        });
+      }
+
+      if (!cloudinaryUploader.initialized) {
+        return res.status(503).json({
+          success: false,
+          error: 'Image hosting not configured',
+          details: 'Cloudinary credentials are required to upload images from the editor'
+        });
+      }
+
+      const folderPath = `portfolio_assets/${userEmail.replace(/[^a-zA-Z0-9]/g, '_')}`;
+      const uploadResult = await cloudinaryUploader.uploadImage(req.file.buffer, {
+        folder: folderPath,
+        tags: ['portfolio', 'editor', userEmail]
+      });
+
+      logger.success(`Uploaded editor image for ${userEmail}: ${uploadResult.secure_url}`);
+
+      res.json({
+        success: true,
+        data: {
+          url: uploadResult.secure_url,
+          publicId: uploadResult.public_id,
+          width: uploadResult.width,
+          height: uploadResult.height,
+          format: uploadResult.format
+        }
+      });
+
+    } catch (error) {
+      logger.error('Error uploading portfolio image:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to upload image',
+        details: process.env.NODE_ENV === 'development' ? error.message : 'Please try again later'
+      });
+    }
+  });
+
   return router;
 };
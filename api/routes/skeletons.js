@@ -0,0 +1,189 @@
+/**
+ * Skeleton Routes
+ * Handles Pro users' custom skeleton uploads
+ */
+
+const express = require('express');
+const router = express.Router();
+const { googleSheetsService } = require('../services/googleSheetsService');
+const { customSkeletonService } = require('../services/customSkeletonService');
+const { Logger } = require('../utils/logger');
+
+const logger = new Logger('SkeletonRoutes');
+
+/**
+ * Look up the user's tier; custom skeleton uploads are a Pro feature
+ */
+const getUserTier = async (req, email) => {
+  const limitsCheckResponse = await fetch(
+    `${req.protocol}://${req.get('host')}/api/check-user-limits?email=${encodeURIComponent(email)}`
+  );
+
+  if (!limitsCheckResponse.ok) return null;
+
+  const limitsData = await limitsCheckResponse.json();
+  return limitsData.success ? limitsData.data.tier : null;
+};
+
+/**
+ * POST /api/custom-skeletons
+ * Validate and save a custom skeleton for a Pro user
+ */
+router.post('/custom-skeletons', async (req, res) => {
+  try {
+    const { email, name, description, html } = req.body;
+
+    if (!email || !name || !name.trim() || !html) {
+      return res.status(400).json({
+        success: false,
+        error: 'Email, name and skeleton HTML are required'
+      });
+    }
+
+    const tier = await getUserTier(req, email);
+    if (tier !== 'Pro') {
+      return res.status(403).json({
+        success: false,
+        error: 'Pro feature',
+        details: 'Custom skeletons are available on the Pro plan. Please upgrade to upload your own skeleton.',
+        tier
+      });
+    }
+
+    // Check if Google Sheets service is ready
+    if (!googleSheetsService.isReady()) {
+      return res.status(500).json({
+        success: false,
+        error: 'Google Sheets integration not configured for custom skeletons'
+      });
+    }
+
+    const { skeleton, validation, limitError } = await customSkeletonService.create(email, { name, description, html });
+
+    if (limitError) {
+      return res.status(403).json({
+        success: false,
+        error: 'Skeleton limit reached',
+        details: limitError
+      });
+    }
+
+    if (!skeleton) {
+      logger.warn(`Custom skeleton rejected for ${email}: ${validation.issues.length} issue(s)`);
+      return res.status(422).json({
+        success: false,
+        error: 'Skeleton Validation Failed',
+        details: 'Fix the issues below and upload the skeleton again.',
+        validation
+      });
+    }
+
+    logger.info(`Custom skeleton ${skeleton.id} saved for ${email}`);
+
+    res.json({
+      success: true,
+      message: 'Skeleton saved successfully',
+      data: skeleton,
+      validation
+    });
+
+  } catch (error) {
+    logger.error('Error saving custom skeleton:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to save skeleton',
+      details: process.env.NODE_ENV === 'development' ? error.message : 'Please try again later'
+    });
+  }
+});
+
+/**
+ * GET /api/custom-skeletons
+ * Get all custom skeletons for a user
+ */
+router.get('/custom-skeletons', async (req, res) => {
+  try {
+    const { email } = req.query;
+
+    if (!email) {
+      return res.status(400).json({
+        success: false,
+        error: 'Email is required'
+      });
+    }
+
+    // Check if Google Sheets service is ready
+    if (!googleSheetsService.isReady()) {
+      return res.status(500).json({
+        success: false,
+        error: 'Google Sheets integration not configured'
+      });
+    }
+
+    const skeletons = await customSkeletonService.list(email);
+
+    logger.info(`Retrieved ${skeletons.length} custom skeletons for ${email}`);
+
+    res.json({
+      success: true,
+      data: skeletons
+    });
+
+  } catch (error) {
+    logger.error('Error fetching custom skeletons:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch skeletons',
+      details: process.env.NODE_ENV === 'development' ? error.message : 'Please try again later'
+    });
+  }
+});
+
+/**
+ * DELETE /api/custom-skeletons/:id
+ * Delete one of a user's custom skeletons
+ */
+router.delete('/custom-skeletons/:id', async (req, res) => {
+  try {
+    const { email } = req.query;
+
+    if (!email) {
+      return res.status(400).json({
+        success: false,
+        error: 'Email is required'
+      });
+    }
+
+    // Check if Google Sheets service is ready
+    if (!googleSheetsService.isReady()) {
+      return res.status(500).json({
+        success: false,
+        error: 'Google Sheets integration not configured'
+      });
+    }
+
+    const deleted = await customSkeletonService.remove(email, req.params.id);
+
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: 'Skeleton not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Skeleton deleted successfully'
+    });
+
+  } catch (error) {
+    logger.error('Error deleting custom skeleton:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete skeleton',
+      details: process.env.NODE_ENV === 'development' ? error.message : 'Please try again later'
+    });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,100 @@
+/**
+ * Build check for the built-in skeletons: every id in SKELETON_TEMPLATES needs a complete HTML template
+ * and a manifest whose slots and sections are marked in that template. Templates must also fit the custom
+ * skeleton size limit, so users can upload a skeleton as large as the ones we ship.
+ * Runs before the client build and the API deploy, and only uses Node built-ins.
+ *
+ * Usage: node api/scripts/checkSkeletons.js
+ */
+
+const fs = require('fs');
+const { SKELETON_TEMPLATES, CUSTOM_SKELETON_CONFIG } = require('../config/constants');
+const { getTemplatePath, getManifestPath } = require('../skeletons');
+const htmlValidator = require('../utils/htmlValidator');
+
+const STRUCTURE_FLAGS = ['hasDoctype', 'hasHtmlOpen', 'hasHeadSection', 'hasBodyOpen', 'hasBodyClose', 'hasHtmlClose'];
+
+const hasAttribute = (html, attribute, value) => html.includes(`${attribute}="${value}"`);
+
+const readManifest = (skeletonId, problems) => {
+  const manifestPath = getManifestPath(skeletonId);
+  if (!fs.existsSync(manifestPath)) {
+    problems.push(`${skeletonId}: missing manifest ${manifestPath}`);
+    return null;
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+  } catch (error) {
+    problems.push(`${skeletonId}: manifest is not valid JSON (${error.message})`);
+    return null;
+  }
+};
+
+const checkManifest = (skeletonId, html, manifest, problems) => {
+  if (manifest.id !== skeletonId) {
+    problems.push(`${skeletonId}: manifest id is "${manifest.id}"`);
+  }
+
+  (manifest.slots || []).forEach(slot => {
+    if (!hasAttribute(html, 'data-slot', slot.id)) {
+      problems.push(`${skeletonId}: slot "${slot.id}" is not marked in the template`);
+    }
+
+    (slot.fields || []).forEach(field => {
+      if (!hasAttribute(html, 'data-slot-field', field.id)) {
+        problems.push(`${skeletonId}: field "${slot.id}.${field.id}" is not marked in the template`);
+      }
+    });
+  });
+
+  (manifest.optionalSections || []).forEach(section => {
+    if (!hasAttribute(html, 'data-section', section.id)) {
+      problems.push(`${skeletonId}: section "${section.id}" is not marked in the template`);
+    }
+  });
+};
+
+/**
+ * Check every skeleton in SKELETON_TEMPLATES
+ * @returns {string[]} - Problems found, empty when all skeletons are usable
+ */
+const checkSkeletons = () => {
+  const problems = [];
+
+  Object.values(SKELETON_TEMPLATES).forEach(skeletonId => {
+    const templatePath = getTemplatePath(skeletonId);
+    if (!fs.existsSync(templatePath)) {
+      problems.push(`${skeletonId}: missing template ${templatePath}`);
+      return;
+    }
+
+    const html = fs.readFileSync(templatePath, 'utf8');
+    const { structure } = htmlValidator.validateCompleteness(html);
+    STRUCTURE_FLAGS
+      .filter(flag => !structure[flag])
+      .forEach(flag => problems.push(`${skeletonId}: template is malformed (${flag} failed)`));
+
+    if (html.length > CUSTOM_SKELETON_CONFIG.MAX_HTML_LENGTH) {
+      problems.push(`${skeletonId}: template is ${html.length} characters, over the custom skeleton limit of ${CUSTOM_SKELETON_CONFIG.MAX_HTML_LENGTH}`);
+    }
+
+    const manifest = readManifest(skeletonId, problems);
+    if (manifest) checkManifest(skeletonId, html, manifest, problems);
+  });
+
+  return problems;
+};
+
+if (require.main === module) {
+  const problems = checkSkeletons();
+
+  if (problems.length > 0) {
+    console.error(`❌ Skeleton check failed:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+    process.exit(1);
+  }
+
+  console.log(`✅ ${Object.values(SKELETON_TEMPLATES).length} skeletons checked`);
+}
+
+module.exports = { checkSkeletons };
@@ -0,0 +1,29 @@
+/**
+ * Runs every test script in api/test on its own, so one failing suite doesn't hide the others,
+ * and exits with an error when any of them failed. Only uses Node built-ins.
+ *
+ * Usage: node api/scripts/runTests.js
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { spawnSync } = require('child_process');
+
+const TEST_DIR = path.join(__dirname, '..', 'test');
+
+const testFiles = fs.readdirSync(TEST_DIR)
+  .filter(file => /^test.*\.js$/.test(file))
+  .sort();
+
+const failed = testFiles.filter(file => {
+  console.log(`\n▶ ${file}`);
+  const result = spawnSync(process.execPath, [path.join(TEST_DIR, file)], { stdio: 'inherit' });
+  return result.status !== 0;
+});
+
+if (failed.length > 0) {
+  console.error(`\n❌ ${failed.length} of ${testFiles.length} test files failed:\n${failed.map(file => `  - ${file}`).join('\n')}`);
+  process.exit(1);
+}
+
+console.log(`\n✅ ${testFiles.length} test files passed`);
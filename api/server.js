@@ -22,6 +22,8 @@ const { Logger } = require('./utils/logger');
 const utilityRoutes = require('./routes/utility');
 const userRoutes = require('./routes/users');
 const draftRoutes = require('./routes/drafts');
+const skeletonRoutes = require('./routes/skeletons');
+const postRoutes = require('./routes/posts');
 const deploymentRoutes = require('./routes/deployments');
 const createProjectRoutes = require('./routes/projects');
 const createPortfolioRoutes = require('./routes/portfolios');
@@ -112,6 +114,8 @@ app.use('/temp', express.static(tempDir));
 app.use('/api', utilityRoutes);
 app.use('/api', userRoutes);
 app.use('/api', draftRoutes);
+app.use('/api', skeletonRoutes);
+app.use('/api', postRoutes);
 app.use('/api', deploymentRoutes);
 app.use('/api', createProjectRoutes(upload));
 app.use('/api', createPortfolioRoutes({ upload }));
@@ -0,0 +1,98 @@
+/**
+ * Custom Skeleton Service - Pro users' uploaded skeletons, validated and stored per user
+ */
+
+const crypto = require('crypto');
+const { CUSTOM_SKELETON_CONFIG } = require('../config/constants');
+const { googleSheetsService } = require('./googleSheetsService');
+const skeletonValidator = require('../utils/validators/skeletonValidator');
+const skeletonSlots = require('../utils/skeletonSlots');
+const { Logger } = require('../utils/logger');
+
+const logger = new Logger('CustomSkeletonService');
+
+class CustomSkeletonService {
+  /**
+   * Whether a skeleton id refers to an uploaded skeleton
+   */
+  isCustomId(skeletonId) {
+    return typeof skeletonId === 'string' && skeletonId.startsWith(CUSTOM_SKELETON_CONFIG.ID_PREFIX);
+  }
+
+  /**
+   * Validate skeleton HTML; `valid` is false when it has high severity issues
+   */
+  async validate(html) {
+    return skeletonValidator.validate(html);
+  }
+
+  /**
+   * Validate and store a skeleton for a user
+   * @returns {Promise<Object>} - { skeleton, validation, limitError }; skeleton is null when validation failed or
+   * the user already has as many skeletons as they can keep (limitError says so)
+   */
+  async create(email, { name, description, html }) {
+    const validation = await this.validate(html);
+    if (!validation.valid) {
+      return { skeleton: null, validation };
+    }
+
+    const existing = await googleSheetsService.getUserCustomSkeletons(email);
+    if (existing.length >= CUSTOM_SKELETON_CONFIG.MAX_PER_USER) {
+      return {
+        skeleton: null,
+        validation,
+        limitError: `You can keep up to ${CUSTOM_SKELETON_CONFIG.MAX_PER_USER} custom skeletons. Delete one to upload another.`
+      };
+    }
+
+    const id = `${CUSTOM_SKELETON_CONFIG.ID_PREFIX}${crypto.randomBytes(6).toString('hex')}`;
+    const { manifest } = skeletonSlots.deriveManifest(html, id, {
+      requiredSlots: CUSTOM_SKELETON_CONFIG.REQUIRED_SLOTS,
+      maxProjects: CUSTOM_SKELETON_CONFIG.MAX_PROJECTS
+    });
+
+    const skeleton = await googleSheetsService.saveCustomSkeleton(email, {
+      id,
+      name: name.trim(),
+      description: (description || '').trim(),
+      html,
+      manifest
+    });
+
+    logger.info(`Custom skeleton ${id} created for ${email}`);
+    return { skeleton, validation };
+  }
+
+  /**
+   * A user's custom skeletons, newest first
+   */
+  async list(email) {
+    return googleSheetsService.getUserCustomSkeletons(email);
+  }
+
+  /**
+   * One of a user's custom skeletons, or null
+   */
+  async get(email, skeletonId) {
+    if (!email || !this.isCustomId(skeletonId)) return null;
+
+    const skeletons = await this.list(email);
+    return skeletons.find(skeleton => skeleton.id === skeletonId) || null;
+  }
+
+  /**
+   * Delete one of a user's custom skeletons
+   * @returns {Promise<boolean>} - false when the user has no such skeleton
+   */
+  async remove(email, skeletonId) {
+    return googleSheetsService.deleteCustomSkeleton(email, skeletonId);
+  }
+}
+
+const customSkeletonService = new CustomSkeletonService();
+
+module.exports = {
+  CustomSkeletonService,
+  customSkeletonService,
+};
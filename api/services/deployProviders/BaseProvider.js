@@ -0,0 +1,201 @@
+/**
+ * Base class for deployment providers. A provider publishes a site's file manifest (see services/siteBundler.js)
+ * to one host and reports where it went; subclasses implement deploy(), and addCustomDomain() and
+ * getCustomDomain() when the host serves sites on the user's own domain.
+ */
+
+const axios = require('axios');
+const { DEPLOY_PROVIDER_CONFIG } = require('../../config/constants');
+const { Logger } = require('../../utils/logger');
+
+/**
+ * Wrap a failed provider request, keeping its response so routes can report the status code
+ */
+const providerError = (message, error) => {
+  const data = error.response?.data;
+  const reason = data?.message || data?.error?.message || data?.errors?.[0]?.message || error.message;
+  return Object.assign(new Error(`${message}: ${reason}`), { response: error.response });
+};
+
+class BaseProvider {
+  /**
+   * @param {Object} options
+   * @param {string} options.id - Provider id sent by the client, e.g. 'github-pages'
+   * @param {string} options.name - Display name
+   * @param {Array} options.credentialFields - { key, label, secret, optional, placeholder } the user fills in
+   * @param {string} options.apiBaseUrl - Host API the provider talks to
+   */
+  constructor({ id, name, credentialFields, apiBaseUrl = '' }) {
+    this.id = id;
+    this.name = name;
+    this.credentialFields = credentialFields;
+    this.apiBaseUrl = apiBaseUrl;
+    this.pollInterval = DEPLOY_PROVIDER_CONFIG.POLL_INTERVAL;
+    this.deployTimeout = DEPLOY_PROVIDER_CONFIG.DEPLOY_TIMEOUT;
+    this.logger = new Logger(`${name.replace(/\s+/g, '')}Provider`);
+  }
+
+  /**
+   * What the Deployment page needs to show the provider
+   */
+  describe() {
+    return {
+      id: this.id,
+      name: this.name,
+      credentialFields: this.credentialFields,
+      customDomains: this.supportsCustomDomains
+    };
+  }
+
+  get supportsCustomDomains() {
+    return this.addCustomDomain !== BaseProvider.prototype.addCustomDomain;
+  }
+
+  /**
+   * Labels of required credentials that are missing
+   */
+  getMissingCredentials(credentials = {}) {
+    return this.credentialFields
+      .filter(field => !field.optional && !String(credentials[field.key] || '').trim())
+      .map(field => field.label);
+  }
+
+  /**
+   * Problems with credentials that are filled in but can't be used, checked before anything is sent
+   * @returns {Promise<string[]>} - empty when the credentials can be used
+   */
+  async getInvalidCredentials(credentials = {}) {
+    return [];
+  }
+
+  /**
+   * Publish a site
+   * @param {Object} siteFiles - File manifest with at least 'index.html'
+   * @param {Object} options - personName, credentials, siteId: the site an earlier deploy went to
+   * @returns {Promise<Object>} - { siteId, siteName, url, deployId, state, redeployed, fileCount, uploadedCount, deploymentTime }
+   */
+  async deploy(siteFiles, options) {
+    throw new Error(`${this.name} does not implement deploy`);
+  }
+
+  /**
+   * Connect a custom domain to a deployed site
+   * @returns {Promise<Object>} - The domain's status, see domainStatus()
+   */
+  async addCustomDomain(siteId, domain, credentials) {
+    throw new Error(`${this.name} does not support custom domains`);
+  }
+
+  /**
+   * Where DNS verification and the certificate of a site's custom domain stand
+   * @returns {Promise<Object>} - The domain's status, see domainStatus()
+   */
+  async getCustomDomain(siteId, domain, credentials) {
+    throw new Error(`${this.name} does not support custom domains`);
+  }
+
+  /**
+   * Custom domain status in the shape every provider reports
+   * @param {Object} details - records: [{ type, name, value }] to add at the DNS host, verified: DNS points at the site,
+   *   ssl: 'pending' | 'issued' | 'failed', failed: the host gave up on the domain, error: why it is not live yet
+   * @returns {Object} - details with status: 'pending_dns' | 'provisioning_ssl' | 'active' | 'failed'
+   */
+  domainStatus({ domain, records = [], verified = false, ssl = 'pending', failed = false, error = null }) {
+    let status = 'provisioning_ssl';
+    if (failed || ssl === 'failed') {
+      status = 'failed';
+    } else if (!verified) {
+      status = 'pending_dns';
+    } else if (ssl === 'issued') {
+      status = 'active';
+    }
+
+    return { domain, status, verified, ssl, records, error };
+  }
+
+  /**
+   * Name of a DNS record relative to its zone: '@' for example.com, 'www' for www.example.com.
+   * The zone is taken to be the last two labels, so domains under suffixes like co.uk come out one label too long.
+   */
+  dnsRecordName(hostname) {
+    const labels = hostname.split('.');
+    return labels.length <= 2 ? '@' : labels.slice(0, -2).join('.');
+  }
+
+  /**
+   * Records that point a domain at the host: A records for an apex domain when the host has addresses for it,
+   * otherwise a CNAME to the site's hostname
+   */
+  pointingRecords(domain, { addresses = [], target }) {
+    const name = this.dnsRecordName(domain);
+    return name === '@' && addresses.length > 0
+      ? addresses.map(value => ({ type: 'A', name, value }))
+      : [{ type: 'CNAME', name, value: target }];
+  }
+
+  /**
+   * Lowercase site name hosts accept, e.g. 'ada-lee-portfolio-lx2k9a'
+   */
+  generateSiteName(personName) {
+    const sanitized = String(personName || 'portfolio')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .substring(0, 30);
+    return `${sanitized || 'my'}-portfolio-${Date.now().toString(36)}`;
+  }
+
+  /**
+   * Send a request to the provider's API
+   * @param {Object} config - axios request config; relative urls are resolved against apiBaseUrl
+   */
+  async request(config, errorMessage = `${this.name} request failed`) {
+    try {
+      return await axios.request({
+        timeout: 30000,
+        maxContentLength: Infinity,
+        maxBodyLength: Infinity,
+        ...config,
+        url: /^https?:\/\//.test(config.url) ? config.url : `${this.apiBaseUrl}${config.url}`
+      });
+    } catch (error) {
+      throw providerError(errorMessage, error);
+    }
+  }
+
+  /**
+   * Poll until check() returns a finished state
+   * @param {Function} check - Resolves to { done, failed, state, data }
+   */
+  async waitUntil(check) {
+    const startTime = Date.now();
+
+    while (Date.now() - startTime < this.deployTimeout) {
+      const status = await check();
+
+      if (status.failed) {
+        throw Object.assign(new Error(`Deployment failed with status: ${status.state}`), { deployFailed: true });
+      }
+      if (status.done) {
+        return status;
+      }
+
+      this.logger.debug(`Deployment ${status.state} (${Math.round((Date.now() - startTime) / 1000)}s elapsed)`);
+      await new Promise(resolve => setTimeout(resolve, this.pollInterval));
+    }
+
+    throw new Error(`Deployment timed out after ${this.deployTimeout / 1000}s`);
+  }
+
+  /**
+   * Manifest contents as Buffers
+   */
+  toBuffer(content) {
+    return Buffer.isBuffer(content) ? content : Buffer.from(String(content), 'utf8');
+  }
+}
+
+module.exports = {
+  BaseProvider,
+  providerError,
+};
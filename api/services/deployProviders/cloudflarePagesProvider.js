@@ -0,0 +1,158 @@
+/**
+ * Cloudflare Pages - direct upload to a Pages project: files are stored by content hash, only the hashes
+ * Cloudflare reports missing are uploaded, then a deployment maps site paths to hashes.
+ */
+
+const crypto = require('crypto');
+const FormData = require('form-data');
+const { BaseProvider } = require('./BaseProvider');
+const { siteBundler } = require('../siteBundler');
+const { DEPLOY_PROVIDER_CONFIG } = require('../../config/constants');
+
+const PRODUCTION_BRANCH = 'main';
+const UPLOAD_BATCH_SIZE = 50;
+
+// Pages asset keys are 32 hex characters; the extension is hashed too so the same bytes served as
+// different types get their own key
+const assetKey = (base64, filePath) =>
+  crypto.createHash('sha256').update(base64 + filePath.split('.').pop()).digest('hex').slice(0, 32);
+
+class CloudflarePagesProvider extends BaseProvider {
+  constructor({ apiBaseUrl = DEPLOY_PROVIDER_CONFIG.CLOUDFLARE_API_BASE_URL } = {}) {
+    super({
+      id: 'cloudflare-pages',
+      name: 'Cloudflare Pages',
+      credentialFields: [
+        { key: 'token', label: 'API token', secret: true, placeholder: 'Needs Cloudflare Pages: Edit' },
+        { key: 'accountId', label: 'Account ID', placeholder: 'Shown on the Workers & Pages overview' }
+      ],
+      apiBaseUrl
+    });
+  }
+
+  cloudflare(token) {
+    return async (method, url, data, headers = {}) => {
+      const response = await this.request({
+        method,
+        url,
+        data,
+        headers: { 'Authorization': `Bearer ${token}`, ...headers }
+      }, 'Cloudflare request failed');
+      return response.data.result;
+    };
+  }
+
+  projectsPath(credentials) {
+    return `/accounts/${String(credentials.accountId).trim()}/pages/projects`;
+  }
+
+  async deploy(siteFiles, { personName, credentials, siteId = null }) {
+    const startTime = Date.now();
+    const cloudflare = this.cloudflare(credentials.token);
+    const projects = this.projectsPath(credentials);
+
+    // Step 1: Project, created on first deploy
+    const projectName = siteId || this.generateSiteName(personName);
+    let project;
+    let created = false;
+    try {
+      project = await cloudflare('get', `${projects}/${projectName}`);
+    } catch (error) {
+      if (error.response?.status !== 404) throw error;
+      project = await cloudflare('post', projects, { name: projectName, production_branch: PRODUCTION_BRANCH });
+      created = true;
+    }
+
+    const siteUrl = `https://${project.subdomain || `${projectName}.pages.dev`}`;
+    const deployFiles = siteBundler.addCrawlerFiles(siteFiles, siteUrl);
+    const assets = Object.entries(deployFiles).map(([filePath, content]) => {
+      const base64 = this.toBuffer(content).toString('base64');
+      return { filePath, base64, key: assetKey(base64, filePath) };
+    });
+
+    // Step 2: Upload the assets Cloudflare does not have, with the project's upload token
+    const { jwt } = await cloudflare('get', `${projects}/${projectName}/upload-token`);
+    const uploads = this.cloudflare(jwt);
+    const missing = new Set(await uploads('post', '/pages/assets/check-missing', { hashes: assets.map(asset => asset.key) }));
+    const toUpload = assets.filter(asset => missing.delete(asset.key));
+
+    for (let index = 0; index < toUpload.length; index += UPLOAD_BATCH_SIZE) {
+      await uploads('post', '/pages/assets/upload', toUpload.slice(index, index + UPLOAD_BATCH_SIZE).map(asset => ({
+        key: asset.key,
+        value: asset.base64,
+        metadata: { contentType: siteBundler.contentType(asset.filePath) },
+        base64: true
+      })));
+    }
+    await uploads('post', '/pages/assets/upsert-hashes', { hashes: assets.map(asset => asset.key) });
+
+    // Step 3: Deploy the manifest of site paths to asset keys
+    const form = new FormData();
+    form.append('manifest', JSON.stringify(Object.fromEntries(assets.map(asset => [`/${asset.filePath}`, asset.key]))));
+    form.append('branch', PRODUCTION_BRANCH);
+    const deployment = await cloudflare('post', `${projects}/${projectName}/deployments`, form, form.getHeaders());
+
+    // Step 4: Wait until it is live
+    await this.waitUntil(async () => {
+      const { latest_stage: stage = {} } = await cloudflare('get', `${projects}/${projectName}/deployments/${deployment.id}`);
+      return {
+        state: `${stage.name}: ${stage.status}`,
+        done: stage.name === 'deploy' && stage.status === 'success',
+        failed: stage.status === 'failure' || stage.status === 'canceled'
+      };
+    });
+
+    const deploymentTime = Math.round((Date.now() - startTime) / 1000);
+    this.logger.success(`Deployment completed in ${deploymentTime}s. Live URL: ${siteUrl}`);
+
+    return {
+      success: true,
+      siteId: projectName,
+      siteName: projectName,
+      deployId: deployment.id,
+      url: siteUrl,
+      state: 'ready',
+      deploymentTime,
+      fileCount: assets.length,
+      uploadedCount: toUpload.length,
+      redeployed: !created
+    };
+  }
+
+  async addCustomDomain(siteId, domain, credentials) {
+    await this.cloudflare(credentials.token)('post', `${this.projectsPath(credentials)}/${siteId}/domains`, { name: domain });
+    return this.getCustomDomain(siteId, domain, credentials);
+  }
+
+  async getCustomDomain(siteId, domain, credentials) {
+    const cloudflare = this.cloudflare(credentials.token);
+    const project = `${this.projectsPath(credentials)}/${siteId}`;
+    const [{ subdomain }, details] = await Promise.all([
+      cloudflare('get', project),
+      cloudflare('get', `${project}/domains/${domain}`)
+    ]);
+    const { verification_data: verification = {}, validation_data: validation = {} } = details;
+
+    // Apex domains work too when the zone is on Cloudflare, which flattens the CNAME
+    const records = this.pointingRecords(domain, { target: subdomain || `${siteId}.pages.dev` });
+    if (validation.txt_name) {
+      records.push({ type: 'TXT', name: this.dnsRecordName(validation.txt_name), value: validation.txt_value });
+    }
+
+    return this.domainStatus({
+      domain,
+      records,
+      verified: verification.status === 'active' || details.status === 'active',
+      ssl: { active: 'issued', error: 'failed' }[validation.status] || 'pending',
+      failed: ['blocked', 'error', 'deactivated'].includes(details.status),
+      error: verification.error_message || validation.error_message || null
+    });
+  }
+}
+
+const cloudflarePagesProvider = new CloudflarePagesProvider();
+
+module.exports = {
+  CloudflarePagesProvider,
+  cloudflarePagesProvider,
+};
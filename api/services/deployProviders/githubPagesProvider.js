@@ -0,0 +1,227 @@
+/**
+ * GitHub Pages - commits the site to a branch of a repository (gh-pages by default), turns Pages on for it
+ * and waits for the Pages build. Files GitHub already has are not uploaded again; each deploy is one commit
+ * replacing the branch's contents.
+ */
+
+const { BaseProvider } = require('./BaseProvider');
+const { siteBundler } = require('../siteBundler');
+const { calculateSha } = require('../../helpers/fileHelpers');
+const { DEPLOY_PROVIDER_CONFIG } = require('../../config/constants');
+
+const DEFAULT_BRANCH = 'gh-pages';
+
+// Git's id for file contents: SHA1 of a "blob <size>" header and the contents
+const gitBlobSha = (content) => calculateSha(Buffer.concat([Buffer.from(`blob ${content.length}\0`), content]));
+
+// GitHub answers 409 for refs of a repository without commits
+const isMissingBranch = (error) => [404, 409].includes(error.response?.status);
+
+// Addresses apex custom domains point at
+const GITHUB_PAGES_ADDRESSES = ['185.199.108.153', '185.199.109.153', '185.199.110.153', '185.199.111.153'];
+
+// Pages certificate states, see https://docs.github.com/en/rest/pages/pages
+const ISSUED_CERTIFICATE_STATES = ['issued', 'uploaded', 'approved'];
+const FAILED_CERTIFICATE_STATES = ['errored', 'bad_authz', 'authorization_revoked'];
+
+class GitHubPagesProvider extends BaseProvider {
+  constructor({ apiBaseUrl = DEPLOY_PROVIDER_CONFIG.GITHUB_API_BASE_URL } = {}) {
+    super({
+      id: 'github-pages',
+      name: 'GitHub Pages',
+      credentialFields: [
+        { key: 'token', label: 'Personal access token', secret: true, placeholder: 'Needs the repo scope' },
+        { key: 'repository', label: 'Repository', optional: true, placeholder: 'owner/name (created if it does not exist)' },
+        { key: 'branch', label: 'Branch', optional: true, placeholder: DEFAULT_BRANCH }
+      ],
+      apiBaseUrl
+    });
+  }
+
+  github(token) {
+    return (method, url, data) => this.request({
+      method,
+      url,
+      data,
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Accept': 'application/vnd.github+json',
+        'User-Agent': 'idea-to-portfolio'
+      }
+    }, 'GitHub request failed');
+  }
+
+  /**
+   * The repository to deploy to, created under the token's user when it does not exist
+   */
+  async resolveRepository(github, repository, personName) {
+    let fullName = repository;
+
+    if (!fullName) {
+      const { data: user } = await github('get', '/user');
+      fullName = `${user.login}/${this.generateSiteName(personName)}`;
+    }
+
+    try {
+      const { data } = await github('get', `/repos/${fullName}`);
+      return { repository: data.full_name, created: false };
+    } catch (error) {
+      if (error.response?.status !== 404) throw error;
+    }
+
+    this.logger.info(`Creating repository ${fullName}`);
+    const { data } = await github('post', '/user/repos', {
+      name: fullName.split('/').pop(),
+      description: 'Portfolio',
+      // The Git data API cannot write to a repository without commits
+      auto_init: true
+    });
+    return { repository: data.full_name, created: true };
+  }
+
+  async deploy(siteFiles, { personName, credentials, siteId = null }) {
+    const startTime = Date.now();
+    const github = this.github(credentials.token);
+    const branch = String(credentials.branch || '').trim() || DEFAULT_BRANCH;
+
+    // Step 1: Repository, and the commit the branch points at if it exists
+    const { repository, created } = await this.resolveRepository(github, siteId || String(credentials.repository || '').trim(), personName);
+    const repo = `/repos/${repository}`;
+
+    let parentSha = null;
+    const existingBlobs = new Set();
+    try {
+      const { data: ref } = await github('get', `${repo}/git/ref/heads/${branch}`);
+      parentSha = ref.object.sha;
+      const { data: commit } = await github('get', `${repo}/git/commits/${parentSha}`);
+      const { data: tree } = await github('get', `${repo}/git/trees/${commit.tree.sha}?recursive=1`);
+      tree.tree.filter(entry => entry.type === 'blob').forEach(entry => existingBlobs.add(entry.sha));
+    } catch (error) {
+      if (!isMissingBranch(error)) throw error;
+      this.logger.info(`Branch ${branch} does not exist yet`);
+    }
+
+    // Step 2: Site URL, from Pages when it is already on (it knows custom domains)
+    let pages = null;
+    try {
+      ({ data: pages } = await github('get', `${repo}/pages`));
+    } catch (error) {
+      if (error.response?.status !== 404) throw error;
+    }
+    const [owner, name] = repository.toLowerCase().split('/');
+    const siteUrl = pages?.html_url || (name === `${owner}.github.io` ? `https://${name}/` : `https://${owner}.github.io/${name}/`);
+
+    // Step 3: Upload the files the repository does not have yet
+    // .nojekyll stops Pages from skipping files and folders that start with an underscore,
+    // and Pages drops the custom domain when the branch loses its CNAME file
+    const deployFiles = {
+      ...siteBundler.addCrawlerFiles(siteFiles, siteUrl),
+      '.nojekyll': '',
+      ...(pages?.cname ? { CNAME: pages.cname } : {})
+    };
+    const tree = [];
+    let uploadedCount = 0;
+
+    for (const [filePath, content] of Object.entries(deployFiles)) {
+      const buffer = this.toBuffer(content);
+      let sha = gitBlobSha(buffer);
+
+      if (!existingBlobs.has(sha)) {
+        ({ data: { sha } } = await github('post', `${repo}/git/blobs`, { content: buffer.toString('base64'), encoding: 'base64' }));
+        existingBlobs.add(sha);
+        uploadedCount++;
+      }
+
+      tree.push({ path: filePath, mode: '100644', type: 'blob', sha });
+    }
+
+    // Step 4: Commit the whole site and move the branch to it
+    const { data: newTree } = await github('post', `${repo}/git/trees`, { tree });
+    const { data: commit } = await github('post', `${repo}/git/commits`, {
+      message: `Deploy portfolio (${new Date().toISOString()})`,
+      tree: newTree.sha,
+      parents: parentSha ? [parentSha] : []
+    });
+
+    if (parentSha) {
+      await github('patch', `${repo}/git/refs/heads/${branch}`, { sha: commit.sha, force: true });
+    } else {
+      await github('post', `${repo}/git/refs`, { ref: `refs/heads/${branch}`, sha: commit.sha });
+    }
+
+    // Step 5: Serve the branch with Pages
+    if (!pages) {
+      await github('post', `${repo}/pages`, { source: { branch, path: '/' } });
+    }
+
+    // Step 6: Wait for Pages to build the commit
+    await this.waitUntil(async () => {
+      let build = {};
+      try {
+        ({ data: build } = await github('get', `${repo}/pages/builds/latest`));
+      } catch (error) {
+        if (error.response?.status !== 404) throw error;
+      }
+      const isCurrent = build.commit === commit.sha;
+      return {
+        state: isCurrent ? build.status : 'queued',
+        done: isCurrent && build.status === 'built',
+        failed: isCurrent && build.status === 'errored'
+      };
+    });
+
+    const deploymentTime = Math.round((Date.now() - startTime) / 1000);
+    this.logger.success(`Pushed ${uploadedCount} new file(s) to ${repository}@${branch} in ${deploymentTime}s`);
+
+    return {
+      success: true,
+      siteId: repository,
+      siteName: repository,
+      deployId: commit.sha,
+      url: siteUrl,
+      state: 'ready',
+      deploymentTime,
+      fileCount: Object.keys(deployFiles).length,
+      uploadedCount,
+      redeployed: !created && !!parentSha
+    };
+  }
+
+  async addCustomDomain(siteId, domain, credentials) {
+    await this.github(credentials.token)('put', `/repos/${siteId}/pages`, { cname: domain });
+    return this.getCustomDomain(siteId, domain, credentials);
+  }
+
+  async getCustomDomain(siteId, domain, credentials) {
+    const github = this.github(credentials.token);
+    const owner = siteId.split('/')[0].toLowerCase();
+    const records = this.pointingRecords(domain, { addresses: GITHUB_PAGES_ADDRESSES, target: `${owner}.github.io` });
+
+    const { data: pages } = await github('get', `/repos/${siteId}/pages`);
+    if (pages.cname !== domain) {
+      return this.domainStatus({ domain, records, failed: true, error: `${domain} is no longer connected to this site` });
+    }
+
+    // The DNS check runs in the background; GitHub answers 202 until it has a result
+    const { status, data: health } = await github('get', `/repos/${siteId}/pages/health`);
+    const check = status === 200 ? health.domain || {} : {};
+    const certificate = pages.https_certificate || {};
+    const ssl = ISSUED_CERTIFICATE_STATES.includes(certificate.state) ? 'issued'
+      : FAILED_CERTIFICATE_STATES.includes(certificate.state) ? 'failed' : 'pending';
+
+    return this.domainStatus({
+      domain,
+      records,
+      verified: !!check.is_pointed_to_github_pages_server,
+      ssl,
+      error: check.reason || (ssl === 'failed' ? certificate.description : null) || null
+    });
+  }
+}
+
+const githubPagesProvider = new GitHubPagesProvider();
+
+module.exports = {
+  GitHubPagesProvider,
+  githubPagesProvider,
+};
@@ -0,0 +1,29 @@
+/**
+ * Deployment providers by id. Netlify is the default; see BaseProvider.js for the interface
+ */
+
+const { netlifyProvider } = require('./netlifyProvider');
+const { githubPagesProvider } = require('./githubPagesProvider');
+const { vercelProvider } = require('./vercelProvider');
+const { cloudflarePagesProvider } = require('./cloudflarePagesProvider');
+const { staticHostProvider } = require('./staticHostProvider');
+
+const DEFAULT_PROVIDER = 'netlify';
+
+const PROVIDERS = [
+  netlifyProvider,
+  githubPagesProvider,
+  vercelProvider,
+  cloudflarePagesProvider,
+  staticHostProvider
+];
+
+const getProvider = (id = DEFAULT_PROVIDER) => PROVIDERS.find(provider => provider.id === id) || null;
+
+const listProviders = () => PROVIDERS.map(provider => provider.describe());
+
+module.exports = {
+  DEFAULT_PROVIDER,
+  getProvider,
+  listProviders,
+};
@@ -0,0 +1,66 @@
+/**
+ * Netlify - deploys through NetlifyService: a site per portfolio, digest uploads, deploy history, rollback and custom domains
+ */
+
+const { BaseProvider } = require('./BaseProvider');
+const { netlifyService } = require('../netlifyService');
+
+// Apex domains point at Netlify's load balancer
+const NETLIFY_LOAD_BALANCER = '75.2.60.5';
+
+class NetlifyProvider extends BaseProvider {
+  constructor(service = netlifyService) {
+    super({
+      id: 'netlify',
+      name: 'Netlify',
+      credentialFields: [
+        { key: 'token', label: 'Personal access token', secret: true, placeholder: 'User settings → Applications → New access token' }
+      ],
+      apiBaseUrl: service.apiBaseUrl
+    });
+    this.service = service;
+  }
+
+  async deploy(siteFiles, { personName, credentials, siteId = null }) {
+    return this.service.deployPortfolio(personName, siteFiles, credentials.token, { siteId });
+  }
+
+  async addCustomDomain(siteId, domain, credentials) {
+    await this.service.setCustomDomain(siteId, domain, credentials.token);
+    return this.getCustomDomain(siteId, domain, credentials);
+  }
+
+  async getCustomDomain(siteId, domain, { token }) {
+    const site = await this.service.getSiteInfo(siteId, token);
+    const records = this.pointingRecords(domain, { addresses: [NETLIFY_LOAD_BALANCER], target: `${site.name}.netlify.app` });
+
+    if (site.custom_domain !== domain) {
+      return this.domainStatus({ domain, records, failed: true, error: `${domain} is no longer connected to this site` });
+    }
+
+    // Netlify has no verification step of its own: the certificate is issued once DNS points at the site
+    let certificate = await this.service.getSslCertificate(siteId, token);
+    if (!certificate?.domains?.includes(domain)) {
+      try {
+        certificate = await this.service.provisionSslCertificate(siteId, token);
+      } catch (error) {
+        if (error.response?.status !== 422) throw error;
+        return this.domainStatus({ domain, records, error: error.message });
+      }
+    }
+
+    return this.domainStatus({
+      domain,
+      records,
+      verified: true,
+      ssl: certificate.state === 'issued' ? 'issued' : 'pending'
+    });
+  }
+}
+
+const netlifyProvider = new NetlifyProvider();
+
+module.exports = {
+  NetlifyProvider,
+  netlifyProvider,
+};
@@ -0,0 +1,159 @@
+/**
+ * Static host - uploads the site to an S3-compatible bucket (AWS S3, Cloudflare R2, DigitalOcean Spaces, MinIO...)
+ * that serves it as a website. Requests are signed with AWS Signature Version 4. Objects whose ETag already
+ * matches are skipped; files removed from the portfolio are left in the bucket.
+ * The endpoint is entered by the user, so it must be https on a public address (see utils/publicAddresses.js).
+ */
+
+const crypto = require('crypto');
+const { BaseProvider } = require('./BaseProvider');
+const { siteBundler } = require('../siteBundler');
+const publicAddresses = require('../../utils/publicAddresses');
+
+const DEFAULT_REGION = 'us-east-1';
+
+const sha256 = (value) => crypto.createHash('sha256').update(value).digest('hex');
+const hmac = (key, value) => crypto.createHmac('sha256', key).update(value).digest();
+
+class StaticHostProvider extends BaseProvider {
+  constructor() {
+    super({
+      id: 'static-host',
+      name: 'S3-compatible storage',
+      credentialFields: [
+        { key: 'endpoint', label: 'Endpoint', placeholder: 'https://s3.us-east-1.amazonaws.com' },
+        { key: 'bucket', label: 'Bucket' },
+        { key: 'region', label: 'Region', optional: true, placeholder: DEFAULT_REGION },
+        { key: 'accessKeyId', label: 'Access key ID' },
+        { key: 'secretAccessKey', label: 'Secret access key', secret: true },
+        { key: 'publicUrl', label: 'Public URL', optional: true, placeholder: 'The address the bucket is served at' }
+      ]
+    });
+  }
+
+  /**
+   * The endpoint gets signed requests from the server, so it can't point at the server's own network
+   */
+  async getInvalidCredentials(credentials = {}) {
+    const problem = await publicAddresses.checkUrl(credentials.endpoint);
+    return problem ? [`Endpoint ${problem}`] : [];
+  }
+
+  /**
+   * Headers for an AWS Signature Version 4 signed request
+   * @param {Object} request - { method, url, headers, body }
+   */
+  signRequest({ method, url, headers = {}, body = '' }, { accessKeyId, secretAccessKey, region }) {
+    const { host, pathname } = new URL(url);
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const date = amzDate.slice(0, 8);
+    const payloadHash = sha256(body);
+
+    const signedHeaders = Object.fromEntries(Object.entries({
+      ...headers,
+      host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate
+    }).map(([name, value]) => [name.toLowerCase(), String(value).trim()]));
+    const headerNames = Object.keys(signedHeaders).sort();
+
+    const canonicalRequest = [
+      method.toUpperCase(),
+      pathname,
+      '',
+      headerNames.map(name => `${name}:${signedHeaders[name]}\n`).join(''),
+      headerNames.join(';'),
+      payloadHash
+    ].join('\n');
+    const scope = `${date}/${region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+
+    const signingKey = ['s3', 'aws4_request'].reduce(hmac, hmac(hmac(`AWS4${secretAccessKey}`, date), region));
+    const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    return {
+      ...headers,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+      'Authorization': `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${headerNames.join(';')}, Signature=${signature}`
+    };
+  }
+
+  async deploy(siteFiles, { credentials, siteId = null }) {
+    const startTime = Date.now();
+    const endpoint = String(credentials.endpoint).trim().replace(/\/+$/, '');
+    const bucket = siteId || String(credentials.bucket).trim();
+    const signing = {
+      accessKeyId: String(credentials.accessKeyId).trim(),
+      secretAccessKey: String(credentials.secretAccessKey).trim(),
+      region: String(credentials.region || '').trim() || DEFAULT_REGION
+    };
+    const siteUrl = String(credentials.publicUrl || '').trim() || `${endpoint}/${bucket}/`;
+    const objectUrl = (filePath) => `${endpoint}/${bucket}/${filePath}`;
+
+    const [invalidEndpoint] = await this.getInvalidCredentials(credentials);
+    if (invalidEndpoint) {
+      throw new Error(invalidEndpoint);
+    }
+
+    const deployFiles = siteBundler.addCrawlerFiles(siteFiles, siteUrl);
+    let uploadedCount = 0;
+
+    for (const [filePath, content] of Object.entries(deployFiles)) {
+      const body = this.toBuffer(content);
+      const etag = `"${crypto.createHash('md5').update(body).digest('hex')}"`;
+
+      // Single-part uploads have the MD5 of their contents as ETag
+      try {
+        const { headers } = await this.request({
+          method: 'head',
+          url: objectUrl(filePath),
+          lookup: publicAddresses.lookup,
+          maxRedirects: 0,
+          headers: this.signRequest({ method: 'HEAD', url: objectUrl(filePath) }, signing)
+        });
+        if (headers.etag === etag) continue;
+      } catch (error) {
+        if (error.response?.status !== 404) throw error;
+      }
+
+      const headers = {
+        'Content-Type': siteBundler.contentType(filePath),
+        // Pages change with every deploy; everything else is cached briefly
+        'Cache-Control': filePath.endsWith('.html') ? 'no-cache' : 'public, max-age=3600'
+      };
+      await this.request({
+        method: 'put',
+        url: objectUrl(filePath),
+        data: body,
+        lookup: publicAddresses.lookup,
+        maxRedirects: 0,
+        headers: this.signRequest({ method: 'PUT', url: objectUrl(filePath), headers, body }, signing)
+      }, `Upload of ${filePath} failed`);
+      uploadedCount++;
+    }
+
+    const deploymentTime = Math.round((Date.now() - startTime) / 1000);
+    this.logger.success(`Uploaded ${uploadedCount} file(s) to ${bucket} in ${deploymentTime}s`);
+
+    return {
+      success: true,
+      siteId: bucket,
+      siteName: bucket,
+      deployId: new Date(startTime).toISOString(),
+      url: siteUrl,
+      state: 'ready',
+      deploymentTime,
+      fileCount: Object.keys(deployFiles).length,
+      uploadedCount,
+      redeployed: !!siteId
+    };
+  }
+}
+
+const staticHostProvider = new StaticHostProvider();
+
+module.exports = {
+  StaticHostProvider,
+  staticHostProvider,
+};
@@ -0,0 +1,166 @@
+/**
+ * Vercel - creates a production deployment of a project named after the portfolio.
+ * Vercel answers a deployment of files it has never seen with "missing_files"; only those are uploaded before retrying.
+ */
+
+const { BaseProvider } = require('./BaseProvider');
+const { siteBundler } = require('../siteBundler');
+const { calculateSha } = require('../../helpers/fileHelpers');
+const { DEPLOY_PROVIDER_CONFIG } = require('../../config/constants');
+
+// Where custom domains point: apex domains at Vercel's address, subdomains at its CNAME target
+const VERCEL_ADDRESS = '76.76.21.21';
+const VERCEL_CNAME_TARGET = 'cname.vercel-dns.com';
+
+class VercelProvider extends BaseProvider {
+  constructor({ apiBaseUrl = DEPLOY_PROVIDER_CONFIG.VERCEL_API_BASE_URL } = {}) {
+    super({
+      id: 'vercel',
+      name: 'Vercel',
+      credentialFields: [
+        { key: 'token', label: 'Access token', secret: true, placeholder: 'Account settings → Tokens' },
+        { key: 'teamId', label: 'Team ID', optional: true, placeholder: 'Leave empty for your personal account' }
+      ],
+      apiBaseUrl
+    });
+  }
+
+  vercel(token, teamId) {
+    return (method, url, data, headers = {}) => this.request({
+      method,
+      url,
+      data,
+      params: teamId ? { teamId } : undefined,
+      headers: { 'Authorization': `Bearer ${token}`, ...headers }
+    }, 'Vercel request failed');
+  }
+
+  async deploy(siteFiles, { personName, credentials, siteId = null }) {
+    const startTime = Date.now();
+    const vercel = this.vercel(credentials.token, String(credentials.teamId || '').trim());
+
+    // Step 1: Project, named after the portfolio on first deploy
+    const projectName = siteId || this.generateSiteName(personName);
+    let project = null;
+    try {
+      ({ data: project } = await vercel('get', `/v9/projects/${projectName}`));
+    } catch (error) {
+      if (error.response?.status !== 404) throw error;
+    }
+
+    // Step 2: Manifest with the SHA1 Vercel stores each file under
+    const deployFiles = siteBundler.addCrawlerFiles(siteFiles, `https://${projectName}.vercel.app`);
+    const buffers = Object.fromEntries(Object.entries(deployFiles).map(([filePath, content]) => [filePath, this.toBuffer(content)]));
+    const digests = Object.fromEntries(Object.entries(buffers).map(([filePath, buffer]) => [filePath, calculateSha(buffer)]));
+    const deployment = {
+      name: projectName,
+      target: 'production',
+      files: Object.entries(buffers).map(([filePath, buffer]) => ({ file: filePath, sha: digests[filePath], size: buffer.length })),
+      projectSettings: { framework: null }
+    };
+
+    // Step 3: Create the deployment, uploading the files Vercel reports missing once
+    let created;
+    let uploadedCount = 0;
+    try {
+      ({ data: created } = await vercel('post', '/v13/deployments', deployment));
+    } catch (error) {
+      const missing = error.response?.data?.error?.code === 'missing_files' ? error.response.data.error.missing || [] : null;
+      if (!missing) throw error;
+
+      for (const digest of missing) {
+        const filePath = Object.keys(digests).find(candidate => digests[candidate] === digest);
+        if (!filePath) continue;
+        await vercel('post', '/v2/files', buffers[filePath], {
+          'Content-Type': 'application/octet-stream',
+          'x-vercel-digest': digest
+        });
+        uploadedCount++;
+      }
+
+      ({ data: created } = await vercel('post', '/v13/deployments', deployment));
+    }
+
+    // Step 4: Wait until it is ready
+    const { data: finished } = await this.waitUntil(async () => {
+      const { data } = await vercel('get', `/v13/deployments/${created.id}`);
+      return {
+        state: data.readyState,
+        done: data.readyState === 'READY',
+        failed: ['ERROR', 'CANCELED'].includes(data.readyState),
+        data
+      };
+    });
+
+    const deploymentTime = Math.round((Date.now() - startTime) / 1000);
+    const url = `https://${finished.alias?.[0] || `${projectName}.vercel.app`}`;
+    this.logger.success(`Deployment completed in ${deploymentTime}s. Live URL: ${url}`);
+
+    return {
+      success: true,
+      siteId: projectName,
+      siteName: projectName,
+      deployId: created.id,
+      url,
+      state: 'ready',
+      deploymentTime,
+      fileCount: deployment.files.length,
+      uploadedCount,
+      redeployed: !!project
+    };
+  }
+
+  async addCustomDomain(siteId, domain, credentials) {
+    const vercel = this.vercel(credentials.token, String(credentials.teamId || '').trim());
+
+    try {
+      await vercel('post', `/v10/projects/${siteId}/domains`, { name: domain });
+    } catch (error) {
+      // Already added; getCustomDomain() reports a 404 when it belongs to another project
+      if (error.response?.status !== 409) throw error;
+    }
+
+    return this.getCustomDomain(siteId, domain, credentials);
+  }
+
+  async getCustomDomain(siteId, domain, credentials) {
+    const vercel = this.vercel(credentials.token, String(credentials.teamId || '').trim());
+
+    let { data: projectDomain } = await vercel('get', `/v9/projects/${siteId}/domains/${domain}`);
+    if (!projectDomain.verified) {
+      // Domains another account uses need TXT records; Vercel answers 400 while they are missing
+      try {
+        ({ data: projectDomain } = await vercel('post', `/v9/projects/${siteId}/domains/${domain}/verify`));
+      } catch (error) {
+        if (error.response?.status !== 400) throw error;
+      }
+    }
+    const { data: config } = await vercel('get', `/v6/domains/${domain}/config`);
+
+    const records = [
+      ...this.pointingRecords(domain, { addresses: [VERCEL_ADDRESS], target: VERCEL_CNAME_TARGET }),
+      ...(projectDomain.verification || []).map(record => ({
+        type: record.type,
+        name: this.dnsRecordName(record.domain),
+        value: record.value
+      }))
+    ];
+    const verified = !!projectDomain.verified && !config.misconfigured;
+
+    // Vercel issues the certificate as soon as the domain resolves to it
+    return this.domainStatus({
+      domain,
+      records,
+      verified,
+      ssl: verified ? 'issued' : 'pending',
+      error: config.misconfigured ? `DNS for ${domain} does not point at Vercel yet` : null
+    });
+  }
+}
+
+const vercelProvider = new VercelProvider();
+
+module.exports = {
+  VercelProvider,
+  vercelProvider,
+};
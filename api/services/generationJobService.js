@@ -0,0 +1,236 @@
+/**
+ * Generation Job Service - Portfolio generation jobs with their status persisted in Google Sheets
+ */
+
+const crypto = require('crypto');
+const { GENERATION_JOB_CONFIG } = require('../config/constants');
+const { googleSheetsService } = require('./googleSheetsService');
+const { Logger } = require('../utils/logger');
+
+const logger = new Logger('GenerationJobService');
+
+const JOB_ID_PATTERN = /^job_[a-zA-Z0-9_]+$/;
+const ACTIVE_STATUSES = ['queued', 'running'];
+
+// Nothing reads the project data back from a job, and it can be as large as the pages themselves
+const withoutProjectData = (metadata) => {
+  if (!metadata || !metadata.projectData) return metadata;
+  const { projectData, ...rest } = metadata;
+  return rest;
+};
+
+/**
+ * The part of a generation response that is stored with the job
+ */
+const storedResult = (payload) => ({
+  ...payload,
+  metadata: withoutProjectData(payload.metadata),
+  portfolio: payload.portfolio && { ...payload.portfolio, metadata: withoutProjectData(payload.portfolio.metadata) }
+});
+
+class GenerationJobService {
+  /**
+   * Jobs are kept in Google Sheets, so any API instance can report on a job another one runs
+   */
+  isAvailable() {
+    return googleSheetsService.isReady();
+  }
+
+  /**
+   * Create a queued job for a user
+   * @returns {Promise<Object>} - the job, with the rowIndex its reporter writes to
+   */
+  async createJob(email, { portfolioData, portfolioName }) {
+    const now = new Date().toISOString();
+    const job = {
+      id: `job_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`,
+      email,
+      portfolioName: portfolioName || `${portfolioData.personalInfo?.name || 'Untitled'} Portfolio`,
+      status: 'queued',
+      stage: 'queued',
+      percent: 0,
+      message: 'Waiting to start',
+      createdAt: now,
+      updatedAt: now,
+      portfolioData,
+      intermediate: {
+        analysis: null,
+        partialHtml: null,
+        continuationAttempts: []
+      },
+      result: null,
+      error: null
+    };
+
+    const rowIndex = await googleSheetsService.saveGenerationJob(job);
+    logger.info(`Created generation job ${job.id} for ${email}`);
+    return { ...job, rowIndex };
+  }
+
+  /**
+   * Report jobs that stopped sending progress (the function running them timed out or was recycled) as interrupted
+   */
+  withCurrentStatus(job) {
+    const isStale = Date.now() - new Date(job.updatedAt).getTime() > GENERATION_JOB_CONFIG.STALE_AFTER_MS;
+    if (!ACTIVE_STATUSES.includes(job.status) || !isStale) return job;
+
+    return {
+      ...job,
+      status: 'interrupted',
+      message: 'Generation stopped before it could finish',
+      error: 'The generation was interrupted'
+    };
+  }
+
+  isExpired(job) {
+    return Date.now() - new Date(job.createdAt).getTime() > GENERATION_JOB_CONFIG.RETENTION_MS;
+  }
+
+  /**
+   * Read a job, or null when there is no such job or it has expired
+   */
+  async getJob(jobId) {
+    if (!JOB_ID_PATTERN.test(jobId || '') || !this.isAvailable()) return null;
+
+    const job = await googleSheetsService.getGenerationJob(jobId);
+    if (!job || this.isExpired(job)) return null;
+
+    return this.withCurrentStatus(job);
+  }
+
+  /**
+   * List a user's recent jobs without their (large) HTML payloads
+   */
+  async listJobs(email) {
+    if (!this.isAvailable()) return [];
+
+    const jobs = await googleSheetsService.getUserGenerationJobs(email);
+
+    return jobs
+      .filter(job => !this.isExpired(job))
+      .map(job => this.withCurrentStatus(job))
+      .slice(0, GENERATION_JOB_CONFIG.MAX_LISTED_JOBS);
+  }
+
+  /**
+   * Check that a job belongs to the given email
+   */
+  isOwner(job, email) {
+    return !!email && job.email.toLowerCase() === String(email).toLowerCase();
+  }
+
+  /**
+   * Create a reporter with the same interface as createProgressStream,
+   * so the generation pipeline can write its progress into the job.
+   * The reporter owns the job's row: it keeps the job in memory and writes it at most once every
+   * WRITE_INTERVAL_MS, in order. The job data columns are only rewritten after a checkpoint and when the job
+   * finishes; partial HTML goes out with those writes. Storage errors are logged and never stop the generation.
+   * When the job data no longer fits its row, only the status is written, and a finished job is marked failed.
+   */
+  createReporter(job) {
+    let current = job;
+    let pending = Promise.resolve();
+    let timer = null;
+    let lastWriteAt = 0;
+    let dataChanged = false;
+
+    const write = () => {
+      clearTimeout(timer);
+      timer = null;
+      lastWriteAt = Date.now();
+
+      const snapshot = current;
+      const includeData = dataChanged;
+      dataChanged = false;
+
+      pending = pending
+        .then(() => googleSheetsService.updateGenerationJob(job.rowIndex, snapshot, { includeData }))
+        .catch(error => (error.code === 'JOB_DATA_TOO_LARGE' ? writeStatusOnly(snapshot) : null))
+        .catch(error => logger.error(`Failed to update job ${job.id}:`, error));
+      return pending;
+    };
+
+    // The data columns keep the last version that fit, so a partial HTML stored before can still be recovered
+    const writeStatusOnly = (snapshot) => {
+      let status = snapshot;
+      if (!ACTIVE_STATUSES.includes(snapshot.status) && snapshot.status !== 'failed') {
+        const error = 'The portfolio was generated but is too large to keep with the job';
+        current = status = { ...snapshot, status: 'failed', stage: 'failed', message: error, error };
+      }
+      logger.warn(`Job ${job.id} is too large to store, writing its status only`);
+      return googleSheetsService.updateGenerationJob(job.rowIndex, status, { includeData: false });
+    };
+
+    const queueUpdate = (changes, { data = false, immediate = false } = {}) => {
+      current = {
+        ...current,
+        ...changes,
+        intermediate: { ...current.intermediate, ...changes.intermediate },
+        updatedAt: new Date().toISOString()
+      };
+      dataChanged = dataChanged || data;
+
+      if (immediate) return write();
+      if (!timer) {
+        timer = setTimeout(write, Math.max(0, lastWriteAt + GENERATION_JOB_CONFIG.WRITE_INTERVAL_MS - Date.now()));
+      }
+      return pending;
+    };
+
+    return {
+      enabled: true,
+
+      progress: (stage, percent, message) => {
+        queueUpdate({ status: 'running', stage, percent: Math.round(percent), message });
+      },
+
+      partial: (html) => {
+        queueUpdate({ intermediate: { partialHtml: html } });
+      },
+
+      checkpoint: (name, data) => {
+        queueUpdate({ intermediate: { [name]: data } }, { data: true });
+      },
+
+      send: (payload) => {
+        let status = 'failed';
+        if (payload.success && payload.portfolio) status = 'completed';
+        else if (payload.incomplete) status = 'incomplete';
+
+        const changes = {
+          status,
+          stage: status,
+          result: storedResult(payload),
+          error: status === 'failed' ? (payload.details || payload.error || 'Generation failed') : null
+        };
+
+        if (status === 'completed') {
+          changes.percent = 100;
+          changes.message = 'Portfolio ready';
+          // The result has the finished HTML; dropping the partial copy keeps the row small
+          changes.intermediate = { partialHtml: null };
+        } else if (status === 'incomplete') {
+          changes.message = 'Generation stopped before the portfolio was complete';
+          changes.intermediate = { partialHtml: payload.partialHtml };
+        } else {
+          changes.message = payload.error || 'Generation failed';
+        }
+
+        logger.info(`Generation job ${job.id} finished: ${status}`);
+        return queueUpdate(changes, { data: true, immediate: true });
+      },
+
+      /**
+       * Resolves once every update so far is stored, writing any that is still waiting for its turn
+       */
+      flush: () => (timer ? write() : pending)
+    };
+  }
+}
+
+const generationJobService = new GenerationJobService();
+
+module.exports = {
+  GenerationJobService,
+  generationJobService,
+};
@@ -3,11 +3,73 @@
  */
 
 const { GoogleSheetsTracker } = require('../utils/googleSheets');
-const { GOOGLE_SHEETS_CONFIG } = require('../config/constants');
+const { GOOGLE_SHEETS_CONFIG, CUSTOM_SKELETON_CONFIG } = require('../config/constants');
 const { Logger } = require('../utils/logger');
 
 const logger = new Logger('GoogleSheetsService');
 
+/**
+ * Build the client-facing id of a draft from its saved timestamp
+ */
+const buildDraftId = (timestamp) => `draft_${timestamp.replace(/[^a-zA-Z0-9]/g, '_')}`;
+
+// A cell holds at most 50,000 characters, so longer text is split across several columns
+const MAX_CELL_LENGTH = 45000;
+
+// Always returns every column, so shorter text clears what longer text left behind
+const splitIntoCells = (text, columns) => Array.from({ length: columns }, (_, index) =>
+  text.slice(index * MAX_CELL_LENGTH, (index + 1) * MAX_CELL_LENGTH)
+);
+
+// A generation job's data (portfolio data, intermediate results, final result) is stored as JSON in columns M-Z
+const JOB_DATA_COLUMNS = 14;
+
+// A custom skeleton's HTML starts in column F and continues in columns I onwards
+const SKELETON_HTML_COLUMNS = Math.ceil(CUSTOM_SKELETON_CONFIG.MAX_HTML_LENGTH / MAX_CELL_LENGTH);
+
+const splitJobData = (job) => {
+  const json = JSON.stringify({
+    portfolioData: job.portfolioData,
+    intermediate: job.intermediate,
+    result: job.result
+  });
+
+  if (json.length > JOB_DATA_COLUMNS * MAX_CELL_LENGTH) {
+    throw Object.assign(
+      new Error(`Generation job ${job.id} is too large to store (${json.length} characters)`),
+      { code: 'JOB_DATA_TOO_LARGE' }
+    );
+  }
+
+  return splitIntoCells(json, JOB_DATA_COLUMNS);
+};
+
+// Columns E-L: what lists and status checks need, without the job data
+const jobStatusCells = (job) => [
+  job.status,
+  job.stage,
+  job.percent,
+  job.message,
+  job.updatedAt,
+  job.error || '',
+  job.intermediate.continuationAttempts.length,
+  job.intermediate.partialHtml ? 'yes' : ''
+];
+
+const parseJobRow = (row) => ({
+  id: row[2],
+  portfolioName: row[3] || 'Untitled Portfolio',
+  status: row[4],
+  stage: row[5] || row[4],
+  percent: Number(row[6]) || 0,
+  message: row[7] || '',
+  createdAt: row[0],
+  updatedAt: row[8] || row[0],
+  error: row[9] || null,
+  continuationAttempts: Number(row[10]) || 0,
+  hasPartialHtml: row[11] === 'yes'
+});
+
 class GoogleSheetsService {
   constructor() {
     this.trackers = {};
@@ -59,6 +121,30 @@ class GoogleSheetsService {
         sheetName: GOOGLE_SHEETS_CONFIG.PORTFOLIO_DRAFTS.sheetName,
       });
 
+      // Initialize Custom Skeletons tracker
+      this.trackers.customSkeletons = new GoogleSheetsTracker({
+        clientEmail: CREDENTIALS.clientEmail,
+        privateKey: CREDENTIALS.privateKey,
+        sheetId: GOOGLE_SHEETS_CONFIG.CUSTOM_SKELETONS.sheetId,
+        sheetName: GOOGLE_SHEETS_CONFIG.CUSTOM_SKELETONS.sheetName,
+      });
+
+      // Initialize Blog Posts tracker
+      this.trackers.blogPosts = new GoogleSheetsTracker({
+        clientEmail: CREDENTIALS.clientEmail,
+        privateKey: CREDENTIALS.privateKey,
+        sheetId: GOOGLE_SHEETS_CONFIG.BLOG_POSTS.sheetId,
+        sheetName: GOOGLE_SHEETS_CONFIG.BLOG_POSTS.sheetName,
+      });
+
+      // Initialize Generation Jobs tracker
+      this.trackers.generationJobs = new GoogleSheetsTracker({
+        clientEmail: CREDENTIALS.clientEmail,
+        privateKey: CREDENTIALS.privateKey,
+        sheetId: GOOGLE_SHEETS_CONFIG.GENERATION_JOBS.sheetId,
+        sheetName: GOOGLE_SHEETS_CONFIG.GENERATION_JOBS.sheetName,
+      });
+
       this.initialized = true;
       logger.success('Google Sheets trackers initialized successfully');
     } catch (error) {
@@ -106,6 +192,36 @@ class GoogleSheetsService {
     return this.trackers.portfolioDrafts;
   }
 
+  /**
+   * Get Custom Skeletons tracker
+   */
+  getCustomSkeletonsTracker() {
+    if (!this.initialized || !this.trackers.customSkeletons) {
+      throw new Error('Custom Skeletons tracker not initialized');
+    }
+    return this.trackers.customSkeletons;
+  }
+
+  /**
+   * Get Blog Posts tracker
+   */
+  getBlogPostsTracker() {
+    if (!this.initialized || !this.trackers.blogPosts) {
+      throw new Error('Blog Posts tracker not initialized');
+    }
+    return this.trackers.blogPosts;
+  }
+
+  /**
+   * Get Generation Jobs tracker
+   */
+  getGenerationJobsTracker() {
+    if (!this.initialized || !this.trackers.generationJobs) {
+      throw new Error('Generation Jobs tracker not initialized');
+    }
+    return this.trackers.generationJobs;
+  }
+
   /**
    * Find user by email in User Info sheet
    */
@@ -262,7 +378,7 @@ class GoogleSheetsService {
       });
 
       logger.success(`Draft saved for ${email}`);
-      return { success: true, timestamp };
+      return { success: true, timestamp, draftId: buildDraftId(timestamp) };
     } catch (error) {
       logger.error(`Failed to save draft for ${email}`, error);
       throw error;
@@ -288,7 +404,7 @@ class GoogleSheetsService {
         .slice(1)
         .filter(row => row[1] === email)
         .map(row => ({
-          id: `draft_${row[0]?.replace(/[^a-zA-Z0-9]/g, '_') || Date.now()}`,
+          id: row[0] ? buildDraftId(row[0]) : `draft_${Date.now()}`,
           name: `Draft from ${new Date(row[0]).toLocaleDateString()}`,
           htmlContent: row[2] || '',
           createdAt: row[0] || new Date().toISOString(),
@@ -316,6 +432,396 @@ class GoogleSheetsService {
     }
   }
 
+  /**
+   * Save a user-uploaded skeleton
+   * Columns: A created at, B email, C skeleton id, D name, E description, F HTML, G manifest JSON, H status,
+   * I-L the rest of the HTML
+   */
+  async saveCustomSkeleton(email, skeleton) {
+    try {
+      const tracker = this.getCustomSkeletonsTracker();
+      const createdAt = new Date().toISOString();
+      const [html, ...moreHtml] = splitIntoCells(skeleton.html, SKELETON_HTML_COLUMNS);
+
+      await tracker.sheets.spreadsheets.values.append({
+        spreadsheetId: tracker.sheetId,
+        range: `${tracker.sheetName}!A:L`,
+        valueInputOption: 'RAW',
+        insertDataOption: 'INSERT_ROWS',
+        resource: {
+          values: [[
+            createdAt,
+            email,
+            skeleton.id,
+            skeleton.name,
+            skeleton.description || '',
+            html,
+            JSON.stringify(skeleton.manifest),
+            'active',
+            ...moreHtml
+          ]],
+        },
+      });
+
+      logger.success(`Custom skeleton ${skeleton.id} saved for ${email}`);
+      return { ...skeleton, createdAt };
+    } catch (error) {
+      logger.error(`Failed to save custom skeleton for ${email}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a user's active custom skeletons, newest first
+   */
+  async getUserCustomSkeletons(email) {
+    try {
+      const tracker = this.getCustomSkeletonsTracker();
+
+      const response = await tracker.sheets.spreadsheets.values.get({
+        spreadsheetId: tracker.sheetId,
+        range: `${tracker.sheetName}!A:L`,
+      });
+
+      const rows = response.data.values || [];
+
+      return rows
+        .slice(1)
+        .filter(row => row[1] === email && row[7] === 'active')
+        .map(row => {
+          let manifest = null;
+          try {
+            manifest = JSON.parse(row[6]);
+          } catch {
+            logger.warn(`Custom skeleton ${row[2]} has an unreadable manifest`);
+          }
+
+          return {
+            id: row[2],
+            name: row[3] || 'Custom Skeleton',
+            description: row[4] || '',
+            html: [row[5], ...row.slice(8, 7 + SKELETON_HTML_COLUMNS)].join(''),
+            manifest,
+            createdAt: row[0]
+          };
+        })
+        .filter(skeleton => skeleton.manifest)
+        .reverse();
+    } catch (error) {
+      logger.error(`Failed to get custom skeletons for ${email}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a user's custom skeleton as deleted
+   * @returns {Promise<boolean>} - false when the user has no such skeleton
+   */
+  async deleteCustomSkeleton(email, skeletonId) {
+    try {
+      const tracker = this.getCustomSkeletonsTracker();
+
+      const response = await tracker.sheets.spreadsheets.values.get({
+        spreadsheetId: tracker.sheetId,
+        range: `${tracker.sheetName}!A:H`,
+      });
+
+      const rows = response.data.values || [];
+      const rowIndex = rows.findIndex((row, index) =>
+        index > 0 && row[1] === email && row[2] === skeletonId && row[7] === 'active'
+      );
+
+      if (rowIndex === -1) return false;
+
+      await tracker.sheets.spreadsheets.values.update({
+        spreadsheetId: tracker.sheetId,
+        range: `${tracker.sheetName}!H${rowIndex + 1}`,
+        valueInputOption: 'RAW',
+        resource: { values: [['deleted']] },
+      });
+
+      logger.success(`Custom skeleton ${skeletonId} deleted for ${email}`);
+      return true;
+    } catch (error) {
+      logger.error(`Failed to delete custom skeleton ${skeletonId} for ${email}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Save a blog post
+   * Columns: A created at, B email, C post id, D title, E slug, F summary, G Markdown, H status, I updated at, J published at
+   */
+  async saveBlogPost(email, post) {
+    try {
+      const tracker = this.getBlogPostsTracker();
+      const createdAt = new Date().toISOString();
+      const publishedAt = post.status === 'published' ? createdAt : '';
+
+      await tracker.sheets.spreadsheets.values.append({
+        spreadsheetId: tracker.sheetId,
+        range: `${tracker.sheetName}!A:J`,
+        valueInputOption: 'RAW',
+        insertDataOption: 'INSERT_ROWS',
+        resource: {
+          values: [[
+            createdAt,
+            email,
+            post.id,
+            post.title,
+            post.slug,
+            post.summary || '',
+            post.markdown,
+            post.status,
+            createdAt,
+            publishedAt
+          ]],
+        },
+      });
+
+      logger.success(`Blog post ${post.id} saved for ${email}`);
+      return { ...post, createdAt, updatedAt: createdAt, publishedAt };
+    } catch (error) {
+      logger.error(`Failed to save blog post for ${email}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a user's blog posts (drafts and published), newest first
+   */
+  async getUserBlogPosts(email) {
+    try {
+      const tracker = this.getBlogPostsTracker();
+
+      const response = await tracker.sheets.spreadsheets.values.get({
+        spreadsheetId: tracker.sheetId,
+        range: `${tracker.sheetName}!A:J`,
+      });
+
+      const rows = response.data.values || [];
+
+      return rows
+        .slice(1)
+        .filter(row => row[1] === email && row[7] && row[7] !== 'deleted')
+        .map(row => ({
+          id: row[2],
+          title: row[3] || 'Untitled',
+          slug: row[4] || '',
+          summary: row[5] || '',
+          markdown: row[6] || '',
+          status: row[7],
+          createdAt: row[0],
+          updatedAt: row[8] || row[0],
+          publishedAt: row[9] || ''
+        }))
+        .reverse();
+    } catch (error) {
+      logger.error(`Failed to get blog posts for ${email}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update one of a user's blog posts
+   * @returns {Promise<Object|null>} - the updated post, or null when the user has no such post
+   */
+  async updateBlogPost(email, postId, post) {
+    try {
+      const tracker = this.getBlogPostsTracker();
+
+      const response = await tracker.sheets.spreadsheets.values.get({
+        spreadsheetId: tracker.sheetId,
+        range: `${tracker.sheetName}!A:J`,
+      });
+
+      const rows = response.data.values || [];
+      const rowIndex = rows.findIndex((row, index) =>
+        index > 0 && row[1] === email && row[2] === postId && row[7] && row[7] !== 'deleted'
+      );
+
+      if (rowIndex === -1) return null;
+
+      const row = rows[rowIndex];
+      const updatedAt = new Date().toISOString();
+      // A post keeps its first publish date when it is edited or unpublished and published again
+      const publishedAt = row[9] || (post.status === 'published' ? updatedAt : '');
+
+      await tracker.sheets.spreadsheets.values.update({
+        spreadsheetId: tracker.sheetId,
+        range: `${tracker.sheetName}!D${rowIndex + 1}:J${rowIndex + 1}`,
+        valueInputOption: 'RAW',
+        resource: {
+          values: [[post.title, post.slug, post.summary || '', post.markdown, post.status, updatedAt, publishedAt]]
+        },
+      });
+
+      logger.success(`Blog post ${postId} updated for ${email}`);
+      return { id: postId, ...post, createdAt: row[0], updatedAt, publishedAt };
+    } catch (error) {
+      logger.error(`Failed to update blog post ${postId} for ${email}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a user's blog post as deleted
+   * @returns {Promise<boolean>} - false when the user has no such post
+   */
+  async deleteBlogPost(email, postId) {
+    try {
+      const tracker = this.getBlogPostsTracker();
+
+      const response = await tracker.sheets.spreadsheets.values.get({
+        spreadsheetId: tracker.sheetId,
+        range: `${tracker.sheetName}!A:J`,
+      });
+
+      const rows = response.data.values || [];
+      const rowIndex = rows.findIndex((row, index) =>
+        index > 0 && row[1] === email && row[2] === postId && row[7] && row[7] !== 'deleted'
+      );
+
+      if (rowIndex === -1) return false;
+
+      await tracker.sheets.spreadsheets.values.update({
+        spreadsheetId: tracker.sheetId,
+        range: `${tracker.sheetName}!H${rowIndex + 1}`,
+        valueInputOption: 'RAW',
+        resource: { values: [['deleted']] },
+      });
+
+      logger.success(`Blog post ${postId} deleted for ${email}`);
+      return true;
+    } catch (error) {
+      logger.error(`Failed to delete blog post ${postId} for ${email}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Save a generation job
+   * Columns: A created at, B email, C job id, D portfolio name, E status, F stage, G percent, H message, I updated at,
+   * J error, K continuation attempts, L has partial HTML, M-Z job data
+   * @returns {Promise<number>} - the job's row index, for updateGenerationJob
+   */
+  async saveGenerationJob(job) {
+    try {
+      const tracker = this.getGenerationJobsTracker();
+
+      const response = await tracker.sheets.spreadsheets.values.append({
+        spreadsheetId: tracker.sheetId,
+        range: `${tracker.sheetName}!A:Z`,
+        valueInputOption: 'RAW',
+        insertDataOption: 'INSERT_ROWS',
+        resource: {
+          values: [[
+            job.createdAt,
+            job.email,
+            job.id,
+            job.portfolioName,
+            ...jobStatusCells(job),
+            ...splitJobData(job)
+          ]],
+        },
+      });
+
+      const row = Number((response.data.updates?.updatedRange || '').match(/!A(\d+)/)?.[1]);
+      if (!row) {
+        throw new Error(`Could not find the row of generation job ${job.id}`);
+      }
+
+      logger.success(`Generation job ${job.id} saved for ${job.email}`);
+      return row - 1;
+    } catch (error) {
+      logger.error(`Failed to save generation job for ${job.email}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Write a generation job's current state to its row; the job data is only rewritten when it changed
+   */
+  async updateGenerationJob(rowIndex, job, { includeData = true } = {}) {
+    try {
+      const tracker = this.getGenerationJobsTracker();
+      const row = rowIndex + 1;
+
+      await tracker.sheets.spreadsheets.values.update({
+        spreadsheetId: tracker.sheetId,
+        range: includeData ? `${tracker.sheetName}!E${row}:Z${row}` : `${tracker.sheetName}!E${row}:L${row}`,
+        valueInputOption: 'RAW',
+        resource: {
+          values: [includeData ? [...jobStatusCells(job), ...splitJobData(job)] : jobStatusCells(job)]
+        },
+      });
+    } catch (error) {
+      logger.error(`Failed to update generation job ${job.id}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a generation job with its data, or null
+   */
+  async getGenerationJob(jobId) {
+    try {
+      const tracker = this.getGenerationJobsTracker();
+
+      const response = await tracker.sheets.spreadsheets.values.get({
+        spreadsheetId: tracker.sheetId,
+        range: `${tracker.sheetName}!A:Z`,
+      });
+
+      const rows = response.data.values || [];
+      const row = rows.find((candidate, index) => index > 0 && candidate[2] === jobId);
+      if (!row) return null;
+
+      let data = {};
+      try {
+        data = JSON.parse(row.slice(12).join(''));
+      } catch {
+        logger.warn(`Generation job ${jobId} has unreadable data`);
+      }
+
+      return {
+        ...parseJobRow(row),
+        email: row[1],
+        portfolioData: data.portfolioData || {},
+        intermediate: data.intermediate || { analysis: null, partialHtml: null, continuationAttempts: [] },
+        result: data.result || null
+      };
+    } catch (error) {
+      logger.error(`Failed to get generation job ${jobId}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a user's generation jobs without their data, newest first
+   */
+  async getUserGenerationJobs(email) {
+    try {
+      const tracker = this.getGenerationJobsTracker();
+
+      const response = await tracker.sheets.spreadsheets.values.get({
+        spreadsheetId: tracker.sheetId,
+        range: `${tracker.sheetName}!A:L`,
+      });
+
+      const rows = response.data.values || [];
+
+      return rows
+        .slice(1)
+        .filter(row => row[2] && (row[1] || '').toLowerCase() === email.toLowerCase())
+        .map(parseJobRow)
+        .reverse();
+    } catch (error) {
+      logger.error(`Failed to get generation jobs for ${email}`, error);
+      throw error;
+    }
+  }
+
   /**
    * Check if service is ready
    */
@@ -3,16 +3,27 @@
  */
 
 const axios = require('axios');
-const crypto = require('crypto');
 const { NETLIFY_CONFIG } = require('../config/constants');
+const { calculateSha } = require('../helpers/fileHelpers');
+const { siteBundler } = require('./siteBundler');
 const { Logger } = require('../utils/logger');
 
 const logger = new Logger('NetlifyService');
 
+// Deploy states that mean Netlify is still working on a deploy
+const PENDING_DEPLOY_STATES = ['building', 'processing', 'uploading', 'prepared', 'preparing', 'new', 'enqueued'];
+
+/**
+ * Wrap a failed Netlify request, keeping its response so routes can report the status code
+ */
+const netlifyError = (message, error) =>
+  Object.assign(new Error(`${message}: ${error.response?.data?.message || error.message}`), { response: error.response });
+
 class NetlifyService {
   constructor() {
     this.apiBaseUrl = NETLIFY_CONFIG.API_BASE_URL;
     this.deployTimeout = NETLIFY_CONFIG.DEPLOY_TIMEOUT;
+    this.pollInterval = 2000;
   }
 
   /**
@@ -24,13 +35,6 @@ class NetlifyService {
     return `${sanitized}-portfolio-${timestamp}`;
   }
 
-  /**
-   * Calculate SHA1 hash for content
-   */
-  calculateSha1(content) {
-    return crypto.createHash('sha1').update(content, 'utf8').digest('hex');
-  }
-
   /**
    * Create a new Netlify site
    */
@@ -65,22 +69,24 @@ class NetlifyService {
       };
     } catch (error) {
       logger.error('Failed to create Netlify site', error);
-      throw new Error(`Failed to create site: ${error.response?.data?.message || error.message}`);
+      throw netlifyError('Failed to create site', error);
     }
   }
 
   /**
-   * Create a deployment
+   * Create a deployment from a file manifest: site paths mapped to contents, strings or Buffers,
+   * e.g. { 'index.html': '<!DOCTYPE html>...', 'assets/images/3f2a.jpg': <Buffer> }.
+   * Netlify gets each file's SHA1 and answers with the digests it does not have yet.
    */
-  async createDeployment(siteId, htmlContent, netlifyToken) {
+  async createDeployment(siteId, siteFiles, netlifyToken) {
     try {
-      const htmlSha1 = this.calculateSha1(htmlContent);
-      logger.info(`Creating deployment for site ${siteId} with SHA1: ${htmlSha1}`);
+      const fileDigests = Object.fromEntries(
+        Object.entries(siteFiles).map(([filePath, content]) => [filePath, calculateSha(content)])
+      );
+      logger.info(`Creating deployment for site ${siteId} with ${Object.keys(fileDigests).length} file(s)`);
 
       const deployPayload = {
-        files: {
-          "index.html": htmlSha1
-        },
+        files: fileDigests,
         draft: false
       };
 
@@ -106,25 +112,25 @@ class NetlifyService {
         deployId,
         requiredFiles,
         deployState,
-        htmlSha1,
+        fileDigests,
         data: response.data
       };
     } catch (error) {
       logger.error('Failed to create deployment', error);
-      throw new Error(`Failed to create deployment: ${error.response?.data?.message || error.message}`);
+      throw netlifyError('Failed to create deployment', error);
     }
   }
 
   /**
-   * Upload HTML file to deployment
+   * Upload one file of a deployment
    */
-  async uploadFile(deployId, htmlContent, netlifyToken) {
+  async uploadFile(deployId, filePath, content, netlifyToken) {
     try {
-      logger.info(`Uploading HTML file to deployment ${deployId}`);
+      logger.info(`Uploading ${filePath} to deployment ${deployId}`);
 
       await axios.put(
-        `${this.apiBaseUrl}/deploys/${deployId}/files/index.html`,
-        htmlContent,
+        `${this.apiBaseUrl}/deploys/${deployId}/files/${filePath}`,
+        content,
         {
           headers: {
             'Authorization': `Bearer ${netlifyToken}`,
@@ -136,11 +142,11 @@ class NetlifyService {
         }
       );
 
-      logger.success('HTML file uploaded successfully');
+      logger.success(`${filePath} uploaded successfully`);
       return true;
     } catch (error) {
-      logger.error('Failed to upload file', error);
-      throw new Error(`File upload failed: ${error.response?.data?.message || error.message}`);
+      logger.error(`Failed to upload ${filePath}`, error);
+      throw netlifyError('File upload failed', error);
     }
   }
 
@@ -174,7 +180,6 @@ class NetlifyService {
     const startTime = Date.now();
     const maxAttempts = 60;
     let attempts = 0;
-    const statusesToWaitFor = ['building', 'processing', 'uploading', 'prepared', 'preparing'];
 
     logger.info('Waiting for deployment to complete...');
 
@@ -185,7 +190,7 @@ class NetlifyService {
         throw new Error(`Deployment timed out after ${maxWaitTimeMs / 1000}s`);
       }
 
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      await new Promise(resolve => setTimeout(resolve, this.pollInterval));
       attempts++;
 
       try {
@@ -194,14 +199,14 @@ class NetlifyService {
         logger.debug(`Deploy status check ${attempts}/${maxAttempts}: ${state} (${Math.round(elapsed / 1000)}s elapsed)`);
 
         if (['error', 'crashed', 'cancelled'].includes(state)) {
-          throw new Error(`Deployment failed with status: ${state}`);
+          throw Object.assign(new Error(`Deployment failed with status: ${state}`), { deployFailed: true });
         }
 
-        if (!statusesToWaitFor.includes(state)) {
+        if (!PENDING_DEPLOY_STATES.includes(state)) {
           return state;
         }
       } catch (error) {
-        if (attempts >= maxAttempts - 5) {
+        if (error.deployFailed || attempts >= maxAttempts - 5) {
           throw error;
         }
         logger.warn(`Status check ${attempts} failed: ${error.message}`);
@@ -231,35 +236,182 @@ class NetlifyService {
     }
   }
 
+  /**
+   * The deploys of a site, newest first
+   */
+  async listDeploys(siteId, netlifyToken, limit = 20) {
+    try {
+      const response = await axios.get(
+        `${this.apiBaseUrl}/sites/${siteId}/deploys`,
+        {
+          headers: { 'Authorization': `Bearer ${netlifyToken}` },
+          params: { per_page: limit },
+          timeout: 10000
+        }
+      );
+
+      return response.data.map(deploy => ({
+        id: deploy.id,
+        state: deploy.state,
+        createdAt: deploy.created_at,
+        publishedAt: deploy.published_at || null,
+        deployUrl: deploy.deploy_ssl_url || deploy.deploy_url,
+        errorMessage: deploy.error_message || null
+      }));
+    } catch (error) {
+      logger.error(`Failed to list deploys of site ${siteId}`, error);
+      throw netlifyError('Failed to load deploy history', error);
+    }
+  }
+
+  /**
+   * Publish an earlier deploy of a site again (rollback)
+   */
+  async restoreDeploy(siteId, deployId, netlifyToken) {
+    try {
+      const response = await axios.post(
+        `${this.apiBaseUrl}/sites/${siteId}/deploys/${deployId}/restore`,
+        null,
+        {
+          headers: { 'Authorization': `Bearer ${netlifyToken}` },
+          timeout: 30000
+        }
+      );
+
+      logger.success(`Site ${siteId} rolled back to deploy ${deployId}`);
+      return response.data;
+    } catch (error) {
+      logger.error(`Failed to roll back site ${siteId} to deploy ${deployId}`, error);
+      throw netlifyError('Rollback failed', error);
+    }
+  }
+
+  /**
+   * Serve a site on a custom domain
+   */
+  async setCustomDomain(siteId, domain, netlifyToken) {
+    try {
+      const response = await axios.patch(
+        `${this.apiBaseUrl}/sites/${siteId}`,
+        { custom_domain: domain },
+        {
+          headers: { 'Authorization': `Bearer ${netlifyToken}` },
+          timeout: 10000
+        }
+      );
+
+      logger.success(`Custom domain ${domain} set on site ${siteId}`);
+      return response.data;
+    } catch (error) {
+      logger.error(`Failed to set custom domain ${domain} on site ${siteId}`, error);
+      throw netlifyError('Failed to connect domain', error);
+    }
+  }
+
+  /**
+   * The site's TLS certificate, or null before one was provisioned
+   */
+  async getSslCertificate(siteId, netlifyToken) {
+    try {
+      const response = await axios.get(
+        `${this.apiBaseUrl}/sites/${siteId}/ssl`,
+        {
+          headers: { 'Authorization': `Bearer ${netlifyToken}` },
+          timeout: 10000
+        }
+      );
+
+      return response.data;
+    } catch (error) {
+      if (error.response?.status === 404) return null;
+      logger.error(`Failed to fetch certificate of site ${siteId}`, error);
+      throw netlifyError('Failed to check certificate', error);
+    }
+  }
+
+  /**
+   * Ask Netlify for a Let's Encrypt certificate covering the site's domains.
+   * Netlify answers 422 until the domains' DNS points at the site.
+   */
+  async provisionSslCertificate(siteId, netlifyToken) {
+    try {
+      const response = await axios.post(
+        `${this.apiBaseUrl}/sites/${siteId}/ssl`,
+        null,
+        {
+          headers: { 'Authorization': `Bearer ${netlifyToken}` },
+          timeout: 30000
+        }
+      );
+
+      return response.data;
+    } catch (error) {
+      logger.warn(`Certificate for site ${siteId} not provisioned: ${error.response?.data?.message || error.message}`);
+      throw netlifyError('Certificate not issued', error);
+    }
+  }
+
   /**
    * Deploy portfolio (orchestrates all steps)
+   * @param {Object} siteFiles - File manifest (see createDeployment) with at least 'index.html';
+   *   robots.txt and sitemap.xml are added for the site's URL unless the manifest has them
+   * @param {Object} options - siteId: push a new deploy to this site instead of creating one
    */
-  async deployPortfolio(personName, htmlContent, netlifyToken) {
+  async deployPortfolio(personName, siteFiles, netlifyToken, { siteId: existingSiteId = null } = {}) {
     const startTime = Date.now();
     let siteId = null;
+    let createdSiteId = null;
+    let siteName;
+    let siteUrl;
 
     try {
-      // Step 1: Generate site name
-      const siteName = this.generateSiteName(personName);
-
-      // Step 2: Create site
-      const site = await this.createSite(siteName, netlifyToken);
-      siteId = site.siteId;
+      // Step 1: Use the portfolio's site, or create one when it has none (or it was deleted on Netlify)
+      if (existingSiteId) {
+        try {
+          const existingSite = await this.getSiteInfo(existingSiteId, netlifyToken);
+          siteId = existingSite.id;
+          siteName = existingSite.name;
+          siteUrl = existingSite.ssl_url || existingSite.url;
+          logger.info(`Redeploying to existing site: ${siteId}`);
+        } catch (error) {
+          if (error.response?.status !== 404) throw error;
+          logger.warn(`Site ${existingSiteId} no longer exists, creating a new one`);
+        }
+      }
 
-      // Step 3: Create deployment
-      const deployment = await this.createDeployment(siteId, htmlContent, netlifyToken);
+      if (!siteId) {
+        siteName = this.generateSiteName(personName);
+        const site = await this.createSite(siteName, netlifyToken);
+        siteId = createdSiteId = site.siteId;
+        siteUrl = site.siteUrl;
+      }
 
-      // Step 4: Upload file if required
-      if (deployment.requiredFiles.includes(deployment.htmlSha1)) {
-        await this.uploadFile(deployment.deployId, htmlContent, netlifyToken);
+      // Step 2: Create deployment
+      const deployFiles = siteBundler.addCrawlerFiles(siteFiles, siteUrl);
+      const deployment = await this.createDeployment(siteId, deployFiles, netlifyToken);
+
+      // Step 3: Upload the files Netlify does not have yet, once per digest
+      const requiredDigests = new Set(deployment.requiredFiles);
+      const filesToUpload = Object.keys(deployFiles).filter(filePath => {
+        const digest = deployment.fileDigests[filePath];
+        if (!requiredDigests.has(digest)) return false;
+        requiredDigests.delete(digest);
+        return true;
+      });
+
+      if (filesToUpload.length > 0) {
+        logger.info(`Uploading ${filesToUpload.length} of ${Object.keys(deployFiles).length} file(s)`);
+        for (const filePath of filesToUpload) {
+          await this.uploadFile(deployment.deployId, filePath, deployFiles[filePath], netlifyToken);
+        }
       } else {
-        logger.info('No file upload required (file already exists on Netlify)');
+        logger.info('No file upload required (files already exist on Netlify)');
       }
 
-      // Step 5: Wait for deployment to complete
+      // Step 4: Wait for deployment to complete
       const finalState = await this.waitForDeployment(siteId, deployment.deployId, netlifyToken);
 
-      // Step 6: Get final site info
+      // Step 5: Get final site info
       const finalSiteData = await this.getSiteInfo(siteId, netlifyToken);
       const finalUrl = finalSiteData.ssl_url || finalSiteData.url;
 
@@ -273,16 +425,19 @@ class NetlifyService {
         url: finalUrl,
         state: finalState,
         deploymentTime: totalTime,
-        siteName
+        siteName,
+        fileCount: Object.keys(deployFiles).length,
+        uploadedCount: filesToUpload.length,
+        redeployed: !createdSiteId
       };
     } catch (error) {
       logger.error('Portfolio deployment failed', error);
 
-      // Attempt to clean up failed site
-      if (siteId) {
+      // Attempt to clean up a site created for this deployment; existing sites keep their live deploy
+      if (createdSiteId) {
         try {
-          await this.deleteSite(siteId, netlifyToken);
-          logger.info(`Cleaned up failed site: ${siteId}`);
+          await this.deleteSite(createdSiteId, netlifyToken);
+          logger.info(`Cleaned up failed site: ${createdSiteId}`);
         } catch (cleanupError) {
           logger.warn('Failed to clean up site', cleanupError);
         }
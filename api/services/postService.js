@@ -0,0 +1,170 @@
+/**
+ * Post Service - Users' Markdown blog posts, validated and stored per user
+ */
+
+const crypto = require('crypto');
+const { POST_CONFIG } = require('../config/constants');
+const { googleSheetsService } = require('./googleSheetsService');
+const { siteBuilder } = require('./siteBuilder');
+const { Logger } = require('../utils/logger');
+
+const logger = new Logger('PostService');
+
+class PostService {
+  /**
+   * Posts are kept in Google Sheets; without it there are none to read
+   */
+  isAvailable() {
+    return googleSheetsService.isReady();
+  }
+
+  /**
+   * Check a post's fields
+   * @returns {string[]} - problems to show the user; empty when the post can be saved
+   */
+  validate({ title, summary, markdown, status }) {
+    const errors = [];
+
+    if (!title || !title.trim()) {
+      errors.push('Title is required');
+    } else if (title.trim().length > POST_CONFIG.MAX_TITLE_LENGTH) {
+      errors.push(`Title must be ${POST_CONFIG.MAX_TITLE_LENGTH} characters or fewer`);
+    }
+
+    if (summary && summary.trim().length > POST_CONFIG.MAX_SUMMARY_LENGTH) {
+      errors.push(`Summary must be ${POST_CONFIG.MAX_SUMMARY_LENGTH} characters or fewer`);
+    }
+
+    if (!markdown || !markdown.trim()) {
+      errors.push('Post content is required');
+    } else if (markdown.length > POST_CONFIG.MAX_MARKDOWN_LENGTH) {
+      errors.push(`Post content must be ${POST_CONFIG.MAX_MARKDOWN_LENGTH.toLocaleString()} characters or fewer`);
+    }
+
+    if (!POST_CONFIG.STATUSES.includes(status)) {
+      errors.push(`Status must be one of: ${POST_CONFIG.STATUSES.join(', ')}`);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Page name of a post, unique among the user's other posts
+   */
+  createSlug(title, otherPosts) {
+    const usedSlugs = new Set(otherPosts.map(post => post.slug));
+    const baseSlug = siteBuilder.slugify(title) || 'post';
+    let slug = baseSlug;
+    for (let count = 2; usedSlugs.has(slug); count++) slug = `${baseSlug}-${count}`;
+    return slug;
+  }
+
+  normalize({ title, summary, markdown, status }) {
+    return {
+      title: (title || '').trim(),
+      summary: (summary || '').trim(),
+      markdown: markdown || '',
+      status: status || 'draft'
+    };
+  }
+
+  /**
+   * Validate and store a post for a user
+   * @returns {Promise<Object>} - { post, errors, limitError }; post is null when validation failed or the user
+   * already has as many posts as they can keep (limitError says so)
+   */
+  async create(email, fields) {
+    const post = this.normalize(fields);
+    const errors = this.validate(post);
+    if (errors.length > 0) {
+      return { post: null, errors };
+    }
+
+    const existing = await this.list(email);
+    if (existing.length >= POST_CONFIG.MAX_PER_USER) {
+      return {
+        post: null,
+        errors,
+        limitError: `You can keep up to ${POST_CONFIG.MAX_PER_USER} posts. Delete one to write another.`
+      };
+    }
+
+    const id = `${POST_CONFIG.ID_PREFIX}${crypto.randomBytes(6).toString('hex')}`;
+    const saved = await googleSheetsService.saveBlogPost(email, {
+      id,
+      ...post,
+      slug: this.createSlug(post.title, existing)
+    });
+
+    logger.info(`Post ${id} created for ${email}`);
+    return { post: saved, errors };
+  }
+
+  /**
+   * A user's posts, drafts included, newest first
+   */
+  async list(email) {
+    return googleSheetsService.getUserBlogPosts(email);
+  }
+
+  /**
+   * A user's published posts, newest first, as they go into the portfolio
+   */
+  async listPublished(email) {
+    if (!email || !googleSheetsService.isReady()) return [];
+
+    const posts = await this.list(email);
+    return posts
+      .filter(post => post.status === 'published')
+      .sort((a, b) => new Date(b.publishedAt || b.createdAt) - new Date(a.publishedAt || a.createdAt));
+  }
+
+  /**
+   * One of a user's posts, or null
+   */
+  async get(email, postId) {
+    const posts = await this.list(email);
+    return posts.find(post => post.id === postId) || null;
+  }
+
+  /**
+   * Validate and save changes to a post. Its page name only changes with its title.
+   * @returns {Promise<Object|null>} - { post, errors }, or null when the user has no such post
+   */
+  async update(email, postId, fields) {
+    const posts = await this.list(email);
+    const current = posts.find(post => post.id === postId);
+    if (!current) return null;
+
+    const post = this.normalize({ ...current, ...fields });
+    const errors = this.validate(post);
+    if (errors.length > 0) {
+      return { post: null, errors };
+    }
+
+    const slug = post.title === current.title && current.slug
+      ? current.slug
+      : this.createSlug(post.title, posts.filter(other => other.id !== postId));
+
+    const saved = await googleSheetsService.updateBlogPost(email, postId, { ...post, slug });
+    if (!saved) return null;
+
+    logger.info(`Post ${postId} updated for ${email}`);
+    return { post: saved, errors };
+  }
+
+  /**
+   * Delete one of a user's posts
+   * @returns {Promise<boolean>} - false when the user has no such post
+   */
+  async remove(email, postId) {
+    return googleSheetsService.deleteBlogPost(email, postId);
+  }
+}
+
+const postService = new PostService();
+
+module.exports = {
+  PostService,
+  postService,
+};
@@ -0,0 +1,633 @@
+/**
+ * Site Builder - Turns a single-page portfolio into a site: the home page plus a case study page per project
+ * and, for users who publish writing, a blog listing with a page per post.
+ * The extra pages reuse the home page's styles, navigation and footer, and link back to it.
+ */
+
+const { JSDOM, VirtualConsole } = require('jsdom');
+const markdownRenderer = require('../utils/markdownRenderer');
+
+// Case study pages live in this folder of the site, e.g. projects/brand-refresh.html
+const CASE_STUDY_DIR = 'projects';
+// Blog listing (blog/index.html) and post pages, e.g. blog/first-post.html
+const BLOG_DIR = 'blog';
+// Relative path from a page in one of those folders back to the site root
+const ROOT_PREFIX = '../';
+
+const SECTION_LABELS = {
+  problem: 'Problem',
+  solution: 'Solution',
+  reflection: 'Reflection'
+};
+
+// Saved projects keep problem, solution and reflection in the overview as "Problem: ...\n\nSolution: ..."
+const LABELLED_SECTION_PATTERN = /(Problem|Solution|Reflection):\s*([\s\S]*?)(?=\n\s*\n\s*(?:Problem|Solution|Reflection):|$)/g;
+
+// Ids the home page usually gives its project list
+const PROJECT_ANCHORS = ['projects', 'work', 'gallery', 'portfolio'];
+
+// Length of the listing excerpt for posts without a summary
+const EXCERPT_LENGTH = 180;
+
+const PAGE_CSS = `.site-page {
+  max-width: 860px;
+  margin: 0 auto;
+  padding: 8rem 1.5rem 4rem;
+  color: var(--theme-text);
+  font-family: var(--theme-font-body);
+  line-height: 1.7;
+}
+.site-page h1, .site-page h2, .site-page h3 {
+  font-family: var(--theme-font-heading);
+  color: var(--theme-primary);
+  line-height: 1.15;
+}
+.site-page h1 { font-size: clamp(2.25rem, 5vw, 3.5rem); margin: 0.5rem 0 1rem; }
+.site-page h2 { font-size: 1.5rem; margin: 0 0 1rem; }
+.site-page a { color: var(--theme-accent); }
+.site-page-back, .site-page-pager a, .post-list h2 a { text-decoration: none; }
+.site-page-eyebrow {
+  margin: 2rem 0 0;
+  font-size: 0.8rem;
+  letter-spacing: 0.12em;
+  text-transform: uppercase;
+  color: var(--theme-accent);
+}
+.site-page-subtitle { font-size: 1.25rem; color: color-mix(in srgb, var(--theme-text) 75%, transparent); }
+.site-page-tags { display: flex; flex-wrap: wrap; gap: 0.5rem; margin: 1.5rem 0 0; padding: 0; list-style: none; }
+.site-page-tags li {
+  padding: 0.25rem 0.75rem;
+  border: 1px solid color-mix(in srgb, var(--theme-text) 20%, transparent);
+  border-radius: 999px;
+  font-size: 0.85rem;
+}
+.site-page-hero { margin: 3rem 0; }
+.site-page img { display: block; max-width: 100%; height: auto; border-radius: 4px; }
+.site-page-hero img, .site-page-gallery img { width: 100%; }
+.site-page-section { margin: 3rem 0; }
+.site-page-section p { margin: 0 0 1rem; }
+.site-page-gallery { display: grid; grid-template-columns: repeat(auto-fill, minmax(240px, 1fr)); gap: 1rem; }
+.site-page-gallery figure { margin: 0; }
+.site-page-pager {
+  display: flex;
+  justify-content: space-between;
+  gap: 1rem;
+  margin-top: 4rem;
+  padding-top: 2rem;
+  border-top: 1px solid color-mix(in srgb, var(--theme-text) 15%, transparent);
+}
+.site-page-pager a:last-child { margin-left: auto; text-align: right; }
+.post-list { margin: 3rem 0 0; padding: 0; list-style: none; }
+.post-list li { padding: 2rem 0; border-bottom: 1px solid color-mix(in srgb, var(--theme-text) 15%, transparent); }
+.post-list h2 { margin: 0.25rem 0 0.5rem; }
+.post-list p { margin: 0; }
+.post-list time { font-size: 0.85rem; color: color-mix(in srgb, var(--theme-text) 60%, transparent); }
+.post-body { margin-top: 3rem; }
+.post-body blockquote {
+  margin: 2rem 0;
+  padding-left: 1.25rem;
+  border-left: 3px solid var(--theme-accent);
+  color: color-mix(in srgb, var(--theme-text) 80%, transparent);
+}
+.post-body pre {
+  overflow-x: auto;
+  padding: 1rem;
+  border-radius: 4px;
+  background: color-mix(in srgb, var(--theme-text) 6%, var(--theme-background));
+}
+.post-body code { font-size: 0.9em; }
+.post-body hr { margin: 3rem 0; border: 0; border-top: 1px solid color-mix(in srgb, var(--theme-text) 15%, transparent); }`;
+
+// Links added to the home page keep the look of the headings they wrap
+const HOME_LINK_CSS = `a[data-case-study-link] { color: inherit; text-decoration: none; }
+a[data-case-study-link]:hover, a[data-case-study-link]:focus-visible { text-decoration: underline; text-underline-offset: 0.2em; }
+.site-index { max-width: 860px; margin: 0 auto; padding: 4rem 1.5rem; font-family: var(--theme-font-body); color: var(--theme-text); }
+.site-index h2 { font-family: var(--theme-font-heading); color: var(--theme-primary); }
+.site-index ul { padding: 0; list-style: none; }
+.site-index li { padding: 0.75rem 0; border-bottom: 1px solid color-mix(in srgb, var(--theme-text) 15%, transparent); }
+.site-index a[data-case-study-link] { text-decoration: underline; }`;
+
+const escapeHtml = (value) => String(value ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const toParagraphs = (text) => String(text || '')
+  .split(/\n\s*\n/)
+  .map(paragraph => paragraph.trim())
+  .filter(Boolean)
+  .map(paragraph => `<p>${escapeHtml(paragraph)}</p>`)
+  .join('\n');
+
+// Dates are shown in UTC so a post's date doesn't depend on where the site was built
+const formatDate = (value) => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime())
+    ? ''
+    : date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' });
+};
+
+class SiteBuilder {
+  /**
+   * Build the multi-page version of a portfolio
+   * @param {string} html - Finished single-page portfolio HTML
+   * @param {Object} portfolioData - Portfolio data with personalInfo and projects
+   * @param {Array} savedProjects - Projects with finalImages/processImages (getCompleteProjectData)
+   * @param {Object} options - caseStudies: add a page per project, posts: published blog posts, newest first
+   * @returns {Object} - { html, pages } where html is the home page and pages maps site paths to page HTML
+   */
+  build(html, portfolioData = {}, savedProjects = null, { caseStudies: withCaseStudies = true, posts = [] } = {}) {
+    const caseStudies = withCaseStudies ? this.getCaseStudies(portfolioData, savedProjects) : [];
+    const blogPosts = this.getBlogPosts(posts);
+    if (caseStudies.length === 0 && blogPosts.length === 0) return { html, pages: {} };
+
+    const dom = new JSDOM(html, { virtualConsole: new VirtualConsole() });
+    const document = dom.window.document;
+    const projectsAnchor = this.findProjectsAnchor(document);
+    const personName = portfolioData.personalInfo?.name || '';
+    const blogIndexPath = `${BLOG_DIR}/index.html`;
+
+    // The blog joins the shared navigation first, so every page links to it
+    const blogInNavigation = blogPosts.length > 0 && this.addNavigationLink(document, blogIndexPath, 'Writing');
+
+    // Pages are rendered from the home page before it gets its case study links
+    const pages = {};
+    caseStudies.forEach((caseStudy, index) => {
+      pages[caseStudy.path] = this.renderCaseStudy(document, caseStudy, {
+        previous: caseStudies[index - 1],
+        next: caseStudies[index + 1],
+        projectsAnchor,
+        personName
+      });
+    });
+
+    if (blogPosts.length > 0) Object.assign(pages, this.renderBlog(document, blogPosts, { personName }));
+
+    if (caseStudies.length > 0) this.linkCaseStudies(document, caseStudies);
+    if (blogPosts.length > 0 && !blogInNavigation) this.appendWritingSection(document, blogPosts);
+    this.addHomeStyles(document);
+
+    return { html: dom.serialize(), pages };
+  }
+
+  /**
+   * Replace the blog of a built site with the posts published now, so a deployment has the latest writing.
+   * Case study pages are kept and only get their "Writing" link added or removed.
+   * @param {string} html - Home page HTML, with or without a blog from an earlier build
+   * @param {Object} pages - The site's other pages by path, as build returns them
+   * @param {Object} options - personName, posts: published blog posts, newest first
+   * @returns {Object} - { html, pages } like build
+   */
+  rebuildBlog(html, pages = {}, { personName = '', posts = [] } = {}) {
+    const blogPosts = this.getBlogPosts(posts);
+    const blogIndexPath = `${BLOG_DIR}/index.html`;
+    const pageIndexPath = `${ROOT_PREFIX}${blogIndexPath}`;
+
+    const dom = new JSDOM(html, { virtualConsole: new VirtualConsole() });
+    const document = dom.window.document;
+    const hadBlog = this.removeBlogLinks(document, blogIndexPath);
+    if (!hadBlog && blogPosts.length === 0) return { html, pages };
+
+    const blogInNavigation = blogPosts.length > 0 && this.addNavigationLink(document, blogIndexPath, 'Writing');
+
+    const sitePages = {};
+    Object.entries(pages)
+      .filter(([pagePath]) => !pagePath.startsWith(`${BLOG_DIR}/`))
+      .forEach(([pagePath, pageHtml]) => {
+        const pageDom = new JSDOM(pageHtml, { virtualConsole: new VirtualConsole() });
+        const pageDocument = pageDom.window.document;
+        const removed = this.removeBlogLinks(pageDocument, pageIndexPath);
+        const added = blogInNavigation
+          && this.addNavigationLink(pageDocument, pageIndexPath, 'Writing', `a[href^="${ROOT_PREFIX}index.html"]`);
+        sitePages[pagePath] = removed || added ? pageDom.serialize() : pageHtml;
+      });
+
+    if (blogPosts.length > 0) {
+      Object.assign(sitePages, this.renderBlog(document, blogPosts, { personName }));
+      if (!blogInNavigation) this.appendWritingSection(document, blogPosts);
+      this.addHomeStyles(document);
+    }
+
+    return { html: dom.serialize(), pages: sitePages };
+  }
+
+  /**
+   * Case study content for each project, with a unique page path
+   */
+  getCaseStudies(portfolioData, savedProjects) {
+    const projects = savedProjects && savedProjects.length > 0 ? savedProjects : (portfolioData.projects || []);
+    const usedSlugs = new Set();
+
+    return projects.map((project, index) => {
+      const title = project.title || `Project ${index + 1}`;
+      const baseSlug = this.slugify(title) || `project-${index + 1}`;
+      let slug = baseSlug;
+      for (let count = 2; usedSlugs.has(slug); count++) slug = `${baseSlug}-${count}`;
+      usedSlugs.add(slug);
+
+      const finalImages = this.getImageUrls(project, 'finalImages', project.imageMetadata?.finalImage);
+      const processImages = this.getImageUrls(project, 'processImages');
+
+      return {
+        path: `${CASE_STUDY_DIR}/${slug}.html`,
+        title,
+        subtitle: project.subtitle || '',
+        category: project.customCategory || project.category || '',
+        tags: (project.tags || []).filter(Boolean),
+        ...this.parseSections(project),
+        heroImage: finalImages[0] || processImages[0] || '',
+        images: finalImages.slice(1),
+        processImages: finalImages.length > 0 ? processImages : processImages.slice(1)
+      };
+    });
+  }
+
+  /**
+   * Listing and page content for each post; slugs are already unique per user (postService)
+   */
+  getBlogPosts(posts) {
+    return (posts || [])
+      .filter(post => post && post.title && post.slug)
+      .map(post => ({
+        path: `${BLOG_DIR}/${post.slug}.html`,
+        title: post.title,
+        date: formatDate(post.publishedAt || post.createdAt),
+        summary: post.summary || markdownRenderer.toPlainText(post.markdown, EXCERPT_LENGTH),
+        body: markdownRenderer.render(post.markdown)
+      }));
+  }
+
+  /**
+   * Problem, solution and reflection of a project; overview text without those labels becomes the summary
+   */
+  parseSections(project) {
+    if (project.problem || project.solution || project.reflection) {
+      return {
+        summary: '',
+        problem: project.problem || '',
+        solution: project.solution || '',
+        reflection: project.reflection || ''
+      };
+    }
+
+    const overview = project.overview || project.description || '';
+    const sections = { summary: '', problem: '', solution: '', reflection: '' };
+    const matches = [...overview.matchAll(LABELLED_SECTION_PATTERN)];
+
+    if (matches.length === 0) {
+      sections.summary = overview;
+      return sections;
+    }
+
+    sections.summary = overview.slice(0, matches[0].index).trim();
+    matches.forEach(([, label, text]) => {
+      sections[label.toLowerCase()] = text.trim();
+    });
+    return sections;
+  }
+
+  /**
+   * Image URLs of one kind; saved projects keep Cloudinary images in imageMetadata
+   */
+  getImageUrls(project, key, ...extra) {
+    const urlOf = image => (typeof image === 'string' ? image : image?.url);
+
+    return [
+      ...extra,
+      ...(project.imageMetadata?.[key] || []),
+      ...(project[key] || [])
+    ].map(urlOf).filter((url, index, urls) => typeof url === 'string' && /^(https?:|data:)/.test(url) && urls.indexOf(url) === index);
+  }
+
+  slugify(value) {
+    return String(value)
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 60);
+  }
+
+  /**
+   * Id of the home page section listing the projects, for "All projects" links
+   */
+  findProjectsAnchor(document) {
+    const known = PROJECT_ANCHORS.find(id => document.getElementById(id));
+    if (known) return known;
+
+    return document.querySelector('[data-slot="projects"]')?.closest('[id]')?.id || '';
+  }
+
+  /**
+   * Add a link to the shared navigation, copying its last in-page link so it picks up the same styles.
+   * Pages one folder down pass the selector of their links back to the home page instead.
+   * @returns {boolean} - false when the navigation has no such link to copy
+   */
+  addNavigationLink(document, href, text, linkSelector = 'a[href^="#"]') {
+    const navigation = this.findSharedElement(document, 'nav, header');
+    const links = navigation ? Array.from(navigation.querySelectorAll(linkSelector)) : [];
+    const last = links[links.length - 1];
+    if (!last) return false;
+
+    const listItem = last.closest('li');
+    const item = listItem && navigation.contains(listItem) ? listItem : last;
+    const copy = item.cloneNode(true);
+    const link = copy.tagName === 'A' ? copy : copy.querySelector('a');
+
+    [copy, ...copy.querySelectorAll('[id]')].forEach(element => element.removeAttribute('id'));
+    link.setAttribute('href', href);
+    link.removeAttribute('aria-current');
+    link.classList.remove('active');
+    link.textContent = text;
+    item.after(copy);
+    return true;
+  }
+
+  /**
+   * Link every project on the home page to its case study.
+   * Skeleton project items are matched by position, other pages by a heading with the project's title;
+   * projects that can't be found are listed in a "Case studies" section instead.
+   */
+  linkCaseStudies(document, caseStudies) {
+    const items = Array.from(document.querySelectorAll('[data-slot="projects"]'));
+    const headings = Array.from(document.querySelectorAll('h1, h2, h3, h4, h5, h6'));
+    const unlinked = [];
+
+    caseStudies.forEach((caseStudy, index) => {
+      const title = caseStudy.title.trim().toLowerCase();
+      const heading = items[index]?.querySelector('[data-slot-field="title"]')
+        || headings.find(element => element.textContent.trim().toLowerCase() === title);
+
+      if (!heading || heading.closest('a') || heading.querySelector('a')) {
+        unlinked.push(caseStudy);
+        return;
+      }
+
+      const link = this.createLink(document, caseStudy.path);
+      link.append(...heading.childNodes);
+      heading.appendChild(link);
+    });
+
+    if (unlinked.length > 0) {
+      this.appendLinkSection(document, {
+        id: 'case-studies',
+        title: 'Case studies',
+        links: unlinked.map(caseStudy => ({ href: caseStudy.path, text: caseStudy.title }))
+      });
+    }
+  }
+
+  createLink(document, href) {
+    const link = document.createElement('a');
+    link.setAttribute('href', href);
+    link.setAttribute('data-case-study-link', '');
+    return link;
+  }
+
+  /**
+   * Section of links to the site's other pages, placed before the home page footer
+   */
+  appendLinkSection(document, { id, title, links }) {
+    const section = document.createElement('section');
+    section.id = id;
+    section.className = 'site-index';
+
+    const heading = document.createElement('h2');
+    heading.textContent = title;
+    const list = document.createElement('ul');
+    links.forEach(({ href, text }) => {
+      const item = document.createElement('li');
+      const link = this.createLink(document, href);
+      link.textContent = text;
+      item.appendChild(link);
+      list.appendChild(item);
+    });
+    section.append(heading, list);
+
+    const footer = this.findSharedElement(document, 'footer', true);
+    if (footer) {
+      footer.before(section);
+    } else {
+      (document.querySelector('main') || document.body).appendChild(section);
+    }
+  }
+
+  /**
+   * Home page list of the posts, for pages without navigation to add the blog to
+   */
+  appendWritingSection(document, blogPosts) {
+    this.appendLinkSection(document, {
+      id: 'writing',
+      title: 'Writing',
+      links: [
+        ...blogPosts.map(post => ({ href: post.path, text: post.title })),
+        { href: `${BLOG_DIR}/index.html`, text: 'All writing' }
+      ]
+    });
+  }
+
+  /**
+   * Take out the blog links of an earlier build: the navigation link and the home page list of posts
+   * @returns {boolean} - whether the page had any
+   */
+  removeBlogLinks(document, blogIndexHref) {
+    const navigation = this.findSharedElement(document, 'nav, header');
+    const links = navigation ? Array.from(navigation.querySelectorAll(`a[href="${blogIndexHref}"]`)) : [];
+    links.forEach(link => {
+      const listItem = link.closest('li');
+      (listItem && navigation.contains(listItem) ? listItem : link).remove();
+    });
+
+    const section = document.querySelector('section#writing.site-index');
+    if (section) section.remove();
+    return links.length > 0 || Boolean(section);
+  }
+
+  addHomeStyles(document) {
+    if (document.head.querySelector('style[data-case-study-links]')) return;
+    const style = document.createElement('style');
+    style.setAttribute('data-case-study-links', '');
+    style.textContent = `\n${HOME_LINK_CSS}\n`;
+    document.head.appendChild(style);
+  }
+
+  /**
+   * Site-wide navigation or footer: one that is not part of a section or article
+   */
+  findSharedElement(document, selector, last = false) {
+    const candidates = Array.from(document.body.querySelectorAll(selector))
+      .filter(element => !element.parentElement.closest('main, section, article, footer, nav, header'));
+    return last ? candidates[candidates.length - 1] : candidates[0];
+  }
+
+  /**
+   * Clone a home page element for a page one folder down, pointing its links back at the home page
+   */
+  cloneForPage(element) {
+    const clone = element.cloneNode(true);
+    const targets = [clone, ...clone.querySelectorAll('[href], [src]')];
+
+    targets.forEach(target => {
+      ['href', 'src'].forEach(attribute => {
+        const value = target.getAttribute(attribute);
+        if (value === null) return;
+        if (value.startsWith('#')) {
+          target.setAttribute(attribute, `${ROOT_PREFIX}index.html${value === '#' ? '' : value}`);
+        } else if (value && !/^([a-z][a-z0-9+.-]*:|\/)/i.test(value)) {
+          target.setAttribute(attribute, `${ROOT_PREFIX}${value}`);
+        }
+      });
+    });
+
+    return clone.outerHTML;
+  }
+
+  /**
+   * Full document for a page one folder down, with the home page's head, navigation and footer around main
+   */
+  renderPage(document, { title, description, bodyClass, main }) {
+    const lang = document.documentElement.getAttribute('lang') || 'en';
+    const headMarkup = Array.from(document.head.children)
+      .filter(element => ['META', 'LINK', 'STYLE'].includes(element.tagName))
+      .filter(element => !element.hasAttribute('data-case-study-links'))
+      .filter(element => !/^(description|og:|twitter:)/i.test(element.getAttribute('name') || element.getAttribute('property') || ''))
+      .map(element => this.cloneForPage(element))
+      .join('\n');
+    const navigation = this.findSharedElement(document, 'nav, header');
+    const footer = this.findSharedElement(document, 'footer', true);
+
+    return `<!DOCTYPE html>
+<html lang="${escapeHtml(lang)}">
+<head>
+${headMarkup}
+<title>${escapeHtml(title)}</title>
+${description ? `<meta name="description" content="${escapeHtml(description.slice(0, 160))}">\n` : ''}<style data-site-page>
+${PAGE_CSS}
+</style>
+</head>
+<body class="${bodyClass}">
+${navigation ? this.cloneForPage(navigation) : ''}
+<main class="site-page">
+${main}
+</main>
+${footer ? this.cloneForPage(footer) : ''}
+</body>
+</html>
+`;
+  }
+
+  pagerLink(target, direction) {
+    return target
+      ? `<a href="${ROOT_PREFIX}${escapeHtml(target.path)}" rel="${direction}">${direction === 'prev' ? '&larr; ' : ''}${escapeHtml(target.title)}${direction === 'next' ? ' &rarr;' : ''}</a>`
+      : '';
+  }
+
+  renderCaseStudy(document, caseStudy, { previous, next, projectsAnchor, personName }) {
+    const sections = [
+      caseStudy.summary && { id: 'overview', label: 'Overview', text: caseStudy.summary },
+      ...Object.entries(SECTION_LABELS)
+        .filter(([key]) => caseStudy[key])
+        .map(([key, label]) => ({ id: key, label, text: caseStudy[key] }))
+    ].filter(Boolean);
+
+    const gallery = (label, images, id) => images.length === 0 ? '' : `
+    <section class="site-page-section" id="${id}">
+      <h2>${label}</h2>
+      <div class="site-page-gallery">
+        ${images.map((url, index) => `<figure><img src="${escapeHtml(url)}" alt="${escapeHtml(`${caseStudy.title} ${label.toLowerCase()} ${index + 1}`)}" loading="lazy"></figure>`).join('\n        ')}
+      </div>
+    </section>`;
+
+    return this.renderPage(document, {
+      title: personName ? `${caseStudy.title} - ${personName}` : caseStudy.title,
+      description: caseStudy.subtitle || caseStudy.summary || caseStudy.problem,
+      bodyClass: 'case-study-page',
+      main: `  <a class="site-page-back" href="${ROOT_PREFIX}index.html${projectsAnchor ? `#${escapeHtml(projectsAnchor)}` : ''}">&larr; All projects</a>
+  <article>
+    <header>
+      ${caseStudy.category ? `<p class="site-page-eyebrow">${escapeHtml(caseStudy.category)}</p>` : ''}
+      <h1>${escapeHtml(caseStudy.title)}</h1>
+      ${caseStudy.subtitle ? `<p class="site-page-subtitle">${escapeHtml(caseStudy.subtitle)}</p>` : ''}
+      ${caseStudy.tags.length > 0 ? `<ul class="site-page-tags">${caseStudy.tags.map(tag => `<li>${escapeHtml(tag)}</li>`).join('')}</ul>` : ''}
+    </header>
+    ${caseStudy.heroImage ? `<figure class="site-page-hero"><img src="${escapeHtml(caseStudy.heroImage)}" alt="${escapeHtml(caseStudy.title)}"></figure>` : ''}
+    ${sections.map(section => `<section class="site-page-section" id="${section.id}">
+      <h2>${section.label}</h2>
+      ${toParagraphs(section.text)}
+    </section>`).join('\n    ')}
+    ${gallery('Process', caseStudy.processImages, 'process')}
+    ${gallery('Final work', caseStudy.images, 'final-work')}
+  </article>
+  <nav class="site-page-pager" aria-label="More projects">
+    ${this.pagerLink(previous, 'prev')}
+    ${this.pagerLink(next, 'next')}
+  </nav>`
+    });
+  }
+
+  /**
+   * Blog listing and post pages by path
+   */
+  renderBlog(document, blogPosts, { personName }) {
+    const pages = {
+      [`${BLOG_DIR}/index.html`]: this.renderBlogIndex(document, blogPosts, { personName })
+    };
+    blogPosts.forEach((post, index) => {
+      pages[post.path] = this.renderPost(document, post, {
+        newer: blogPosts[index - 1],
+        older: blogPosts[index + 1],
+        personName
+      });
+    });
+    return pages;
+  }
+
+  renderBlogIndex(document, posts, { personName }) {
+    return this.renderPage(document, {
+      title: personName ? `Writing - ${personName}` : 'Writing',
+      description: personName ? `Writing by ${personName}` : '',
+      bodyClass: 'blog-page',
+      main: `  <a class="site-page-back" href="${ROOT_PREFIX}index.html">&larr; Home</a>
+  <h1>Writing</h1>
+  <ul class="post-list">
+    ${posts.map(post => `<li>
+      ${post.date ? `<time>${escapeHtml(post.date)}</time>` : ''}
+      <h2><a href="${ROOT_PREFIX}${escapeHtml(post.path)}">${escapeHtml(post.title)}</a></h2>
+      ${post.summary ? `<p>${escapeHtml(post.summary)}</p>` : ''}
+    </li>`).join('\n    ')}
+  </ul>`
+    });
+  }
+
+  renderPost(document, post, { newer, older, personName }) {
+    return this.renderPage(document, {
+      title: personName ? `${post.title} - ${personName}` : post.title,
+      description: post.summary,
+      bodyClass: 'post-page',
+      main: `  <a class="site-page-back" href="index.html">&larr; All writing</a>
+  <article>
+    <header>
+      ${post.date ? `<p class="site-page-eyebrow"><time>${escapeHtml(post.date)}</time></p>` : ''}
+      <h1>${escapeHtml(post.title)}</h1>
+      ${post.summary ? `<p class="site-page-subtitle">${escapeHtml(post.summary)}</p>` : ''}
+    </header>
+    <div class="post-body">
+${post.body}
+    </div>
+  </article>
+  <nav class="site-page-pager" aria-label="More writing">
+    ${this.pagerLink(newer, 'prev')}
+    ${this.pagerLink(older, 'next')}
+  </nav>`
+    });
+  }
+}
+
+const siteBuilder = new SiteBuilder();
+
+module.exports = {
+  SiteBuilder,
+  siteBuilder,
+};
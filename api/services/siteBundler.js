@@ -0,0 +1,439 @@
+/**
+ * Site Bundler - Turns a portfolio's pages into the file manifest a deploy uploads: the pages, the images they show
+ * (downloaded so the site no longer hot-links Cloudinary), a favicon, robots.txt and sitemap.xml.
+ * Manifests map site paths to file contents, strings or Buffers, e.g. { 'index.html': '<!DOCTYPE html>...' }
+ * Deployed sites can also be read back into pages, so they can be edited and redeployed.
+ */
+
+const axios = require('axios');
+const { JSDOM, VirtualConsole } = require('jsdom');
+const themeTokens = require('../utils/themeTokens');
+const { calculateSha } = require('../helpers/fileHelpers');
+const publicAddresses = require('../utils/publicAddresses');
+const { SITE_BUNDLE_CONFIG } = require('../config/constants');
+const { Logger } = require('../utils/logger');
+
+const logger = new Logger('SiteBundler');
+
+// Paths a manifest may contain: lowercase folders and a file with a static site extension
+const SITE_FILE_PATTERN = /^[a-z0-9_-]+(\/[a-z0-9_.-]+)*\.(html|css|js|json|txt|xml|webmanifest|svg|png|jpe?g|gif|webp|avif|ico|woff2?)$/;
+
+const IMAGE_EXTENSIONS = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'image/svg+xml': 'svg'
+};
+
+// Content types hosts should serve manifest files with, by extension
+const CONTENT_TYPES = {
+  html: 'text/html; charset=utf-8',
+  css: 'text/css; charset=utf-8',
+  js: 'text/javascript; charset=utf-8',
+  json: 'application/json',
+  webmanifest: 'application/manifest+json',
+  txt: 'text/plain; charset=utf-8',
+  xml: 'application/xml',
+  svg: 'image/svg+xml',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  ico: 'image/x-icon',
+  woff: 'font/woff',
+  woff2: 'font/woff2'
+};
+
+const FAVICON_PATH = 'favicon.svg';
+
+const CSS_URL_PATTERN = /url\(\s*(['"]?)(https?:\/\/[^'")\s]+)\1\s*\)/gi;
+const CSS_ANY_URL_PATTERN = /url\(\s*(['"]?)([^'")\s]+)\1\s*\)/gi;
+
+const isPage = (filePath) => filePath.endsWith('.html');
+const isRemote = (url) => /^https?:\/\//i.test(url || '');
+// Relative to the page: not absolute, root-relative, an anchor or a data: URL
+const isRelative = (url) => !!url && !/^([a-z][a-z0-9+.-]*:|\/|#)/i.test(url);
+
+// Relative path from a page back to the site root, e.g. '../' for projects/brand-refresh.html
+const rootPrefix = (pagePath) => '../'.repeat(pagePath.split('/').length - 1);
+
+const srcsetUrls = (srcset) => String(srcset || '')
+  .split(',')
+  .map(candidate => candidate.trim().split(/\s+/)[0])
+  .filter(Boolean);
+
+const escapeXml = (value) => String(value ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+class SiteBundler {
+  constructor() {
+    this.config = SITE_BUNDLE_CONFIG;
+  }
+
+  /**
+   * Whether a path can be deployed as part of a site
+   */
+  isSiteFile(filePath) {
+    return SITE_FILE_PATTERN.test(filePath);
+  }
+
+  /**
+   * Content type to serve a manifest file with
+   */
+  contentType(filePath) {
+    return CONTENT_TYPES[filePath.split('.').pop().toLowerCase()] || 'application/octet-stream';
+  }
+
+  /**
+   * Bundle the images the pages show and a favicon into the manifest, pointing the pages at the local copies.
+   * Images that cannot be downloaded stay hot-linked.
+   * @param {Object} siteFiles - Manifest with at least 'index.html'
+   * @param {Object} options - personName: used for the favicon initials,
+   *   siteHosts: hosts of the site being redeployed, whose images are downloaded as well
+   * @returns {Promise<Object>} - A new manifest
+   */
+  async bundle(siteFiles, { personName = '', siteHosts = [] } = {}) {
+    const files = { ...siteFiles };
+    const documents = Object.keys(files)
+      .filter(isPage)
+      .map(pagePath => ({
+        pagePath,
+        dom: new JSDOM(String(files[pagePath]), { virtualConsole: new VirtualConsole() })
+      }));
+
+    const imageUrls = [...new Set(documents.flatMap(({ dom }) => this.collectImageUrls(dom.window.document)))];
+    const localImages = await this.downloadImages(imageUrls, files, siteHosts);
+
+    if (!files[FAVICON_PATH] && !files['favicon.ico']) {
+      files[FAVICON_PATH] = this.buildFavicon(personName, themeTokens.readTheme(files['index.html']));
+    }
+
+    documents.forEach(({ pagePath, dom }) => {
+      const document = dom.window.document;
+      const prefix = rootPrefix(pagePath);
+      this.rewriteImageUrls(document, localImages, prefix);
+      if (files[FAVICON_PATH] && document.head && !document.querySelector('link[rel~="icon"]')) {
+        const link = document.createElement('link');
+        link.setAttribute('rel', 'icon');
+        link.setAttribute('type', 'image/svg+xml');
+        link.setAttribute('href', `${prefix}${FAVICON_PATH}`);
+        document.head.appendChild(link);
+      }
+      files[pagePath] = dom.serialize();
+    });
+
+    logger.info(`Bundled ${localImages.size} of ${imageUrls.length} image(s) into a ${Object.keys(files).length} file site`);
+    return files;
+  }
+
+  /**
+   * Remote image URLs in a page: img and source elements, video posters, icons and CSS url() references
+   */
+  collectImageUrls(document) {
+    const urls = [];
+
+    document.querySelectorAll('img[src]').forEach(img => urls.push(img.getAttribute('src')));
+    document.querySelectorAll('video[poster]').forEach(video => urls.push(video.getAttribute('poster')));
+    document.querySelectorAll('link[rel~="icon"][href]').forEach(link => urls.push(link.getAttribute('href')));
+    document.querySelectorAll('[srcset]').forEach(element => urls.push(...srcsetUrls(element.getAttribute('srcset'))));
+
+    const css = [
+      ...[...document.querySelectorAll('style')].map(style => style.textContent),
+      ...[...document.querySelectorAll('[style]')].map(element => element.getAttribute('style'))
+    ].join('\n');
+    for (const match of css.matchAll(CSS_URL_PATTERN)) {
+      urls.push(match[2]);
+    }
+
+    return urls.filter(isRemote);
+  }
+
+  /**
+   * Whether an image is downloaded: only https URLs on the hosts images are uploaded to, or on the site's own
+   * hosts when it is redeployed, so page markup can't make the server fetch internal addresses
+   */
+  isDownloadable(url, siteHosts = []) {
+    try {
+      const { protocol, hostname } = new URL(url);
+      return protocol === 'https:' && [...this.config.IMAGE_HOSTS, ...siteHosts].includes(hostname.toLowerCase());
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Download images into the manifest under content-addressed names, so the same image is stored once.
+   * A few download at a time, and whatever isn't done when the time budget runs out stays hot-linked.
+   * @returns {Promise<Map>} - Remote URL -> site path of the downloaded copy
+   */
+  async downloadImages(imageUrls, files, siteHosts = []) {
+    const localImages = new Map();
+    const downloadable = imageUrls.filter(url => this.isDownloadable(url, siteHosts));
+
+    if (downloadable.length < imageUrls.length) {
+      logger.info(`Keeping ${imageUrls.length - downloadable.length} image(s) from other hosts hot-linked`);
+    }
+    if (downloadable.length > this.config.MAX_IMAGES) {
+      logger.warn(`Only the first ${this.config.MAX_IMAGES} of ${downloadable.length} images are bundled`);
+    }
+
+    const queue = downloadable.slice(0, this.config.MAX_IMAGES);
+    const budget = new AbortController();
+    const budgetTimer = setTimeout(() => budget.abort(), this.config.DOWNLOAD_BUDGET);
+
+    const downloadNext = async () => {
+      while (queue.length > 0 && !budget.signal.aborted) {
+        const url = queue.shift();
+        try {
+          const image = await this.downloadImage(url, budget.signal);
+          if (!image) continue;
+
+          const sitePath = `${this.config.IMAGE_DIR}/${calculateSha(image.content).slice(0, 16)}.${image.extension}`;
+          files[sitePath] = image.content;
+          localImages.set(url, sitePath);
+        } catch (error) {
+          logger.warn(`Keeping ${url} hot-linked: ${budget.signal.aborted ? 'download time budget used up' : error.message}`);
+        }
+      }
+    };
+
+    try {
+      await Promise.all(Array.from({ length: Math.min(this.config.DOWNLOAD_CONCURRENCY, queue.length) }, downloadNext));
+    } finally {
+      clearTimeout(budgetTimer);
+    }
+
+    if (queue.length > 0) {
+      logger.warn(`Download time budget used up; keeping ${queue.length} more image(s) hot-linked`);
+    }
+
+    return localImages;
+  }
+
+  /**
+   * One image and the extension it is stored with, or null when the response isn't an image
+   */
+  async downloadImage(url, signal) {
+    const response = await axios.get(url, {
+      responseType: 'arraybuffer',
+      maxContentLength: this.config.MAX_IMAGE_SIZE,
+      maxRedirects: 0,
+      timeout: this.config.IMAGE_TIMEOUT,
+      lookup: publicAddresses.lookup,
+      signal
+    });
+
+    const contentType = String(response.headers?.['content-type'] || '').split(';')[0].trim().toLowerCase();
+    const extension = IMAGE_EXTENSIONS[contentType];
+    if (!extension) {
+      logger.warn(`Keeping ${url} hot-linked: unexpected content type ${contentType || 'none'}`);
+      return null;
+    }
+
+    return { content: Buffer.from(response.data), extension };
+  }
+
+  /**
+   * Read a deployed site back: its home page and the pages its sitemap lists. The images the pages show point
+   * at the live site, so Preview shows them and a redeploy bundles them again.
+   * @param {string} siteUrl - The site's live URL
+   * @returns {Promise<Object>} - { html, pages } like siteBuilder.build, and url: where the home page was found
+   */
+  async fetchSite(siteUrl) {
+    const problem = await publicAddresses.checkUrl(siteUrl);
+    if (problem) {
+      throw new Error(`Site URL ${problem}`);
+    }
+
+    const home = await this.fetchPage(`${String(siteUrl).replace(/\/+$/, '')}/`);
+    const baseUrl = new URL('./', home.url).href;
+
+    let pagePaths = [];
+    try {
+      const sitemap = await this.fetchPage(`${baseUrl}sitemap.xml`);
+      // Sitemaps list the URL the site was deployed to, which may not be the host it is served from now
+      const basePath = new URL(baseUrl).pathname;
+      pagePaths = [...sitemap.text.matchAll(/<loc>([^<]+)<\/loc>/g)]
+        .map(match => new URL(match[1].trim()).pathname)
+        .filter(pathname => pathname.startsWith(basePath))
+        .map(pathname => pathname.slice(basePath.length).replace(/(^|\/)$/, '$1index.html'))
+        .filter(pagePath => pagePath !== 'index.html' && isPage(pagePath) && this.isSiteFile(pagePath));
+    } catch (error) {
+      logger.warn(`Reading only the home page of ${baseUrl}: ${error.message}`);
+    }
+
+    const pages = {};
+    for (const pagePath of [...new Set(pagePaths)].slice(0, this.config.MAX_PAGES)) {
+      try {
+        const page = await this.fetchPage(`${baseUrl}${pagePath}`);
+        pages[pagePath] = this.absolutizeUrls(page.text, `${baseUrl}${pagePath}`);
+      } catch (error) {
+        logger.warn(`Leaving out ${pagePath}: ${error.message}`);
+      }
+    }
+
+    logger.info(`Read ${Object.keys(pages).length + 1} page(s) back from ${baseUrl}`);
+    return { html: this.absolutizeUrls(home.text, baseUrl), pages, url: baseUrl };
+  }
+
+  /**
+   * A page of a live site as text, with the URL it was served from after redirects
+   */
+  async fetchPage(url) {
+    const response = await axios.get(url, {
+      responseType: 'text',
+      maxContentLength: this.config.MAX_PAGE_SIZE,
+      maxRedirects: 3,
+      timeout: this.config.PAGE_TIMEOUT,
+      lookup: publicAddresses.lookup
+    });
+
+    return { text: String(response.data), url: response.request?.res?.responseUrl || url };
+  }
+
+  /**
+   * Point a live page's relative image references (the ones collectImageUrls finds) at the site;
+   * links between pages stay relative
+   */
+  absolutizeUrls(html, pageUrl) {
+    const dom = new JSDOM(html, { virtualConsole: new VirtualConsole() });
+    const document = dom.window.document;
+    const absoluteUrl = (url) => isRelative(url) ? new URL(url, pageUrl).href : url;
+    const rewriteCss = (css) => css.replace(CSS_ANY_URL_PATTERN, (match, quote, url) =>
+      isRelative(url) ? `url(${quote}${absoluteUrl(url)}${quote})` : match);
+
+    [['img[src]', 'src'], ['video[poster]', 'poster'], ['link[rel~="icon"][href]', 'href']].forEach(([selector, attribute]) => {
+      document.querySelectorAll(selector).forEach(element => {
+        element.setAttribute(attribute, absoluteUrl(element.getAttribute(attribute)));
+      });
+    });
+    document.querySelectorAll('[srcset]').forEach(element => {
+      element.setAttribute('srcset', element.getAttribute('srcset')
+        .split(',')
+        .map(candidate => {
+          const [url, ...descriptors] = candidate.trim().split(/\s+/);
+          return [absoluteUrl(url), ...descriptors].join(' ');
+        })
+        .join(', '));
+    });
+    document.querySelectorAll('style').forEach(style => {
+      style.textContent = rewriteCss(style.textContent);
+    });
+    document.querySelectorAll('[style]').forEach(element => {
+      element.setAttribute('style', rewriteCss(element.getAttribute('style')));
+    });
+
+    return dom.serialize();
+  }
+
+  /**
+   * Point a page's image references at the bundled copies
+   */
+  rewriteImageUrls(document, localImages, prefix) {
+    if (localImages.size === 0) return;
+
+    const localUrl = (url) => localImages.has(url) ? `${prefix}${localImages.get(url)}` : url;
+    const rewriteAttribute = (selector, attribute) => {
+      document.querySelectorAll(selector).forEach(element => {
+        element.setAttribute(attribute, localUrl(element.getAttribute(attribute)));
+      });
+    };
+    const rewriteCss = (css) => css.replace(CSS_URL_PATTERN, (match, quote, url) =>
+      localImages.has(url) ? `url(${quote}${localUrl(url)}${quote})` : match);
+
+    rewriteAttribute('img[src]', 'src');
+    rewriteAttribute('video[poster]', 'poster');
+    rewriteAttribute('link[rel~="icon"][href]', 'href');
+
+    document.querySelectorAll('[srcset]').forEach(element => {
+      const srcset = element.getAttribute('srcset')
+        .split(',')
+        .map(candidate => {
+          const [url, ...descriptors] = candidate.trim().split(/\s+/);
+          return [localUrl(url), ...descriptors].join(' ');
+        })
+        .join(', ');
+      element.setAttribute('srcset', srcset);
+    });
+
+    document.querySelectorAll('style').forEach(style => {
+      style.textContent = rewriteCss(style.textContent);
+    });
+    document.querySelectorAll('[style]').forEach(element => {
+      element.setAttribute('style', rewriteCss(element.getAttribute('style')));
+    });
+  }
+
+  /**
+   * A monogram favicon in the portfolio's primary colour
+   */
+  buildFavicon(personName, theme = {}) {
+    const initials = String(personName || '')
+      .split(/\s+/)
+      .filter(Boolean)
+      .slice(0, 2)
+      .map(word => word[0].toUpperCase())
+      .join('') || 'P';
+    const background = theme.primary || themeTokens.defaultTheme.primary;
+    const color = theme.background || themeTokens.defaultTheme.background;
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 64 64">
+  <rect width="64" height="64" rx="14" fill="${escapeXml(background)}"/>
+  <text x="32" y="42" text-anchor="middle" font-family="Helvetica, Arial, sans-serif" font-size="28" font-weight="600" fill="${escapeXml(color)}">${escapeXml(initials)}</text>
+</svg>
+`;
+  }
+
+  /**
+   * Add robots.txt and a sitemap of the manifest's pages, unless the manifest has its own.
+   * Needs the site's URL, so deploys call this once they know which site they go to.
+   * @returns {Object} - A new manifest
+   */
+  addCrawlerFiles(siteFiles, siteUrl) {
+    const files = { ...siteFiles };
+    const baseUrl = String(siteUrl || '').replace(/\/+$/, '');
+    if (!baseUrl) return files;
+
+    if (!files['sitemap.xml']) {
+      files['sitemap.xml'] = this.buildSitemap(Object.keys(files).filter(isPage), baseUrl);
+    }
+    if (!files['robots.txt']) {
+      files['robots.txt'] = `User-agent: *\nAllow: /\n\nSitemap: ${baseUrl}/sitemap.xml\n`;
+    }
+
+    return files;
+  }
+
+  /**
+   * Sitemap listing the home page first; index.html pages are listed by their folder URL
+   */
+  buildSitemap(pagePaths, baseUrl) {
+    const lastModified = new Date().toISOString().slice(0, 10);
+    const urls = [...pagePaths]
+      .sort((a, b) => (a === 'index.html' ? -1 : b === 'index.html' ? 1 : a.localeCompare(b)))
+      .map(pagePath => `  <url>
+    <loc>${escapeXml(`${baseUrl}/${pagePath.replace(/(^|\/)index\.html$/, '$1')}`)}</loc>
+    <lastmod>${lastModified}</lastmod>
+  </url>`);
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${urls.join('\n')}
+</urlset>
+`;
+  }
+}
+
+const siteBundler = new SiteBundler();
+
+module.exports = {
+  SiteBundler,
+  siteBundler,
+};
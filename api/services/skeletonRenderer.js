@@ -0,0 +1,263 @@
+/**
+ * Skeleton Renderer - Builds a complete portfolio from a skeleton and the user's data without calling the model
+ */
+
+const fs = require('fs-extra');
+const { JSDOM, VirtualConsole } = require('jsdom');
+const { isBuiltInSkeleton, getTemplatePath } = require('../skeletons');
+const skeletonSlots = require('../utils/skeletonSlots');
+const { Logger } = require('../utils/logger');
+
+const logger = new Logger('SkeletonRenderer');
+
+// Neutral theme used for the skeletons' {{COLOR_*}} / {{FONT_*}} tokens
+const DEFAULT_THEME = {
+  COLOR_PRIMARY: '#1a1a1a',
+  COLOR_SECONDARY: '#6b6b6b',
+  COLOR_TEXT: '#1a1a1a',
+  COLOR_BACKGROUND: '#F7F5F1',
+  COLOR_ACCENT: '#c4472b',
+  FONT_PRIMARY: "'Helvetica Neue', Arial, sans-serif",
+  FONT_SECONDARY: "Georgia, 'Times New Roman', serif"
+};
+
+// {{TOKEN}} and [UPPER_CASE_TOKEN] placeholders left in a skeleton once its slots are filled
+const TOKEN_PATTERN = /\{\{([A-Z][A-Z0-9_]*)\}\}|\[([A-Z][A-Z0-9]*(?:_[A-Z0-9]+)+)\]/g;
+const PROJECT_TOKEN_PATTERN = /^PROJECT_(\d+)_([A-Z0-9_]+)$/;
+
+class SkeletonRenderer {
+  /**
+   * Whether a skeleton can be rendered locally
+   */
+  supports(skeletonId) {
+    return isBuiltInSkeleton(skeletonId);
+  }
+
+  /**
+   * Render a skeleton with the user's personal info and projects.
+   * The output only depends on its inputs and the current date, so it is stable across runs.
+   * @param {string} skeletonId - One of SKELETON_TEMPLATES
+   * @param {Object} portfolioData - Portfolio data with personalInfo and projects
+   * @param {Array} savedProjects - Projects with finalImages/processImages (getCompleteProjectData)
+   * @param {Object} options - { date } to pin the date used for years and datelines
+   * @returns {Promise<Object>} - { html, missingSlots }
+   */
+  async render(skeletonId, portfolioData, savedProjects = null, { date = new Date() } = {}) {
+    if (!this.supports(skeletonId)) {
+      throw new Error(`Unknown skeleton: ${skeletonId}`);
+    }
+
+    const [html, manifest] = await Promise.all([
+      fs.readFile(getTemplatePath(skeletonId), 'utf8'),
+      skeletonSlots.loadManifest(skeletonId)
+    ]);
+
+    if (!manifest) {
+      throw new Error(`Skeleton ${skeletonId} has no manifest`);
+    }
+
+    return this.renderTemplate({ id: skeletonId, html, manifest }, portfolioData, savedProjects, { date });
+  }
+
+  /**
+   * Render skeleton HTML that is already loaded, e.g. a user's custom skeleton
+   * @param {Object} skeleton - { id, html, manifest }
+   */
+  renderTemplate({ id, html, manifest }, portfolioData, savedProjects = null, { date = new Date() } = {}) {
+    const content = skeletonSlots.buildContent(portfolioData, savedProjects);
+    const filled = skeletonSlots.fill(html, manifest, content);
+
+    if (filled.missingSlots.length > 0) {
+      logger.warn(`Required slots without content in ${id}: ${filled.missingSlots.join(', ')}`);
+    }
+
+    return {
+      html: this.resolveTokens(this.renumberProjectTokens(filled.html, manifest), content, date),
+      missingSlots: filled.missingSlots
+    };
+  }
+
+  /**
+   * Repeat items cloned from the last template item still carry its [PROJECT_n_*] tokens;
+   * point the tokens in every item at the project the item shows.
+   */
+  renumberProjectTokens(html, manifest) {
+    const repeatSlots = manifest.slots.filter(slot => slot.type === 'repeat');
+    if (repeatSlots.length === 0) return html;
+
+    const dom = new JSDOM(html, { virtualConsole: new VirtualConsole() });
+    repeatSlots.forEach(slot => {
+      dom.window.document.querySelectorAll(`[data-slot="${slot.id}"]`).forEach((item, index) => {
+        item.outerHTML = item.outerHTML.replace(/\[PROJECT_\d+_/g, `[PROJECT_${index + 1}_`);
+      });
+    });
+
+    return dom.serialize();
+  }
+
+  /**
+   * Replace the placeholders the model would otherwise write with values derived from the content.
+   * Unknown placeholders are removed.
+   */
+  resolveTokens(html, content, date) {
+    const values = this.buildTokenValues(content, date);
+
+    return html.replace(TOKEN_PATTERN, (match, braceToken, bracketToken) => {
+      const token = braceToken || bracketToken;
+
+      // Theme values land in <style> blocks, where entities are not decoded
+      if (DEFAULT_THEME[token]) return DEFAULT_THEME[token];
+      if (token.endsWith('_JSON')) return '{}';
+      if (token === 'FILTER_CATEGORIES') return this.buildFilterTags(content.projects);
+      if (token.startsWith('HERO_IMAGE_')) {
+        return this.escapeUrl(this.getHeroImage(content.projects, Number(token.slice('HERO_IMAGE_'.length))));
+      }
+
+      const projectToken = token.match(PROJECT_TOKEN_PATTERN);
+      if (projectToken) {
+        const [, position, field] = projectToken;
+        const project = content.projects[Number(position) - 1];
+        return field.endsWith('IMAGE') || field.endsWith('IMAGE_1')
+          ? this.escapeUrl(this.getProjectImage(project, field))
+          : this.escape(this.getProjectValue(project, field));
+      }
+
+      return this.escape(values[token] ?? '');
+    });
+  }
+
+  buildTokenValues(content, date) {
+    const name = content.name || 'Portfolio';
+    const title = content.title || 'Creative Professional';
+    const categories = this.getCategories(content.projects);
+    const projectCount = content.projects.length;
+    const formattedDate = date.toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
+
+    return {
+      // Person
+      USER_NAME: name,
+      PERSON_NAME: name,
+      COPYRIGHT_NAME: name,
+      PUBLICATION_NAME: name,
+      HERO_TITLE: name,
+      USER_FIRST_NAME: name.split(' ')[0],
+      USER_TITLE: title,
+      PERSON_TITLE: title,
+      USER_PROFESSION: title,
+      TAGLINE_TEXT: title,
+      USER_EMAIL: content.email,
+      PERSON_EMAIL: content.email,
+      USER_PHONE: content.phone,
+      USER_WEBSITE: content.website,
+      USER_LINKEDIN: content.linkedin,
+      USER_INSTAGRAM: content.instagram,
+      HERO_DESCRIPTION: content.bio.split(/\n\s*\n/)[0].trim() || title,
+      PORTRAIT_PLACEHOLDER: this.getInitials(name),
+
+      // Copy
+      PORTFOLIO_DESCRIPTION: categories.length > 0 ? `Selected work in ${this.joinList(categories)}.` : `Selected work by ${name}.`,
+      PROJECT_CATEGORIES: categories.length > 0 ? this.joinList(categories.map(category => category.toLowerCase())) : 'creative work',
+      SKILLS_DESCRIPTION: content.skills.length > 0
+        ? `${title} working across ${this.joinList(content.skills.slice(0, 3))}.`
+        : `${title} focused on thoughtful, well-crafted work.`,
+      CONTACT_MESSAGE: content.email ? `Have a project in mind? Get in touch at ${content.email}.` : 'Have a project in mind? Get in touch.',
+      CONTACT_AVAILABILITY_TEXT: 'Available for new projects',
+      AVAILABILITY_TEXT: 'Available for new projects',
+      FOOTER_MESSAGE: 'All rights reserved.',
+
+      // Layout
+      PROJECT_COUNT_CLASS: projectCount <= 6 ? `count-${projectCount}` : 'count-many',
+
+      // Dates
+      CURRENT_YEAR: String(date.getFullYear()),
+      CURRENT_DATE: formattedDate,
+      LOCATION_DATE_HEADER: formattedDate,
+      VOLUME_NUMBER: String(date.getFullYear() - 2000)
+    };
+  }
+
+  getProjectValue(project, field) {
+    if (!project) return '';
+
+    switch (field) {
+      case 'TITLE':
+      case 'HEADLINE':
+        return project.title;
+      case 'SUBHEADLINE':
+      case 'CAPTION':
+      case 'IMAGE_CAPTION':
+        return project.subtitle;
+      case 'CATEGORY':
+        return project.category;
+      case 'CATEGORY_FILTER':
+        return this.slugify(project.category);
+      case 'OVERVIEW':
+      case 'DESCRIPTION':
+      case 'SUMMARY':
+        return project.overview;
+      case 'TAGS':
+        return project.tags.join(', ');
+      default:
+        return '';
+    }
+  }
+
+  getProjectImage(project, field) {
+    if (!project) return '';
+    return field === 'PROCESS_IMAGE' ? project.images[1] || project.image : project.image;
+  }
+
+  /**
+   * Hero images cycle through every project image
+   */
+  getHeroImage(projects, position) {
+    const images = projects.flatMap(project => project.images);
+    return images.length > 0 ? images[(position - 1) % images.length] : '';
+  }
+
+  buildFilterTags(projects) {
+    return this.getCategories(projects)
+      .map(category => `<div class="filter-tag" data-filter="${this.escape(this.slugify(category))}">${this.escape(category)}</div>`)
+      .join('\n            ');
+  }
+
+  getCategories(projects) {
+    return [...new Set(projects.map(project => project.category).filter(Boolean))];
+  }
+
+  getInitials(name) {
+    return name.split(/\s+/).filter(Boolean).slice(0, 2).map(part => part[0].toUpperCase()).join('');
+  }
+
+  joinList(items) {
+    if (items.length <= 1) return items.join('');
+    return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+  }
+
+  slugify(value) {
+    return String(value || '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  }
+
+  escape(value) {
+    return String(value)
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  /**
+   * Image URLs are placed in attributes and in CSS url('...'), so quotes and brackets are percent-encoded
+   */
+  escapeUrl(url) {
+    return String(url).replace(/["'()<>\s\\]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`);
+  }
+}
+
+const skeletonRenderer = new SkeletonRenderer();
+
+module.exports = {
+  SkeletonRenderer,
+  skeletonRenderer,
+};
@@ -0,0 +1,34 @@
+/**
+ * Built-in skeleton templates - the one copy of their HTML and slot manifests.
+ * The client imports the same files (src/skeletons/index.ts), so edit them here only.
+ * No dependencies, so the build check can load it before packages are installed.
+ */
+
+const path = require('path');
+const { SKELETON_TEMPLATES } = require('../config/constants');
+
+const SKELETONS_PATH = __dirname;
+const MANIFESTS_PATH = path.join(__dirname, 'manifests');
+
+/**
+ * Whether an id is one of SKELETON_TEMPLATES
+ */
+const isBuiltInSkeleton = (skeletonId) => Object.values(SKELETON_TEMPLATES).includes(skeletonId);
+
+/**
+ * Path of a skeleton's HTML template
+ */
+const getTemplatePath = (skeletonId) => path.join(SKELETONS_PATH, `${path.basename(skeletonId)}.html`);
+
+/**
+ * Path of a skeleton's slot manifest
+ */
+const getManifestPath = (skeletonId) => path.join(MANIFESTS_PATH, `${path.basename(skeletonId)}.json`);
+
+module.exports = {
+  SKELETONS_PATH,
+  MANIFESTS_PATH,
+  isBuiltInSkeleton,
+  getTemplatePath,
+  getManifestPath,
+};
@@ -33,9 +33,10 @@ const runHealthCheck = async (baseUrl) => {
     `Expected 200 status from /api/health, got ${response.status}`
   );
 
+  // WARNING only means optional services (Google Sheets, Cloudinary) are not configured
   const data = await response.json();
-  if (!data || data.status !== 'OK') {
-    throw new Error('Health check did not return OK status');
+  if (!data || !['OK', 'WARNING'].includes(data.status)) {
+    throw new Error(`Health check returned ${data && data.status} status`);
   }
 
   if (!data.platform) {
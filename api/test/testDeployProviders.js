@@ -0,0 +1,337 @@
+process.env.NODE_ENV = 'test';
+
+const assert = require('assert');
+const crypto = require('crypto');
+const http = require('http');
+
+let NetlifyService;
+let NetlifyProvider;
+let GitHubPagesProvider;
+let VercelProvider;
+let CloudflarePagesProvider;
+let StaticHostProvider;
+let getProvider;
+let calculateSha;
+try {
+  ({ NetlifyService } = require('../services/netlifyService'));
+  ({ NetlifyProvider } = require('../services/deployProviders/netlifyProvider'));
+  ({ GitHubPagesProvider } = require('../services/deployProviders/githubPagesProvider'));
+  ({ VercelProvider } = require('../services/deployProviders/vercelProvider'));
+  ({ CloudflarePagesProvider } = require('../services/deployProviders/cloudflarePagesProvider'));
+  ({ StaticHostProvider } = require('../services/deployProviders/staticHostProvider'));
+  ({ getProvider } = require('../services/deployProviders'));
+  ({ calculateSha } = require('../helpers/fileHelpers'));
+} catch (error) {
+  if (error.code === 'MODULE_NOT_FOUND') {
+    console.warn('Dependencies missing, skipping deploy provider test:', error.message);
+    process.exit(0);
+  }
+  throw error;
+}
+
+const SITE_FILES = {
+  'index.html': '<!DOCTYPE html><html><body>Ada Lee</body></html>',
+  'projects/brand-refresh.html': '<!DOCTYPE html><html><body>Brand Refresh</body></html>',
+  'assets/images/cover.png': Buffer.from([0x89, 0x50, 0x4e, 0x47])
+};
+
+const reply = (body = {}, status = 200, headers = {}) => ({ status, body, headers });
+
+/**
+ * A local HTTP server standing in for a provider's API. Routes are "METHOD /path" (without the query string)
+ * mapped to a reply or a function of the request returning one; every request is recorded.
+ */
+const startMockApi = async () => {
+  let routes = {};
+  const requests = [];
+
+  const server = http.createServer((req, res) => {
+    const chunks = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const url = new URL(req.url, 'http://localhost');
+      const body = Buffer.concat(chunks);
+      const request = { method: req.method, path: url.pathname, query: Object.fromEntries(url.searchParams), headers: req.headers, body };
+      try {
+        request.json = JSON.parse(body.toString());
+      } catch {
+        request.json = null;
+      }
+      requests.push(request);
+
+      const route = routes[`${req.method} ${url.pathname}`];
+      const { status, body: responseBody, headers } = typeof route === 'function'
+        ? route(request)
+        : route || reply({ message: 'Not Found' }, 404);
+
+      res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+      res.end(req.method === 'HEAD' ? undefined : JSON.stringify(responseBody));
+    });
+  });
+
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    url: `http://127.0.0.1:${server.address().port}`,
+    requests,
+    use(newRoutes) {
+      routes = newRoutes;
+      requests.length = 0;
+    },
+    find(method, path) {
+      return requests.filter(request => request.method === method && request.path === path);
+    },
+    close: () => new Promise(resolve => server.close(resolve))
+  };
+};
+
+const withoutPolling = (provider) => Object.assign(provider, { pollInterval: 0 });
+
+// Answers from a list in turn, repeating the last one
+const inTurn = (...replies) => {
+  let calls = 0;
+  return () => replies[Math.min(calls++, replies.length - 1)];
+};
+
+const gitBlobSha = (content) => calculateSha(Buffer.concat([Buffer.from(`blob ${Buffer.byteLength(content)}\0`), Buffer.from(content)]));
+
+(async () => {
+  const api = await startMockApi();
+
+  try {
+    // Registry
+    assert.strictEqual(getProvider().id, 'netlify');
+    assert.strictEqual(getProvider('github-pages').name, 'GitHub Pages');
+    assert.strictEqual(getProvider('ftp'), null);
+    assert.deepStrictEqual(getProvider('cloudflare-pages').getMissingCredentials({ token: 'cf' }), ['Account ID']);
+    assert.deepStrictEqual(getProvider('github-pages').getMissingCredentials({ token: 'gh' }), []);
+    console.log('✓ Providers are registered with their credentials');
+
+    // Netlify
+    const netlifyService = new NetlifyService();
+    netlifyService.apiBaseUrl = api.url;
+    netlifyService.pollInterval = 0;
+    api.use({
+      'POST /sites': reply({ id: 'site-1', name: 'ada-lee-portfolio', ssl_url: 'https://ada-lee-portfolio.netlify.app' }),
+      'POST /sites/site-1/deploys': ({ json }) => reply({ id: 'deploy-1', state: 'uploading', required: [json.files['index.html']] }),
+      'PUT /deploys/deploy-1/files/index.html': reply({}),
+      'GET /sites/site-1/deploys/deploy-1': reply({ state: 'ready' }),
+      'GET /sites/site-1': reply({ id: 'site-1', ssl_url: 'https://ada-lee-portfolio.netlify.app' })
+    });
+    const netlify = await new NetlifyProvider(netlifyService).deploy(SITE_FILES, { personName: 'Ada Lee', credentials: { token: 'nf' } });
+    assert.strictEqual(netlify.url, 'https://ada-lee-portfolio.netlify.app');
+    assert.strictEqual(netlify.uploadedCount, 1);
+    assert.strictEqual(api.find('PUT', '/deploys/deploy-1/files/index.html')[0].body.toString(), SITE_FILES['index.html']);
+    assert.strictEqual(api.requests[0].headers.authorization, 'Bearer nf');
+    console.log('✓ Netlify deploys through NetlifyService');
+
+    // GitHub Pages: first deploy creates the repository, the branch and the Pages site
+    const github = withoutPolling(new GitHubPagesProvider({ apiBaseUrl: api.url }));
+    let blobCount = 0;
+    api.use({
+      'POST /user/repos': reply({ full_name: 'ada/portfolio' }, 201),
+      'POST /repos/ada/portfolio/git/blobs': () => reply({ sha: `blob-${++blobCount}` }, 201),
+      'POST /repos/ada/portfolio/git/trees': reply({ sha: 'tree-1' }, 201),
+      'POST /repos/ada/portfolio/git/commits': reply({ sha: 'commit-1' }, 201),
+      'POST /repos/ada/portfolio/git/refs': reply({}, 201),
+      'POST /repos/ada/portfolio/pages': reply({}, 201),
+      'GET /repos/ada/portfolio/pages/builds/latest': inTurn(reply({ commit: 'commit-0', status: 'built' }), reply({ commit: 'commit-1', status: 'built' }))
+    });
+    const firstPush = await github.deploy(SITE_FILES, { personName: 'Ada Lee', credentials: { token: 'gh', repository: 'ada/portfolio' } });
+    const tree = api.find('POST', '/repos/ada/portfolio/git/trees')[0].json.tree;
+    assert.deepStrictEqual(tree.map(entry => entry.path), [...Object.keys(SITE_FILES), 'sitemap.xml', 'robots.txt', '.nojekyll']);
+    assert.strictEqual(firstPush.url, 'https://ada.github.io/portfolio/');
+    assert.strictEqual(firstPush.siteId, 'ada/portfolio');
+    assert.strictEqual(firstPush.redeployed, false);
+    assert.deepStrictEqual(api.find('POST', '/repos/ada/portfolio/git/refs')[0].json, { ref: 'refs/heads/gh-pages', sha: 'commit-1' });
+    assert.deepStrictEqual(api.find('POST', '/repos/ada/portfolio/pages')[0].json, { source: { branch: 'gh-pages', path: '/' } });
+    assert.strictEqual(api.find('GET', '/repos/ada/portfolio/pages/builds/latest').length, 2, 'waits for the build of the new commit');
+    assert.strictEqual(api.requests[0].headers.authorization, 'Bearer gh');
+    console.log('✓ GitHub Pages creates the repository, branch and Pages site');
+
+    // GitHub Pages: redeploys reuse blobs the branch already has and move the branch
+    api.use({
+      'GET /repos/ada/portfolio': reply({ full_name: 'ada/portfolio' }),
+      'GET /repos/ada/portfolio/git/ref/heads/gh-pages': reply({ object: { sha: 'commit-1' } }),
+      'GET /repos/ada/portfolio/git/commits/commit-1': reply({ tree: { sha: 'tree-1' } }),
+      'GET /repos/ada/portfolio/git/trees/tree-1': reply({ tree: [{ path: 'index.html', type: 'blob', sha: gitBlobSha(SITE_FILES['index.html']) }] }),
+      'GET /repos/ada/portfolio/pages': reply({ html_url: 'https://ada.dev/' }),
+      'POST /repos/ada/portfolio/git/blobs': () => reply({ sha: `blob-${++blobCount}` }, 201),
+      'POST /repos/ada/portfolio/git/trees': reply({ sha: 'tree-2' }, 201),
+      'POST /repos/ada/portfolio/git/commits': reply({ sha: 'commit-2' }, 201),
+      'PATCH /repos/ada/portfolio/git/refs/heads/gh-pages': reply({}),
+      'GET /repos/ada/portfolio/pages/builds/latest': reply({ commit: 'commit-2', status: 'built' })
+    });
+    const secondPush = await github.deploy(SITE_FILES, { personName: 'Ada Lee', credentials: { token: 'gh' }, siteId: 'ada/portfolio' });
+    assert.strictEqual(secondPush.url, 'https://ada.dev/');
+    assert.strictEqual(secondPush.redeployed, true);
+    assert.strictEqual(secondPush.uploadedCount, secondPush.fileCount - 1);
+    assert.strictEqual(api.find('GET', '/repos/ada/portfolio/git/trees/tree-1')[0].query.recursive, '1');
+    assert.deepStrictEqual(api.find('POST', '/repos/ada/portfolio/git/commits')[0].json.parents, ['commit-1']);
+    assert.deepStrictEqual(api.find('PATCH', '/repos/ada/portfolio/git/refs/heads/gh-pages')[0].json, { sha: 'commit-2', force: true });
+    assert.strictEqual(api.find('POST', '/repos/ada/portfolio/pages').length, 0);
+    console.log('✓ GitHub Pages redeploys only upload new files');
+
+    // Vercel: files Vercel reports missing are uploaded before the deployment is created again
+    const vercel = withoutPolling(new VercelProvider({ apiBaseUrl: api.url }));
+    const indexDigest = calculateSha(SITE_FILES['index.html']);
+    api.use({
+      'GET /v9/projects/ada-portfolio': reply({ name: 'ada-portfolio' }),
+      'POST /v13/deployments': inTurn(
+        reply({ error: { code: 'missing_files', message: 'Missing files', missing: [indexDigest] } }, 400),
+        reply({ id: 'dpl_1', readyState: 'QUEUED' })
+      ),
+      'POST /v2/files': reply({}),
+      'GET /v13/deployments/dpl_1': inTurn(reply({ readyState: 'BUILDING' }), reply({ readyState: 'READY', alias: ['ada-portfolio.vercel.app'] }))
+    });
+    const vercelDeploy = await vercel.deploy(SITE_FILES, { personName: 'Ada Lee', credentials: { token: 'vc', teamId: 'team_1' }, siteId: 'ada-portfolio' });
+    const uploads = api.find('POST', '/v2/files');
+    assert.strictEqual(uploads.length, 1);
+    assert.strictEqual(uploads[0].headers['x-vercel-digest'], indexDigest);
+    assert.strictEqual(uploads[0].body.toString(), SITE_FILES['index.html']);
+    const [, retried] = api.find('POST', '/v13/deployments');
+    assert.strictEqual(retried.json.target, 'production');
+    assert.ok(retried.json.files.some(file => file.file === 'assets/images/cover.png' && file.size === 4));
+    assert.ok(api.requests.every(request => request.query.teamId === 'team_1'));
+    assert.strictEqual(vercelDeploy.url, 'https://ada-portfolio.vercel.app');
+    assert.strictEqual(vercelDeploy.redeployed, true);
+    console.log('✓ Vercel uploads missing files and waits for the deployment');
+
+    // Vercel: failed builds are reported
+    api.use({
+      'POST /v13/deployments': reply({ id: 'dpl_2' }),
+      'GET /v13/deployments/dpl_2': reply({ readyState: 'ERROR' })
+    });
+    await assert.rejects(vercel.deploy(SITE_FILES, { personName: 'Ada Lee', credentials: { token: 'vc' } }), /status: ERROR/);
+    console.log('✓ Vercel reports failed deployments');
+
+    // Cloudflare Pages: project, missing assets and a manifest deployment
+    const cloudflare = withoutPolling(new CloudflarePagesProvider({ apiBaseUrl: api.url }));
+    const projects = '/accounts/acc-1/pages/projects';
+    api.use({
+      [`POST ${projects}`]: ({ json }) => reply({ success: true, result: { name: json.name, subdomain: `${json.name}.pages.dev` } }),
+      [`GET ${projects}/ada-cf/upload-token`]: reply({ success: true, result: { jwt: 'upload-jwt' } }),
+      'POST /pages/assets/check-missing': ({ json }) => reply({ success: true, result: json.hashes.slice(0, 1) }),
+      'POST /pages/assets/upload': reply({ success: true, result: {} }),
+      'POST /pages/assets/upsert-hashes': reply({ success: true, result: {} }),
+      [`POST ${projects}/ada-cf/deployments`]: reply({ success: true, result: { id: 'cf-1' } }),
+      [`GET ${projects}/ada-cf/deployments/cf-1`]: inTurn(
+        reply({ success: true, result: { latest_stage: { name: 'deploy', status: 'active' } } }),
+        reply({ success: true, result: { latest_stage: { name: 'deploy', status: 'success' } } })
+      )
+    });
+    // The project does not exist yet, so it is created under the site id it was asked for
+    const cloudflareDeploy = await cloudflare.deploy(SITE_FILES, { personName: 'Ada Lee', credentials: { token: 'cf', accountId: 'acc-1' }, siteId: 'ada-cf' });
+    const [upload] = api.find('POST', '/pages/assets/upload');
+    assert.strictEqual(upload.json.length, 1);
+    assert.strictEqual(upload.headers.authorization, 'Bearer upload-jwt');
+    assert.strictEqual(Buffer.from(upload.json[0].value, 'base64').toString(), SITE_FILES['index.html']);
+    assert.strictEqual(upload.json[0].metadata.contentType, 'text/html; charset=utf-8');
+    const deployBody = api.find('POST', `${projects}/ada-cf/deployments`)[0].body.toString();
+    const manifest = JSON.parse(deployBody.match(/name="manifest"\r\n\r\n(.*)\r\n/)[1]);
+    assert.deepStrictEqual(Object.keys(manifest), ['/index.html', '/projects/brand-refresh.html', '/assets/images/cover.png', '/sitemap.xml', '/robots.txt']);
+    assert.ok(Object.values(manifest).every(key => /^[0-9a-f]{32}$/.test(key)));
+    assert.strictEqual(cloudflareDeploy.url, 'https://ada-cf.pages.dev');
+    assert.strictEqual(cloudflareDeploy.uploadedCount, 1);
+    assert.strictEqual(cloudflareDeploy.redeployed, false);
+    console.log('✓ Cloudflare Pages uploads missing assets and deploys a manifest');
+
+    // S3-compatible storage: the endpoint must be https on a public address before anything is sent to it
+    const staticHost = new StaticHostProvider();
+    const endpointProblems = async (endpoint) => staticHost.getInvalidCredentials({ endpoint });
+    for (const endpoint of [
+      'http://s3.example.com',
+      'https://127.0.0.1',
+      'https://localhost:9000',
+      'https://[::1]',
+      'https://[::ffff:169.254.169.254]',
+      'https://169.254.169.254/latest',
+      'https://10.0.0.5',
+      'https://192.168.1.20',
+      'not a url'
+    ]) {
+      assert.strictEqual((await endpointProblems(endpoint)).length, 1, `${endpoint} is refused`);
+    }
+    assert.deepStrictEqual(await endpointProblems('https://52.216.8.1'), []);
+    api.use({});
+    await assert.rejects(
+      staticHost.deploy(SITE_FILES, { credentials: { endpoint: api.url, bucket: 'b', accessKeyId: 'AKID', secretAccessKey: 'secret' } }),
+      /Endpoint must start with https/
+    );
+    assert.strictEqual(api.requests.length, 0, 'nothing is sent to a refused endpoint');
+    console.log('✓ S3-compatible storage only sends to https endpoints on public addresses');
+
+    // S3-compatible storage: signed uploads of the objects that changed; the mock API runs on this machine
+    staticHost.getInvalidCredentials = async () => [];
+    const unchangedEtag = `"${crypto.createHash('md5').update(SITE_FILES['assets/images/cover.png']).digest('hex')}"`;
+    api.use({
+      'HEAD /portfolio-bucket/assets/images/cover.png': reply({}, 200, { ETag: unchangedEtag }),
+      'PUT /portfolio-bucket/index.html': reply({}),
+      'PUT /portfolio-bucket/projects/brand-refresh.html': reply({}),
+      'PUT /portfolio-bucket/sitemap.xml': reply({}),
+      'PUT /portfolio-bucket/robots.txt': reply({})
+    });
+    const staticDeploy = await staticHost.deploy(SITE_FILES, {
+      credentials: { endpoint: `${api.url}/`, bucket: 'portfolio-bucket', region: 'auto', accessKeyId: 'AKID', secretAccessKey: 'secret', publicUrl: 'https://ada.example.com' }
+    });
+    const puts = api.requests.filter(request => request.method === 'PUT');
+    assert.deepStrictEqual(puts.map(request => request.path), [
+      '/portfolio-bucket/index.html',
+      '/portfolio-bucket/projects/brand-refresh.html',
+      '/portfolio-bucket/sitemap.xml',
+      '/portfolio-bucket/robots.txt'
+    ]);
+    assert.strictEqual(puts[0].headers['content-type'], 'text/html; charset=utf-8');
+    assert.match(puts[0].headers.authorization, /^AWS4-HMAC-SHA256 Credential=AKID\/\d{8}\/auto\/s3\/aws4_request, SignedHeaders=cache-control;content-type;host;x-amz-content-sha256;x-amz-date, Signature=[0-9a-f]{64}$/);
+    assert.ok(puts.find(request => request.path.endsWith('robots.txt')).body.toString().includes('Sitemap: https://ada.example.com/sitemap.xml'));
+    assert.strictEqual(staticDeploy.url, 'https://ada.example.com');
+    assert.strictEqual(staticDeploy.uploadedCount, 4);
+    console.log('✓ S3-compatible storage uploads changed objects with signed requests');
+
+    // Custom domains: Netlify verifies by issuing the certificate, which fails until DNS points at the site
+    assert.strictEqual(staticHost.supportsCustomDomains, false);
+    api.use({
+      'PATCH /sites/site-1': ({ json }) => reply({ id: 'site-1', custom_domain: json.custom_domain }),
+      'GET /sites/site-1': reply({ id: 'site-1', name: 'ada-lee-portfolio', custom_domain: 'adalee.dev' }),
+      'GET /sites/site-1/ssl': reply({ message: 'Not Found' }, 404),
+      'POST /sites/site-1/ssl': inTurn(
+        reply({ message: 'DNS verification failed for adalee.dev' }, 422),
+        reply({ state: 'issued', domains: ['adalee.dev'] })
+      )
+    });
+    const netlifyDomains = new NetlifyProvider(netlifyService);
+    const pendingDomain = await netlifyDomains.addCustomDomain('site-1', 'adalee.dev', { token: 'nf' });
+    assert.strictEqual(api.find('PATCH', '/sites/site-1')[0].json.custom_domain, 'adalee.dev');
+    assert.strictEqual(pendingDomain.status, 'pending_dns');
+    assert.deepStrictEqual(pendingDomain.records, [{ type: 'A', name: '@', value: '75.2.60.5' }]);
+    assert.match(pendingDomain.error, /DNS verification failed/);
+    const activeDomain = await netlifyDomains.getCustomDomain('site-1', 'adalee.dev', { token: 'nf' });
+    assert.strictEqual(activeDomain.status, 'active');
+    console.log('✓ Netlify custom domains report DNS records, verification and certificate');
+
+    // GitHub Pages: subdomains CNAME to the owner's github.io host
+    api.use({
+      'PUT /repos/ada/portfolio/pages': reply({}, 204),
+      'GET /repos/ada/portfolio/pages': reply({ cname: 'www.adalee.dev', https_certificate: { state: 'authorization_pending' } }),
+      'GET /repos/ada/portfolio/pages/health': reply({ domain: { host: 'www.adalee.dev', is_pointed_to_github_pages_server: true } })
+    });
+    const githubDomain = await github.addCustomDomain('ada/portfolio', 'www.adalee.dev', { token: 'gh' });
+    assert.strictEqual(api.find('PUT', '/repos/ada/portfolio/pages')[0].json.cname, 'www.adalee.dev');
+    assert.deepStrictEqual(githubDomain.records, [{ type: 'CNAME', name: 'www', value: 'ada.github.io' }]);
+    assert.strictEqual(githubDomain.status, 'provisioning_ssl');
+    console.log('✓ GitHub Pages custom domains wait for the certificate after DNS checks out');
+
+    // Provider errors keep the response status for the routes
+    api.use({ 'GET /user': reply({ message: 'Bad credentials' }, 401) });
+    await assert.rejects(
+      github.deploy(SITE_FILES, { personName: 'Ada Lee', credentials: { token: 'wrong' } }),
+      error => error.response.status === 401 && /Bad credentials/.test(error.message)
+    );
+    console.log('✓ Provider errors keep their status code');
+  } catch (error) {
+    console.error('Test suite failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await api.close();
+  }
+})();
@@ -0,0 +1,108 @@
+process.env.NODE_ENV = 'test';
+
+const assert = require('assert');
+
+let generationJobService;
+let googleSheetsService;
+let GENERATION_JOB_CONFIG;
+try {
+  ({ generationJobService } = require('../services/generationJobService'));
+  ({ googleSheetsService } = require('../services/googleSheetsService'));
+  ({ GENERATION_JOB_CONFIG } = require('../config/constants'));
+} catch (error) {
+  if (error.code === 'MODULE_NOT_FOUND') {
+    console.warn('Dependencies missing, skipping generation job test:', error.message);
+    process.exit(0);
+  }
+  throw error;
+}
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+const newJob = () => ({
+  id: 'job_1_test',
+  rowIndex: 4,
+  email: 'ada@example.com',
+  status: 'queued',
+  stage: 'queued',
+  percent: 0,
+  message: 'Waiting to start',
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString(),
+  portfolioData: { personalInfo: { name: 'Ada Lee' } },
+  intermediate: { analysis: null, partialHtml: null, continuationAttempts: [] },
+  result: null,
+  error: null
+});
+
+// Sheets writes are recorded instead of sent; job data over the limit is refused like googleSheetsService does
+let maxDataLength = Infinity;
+const writes = [];
+googleSheetsService.updateGenerationJob = async (rowIndex, job, { includeData }) => {
+  if (includeData && JSON.stringify(job).length > maxDataLength) {
+    throw Object.assign(new Error('too large'), { code: 'JOB_DATA_TOO_LARGE' });
+  }
+  writes.push({ rowIndex, job, includeData });
+};
+
+GENERATION_JOB_CONFIG.WRITE_INTERVAL_MS = 50;
+
+(async () => {
+  try {
+    const reporter = generationJobService.createReporter(newJob());
+    reporter.progress('analysis', 10, 'Reviewing your project content');
+    for (let index = 0; index < 20; index++) {
+      reporter.partial(`<html>${'x'.repeat(index)}`);
+      reporter.progress('generating', 20 + index, 'Writing your portfolio');
+    }
+    await sleep(20);
+    assert.strictEqual(writes.length, 1, 'events in one interval share a write');
+    assert.strictEqual(writes[0].includeData, false, 'progress and partials only write the status cells');
+    assert.strictEqual(writes[0].job.percent, 39);
+    assert.strictEqual(writes[0].job.intermediate.partialHtml.length, '<html>'.length + 19);
+
+    reporter.checkpoint('analysis', { confidence: 0.9 });
+    reporter.progress('rendering', 70, 'Rendering');
+    await sleep(20);
+    assert.strictEqual(writes.length, 1, 'the next write waits for the interval');
+    await sleep(60);
+    assert.strictEqual(writes.length, 2);
+    assert.strictEqual(writes[1].includeData, true, 'checkpoints rewrite the job data');
+    assert.deepStrictEqual(writes[1].job.intermediate.analysis, { confidence: 0.9 });
+    console.log('✓ Progress is written at most once per interval, job data only after checkpoints');
+
+    reporter.progress('quality', 90, 'Checking quality');
+    await reporter.send({ success: true, portfolio: { html: '<html></html>', metadata: { projectData: [{ title: 'Brand Refresh' }], title: 'Ada Lee' } } });
+    assert.strictEqual(writes.length, 3, 'the final write does not wait and replaces the queued one');
+    assert.strictEqual(writes[2].job.status, 'completed');
+    assert.strictEqual(writes[2].includeData, true);
+    assert.deepStrictEqual(writes[2].job.result.portfolio.metadata, { title: 'Ada Lee' }, 'project data is not stored');
+    await reporter.flush();
+    await sleep(80);
+    assert.strictEqual(writes.length, 3, 'nothing is written after the job finished');
+    console.log('✓ Finished jobs are written right away');
+
+    writes.length = 0;
+    const interrupted = generationJobService.createReporter(newJob());
+    interrupted.progress('analysis', 10, 'Reviewing your project content');
+    await sleep(20);
+    interrupted.progress('generating', 30, 'Writing your portfolio');
+    await interrupted.flush();
+    assert.strictEqual(writes.length, 2, 'flush writes what is still waiting');
+    assert.strictEqual(writes[1].job.percent, 30);
+    console.log('✓ Flushing writes the latest progress');
+
+    writes.length = 0;
+    maxDataLength = 2000;
+    const large = generationJobService.createReporter(newJob());
+    await large.send({ success: true, portfolio: { html: `<html>${'x'.repeat(5000)}</html>`, metadata: {} } });
+    assert.strictEqual(writes.length, 1);
+    assert.strictEqual(writes[0].includeData, false, 'only the status is written');
+    assert.strictEqual(writes[0].job.status, 'failed');
+    assert.ok(writes[0].job.error.includes('too large'), 'the job says why it failed');
+    console.log('✓ Jobs too large to store are marked failed with the reason');
+  } catch (error) {
+    console.error('Test suite failed:', error);
+    process.exit(1);
+  }
+})();
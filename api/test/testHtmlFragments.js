@@ -0,0 +1,81 @@
+process.env.NODE_ENV = 'test';
+
+const assert = require('assert');
+const htmlFragments = require('../utils/htmlFragments');
+
+const PAGE = `<!DOCTYPE html>
+<html>
+<head>
+<style>
+  body { margin: 0; }
+  .card { padding: 12px; }
+  .card .card { padding: 4px; }
+  .unused { color: red; }
+  @keyframes fade { from { opacity: 0; } to { opacity: 1; } }
+  @keyframes spin { to { transform: rotate(360deg); } }
+  .hero { animation: fade 1s; }
+</style>
+</head>
+<body>
+<section class="hero" id="hero"><h1>Ada Lee</h1></section>
+<main>
+  <div class="card"><p>Same</p></div>
+  <div class="card"><p>Same</p><div class="card"><p>Inner</p></div></div>
+</main>
+</body>
+</html>`;
+
+try {
+  const hero = htmlFragments.extractFragment(PAGE, 'hero');
+  assert.strictEqual(hero.fragmentHtml, '<section class="hero" id="hero"><h1>Ada Lee</h1></section>');
+  assert.strictEqual(hero.tagName, 'section');
+  assert.ok(hero.cssContext.includes('.hero') && hero.cssContext.includes('@keyframes fade'));
+  assert.ok(!hero.cssContext.includes('.unused') && !hero.cssContext.includes('@keyframes spin'), 'unrelated CSS is left out');
+  assert.strictEqual(htmlFragments.extractFragment(PAGE, 'missing'), null);
+  assert.strictEqual(htmlFragments.extractFragment(PAGE, 'editable-9-9'), null);
+  console.log('✓ Fragments are found by id with the CSS that applies to them');
+
+  // editable-1-1 is the second card in <main>, which holds a nested card of its own
+  const outer = htmlFragments.extractFragment(PAGE, 'editable-1-1');
+  assert.strictEqual(outer.fragmentHtml, '<div class="card"><p>Same</p><div class="card"><p>Inner</p></div></div>');
+  const inner = htmlFragments.extractFragment(PAGE, 'editable-1-1-1');
+  assert.strictEqual(inner.fragmentHtml, '<div class="card"><p>Inner</p></div>');
+  assert.ok(inner.startOffset > outer.startOffset && inner.endOffset < outer.endOffset);
+  console.log('✓ Nested elements resolve to their own source range');
+
+  // The first two cards start with the same markup; only the selected one changes
+  const updated = htmlFragments.spliceFragment(PAGE, outer, '<div class="card"><p>Changed</p></div>');
+  assert.ok(updated.includes('<div class="card"><p>Same</p></div>\n  <div class="card"><p>Changed</p></div>'));
+  assert.strictEqual(updated.slice(0, outer.startOffset), PAGE.slice(0, outer.startOffset));
+  assert.strictEqual(updated.slice(-PAGE.length + outer.endOffset), PAGE.slice(outer.endOffset));
+  assert.strictEqual(htmlFragments.spliceFragment(PAGE, outer, outer.fragmentHtml), PAGE);
+  console.log('✓ Splicing replaces only the selected duplicate and keeps the rest byte-for-byte');
+
+  assert.deepStrictEqual(htmlFragments.validateFragment('<div><p>One</p></div>'), { isValid: true, issues: [] });
+  assert.ok(htmlFragments.validateFragment('  <div>One</div>\n').isValid, 'surrounding whitespace is fine');
+  assert.strictEqual(htmlFragments.validateFragment('').isValid, false);
+  assert.strictEqual(htmlFragments.validateFragment(null).isValid, false);
+  assert.strictEqual(htmlFragments.validateFragment('<div>One</div><div>Two</div>').isValid, false);
+  assert.strictEqual(htmlFragments.validateFragment('Just text').isValid, false);
+  assert.strictEqual(htmlFragments.validateFragment('<div>One</div> and text').isValid, false);
+  const documentResponse = htmlFragments.validateFragment('<!DOCTYPE html><html><body><div>One</div></body></html>');
+  assert.ok(documentResponse.issues.some(issue => issue.includes('full document')));
+  console.log('✓ Only a single root element is accepted as a fragment');
+
+  const repaired = htmlFragments.repairDocument('<html><body><main><section><p>Cut off <str');
+  assert.ok(repaired.includes('<p>Cut off </p></section></main></body></html>'), 'open elements are closed');
+  assert.ok(!repaired.includes('<str'), 'partial tags are dropped');
+  assert.ok(htmlFragments.repairDocument('').includes('<body></body>'));
+  console.log('✓ Truncated documents are repaired');
+
+  const withSections = htmlFragments.insertSections(
+    '<html><head></head><body><main></main><footer>End</footer></body></html>',
+    '<style>.contact { color: red; }</style><section class="contact">Contact</section>'
+  );
+  assert.ok(withSections.includes('<head><style>.contact { color: red; }</style></head>'));
+  assert.ok(withSections.includes('<section class="contact">Contact</section><footer>'), 'sections go before the footer');
+  console.log('✓ Generated sections are inserted before the footer and styles into <head>');
+} catch (error) {
+  console.error('Test suite failed:', error);
+  process.exit(1);
+}
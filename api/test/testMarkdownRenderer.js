@@ -0,0 +1,66 @@
+process.env.NODE_ENV = 'test';
+
+const assert = require('assert');
+
+let markdownRenderer;
+let JSDOM;
+try {
+  markdownRenderer = require('../utils/markdownRenderer');
+  ({ JSDOM } = require('jsdom'));
+} catch (error) {
+  if (error.code === 'MODULE_NOT_FOUND') {
+    console.warn('Dependencies missing, skipping Markdown renderer test:', error.message);
+    process.exit(0);
+  }
+  throw error;
+}
+
+// The URL of the first link or image in rendered Markdown, as the browser reads it (entities decoded)
+const renderedUrl = (markdown) => {
+  const { document } = new JSDOM(markdownRenderer.render(markdown)).window;
+  const link = document.querySelector('a');
+  const image = document.querySelector('img');
+  return link ? link.getAttribute('href') : image && image.getAttribute('src');
+};
+
+try {
+  const html = markdownRenderer.render('## Start small\n\nLogos **shrink**. <script>alert(1)</script> <img src=x onerror="alert(1)">');
+  assert.ok(html.includes('<h2>Start small</h2>') && html.includes('<strong>shrink</strong>'));
+  assert.ok(!html.includes('<script>') && html.includes('&lt;script&gt;'), 'raw HTML is shown as text');
+  assert.ok(!/<img[^>]*onerror/.test(html), 'raw HTML attributes never reach the page');
+  console.log('✓ Markdown is rendered and raw HTML is escaped');
+
+  [
+    '[a](javascript:alert(1))',
+    '[a](JAVASCRIPT:alert(1))',
+    '[a]( javascript:alert(1))',
+    '[a](<javascript:alert(1)>)',
+    '[a](JAVASCRIPT&#58;alert(1))',
+    '[a](&#106;avascript:alert(1))',
+    '[a](&#x6A;avascript&colon;alert(1))',
+    '[a](&#106avascript:alert(1))',
+    '[a](java&#x09;script:alert(1))',
+    '[a](vbscript:msgbox(1))',
+    '[a](data:text/html,<script>alert(1)</script>)',
+    '![a](data:image/svg+xml,<svg onload="alert(1)">)',
+    '[a](file:///etc/passwd)',
+  ].forEach(markdown => {
+    assert.ok(!renderedUrl(markdown), `${markdown} is not linked`);
+  });
+  console.log('✓ Script, data and other URL schemes are dropped, however they are written');
+
+  assert.strictEqual(renderedUrl('[a](https://example.com/work?a=1)'), 'https://example.com/work?a=1');
+  assert.strictEqual(renderedUrl('[a](http://example.com)'), 'http://example.com');
+  assert.strictEqual(renderedUrl('[a](mailto:ada@example.com)'), 'mailto:ada@example.com');
+  assert.strictEqual(renderedUrl('[a](../blog/hello.html)'), '../blog/hello.html');
+  assert.strictEqual(renderedUrl('[a](#contact)'), '#contact');
+  assert.strictEqual(renderedUrl('![a](https://images.example.com/logo.png)'), 'https://images.example.com/logo.png');
+  console.log('✓ Web, email and relative links are kept');
+
+  assert.strictEqual(markdownRenderer.toPlainText('## Hi\n\nA **bold** <b>move</b>.'), 'Hi A bold <b>move</b>.');
+  assert.strictEqual(markdownRenderer.toPlainText('one two three four', 10), 'one two…');
+  console.log('✓ Plain text excerpts drop the formatting');
+} catch (error) {
+  console.error('Test suite failed:', error);
+  process.exit(1);
+}
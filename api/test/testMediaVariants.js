@@ -0,0 +1,58 @@
+process.env.NODE_ENV = 'test';
+
+const assert = require('assert');
+const fs = require('fs');
+
+let mediaVariants;
+let accessibilityValidator;
+let SKELETON_TEMPLATES;
+let getTemplatePath;
+try {
+  mediaVariants = require('../utils/mediaVariants');
+  accessibilityValidator = require('../utils/validators/accessibilityValidator');
+  ({ SKELETON_TEMPLATES } = require('../config/constants'));
+  ({ getTemplatePath } = require('../skeletons'));
+} catch (error) {
+  if (error.code === 'MODULE_NOT_FOUND') {
+    console.warn('Dependencies missing, skipping media variants test:', error.message);
+    process.exit(0);
+  }
+  throw error;
+}
+
+const VARIANT_ISSUES = ['missing_reduced_motion', 'missing_color_scheme'];
+
+const variantIssues = (results) => results.issues
+  .map(issue => issue.type)
+  .filter(type => VARIANT_ISSUES.includes(type));
+
+const ANIMATED_PAGE = `<!DOCTYPE html>
+<html>
+<head><style>:root { --theme-background: #ffffff; --theme-text: #111111; } .card { transition: transform 0.3s ease; }</style></head>
+<body><main><h1>Sample</h1></main></body>
+</html>`;
+
+(async () => {
+  try {
+    for (const skeletonId of Object.values(SKELETON_TEMPLATES)) {
+      const html = fs.readFileSync(getTemplatePath(skeletonId), 'utf8');
+      assert.strictEqual(mediaVariants.ensureVariants(html), html, `${skeletonId} is missing a variant`);
+      assert.deepStrictEqual(variantIssues(await accessibilityValidator.validate(html, {})), [], skeletonId);
+    }
+    console.log('✓ Built-in skeletons ship both variants');
+
+    assert.deepStrictEqual(variantIssues(await accessibilityValidator.validate(ANIMATED_PAGE, {})), VARIANT_ISSUES);
+    console.log('✓ Missing variants are reported');
+
+    const ensured = mediaVariants.ensureVariants(ANIMATED_PAGE);
+    assert.ok(ensured.includes('@media (prefers-color-scheme: dark)'));
+    assert.ok(ensured.includes('--theme-background: #1a1a1a;'));
+    assert.ok(ensured.indexOf('data-media-variants') > ensured.indexOf('.card'), 'variants must follow the page styles');
+    assert.strictEqual(mediaVariants.ensureVariants(ensured), ensured);
+    assert.deepStrictEqual(variantIssues(await accessibilityValidator.validate(ensured, {})), []);
+    console.log('✓ Generated variants follow the page theme');
+  } catch (error) {
+    console.error('Test suite failed:', error);
+    process.exit(1);
+  }
+})();
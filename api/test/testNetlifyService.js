@@ -0,0 +1,141 @@
+process.env.NODE_ENV = 'test';
+
+const assert = require('assert');
+
+let axios;
+let NetlifyService;
+let calculateSha;
+try {
+  axios = require('axios');
+  ({ NetlifyService } = require('../services/netlifyService'));
+  ({ calculateSha } = require('../helpers/fileHelpers'));
+} catch (error) {
+  if (error.code === 'MODULE_NOT_FOUND') {
+    console.warn('Dependencies missing, skipping Netlify service test:', error.message);
+    process.exit(0);
+  }
+  throw error;
+}
+
+const API = 'https://api.netlify.com/api/v1';
+const SITE = { id: 'site-1', name: 'ada-portfolio', ssl_url: 'https://ada-portfolio.netlify.app', published_deploy: { id: 'deploy-1' } };
+
+/**
+ * Answer Netlify API calls from a table of "METHOD path" handlers, recording every request
+ */
+const mockNetlify = (handlers) => {
+  const requests = [];
+  const respond = (method) => async (url, ...args) => {
+    const path = url.replace(API, '');
+    const body = method === 'get' || method === 'delete' ? undefined : args[0];
+    requests.push({ method: method.toUpperCase(), path, body });
+
+    const handler = handlers[`${method.toUpperCase()} ${path}`];
+    if (!handler) {
+      throw Object.assign(new Error(`Request failed with status code 404`), { response: { status: 404, data: {} } });
+    }
+    return { data: typeof handler === 'function' ? handler(body) : handler };
+  };
+
+  ['get', 'post', 'put', 'delete'].forEach(method => {
+    axios[method] = respond(method);
+  });
+  return requests;
+};
+
+const createService = () => {
+  const service = new NetlifyService();
+  service.pollInterval = 0;
+  return service;
+};
+
+const SITE_FILES = {
+  'index.html': '<!DOCTYPE html><html></html>',
+  'blog/index.html': '<!DOCTYPE html><html>blog</html>',
+  'assets/images/cover.png': Buffer.from([0x89, 0x50, 0x4e, 0x47]),
+  'assets/images/cover-copy.png': Buffer.from([0x89, 0x50, 0x4e, 0x47])
+};
+
+(async () => {
+  try {
+    const service = createService();
+
+    // Redeploys push a new deploy to the existing site and upload only what Netlify asks for, once per digest
+    let requests = mockNetlify({
+      'GET /sites/site-1': SITE,
+      'POST /sites/site-1/deploys': () => ({
+        id: 'deploy-2',
+        state: 'uploading',
+        required: [calculateSha(SITE_FILES['blog/index.html']), calculateSha(SITE_FILES['assets/images/cover.png'])]
+      }),
+      'PUT /deploys/deploy-2/files/blog/index.html': {},
+      'PUT /deploys/deploy-2/files/assets/images/cover.png': {},
+      'GET /sites/site-1/deploys/deploy-2': { state: 'ready' }
+    });
+    const redeploy = await service.deployPortfolio('Ada Lee', SITE_FILES, 'token', { siteId: 'site-1' });
+    assert.strictEqual(redeploy.siteId, 'site-1');
+    assert.strictEqual(redeploy.url, SITE.ssl_url);
+    assert.strictEqual(redeploy.redeployed, true);
+    assert.ok(!requests.some(request => request.method === 'POST' && request.path === '/sites'), 'no new site is created');
+    assert.deepStrictEqual(
+      Object.keys(requests.find(request => request.path === '/sites/site-1/deploys').body.files),
+      [...Object.keys(SITE_FILES), 'sitemap.xml', 'robots.txt']
+    );
+    assert.deepStrictEqual(
+      requests.filter(request => request.method === 'PUT').map(request => request.path),
+      ['/deploys/deploy-2/files/blog/index.html', '/deploys/deploy-2/files/assets/images/cover.png']
+    );
+    assert.strictEqual(redeploy.fileCount, 6);
+    assert.strictEqual(redeploy.uploadedCount, 2);
+    console.log('✓ Redeploys go to the existing site');
+
+    // A failed redeploy leaves the site and its live deploy alone
+    requests = mockNetlify({
+      'GET /sites/site-1': SITE,
+      'POST /sites/site-1/deploys': { id: 'deploy-3', state: 'processing', required: [] },
+      'GET /sites/site-1/deploys/deploy-3': { state: 'error' }
+    });
+    await assert.rejects(service.deployPortfolio('Ada Lee', SITE_FILES, 'token', { siteId: 'site-1' }), /status: error/);
+    assert.ok(!requests.some(request => request.method === 'DELETE'), 'existing site is not deleted');
+    console.log('✓ Failed redeploys keep the existing site');
+
+    // Sites deleted on Netlify are replaced by a new one
+    requests = mockNetlify({
+      'POST /sites': { id: 'site-2', name: 'ada-lee-portfolio-1', ssl_url: 'https://ada-lee-portfolio-1.netlify.app' },
+      'POST /sites/site-2/deploys': { id: 'deploy-4', state: 'processing', required: [] },
+      'GET /sites/site-2/deploys/deploy-4': { state: 'ready' },
+      'GET /sites/site-2': { id: 'site-2', ssl_url: 'https://ada-lee-portfolio-1.netlify.app' }
+    });
+    const replacement = await service.deployPortfolio('Ada Lee', SITE_FILES, 'token', { siteId: 'site-gone' });
+    assert.strictEqual(replacement.siteId, 'site-2');
+    assert.strictEqual(replacement.redeployed, false);
+    console.log('✓ Missing sites are recreated');
+
+    // Failed first deploys clean up the site they created
+    requests = mockNetlify({
+      'POST /sites': { id: 'site-3', name: 'ada-lee-portfolio-2' },
+      'DELETE /sites/site-3': {}
+    });
+    await assert.rejects(service.deployPortfolio('Ada Lee', SITE_FILES, 'token'), /Failed to create deployment/);
+    assert.ok(requests.some(request => request.method === 'DELETE' && request.path === '/sites/site-3'));
+    console.log('✓ Failed new sites are cleaned up');
+
+    // History and rollback
+    mockNetlify({
+      'GET /sites/site-1/deploys': [
+        { id: 'deploy-2', state: 'ready', created_at: '2024-03-02T00:00:00Z', published_at: '2024-03-02T00:01:00Z', deploy_ssl_url: 'https://deploy-2--ada.netlify.app' },
+        { id: 'deploy-1', state: 'ready', created_at: '2024-03-01T00:00:00Z' }
+      ],
+      'POST /sites/site-1/deploys/deploy-1/restore': { id: 'deploy-1', state: 'ready', published_at: '2024-03-03T00:00:00Z' }
+    });
+    const deploys = await service.listDeploys('site-1', 'token');
+    assert.deepStrictEqual(deploys.map(deploy => deploy.id), ['deploy-2', 'deploy-1']);
+    assert.strictEqual(deploys[0].deployUrl, 'https://deploy-2--ada.netlify.app');
+    assert.strictEqual((await service.restoreDeploy('site-1', 'deploy-1', 'token')).id, 'deploy-1');
+    await assert.rejects(service.restoreDeploy('site-1', 'deploy-9', 'token'), error => error.response.status === 404);
+    console.log('✓ Deploy history lists deploys and rollback restores one');
+  } catch (error) {
+    console.error('Test suite failed:', error);
+    process.exit(1);
+  }
+})();
@@ -0,0 +1,144 @@
+process.env.NODE_ENV = 'test';
+
+const assert = require('assert');
+
+let siteBuilder;
+let skeletonRenderer;
+let mediaVariants;
+let SKELETON_TEMPLATES;
+try {
+  ({ siteBuilder } = require('../services/siteBuilder'));
+  ({ skeletonRenderer } = require('../services/skeletonRenderer'));
+  mediaVariants = require('../utils/mediaVariants');
+  ({ SKELETON_TEMPLATES } = require('../config/constants'));
+} catch (error) {
+  if (error.code === 'MODULE_NOT_FOUND') {
+    console.warn('Dependencies missing, skipping site builder test:', error.message);
+    process.exit(0);
+  }
+  throw error;
+}
+
+const PORTFOLIO_DATA = {
+  personalInfo: { name: 'Ada Lee', title: 'Product Designer', email: 'ada@example.com' },
+  projects: []
+};
+
+// Saved projects as getProjectImagesFromSheets returns them
+const SAVED_PROJECTS = [
+  {
+    title: 'Brand Refresh',
+    category: 'Branding',
+    tags: ['identity'],
+    overview: 'Problem: The old logo did not scale.\n\nSolution: A flexible mark.\n\nReflection: Test small sizes early.',
+    finalImages: [{ url: 'https://images.example.com/final.jpg' }],
+    processImages: [{ url: 'https://images.example.com/sketch.jpg' }]
+  },
+  { title: 'Brand Refresh', overview: 'A second project with the same title.' }
+];
+
+const PLAIN_PAGE = `<!DOCTYPE html>
+<html lang="en">
+<head><title>Ada Lee</title><style>:root { --theme-text: #111111; }</style></head>
+<body>
+<nav><a href="#about">About</a><a href="resume.pdf">Resume</a></nav>
+<main><section id="about"><h2>About</h2></section><section id="work"><h3>Brand Refresh</h3></section></main>
+<footer><a href="mailto:ada@example.com">Email</a></footer>
+</body>
+</html>`;
+
+// Published posts as postService.listPublished returns them, newest first
+const POSTS = [
+  {
+    title: 'Designing for small screens',
+    slug: 'designing-for-small-screens',
+    summary: '',
+    markdown: '## Start small\n\nLogos **shrink**. <script>alert(1)</script>\n\n[Bad link](javascript:alert(1))',
+    publishedAt: '2024-03-05T23:30:00.000Z'
+  },
+  { title: 'Hello', slug: 'hello', summary: 'First post.', markdown: 'Hi there.', publishedAt: '2024-01-01T00:00:00.000Z' }
+];
+
+(async () => {
+  try {
+    for (const skeletonId of Object.values(SKELETON_TEMPLATES)) {
+      const { html } = await skeletonRenderer.render(skeletonId, PORTFOLIO_DATA, SAVED_PROJECTS);
+      const site = siteBuilder.build(mediaVariants.ensureVariants(html), PORTFOLIO_DATA, SAVED_PROJECTS);
+
+      assert.deepStrictEqual(Object.keys(site.pages), ['projects/brand-refresh.html', 'projects/brand-refresh-2.html'], skeletonId);
+      assert.ok(site.html.includes('href="projects/brand-refresh.html"'), `${skeletonId} links the first case study`);
+      assert.ok(site.html.includes('href="projects/brand-refresh-2.html"'), `${skeletonId} links the second case study`);
+      Object.values(site.pages).forEach(page => {
+        assert.strictEqual(mediaVariants.ensureVariants(page), page, `${skeletonId} case study keeps the variants`);
+        assert.ok(!/href="#/.test(page), `${skeletonId} case study has in-page links left from the home page`);
+      });
+    }
+    console.log('✓ Skeletons get a linked case study page per project');
+
+    const site = siteBuilder.build(PLAIN_PAGE, PORTFOLIO_DATA, SAVED_PROJECTS);
+    const page = site.pages['projects/brand-refresh.html'];
+    ['The old logo did not scale.', 'A flexible mark.', 'Test small sizes early.', 'https://images.example.com/sketch.jpg']
+      .forEach(text => assert.ok(page.includes(text), `case study shows ${text}`));
+    assert.ok(page.includes('href="../index.html#about"'), 'navigation points back at the home page');
+    assert.ok(page.includes('href="../resume.pdf"'), 'relative links resolve from the projects folder');
+    assert.ok(page.includes('href="mailto:ada@example.com"'), 'footer is shared');
+    assert.ok(page.includes('href="../projects/brand-refresh-2.html" rel="next"'));
+    console.log('✓ Case studies show problem, solution, reflection and process images');
+
+    assert.ok(site.html.includes('<h3><a href="projects/brand-refresh.html" data-case-study-link="">Brand Refresh</a></h3>'));
+    assert.ok(site.html.includes('id="case-studies"'), 'projects without a heading are listed');
+    assert.ok(site.html.indexOf('id="case-studies"') < site.html.indexOf('<footer'));
+    console.log('✓ Home page headings link to their case studies');
+
+    const blog = siteBuilder.build(PLAIN_PAGE, PORTFOLIO_DATA, SAVED_PROJECTS, { caseStudies: false, posts: POSTS });
+    assert.deepStrictEqual(Object.keys(blog.pages), ['blog/index.html', 'blog/designing-for-small-screens.html', 'blog/hello.html']);
+    assert.ok(blog.html.includes('<a href="blog/index.html">Writing</a>'), 'home navigation links the blog');
+    assert.ok(!blog.html.includes('href="projects/'), 'case studies stay off');
+    const listing = blog.pages['blog/index.html'];
+    assert.ok(listing.indexOf('Designing for small screens') < listing.indexOf('Hello'), 'newest post is listed first');
+    assert.ok(listing.includes('March 5, 2024'), 'dates are shown in UTC');
+    assert.ok(listing.includes('Start small Logos shrink.'), 'posts without a summary get an excerpt');
+    assert.ok(listing.includes('href="../blog/index.html">Writing</a>'), 'blog pages share the navigation');
+    const post = blog.pages['blog/designing-for-small-screens.html'];
+    assert.ok(post.includes('<h2>Start small</h2>') && post.includes('<strong>shrink</strong>'), 'Markdown is rendered');
+    assert.ok(!post.includes('<script>alert(1)</script>') && !post.includes('javascript:'), 'posts cannot run scripts');
+    assert.ok(post.includes('href="../blog/hello.html" rel="next"'));
+    console.log('✓ Published posts get a blog listing and a page each');
+
+    const withoutNavigation = siteBuilder.build(PLAIN_PAGE.replace(/<nav>.*<\/nav>/, ''), PORTFOLIO_DATA, [], { caseStudies: false, posts: POSTS });
+    assert.ok(withoutNavigation.html.includes('id="writing"'), 'pages without navigation list the posts');
+    console.log('✓ Home pages without navigation link the posts in a section');
+
+    // Deployments rebuild the blog from the posts published since the site was generated
+    const generated = siteBuilder.build(PLAIN_PAGE, PORTFOLIO_DATA, SAVED_PROJECTS, { posts: [POSTS[1]] });
+    const countWriting = (html) => html.split('>Writing</a>').length - 1;
+    const updated = siteBuilder.rebuildBlog(generated.html, generated.pages, { personName: 'Ada Lee', posts: POSTS });
+    assert.deepStrictEqual(Object.keys(updated.pages).sort(), [
+      'blog/designing-for-small-screens.html', 'blog/hello.html', 'blog/index.html',
+      'projects/brand-refresh-2.html', 'projects/brand-refresh.html'
+    ]);
+    assert.strictEqual(countWriting(updated.html), 1, 'the navigation links the blog once');
+    assert.strictEqual(countWriting(updated.pages['projects/brand-refresh.html']), 1);
+    assert.ok(updated.pages['projects/brand-refresh.html'].includes('A flexible mark.'), 'case studies are kept');
+    assert.ok(updated.pages['blog/index.html'].includes('Designing for small screens'));
+    assert.ok(updated.html.includes('data-case-study-link=""'), 'case study links stay');
+    assert.strictEqual(updated.html.split('data-case-study-links').length - 1, 1);
+
+    const unpublished = siteBuilder.rebuildBlog(updated.html, updated.pages, { personName: 'Ada Lee', posts: [] });
+    assert.deepStrictEqual(Object.keys(unpublished.pages).sort(), ['projects/brand-refresh-2.html', 'projects/brand-refresh.html']);
+    assert.strictEqual(countWriting(unpublished.html), 0);
+    assert.strictEqual(countWriting(unpublished.pages['projects/brand-refresh.html']), 0, 'case studies drop the link');
+
+    const firstPost = siteBuilder.rebuildBlog(unpublished.html, unpublished.pages, { personName: 'Ada Lee', posts: POSTS });
+    assert.ok(firstPost.pages['projects/brand-refresh.html'].includes('<a href="../blog/index.html">Writing</a>'), 'case studies get the link');
+    assert.strictEqual(countWriting(firstPost.html), 1);
+    assert.deepStrictEqual(siteBuilder.rebuildBlog(PLAIN_PAGE, {}, { posts: [] }), { html: PLAIN_PAGE, pages: {} });
+    console.log('✓ Deployments replace the blog with the posts published now');
+
+    assert.deepStrictEqual(siteBuilder.build(PLAIN_PAGE, { personalInfo: {}, projects: [] }, []).pages, {});
+    console.log('✓ Portfolios without projects stay single-page');
+  } catch (error) {
+    console.error('Test suite failed:', error);
+    process.exit(1);
+  }
+})();
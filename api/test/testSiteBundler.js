@@ -0,0 +1,190 @@
+process.env.NODE_ENV = 'test';
+
+const assert = require('assert');
+
+let axios;
+let siteBundler;
+let publicAddresses;
+try {
+  axios = require('axios');
+  ({ siteBundler } = require('../services/siteBundler'));
+  publicAddresses = require('../utils/publicAddresses');
+} catch (error) {
+  if (error.code === 'MODULE_NOT_FOUND') {
+    console.warn('Dependencies missing, skipping site bundler test:', error.message);
+    process.exit(0);
+  }
+  throw error;
+}
+
+const COVER = 'https://res.cloudinary.com/demo/image/upload/cover.jpg';
+const DETAIL = 'https://res.cloudinary.com/demo/image/upload/detail.png';
+const BACKDROP = 'https://res.cloudinary.com/demo/image/upload/backdrop.webp';
+const MISSING = 'https://res.cloudinary.com/demo/image/upload/missing.jpg';
+
+// A site deployed earlier, read back for a redeploy
+const LIVE = 'https://ada-lee.netlify.app/';
+const LIVE_IMAGE = `${LIVE}assets/images/0123456789abcdef.jpg`;
+const LIVE_PAGES = {
+  [LIVE]: `<!DOCTYPE html><html><head><link rel="icon" href="favicon.svg"><link rel="stylesheet" href="https://fonts.example.com/a.css"></head>
+<body><nav><a href="blog/index.html">Writing</a></nav><img src="assets/images/0123456789abcdef.jpg" srcset="assets/images/0123456789abcdef.jpg 2x">
+<div style="background: url('assets/images/0123456789abcdef.jpg')"></div><a href="projects/brand-refresh.html">Brand Refresh</a></body></html>`,
+  [`${LIVE}projects/brand-refresh.html`]: '<!DOCTYPE html><html><body><img src="../assets/images/0123456789abcdef.jpg"></body></html>'
+};
+
+const IMAGES = {
+  [LIVE_IMAGE]: { type: 'image/jpeg', bytes: [0xff, 0xd8, 0xff, 0x01] },
+  [COVER]: { type: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  [DETAIL]: { type: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47] },
+  [BACKDROP]: { type: 'image/webp', bytes: [0x52, 0x49, 0x46, 0x46] }
+};
+
+// Downloads of these never finish by themselves
+const SLOW = 'https://res.cloudinary.com/demo/image/upload/slow-';
+
+const downloads = [];
+let inFlight = 0;
+let maxInFlight = 0;
+axios.get = async (url, { signal } = {}) => {
+  downloads.push(url);
+  if (url.startsWith(SLOW)) {
+    inFlight++;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    return new Promise((resolve, reject) => signal.addEventListener('abort', () => {
+      inFlight--;
+      reject(new Error('canceled'));
+    }));
+  }
+  if (url === `${LIVE}sitemap.xml`) {
+    // Listed under the name the site was first deployed to
+    return { data: siteBundler.buildSitemap(['index.html', 'projects/brand-refresh.html', 'blog/index.html'], 'https://ada-old.netlify.app') };
+  }
+  if (LIVE_PAGES[url]) {
+    return { data: LIVE_PAGES[url], headers: { 'content-type': 'text/html' } };
+  }
+  const image = IMAGES[url];
+  if (!image) {
+    throw Object.assign(new Error('Request failed with status code 404'), { response: { status: 404 } });
+  }
+  return { data: Uint8Array.from(image.bytes).buffer, headers: { 'content-type': image.type } };
+};
+
+const HOME = `<!DOCTYPE html>
+<html><head><title>Ada Lee</title><style>:root { --theme-primary: #123456; --theme-background: #fafafa; }
+.hero { background-image: url("${BACKDROP}"); }</style></head>
+<body><img src="${COVER}" alt="Cover"><img src="${MISSING}" alt="Gone">
+<picture><source srcset="${DETAIL} 2x, ${COVER} 1x"><img src="${DETAIL}" alt="Detail"></picture></body></html>`;
+
+const CASE_STUDY = `<!DOCTYPE html>
+<html><head><title>Brand Refresh</title><link rel="icon" href="/favicon.ico"></head>
+<body><div style="background: url(${COVER})"></div></body></html>`;
+
+(async () => {
+  try {
+    const files = await siteBundler.bundle(
+      { 'index.html': HOME, 'projects/brand-refresh.html': CASE_STUDY, 'assets/site.css': 'body { margin: 0; }' },
+      { personName: 'Ada Lee' }
+    );
+
+    // Images are downloaded once each into content-addressed files
+    const imagePaths = Object.keys(files).filter(filePath => filePath.startsWith('assets/images/'));
+    assert.strictEqual(imagePaths.length, 3);
+    assert.ok(imagePaths.every(imagePath => /^assets\/images\/[0-9a-f]{16}\.(jpg|png|webp)$/.test(imagePath)));
+    assert.ok(Buffer.isBuffer(files[imagePaths[0]]));
+    assert.deepStrictEqual(downloads.sort(), [BACKDROP, COVER, DETAIL, MISSING].sort());
+    assert.strictEqual(files['assets/site.css'], 'body { margin: 0; }');
+    console.log('✓ Images are bundled into the site');
+
+    // Pages point at the local copies, relative to their folder; failed downloads stay hot-linked
+    const coverPath = imagePaths.find(imagePath => imagePath.endsWith('.jpg'));
+    const detailPath = imagePaths.find(imagePath => imagePath.endsWith('.png'));
+    assert.ok(files['index.html'].includes(`<img src="${coverPath}"`));
+    assert.ok(files['index.html'].includes(`srcset="${detailPath} 2x, ${coverPath} 1x"`));
+    assert.ok(files['index.html'].includes('url("assets/images/'));
+    assert.ok(files['index.html'].includes(MISSING));
+    assert.ok(!files['index.html'].includes(COVER));
+    assert.ok(files['projects/brand-refresh.html'].includes(`url(../${coverPath})`));
+    console.log('✓ Pages reference the bundled images');
+
+    // A monogram favicon is linked from pages without an icon of their own
+    assert.ok(files['favicon.svg'].includes('>AL</text>'));
+    assert.ok(files['favicon.svg'].includes('fill="#123456"'));
+    assert.ok(files['index.html'].includes('<link rel="icon" type="image/svg+xml" href="favicon.svg">'));
+    assert.ok(!files['projects/brand-refresh.html'].includes('favicon.svg'));
+    console.log('✓ Favicon is generated and linked');
+
+    // Crawler files list every page at the site's URL, without replacing ones the manifest has
+    const withCrawlerFiles = siteBundler.addCrawlerFiles(
+      { 'index.html': HOME, 'blog/index.html': HOME, 'projects/brand-refresh.html': CASE_STUDY },
+      'https://ada-lee.netlify.app/'
+    );
+    const locations = [...withCrawlerFiles['sitemap.xml'].matchAll(/<loc>([^<]+)<\/loc>/g)].map(match => match[1]);
+    assert.deepStrictEqual(locations, [
+      'https://ada-lee.netlify.app/',
+      'https://ada-lee.netlify.app/blog/',
+      'https://ada-lee.netlify.app/projects/brand-refresh.html'
+    ]);
+    assert.ok(withCrawlerFiles['robots.txt'].includes('Sitemap: https://ada-lee.netlify.app/sitemap.xml'));
+    assert.strictEqual(siteBundler.addCrawlerFiles({ 'index.html': HOME, 'robots.txt': 'custom' }, 'https://a.netlify.app')['robots.txt'], 'custom');
+    console.log('✓ robots.txt and sitemap.xml are added');
+
+    // Only https images on the upload host are fetched; anything else, internal addresses included, stays as it is
+    downloads.length = 0;
+    const external = [
+      'https://images.example.com/photo.jpg',
+      'http://res.cloudinary.com/demo/image/upload/cover.jpg',
+      'http://169.254.169.254/latest/meta-data/',
+      'https://127.0.0.1/admin.png',
+      'https://res.cloudinary.com.evil.example/cover.jpg'
+    ];
+    const externalPage = `<html><body>${external.map(url => `<img src="${url}">`).join('')}</body></html>`;
+    const externalFiles = await siteBundler.bundle({ 'index.html': externalPage });
+    assert.deepStrictEqual(downloads, []);
+    external.forEach(url => assert.ok(externalFiles['index.html'].includes(url), `${url} stays hot-linked`));
+    console.log('✓ Images on other hosts are never downloaded');
+
+    // Downloads run a few at a time and stop when the time budget is used up
+    const config = siteBundler.config;
+    siteBundler.config = { ...config, DOWNLOAD_CONCURRENCY: 2, DOWNLOAD_BUDGET: 50 };
+    const slowUrls = [1, 2, 3, 4, 5].map(index => `${SLOW}${index}.jpg`);
+    const startedAt = Date.now();
+    const slowFiles = await siteBundler.bundle({
+      'index.html': `<html><body>${slowUrls.map(url => `<img src="${url}">`).join('')}</body></html>`
+    });
+    siteBundler.config = config;
+    assert.ok(Date.now() - startedAt < 1000, 'the bundle finishes once the budget runs out');
+    assert.strictEqual(maxInFlight, 2);
+    assert.ok(slowUrls.every(url => slowFiles['index.html'].includes(url)), 'unfinished images stay hot-linked');
+    console.log('✓ Downloads are bounded in parallel and in time');
+
+    // Live sites are read back with their images pointing at the site, and redeploys bundle those images again
+    const checkUrl = publicAddresses.checkUrl;
+    publicAddresses.checkUrl = async () => null;
+    const live = await siteBundler.fetchSite('https://ada-lee.netlify.app');
+    publicAddresses.checkUrl = checkUrl;
+    assert.strictEqual(live.url, LIVE);
+    assert.deepStrictEqual(Object.keys(live.pages), ['projects/brand-refresh.html'], 'pages that fail to load are left out');
+    assert.ok(live.html.includes(`<img src="${LIVE_IMAGE}" srcset="${LIVE_IMAGE} 2x">`));
+    assert.ok(live.html.includes(`url('${LIVE_IMAGE}')`) && live.html.includes(`href="${LIVE}favicon.svg"`));
+    assert.ok(live.html.includes('href="blog/index.html"') && live.html.includes('href="projects/brand-refresh.html"'), 'page links stay relative');
+    assert.ok(live.pages['projects/brand-refresh.html'].includes(`src="${LIVE_IMAGE}"`));
+    assert.ok((await siteBundler.fetchSite('http://127.0.0.1:8080').catch(error => error)).message.includes('https'));
+
+    const redeployed = await siteBundler.bundle({ 'index.html': live.html, ...live.pages }, { siteHosts: ['ada-lee.netlify.app'] });
+    assert.ok(!redeployed['index.html'].includes(LIVE_IMAGE) && !redeployed['projects/brand-refresh.html'].includes(LIVE_IMAGE));
+    assert.strictEqual(Object.keys(redeployed).filter(filePath => filePath.startsWith('assets/images/')).length, 1);
+    const elsewhere = await siteBundler.bundle({ 'index.html': live.html });
+    assert.ok(elsewhere['index.html'].includes(`src="${LIVE_IMAGE}"`), 'other deploys leave the site\'s images alone');
+    console.log('✓ Live sites are read back and redeployed with their images');
+
+    // Only static site files can be deployed
+    assert.ok(siteBundler.isSiteFile('assets/fonts/inter.woff2'));
+    assert.ok(siteBundler.isSiteFile('robots.txt'));
+    assert.ok(!siteBundler.isSiteFile('../secrets.txt'));
+    assert.ok(!siteBundler.isSiteFile('server.php'));
+    console.log('✓ Manifest paths are validated');
+  } catch (error) {
+    console.error('Test suite failed:', error);
+    process.exit(1);
+  }
+})();
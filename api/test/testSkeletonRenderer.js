@@ -0,0 +1,65 @@
+process.env.NODE_ENV = 'test';
+
+const assert = require('assert');
+
+let skeletonRenderer;
+let SKELETON_TEMPLATES;
+try {
+  ({ skeletonRenderer } = require('../services/skeletonRenderer'));
+  ({ SKELETON_TEMPLATES } = require('../config/constants'));
+} catch (error) {
+  if (error.code === 'MODULE_NOT_FOUND') {
+    console.warn('Dependencies missing, skipping skeleton renderer test:', error.message);
+    process.exit(0);
+  }
+  throw error;
+}
+
+const RENDER_DATE = new Date('2025-01-15T12:00:00Z');
+const LEFTOVER_TOKEN_PATTERN = /\{\{[A-Z][A-Z0-9_]*\}\}|\[[A-Z][A-Z0-9]*(?:_[A-Z0-9]+)+\]/g;
+
+const portfolioData = {
+  personalInfo: {
+    name: 'Ada Park',
+    title: 'Product Designer',
+    bio: 'I design calm software.\n\nPreviously at a small studio.',
+    email: 'ada@example.com',
+    skills: ['Research', 'Prototyping', 'Branding']
+  },
+  projects: ['Atlas', 'Beacon', 'Cinder', 'Drift', 'Ember', 'Fable', 'Grove'].map((title, index) => ({
+    title,
+    subtitle: `${title} case study`,
+    category: ['Web', 'Branding', 'Mobile'][index % 3],
+    overview: `${title} overview`,
+    tags: ['design', 'research'],
+    finalImages: [{ url: `https://res.cloudinary.com/demo/${title.toLowerCase()}.jpg` }]
+  }))
+};
+
+const checkSkeleton = async (skeletonId) => {
+  const first = await skeletonRenderer.render(skeletonId, portfolioData, null, { date: RENDER_DATE });
+  const second = await skeletonRenderer.render(skeletonId, portfolioData, null, { date: RENDER_DATE });
+
+  assert.strictEqual(first.html, second.html, `${skeletonId}: output is not stable across renders`);
+  assert.deepStrictEqual(first.missingSlots, [], `${skeletonId}: missing slots ${first.missingSlots.join(', ')}`);
+  assert.deepStrictEqual(first.html.match(LEFTOVER_TOKEN_PATTERN) || [], [], `${skeletonId}: unresolved placeholders`);
+
+  ['Ada Park', 'ada@example.com', 'Atlas', 'https://res.cloudinary.com/demo/atlas.jpg'].forEach(value => {
+    assert.ok(first.html.includes(value), `${skeletonId}: expected "${value}" in the output`);
+  });
+};
+
+(async () => {
+  try {
+    for (const skeletonId of Object.values(SKELETON_TEMPLATES)) {
+      await checkSkeleton(skeletonId);
+      console.log(`✓ ${skeletonId} skeleton rendered without placeholders`);
+    }
+
+    await assert.rejects(() => skeletonRenderer.render('unknown', portfolioData), /Unknown skeleton/);
+    console.log('✓ Unknown skeletons are rejected');
+  } catch (error) {
+    console.error('Test suite failed:', error);
+    process.exit(1);
+  }
+})();
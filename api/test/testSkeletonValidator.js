@@ -0,0 +1,69 @@
+process.env.NODE_ENV = 'test';
+
+const assert = require('assert');
+const fs = require('fs');
+
+let skeletonValidator;
+let SKELETON_TEMPLATES;
+let getTemplatePath;
+try {
+  skeletonValidator = require('../utils/validators/skeletonValidator');
+  ({ SKELETON_TEMPLATES } = require('../config/constants'));
+  ({ getTemplatePath } = require('../skeletons'));
+} catch (error) {
+  if (error.code === 'MODULE_NOT_FOUND') {
+    console.warn('Dependencies missing, skipping skeleton validator test:', error.message);
+    process.exit(0);
+  }
+  throw error;
+}
+
+const blockingIssues = (results) => results.issues
+  .filter(issue => issue.severity === 'high')
+  .map(issue => issue.message);
+
+const uploadedSkeleton = (body, head = '') => `<!DOCTYPE html>
+<html>
+<head><title>Custom</title>${head}</head>
+<body>${body}</body>
+</html>`;
+
+const VALID_BODY = `
+<h1 data-slot="name">Sample Name</h1>
+<a data-slot="email" href="mailto:sample@example.com">sample@example.com</a>
+<article data-slot="projects"><h2 data-slot-field="title">Sample project</h2></article>`;
+
+(async () => {
+  try {
+    for (const skeletonId of Object.values(SKELETON_TEMPLATES)) {
+      const html = fs.readFileSync(getTemplatePath(skeletonId), 'utf8');
+      // A skeleton as large as the built-in ones can be uploaded too
+      const issues = blockingIssues(await skeletonValidator.validate(html));
+      assert.deepStrictEqual(issues, [], `${skeletonId}: ${issues.join(', ')}`);
+    }
+    console.log('✓ Built-in skeletons pass the size, structure, script and slot checks');
+
+    assert.ok((await skeletonValidator.validate(uploadedSkeleton(VALID_BODY))).valid);
+    console.log('✓ Minimal skeleton with required slots passes');
+
+    const external = await skeletonValidator.validate(uploadedSkeleton(VALID_BODY, '<script src="https://cdn.example.com/x.js"></script>'));
+    assert.ok(!external.valid && blockingIssues(external).some(message => message.includes('External script')));
+    const imported = await skeletonValidator.validate(uploadedSkeleton(`${VALID_BODY}<script type="module">import x from 'https://cdn.example.com/x.js';</script>`));
+    assert.ok(!imported.valid);
+    console.log('✓ External scripts are rejected');
+
+    const missingSlots = await skeletonValidator.validate(uploadedSkeleton('<h1 data-slot="name">Sample</h1>'));
+    assert.deepStrictEqual(blockingIssues(missingSlots), [
+      'Missing required slot: add data-slot="email" to an element',
+      'Missing required slot: add data-slot="projects" to an element'
+    ]);
+    console.log('✓ Missing required slots are rejected');
+
+    const fragment = await skeletonValidator.validate(VALID_BODY);
+    assert.ok(!fragment.valid && blockingIssues(fragment).includes('Missing DOCTYPE declaration'));
+    console.log('✓ Incomplete documents are rejected');
+  } catch (error) {
+    console.error('Test suite failed:', error);
+    process.exit(1);
+  }
+})();
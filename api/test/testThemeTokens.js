@@ -0,0 +1,50 @@
+process.env.NODE_ENV = 'test';
+
+const assert = require('assert');
+const fs = require('fs');
+const themeTokens = require('../utils/themeTokens');
+const { SKELETON_TEMPLATES } = require('../config/constants');
+const { getTemplatePath } = require('../skeletons');
+
+const analysisWithPalette = (palette, brightness = 'medium') => ({
+  analysisLevels: {
+    visualIntelligence: {
+      colors: { palette, brightness },
+      typography: { category: 'serif' }
+    }
+  }
+});
+
+try {
+  for (const skeletonId of Object.values(SKELETON_TEMPLATES)) {
+    const html = fs.readFileSync(getTemplatePath(skeletonId), 'utf8');
+    assert.deepStrictEqual(themeTokens.getMissingVariables(html), [], skeletonId);
+  }
+  console.log('✓ Built-in skeletons declare every theme token');
+
+  const theme = themeTokens.fromAnalysis(analysisWithPalette(['#2b4c7e', '#e0a458', '#f3efe6', '#1d1d1d']));
+  assert.ok(themeTokens.contrast(theme.text, theme.background) >= 7);
+  assert.ok(themeTokens.contrast(theme.primary, theme.background) >= 4.5);
+  assert.ok(themeTokens.luminance(theme.background) > 0.8);
+  assert.strictEqual(theme.headingFont, "Georgia, 'Times New Roman', serif");
+  const dark = themeTokens.fromAnalysis(analysisWithPalette(['#2b4c7e', '#e0a458'], 'low'));
+  assert.ok(themeTokens.luminance(dark.background) < 0.05);
+  console.log('✓ Moodboard palettes become readable themes');
+
+  assert.deepStrictEqual(themeTokens.buildPalettes(analysisWithPalette([])), []);
+  assert.deepStrictEqual(
+    themeTokens.buildPalettes(analysisWithPalette(['#2b4c7e', '#e0a458'])).map(palette => palette.id),
+    ['moodboard', 'moodboard-dark']
+  );
+  console.log('✓ Preview palettes come from the analysis');
+
+  const page = '<!DOCTYPE html><html><head><style>:root { --theme-primary: #123456; }</style></head><body></body></html>';
+  const ensured = themeTokens.ensureThemeTokens(page, theme);
+  assert.deepStrictEqual(themeTokens.getMissingVariables(ensured), []);
+  assert.ok(ensured.indexOf('data-theme-tokens') < ensured.indexOf('#123456'), 'page values must come last');
+  assert.strictEqual(themeTokens.ensureThemeTokens(ensured, theme), ensured);
+  console.log('✓ Missing tokens are declared ahead of the page styles');
+} catch (error) {
+  console.error('Test suite failed:', error);
+  process.exit(1);
+}
@@ -0,0 +1,196 @@
+const { JSDOM } = require('jsdom');
+
+const EDITABLE_ID_PREFIX = 'editable-';
+const MAX_CSS_CONTEXT_LENGTH = 20000;
+
+class HtmlFragments {
+
+  /**
+   * Resolve an element id produced by the Preview editor (useHtmlParser.getEditableId).
+   * Ids are either a real element id or "editable-" followed by the child index path from <body>.
+   * @param {Document} document - Parsed document
+   * @param {string} elementId - Editor element id
+   * @returns {Element|null} - The matching element
+   */
+  findElement(document, elementId) {
+    const byId = document.getElementById(elementId);
+    if (byId) return byId;
+    if (!elementId.startsWith(EDITABLE_ID_PREFIX) || !document.body) return null;
+
+    const path = elementId.slice(EDITABLE_ID_PREFIX.length).split('-').map(Number);
+    if (path.some(index => Number.isNaN(index))) return null;
+
+    let current = document.body;
+    for (const index of path) {
+      current = current && current.children[index];
+      if (!current) return null;
+    }
+    return current;
+  }
+
+  /**
+   * Extract a single element from a document along with the CSS that applies to it
+   * @param {string} htmlString - Full HTML document
+   * @param {string} elementId - Editor element id
+   * @returns {Object|null} - { fragmentHtml, cssContext, tagName, startOffset, endOffset } or null if not found
+   */
+  extractFragment(htmlString, elementId) {
+    const dom = new JSDOM(htmlString, { includeNodeLocations: true });
+    const document = dom.window.document;
+    const element = this.findElement(document, elementId);
+    if (!element) return null;
+
+    const location = dom.nodeLocation(element);
+    if (!location) return null;
+
+    return {
+      // Slice the original source so the fragment is exactly what the user has
+      fragmentHtml: htmlString.slice(location.startOffset, location.endOffset),
+      cssContext: this.collectCssContext(document, element),
+      tagName: element.tagName.toLowerCase(),
+      startOffset: location.startOffset,
+      endOffset: location.endOffset
+    };
+  }
+
+  /**
+   * Replace a fragment previously located with extractFragment.
+   * Everything outside the fragment is kept byte-for-byte.
+   * @param {string} htmlString - Full HTML document
+   * @param {Object} fragment - Result of extractFragment
+   * @param {string} replacementHtml - New HTML for the fragment
+   * @returns {string} - Updated document
+   */
+  spliceFragment(htmlString, fragment, replacementHtml) {
+    return `${htmlString.slice(0, fragment.startOffset)}${replacementHtml}${htmlString.slice(fragment.endOffset)}`;
+  }
+
+  /**
+   * Check that a model response is a single element we can splice back in
+   * @param {string} fragmentHtml - HTML returned for the fragment
+   * @returns {Object} - { isValid, issues }
+   */
+  validateFragment(fragmentHtml) {
+    const issues = [];
+
+    if (!fragmentHtml || typeof fragmentHtml !== 'string') {
+      return { isValid: false, issues: ['No HTML returned for the selected element'] };
+    }
+
+    if (/<!doctype|<html[\s>]|<body[\s>]/i.test(fragmentHtml)) {
+      issues.push('Response contains a full document instead of the selected element');
+    }
+
+    const template = JSDOM.fragment(fragmentHtml);
+    const rootElements = Array.from(template.childNodes).filter(node =>
+      node.nodeType === 1 || (node.nodeType === 3 && node.textContent.trim())
+    );
+    if (rootElements.length !== 1 || rootElements[0].nodeType !== 1) {
+      issues.push(`Expected a single root element, got ${rootElements.length} top-level nodes`);
+    }
+
+    return { isValid: issues.length === 0, issues };
+  }
+
+  /**
+   * Turn truncated HTML into a well-formed document.
+   * A tag cut off mid-way is dropped and every element left open is closed.
+   * @param {string} htmlString - Possibly truncated HTML
+   * @returns {string} - Serialized document
+   */
+  repairDocument(htmlString) {
+    const trimmed = (htmlString || '').replace(/<[^>]*$/, '');
+    return new JSDOM(trimmed).serialize();
+  }
+
+  /**
+   * Add generated sections to a document.
+   * <style> elements go into <head>; other elements go before the footer, into <main>,
+   * or at the end of <body>, whichever exists first.
+   * @param {string} htmlString - Full (possibly truncated) HTML document
+   * @param {string} sectionsHtml - HTML for the new sections
+   * @returns {string} - Updated document
+   */
+  insertSections(htmlString, sectionsHtml) {
+    const dom = new JSDOM(this.repairDocument(htmlString));
+    const document = dom.window.document;
+    const template = document.createElement('template');
+    template.innerHTML = sectionsHtml;
+
+    const footer = document.querySelector('body > footer, footer');
+    const main = document.querySelector('main');
+
+    Array.from(template.content.childNodes).forEach(node => {
+      if (node.nodeType !== 1) return;
+      if (node.tagName === 'STYLE') {
+        document.head.appendChild(node);
+      } else if (footer) {
+        footer.before(node);
+      } else if (main) {
+        main.appendChild(node);
+      } else {
+        document.body.appendChild(node);
+      }
+    });
+
+    return dom.serialize();
+  }
+
+  /**
+   * Collect the stylesheet rules relevant to an element: global rules (:root, html, body, *),
+   * rules whose selectors reference a tag, class or id used inside the element, and the
+   * @font-face / @keyframes blocks those rules depend on.
+   * @param {Document} document - Parsed document
+   * @param {Element} element - Target element
+   * @returns {string} - CSS text
+   */
+  collectCssContext(document, element) {
+    const tokens = new Set(['*', ':root', 'html', 'body']);
+    [element, ...element.querySelectorAll('*')].forEach(node => {
+      tokens.add(node.tagName.toLowerCase());
+      if (node.id) tokens.add(`#${node.id}`);
+      node.classList.forEach(className => tokens.add(`.${className}`));
+    });
+
+    const isRelevant = (selectorText = '') =>
+      (selectorText.match(/:root|\*|[.#]?[a-zA-Z][\w-]*/g) || []).some(token => tokens.has(token));
+
+    const keptRules = [];
+    const atRules = [];
+
+    const visitRules = (rules) => {
+      const kept = [];
+      Array.from(rules).forEach(rule => {
+        if (rule.selectorText !== undefined) {
+          if (isRelevant(rule.selectorText)) kept.push(rule.cssText);
+        } else if (rule.cssRules && rule.media) {
+          const inner = visitRules(rule.cssRules);
+          if (inner.length > 0) kept.push(`@media ${rule.media.mediaText} {\n${inner.join('\n')}\n}`);
+        } else {
+          atRules.push(rule.cssText);
+        }
+      });
+      return kept;
+    };
+
+    Array.from(document.querySelectorAll('style')).forEach(style => {
+      try {
+        keptRules.push(...visitRules(style.sheet ? style.sheet.cssRules : []));
+      } catch {
+        keptRules.push(style.textContent);
+      }
+    });
+
+    // Only keep @keyframes that the kept rules actually reference
+    const keptText = keptRules.join('\n');
+    const usedAtRules = atRules.filter(rule => {
+      const keyframes = rule.match(/^@(?:-webkit-)?keyframes\s+([\w-]+)/);
+      return !keyframes || keptText.includes(keyframes[1]);
+    });
+
+    const css = [...usedAtRules, ...keptRules].join('\n');
+    return css.length > MAX_CSS_CONTEXT_LENGTH ? `${css.slice(0, MAX_CSS_CONTEXT_LENGTH)}\n/* ...truncated */` : css;
+  }
+}
+
+module.exports = new HtmlFragments();
@@ -118,6 +118,50 @@ class HtmlValidator {
     };
   }
 
+  /**
+   * Find the portfolio sections that are missing from (possibly truncated) HTML
+   * @param {string} htmlString - The HTML content to inspect
+   * @param {Object} portfolioData - Original portfolio data
+   * @returns {Array} - [{ key, label }] for each missing section
+   */
+  detectMissingSections(htmlString, portfolioData = {}) {
+    const lowerHtml = (htmlString || '').toLowerCase();
+    const textContent = lowerHtml.replace(/<[^>]*>/g, ' ').replace(/&amp;/g, '&');
+
+    // A section counts as present when an element's id or class mentions one of its keywords
+    const hasSection = (keywords) => keywords.some(keyword =>
+      new RegExp(`(?:id|class)=["'][^"']*${keyword}`).test(lowerHtml)
+    );
+
+    const missing = [];
+
+    if (!hasSection(['about', 'bio'])) {
+      missing.push({ key: 'about', label: 'About' });
+    }
+
+    if (!hasSection(['project', 'work', 'portfolio', 'gallery'])) {
+      missing.push({ key: 'projects', label: 'Projects' });
+    }
+
+    // Individual projects that never made it into the page
+    (portfolioData.projects || []).forEach((project, index) => {
+      const title = (project.title || '').trim().toLowerCase();
+      if (title && !textContent.includes(title)) {
+        missing.push({ key: `project-${index}`, label: `Project: ${project.title.trim()}` });
+      }
+    });
+
+    if (!hasSection(['contact'])) {
+      missing.push({ key: 'contact', label: 'Contact' });
+    }
+
+    if (!lowerHtml.includes('<footer') && !lowerHtml.includes('interract agency')) {
+      missing.push({ key: 'footer', label: 'Footer' });
+    }
+
+    return missing;
+  }
+
   /**
    * Generate a continuation prompt for incomplete HTML
    * @param {string} partialHtml - The incomplete HTML 
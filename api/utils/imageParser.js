@@ -86,12 +86,14 @@ class ImageParser {
 
   /**
    * 🎯 MAIN COMPREHENSIVE ANALYSIS METHOD
-   * This orchestrates the entire analysis process
+   * This orchestrates the entire analysis process.
+   * Pass designOptions.onPhase(phase, message) to be notified as each phase starts.
    */
   async runComprehensiveAnalysis(moodboardFiles, portfolioData, projectImages, designOptions = {}) {
     this.logger.info('🚀 Starting Comprehensive Image Analysis...');
     
     const startTime = Date.now();
+    const reportPhase = typeof designOptions.onPhase === 'function' ? designOptions.onPhase : () => {};
     const analysis = {
       timestamp: new Date().toISOString(),
       analysisLevels: {},
@@ -106,6 +108,7 @@ class ImageParser {
     try {
       // PHASE 1: Visual Intelligence (Moodboard Analysis)
       this.logger.info('🧠 Phase 1: Visual Intelligence Analysis...');
+      reportPhase(1, 'Analyzing your moodboard');
       if (moodboardFiles && moodboardFiles.length > 0) {
         analysis.analysisLevels.visualIntelligence = await this.analyzeUploadedImages(moodboardFiles, 'moodboard');
         this.logger.info(`✅ Visual analysis completed: ${analysis.analysisLevels.visualIntelligence.visualDNA?.category || 'unknown'} style`);
@@ -116,15 +119,18 @@ class ImageParser {
 
       // PHASE 2: Content Quality Analysis
       this.logger.info('🕵️ Phase 2: Content Quality Analysis...');
+      reportPhase(2, 'Reviewing your project content');
       analysis.analysisLevels.contentQuality = this.analyzeContentQuality(portfolioData, projectImages);
       this.logger.info(`✅ Content analysis: ${analysis.analysisLevels.contentQuality.strategy} strategy`);
 
       // PHASE 3: Industry Intelligence
       this.logger.info('🎯 Phase 3: Industry Detection...');
+      reportPhase(3, 'Detecting your industry');
       analysis.analysisLevels.industryIntelligence = this.detectIndustry(portfolioData);
       this.logger.info(`✅ Industry detected: ${analysis.analysisLevels.industryIntelligence.detectedIndustry}`);
 
       // PHASE 4: Design Options Integration
+      reportPhase(4, 'Applying your design preferences');
       if (designOptions.selectedSkeleton && designOptions.selectedSkeleton !== 'none') {
         analysis.skeletonIntegration = this.integrateSkeletonPreferences(analysis, designOptions.selectedSkeleton);
         this.logger.info(`✅ Skeleton integrated: ${designOptions.selectedSkeleton}`);
@@ -0,0 +1,85 @@
+/**
+ * Markdown Renderer - Turns blog posts written in Markdown into the HTML published with a portfolio.
+ * Raw HTML in a post is shown as text and only web, email and relative URLs are linked, so a post can't run code on the site.
+ */
+
+const { Marked } = require('marked');
+
+// Links and images may only point at web pages, email addresses, or relative paths and anchors on the site
+const SAFE_SCHEMES = ['http', 'https', 'mailto'];
+
+// Character references a URL can hide its scheme behind; browsers decode them in attributes
+const NAMED_REFERENCES = { colon: ':', tab: '\t', newline: '\n', amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", sol: '/' };
+
+const decodeReferences = (value) => value
+  .replace(/&#x([0-9a-f]+);?/gi, (_, hex) => String.fromCodePoint(Math.min(parseInt(hex, 16), 0x10ffff)))
+  .replace(/&#(\d+);?/g, (_, decimal) => String.fromCodePoint(Math.min(parseInt(decimal, 10), 0x10ffff)))
+  .replace(/&([a-z]+);/gi, (reference, name) => NAMED_REFERENCES[name.toLowerCase()] ?? reference);
+
+const isSafeUrl = (href) => {
+  // Browsers ignore control characters and whitespace inside a scheme ("java\tscript:")
+  const url = decodeReferences(String(href || '')).replace(/[\u0000-\u0020\u007f-\u009f]/g, '');
+  const beforePath = url.split(/[/?#]/)[0];
+
+  if (!beforePath.includes(':')) {
+    // Relative; a reference we don't know could still stand for the scheme's colon
+    return !/&[a-z]+;?/i.test(beforePath);
+  }
+
+  const scheme = beforePath.slice(0, beforePath.indexOf(':')).toLowerCase();
+  return SAFE_SCHEMES.includes(scheme);
+};
+
+const escapeHtml = (value) => String(value ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+class MarkdownRenderer {
+  constructor() {
+    this.marked = new Marked({
+      gfm: true,
+      breaks: false,
+      renderer: {
+        html: (html) => escapeHtml(html)
+      },
+      walkTokens: (token) => {
+        if ((token.type === 'link' || token.type === 'image') && !isSafeUrl(token.href)) {
+          token.href = '';
+        }
+      }
+    });
+  }
+
+  /**
+   * @param {string} markdown - Post body
+   * @returns {string} - HTML fragment
+   */
+  render(markdown) {
+    return this.marked.parse(String(markdown || ''));
+  }
+
+  /**
+   * Text of a post without its formatting, e.g. for excerpts and meta descriptions
+   * @param {number} maxLength - Cut at a word boundary past this many characters
+   */
+  toPlainText(markdown, maxLength = Infinity) {
+    const text = this.render(markdown)
+      .replace(/<\/(p|h[1-6]|li|blockquote|pre|td|th)>|<br\s*\/?>/g, ' ')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/&amp;/g, '&')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    if (text.length <= maxLength) return text;
+    const cut = text.slice(0, maxLength);
+    return `${cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : maxLength)}…`;
+  }
+}
+
+module.exports = new MarkdownRenderer();
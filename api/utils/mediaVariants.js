@@ -0,0 +1,84 @@
+/**
+ * Media variants: the prefers-color-scheme and prefers-reduced-motion versions every portfolio ships.
+ * Pages that leave one out get a generated block, derived from their theme tokens for the colour scheme.
+ */
+
+const themeTokens = require('./themeTokens');
+
+const COLOR_SCHEME_PATTERN = /prefers-color-scheme/i;
+const REDUCED_MOTION_PATTERN = /prefers-reduced-motion/i;
+// CSS animations and transitions, smooth scrolling and the usual scroll-driven effects in scripts
+const MOTION_PATTERN = /@keyframes|animation\s*:|transition\s*:|scroll-behavior\s*:\s*smooth|behavior\s*:\s*['"]smooth|requestAnimationFrame|parallax/i;
+
+const REDUCED_MOTION_CSS = `@media (prefers-reduced-motion: reduce) {
+  html {
+    scroll-behavior: auto !important;
+  }
+  *, *::before, *::after {
+    animation-duration: 0.01ms !important;
+    animation-iteration-count: 1 !important;
+    transition-duration: 0.01ms !important;
+    scroll-behavior: auto !important;
+  }
+}`;
+
+class MediaVariants {
+  hasColorSchemeVariant(html) {
+    return COLOR_SCHEME_PATTERN.test(html || '');
+  }
+
+  hasReducedMotionVariant(html) {
+    return REDUCED_MOTION_PATTERN.test(html || '');
+  }
+
+  hasMotion(html) {
+    return MOTION_PATTERN.test(html || '');
+  }
+
+  /**
+   * prefers-color-scheme block swapping the page's theme tokens for the opposite scheme
+   */
+  buildColorSchemeCss(html) {
+    const { scheme, theme } = themeTokens.buildSchemeVariant(themeTokens.readTheme(html));
+    const declarations = Object.entries(themeTokens.variables)
+      .filter(([key]) => !key.endsWith('Font'))
+      .map(([key, variable]) => `    ${variable}: ${theme[key]};`)
+      .join('\n');
+
+    return `@media (prefers-color-scheme: ${scheme}) {\n  :root {\n    color-scheme: ${scheme};\n${declarations}\n  }\n}`;
+  }
+
+  /**
+   * CSS for the variants the page does not have yet
+   * @returns {string} - Empty when both variants are present
+   */
+  buildMissingCss(html) {
+    const blocks = [];
+    if (!this.hasColorSchemeVariant(html)) blocks.push(this.buildColorSchemeCss(html));
+    if (!this.hasReducedMotionVariant(html)) blocks.push(REDUCED_MOTION_CSS);
+    return blocks.join('\n\n');
+  }
+
+  /**
+   * Make sure a generated page has both variants.
+   * The blocks go after the page's own styles so their :root values take over when the media query matches.
+   * @param {string} html - Portfolio HTML declaring the theme tokens
+   * @returns {string} - HTML with a colour scheme and a reduced motion variant
+   */
+  ensureVariants(html) {
+    const css = html ? this.buildMissingCss(html) : '';
+    if (!css) return html;
+
+    const block = `<style data-media-variants>\n${css}\n</style>\n`;
+    return /<\/head>/i.test(html) ? html.replace(/<\/head>/i, `${block}</head>`) : `${block}${html}`;
+  }
+
+  /**
+   * Prompt line asking the model for both variants
+   */
+  buildPromptInstruction() {
+    return '🌗 VARIANTS: Add @media (prefers-color-scheme: dark) redeclaring the --theme-* colors (light for dark designs), and @media (prefers-reduced-motion: reduce) turning off animations, transitions, parallax and smooth scrolling; scripts check matchMedia(\'(prefers-reduced-motion: reduce)\') before animating.';
+  }
+}
+
+module.exports = new MediaVariants();
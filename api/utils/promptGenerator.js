@@ -1,11 +1,13 @@
 const fs = require('fs-extra');
-const path = require('path');
 const { Logger } = require('./logger');
+const skeletonSlots = require('./skeletonSlots');
+const themeTokens = require('./themeTokens');
+const mediaVariants = require('./mediaVariants');
+const { isBuiltInSkeleton, getTemplatePath } = require('../skeletons');
 
 class PromptGenerator {
   constructor() {
     this.logger = new Logger('PromptGenerator');
-    this.skeletonsPath = path.join(__dirname, '..', 'api', 'skeletons');
     
     // 🎯 ULTRA-COMPRESSED SYSTEM PROMPT - Maximum efficiency
     this.systemPrompt = `You are an elite portfolio AI. Create custom HTML portfolios matching user aesthetic precisely.
@@ -106,7 +108,7 @@ CRITICAL: Response = ONLY HTML. No explanations. Start with <!DOCTYPE html>, end
    * 🚀 MAIN METHOD - Enhanced with full server.js compatibility
    */
   async generateEnhancedAnthropicMessages(portfolioData, projectImages, enhancedAnalysis, moodboardFiles = [], designOptions = {}) {
-    const { selectedSkeleton = 'none', customDesignRequest = '' } = designOptions;
+    const { selectedSkeleton = 'none', customDesignRequest = '', customSkeleton = null } = designOptions;
     
     this.logger.info(`🚀 V1 Enhanced Prompt Generation: Skeleton=${selectedSkeleton}, Custom=${customDesignRequest ? 'Yes' : 'No'}, Moodboard=${moodboardFiles?.length || 0}, Status=${enhancedAnalysis?.systemStatus || 'None'}`);
     
@@ -125,7 +127,8 @@ CRITICAL: Response = ONLY HTML. No explanations. Start with <!DOCTYPE html>, end
     const compressedData = this.compressPortfolioData(portfolioData, projectImages, enhancedAnalysis);
     
     if (selectedSkeleton !== 'none') {
-      return this.generateSkeletonMessages(selectedSkeleton, compressedData, moodboardFiles, customDesignRequest, enhancedAnalysis);
+      const skeletonContent = skeletonSlots.buildContent(portfolioData, projectImages?.projectImages);
+      return this.generateSkeletonMessages(selectedSkeleton, compressedData, moodboardFiles, customDesignRequest, enhancedAnalysis, skeletonContent, customSkeleton);
     }
     
     return this.generateCreativeMessages(compressedData, moodboardFiles, customDesignRequest, enhancedAnalysis);
@@ -133,21 +136,30 @@ CRITICAL: Response = ONLY HTML. No explanations. Start with <!DOCTYPE html>, end
 
   /**
    * 🗂️ SKELETON MODE - Ultra-compressed with full HTML loading
+   * A user's custom skeleton ({ name, html, manifest }) is used as is instead of a built-in file.
    */
-  async generateSkeletonMessages(skeletonId, compressedData, moodboardFiles, customRequest, enhancedAnalysis) {
-    const template = this.skeletonTemplates[skeletonId];
+  async generateSkeletonMessages(skeletonId, compressedData, moodboardFiles, customRequest, enhancedAnalysis, skeletonContent = null, customSkeleton = null) {
+    const template = customSkeleton ? { name: customSkeleton.name } : this.skeletonTemplates[skeletonId];
     if (!template) {
       this.logger.warn(`⚠️ Unknown skeleton: ${skeletonId}, falling back to creative mode`);
       return this.generateCreativeMessages(compressedData, moodboardFiles, customRequest, enhancedAnalysis);
     }
 
-    // Try to load actual skeleton HTML file
+    // Try to load actual skeleton HTML file and its slot manifest
     let skeletonHTML = null;
-    try {
-      skeletonHTML = await this.loadSkeletonHTML(skeletonId);
-      this.logger.info(`✅ Loaded skeleton HTML: ${skeletonId}`);
-    } catch (error) {
-      this.logger.warn(`⚠️ Could not load skeleton HTML: ${error.message}`);
+    let manifest = null;
+    if (customSkeleton) {
+      skeletonHTML = customSkeleton.html;
+      manifest = customSkeleton.manifest;
+      this.logger.info(`✅ Using custom skeleton: ${customSkeleton.name} (${skeletonId})`);
+    } else {
+      try {
+        skeletonHTML = await this.loadSkeletonHTML(skeletonId);
+        manifest = await skeletonSlots.loadManifest(skeletonId);
+        this.logger.info(`✅ Loaded skeleton HTML: ${skeletonId}${manifest ? ' (with slot manifest)' : ''}`);
+      } catch (error) {
+        this.logger.warn(`⚠️ Could not load skeleton HTML: ${error.message}`);
+      }
     }
 
     const contentArray = [
@@ -163,7 +175,7 @@ CRITICAL: Response = ONLY HTML. No explanations. Start with <!DOCTYPE html>, end
     // Build ultra-compressed skeleton instruction
     if (skeletonHTML) {
       // HTML preprocessing mode
-      const processedHTML = this.preprocessSkeletonHTML(skeletonHTML, compressedData);
+      const processedHTML = this.preprocessSkeletonHTML(skeletonHTML, compressedData, manifest, skeletonContent);
       contentArray.push({
         type: "text", 
         text: this.buildHTMLCustomizationInstruction(processedHTML, compressedData, customRequest, enhancedAnalysis, moodboardFiles.length > 0)
@@ -181,10 +193,23 @@ CRITICAL: Response = ONLY HTML. No explanations. Start with <!DOCTYPE html>, end
 
   /**
    * 🗃️ HTML PREPROCESSING - Process skeleton HTML with user data
+   * Declared slots are filled from the manifest first; legacy [PLACEHOLDER] tokens are replaced after.
    */
-  preprocessSkeletonHTML(skeletonHTML, data) {
+  preprocessSkeletonHTML(skeletonHTML, data, manifest = null, skeletonContent = null) {
     let processedHTML = skeletonHTML;
     const { u: user, p: projects } = data;
+
+    if (manifest && skeletonContent) {
+      try {
+        const filled = skeletonSlots.fill(skeletonHTML, manifest, skeletonContent);
+        processedHTML = filled.html;
+        if (filled.missingSlots.length > 0) {
+          this.logger.warn(`⚠️ Required skeleton slots without content: ${filled.missingSlots.join(', ')}`);
+        }
+      } catch (error) {
+        this.logger.warn(`⚠️ Slot filling failed, using placeholder replacement only: ${error.message}`);
+      }
+    }
     
     // Replace basic user patterns
     const userReplacements = {
@@ -227,10 +252,14 @@ CRITICAL: Response = ONLY HTML. No explanations. Start with <!DOCTYPE html>, end
    */
   buildHTMLCustomizationInstruction(processedHTML, data, customRequest, enhancedAnalysis, hasMoodboard) {
     const { meta } = data;
+    const theme = hasMoodboard ? themeTokens.fromAnalysis(enhancedAnalysis) : null;
     
     return `TASK: Customize skeleton HTML with user data + ${hasMoodboard ? 'moodboard aesthetic' : 'professional styling'}
 
-${hasMoodboard ? `🎨 MOODBOARD: Extract ALL colors/typography from images. Apply to CSS variables.` : ''}
+${hasMoodboard ? `🎨 MOODBOARD: Extract ALL colors/typography from images. Apply to the theme tokens.` : ''}
+
+${themeTokens.buildPromptInstruction(theme)}
+${mediaVariants.buildPromptInstruction()}
 
 ${enhancedAnalysis ? `🧠 AI: ${this.dataPatterns.AS(enhancedAnalysis)}+${this.dataPatterns.AM(enhancedAnalysis)} ${this.dataPatterns.AI(enhancedAnalysis)} (${this.dataPatterns.AC(enhancedAnalysis)}%)` : ''}
 
@@ -244,8 +273,10 @@ ${processedHTML}
 \`\`\`
 
 CUSTOMIZE:
-${hasMoodboard ? '- Replace MOODBOARD_* colors with extracted palette' : '- Apply professional color scheme'}
+${hasMoodboard ? '- Set the :root --theme-* values to the moodboard palette' : '- Set the :root --theme-* values to a professional color scheme'}
 - Replace [PROJECT_*] with real project data
+- Keep the text of data-slot / data-slot-field elements (already filled with the user's data)
+- Keep the prefers-color-scheme / prefers-reduced-motion blocks, with the color variant matching the new --theme-* values
 - No placeholders remain
 - Mobile responsive
 - ${customRequest ? 'Custom styling integrated' : 'Clean modern design'}`;
@@ -298,6 +329,8 @@ ${hasMoodboard ? '- Replace MOODBOARD_* colors with extracted palette' : '- Appl
       instruction += `\n\nCUSTOM REQUEST: "${customRequest}" - PRIORITY: HIGH - Apply throughout`;
     }
   
+    instruction += `\n\n${themeTokens.buildPromptInstruction()}`;
+    instruction += `\n${mediaVariants.buildPromptInstruction()}`;
     instruction += `\n\nBUILD: Single HTML with embedded CSS/JS, mobile responsive, professional quality`;
   
     return instruction;
@@ -336,6 +369,7 @@ ${hasMoodboard ? '- Replace MOODBOARD_* colors with extracted palette' : '- Appl
    */
   buildCompressedCreativeInstruction(data, customRequest, hasMoodboard, enhancedAnalysis) {
     const { u: user, p: projects, meta } = data;
+    const theme = hasMoodboard ? themeTokens.fromAnalysis(enhancedAnalysis) : null;
     
     return `TASK: Custom portfolio
 
@@ -348,6 +382,9 @@ ${projects.slice(0, 8).map(p => `• ${p.t} [${p.c}] - ${p.d} | ${p.tags.join('
 
 ${hasMoodboard ? 'AESTHETIC: Extract colors/style from moodboard images' : 'AESTHETIC: Modern professional'}
 
+${themeTokens.buildPromptInstruction(theme)}
+${mediaVariants.buildPromptInstruction()}
+
 ${enhancedAnalysis ? `STRATEGY: ${this.dataPatterns.AS(enhancedAnalysis)} + ${this.dataPatterns.AM(enhancedAnalysis)} for ${this.dataPatterns.AI(enhancedAnalysis)}` : ''}
 
 ${customRequest ? `CUSTOM: "${customRequest}" - Apply as core design philosophy` : ''}
@@ -515,19 +552,11 @@ BUILD: Complete responsive HTML portfolio with embedded CSS/JS`;
    * 🗂️ LOAD SKELETON HTML - File loading capability
    */
   async loadSkeletonHTML(selectedSkeleton) {
-    const skeletonFiles = {
-      'creative-professional': 'creative-professional.html',
-      'gallery-first': 'gallery-first.html',
-      'newspaper': 'newspaper.html',
-      'storyteller': 'storyteller.html'
-    };
-
-    const fileName = skeletonFiles[selectedSkeleton];
-    if (!fileName) {
+    if (!isBuiltInSkeleton(selectedSkeleton)) {
       throw new Error(`Unknown skeleton: ${selectedSkeleton}`);
     }
 
-    const skeletonPath = path.join(this.skeletonsPath, fileName);
+    const skeletonPath = getTemplatePath(selectedSkeleton);
     
     if (await fs.pathExists(skeletonPath)) {
       const html = await fs.readFile(skeletonPath, 'utf8');
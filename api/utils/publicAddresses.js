@@ -0,0 +1,91 @@
+/**
+ * Public Addresses - Keeps requests to URLs users enter (e.g. a storage endpoint) off the server's own network.
+ * Only https URLs whose host resolves to public addresses are accepted; loopback, private, link-local and other
+ * reserved ranges are refused, both when the URL is checked and again when a request connects.
+ */
+
+const dns = require('dns');
+const net = require('net');
+
+// Ranges that are not reachable on the public internet; IPv4-mapped IPv6 addresses are matched against the IPv4 ones
+const NON_PUBLIC_RANGES = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['224.0.0.0', 4, 'ipv4'],
+  ['240.0.0.0', 4, 'ipv4'],
+  ['::', 128, 'ipv6'],
+  ['::1', 128, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6']
+];
+
+const nonPublic = new net.BlockList();
+NON_PUBLIC_RANGES.forEach(([address, prefix, family]) => nonPublic.addSubnet(address, prefix, family));
+
+class PublicAddresses {
+  constructor() {
+    this.lookup = this.lookup.bind(this);
+  }
+
+  /**
+   * Whether an IP address is on the public internet
+   */
+  isPublic(address) {
+    const family = net.isIP(address);
+    return family !== 0 && !nonPublic.check(address, family === 6 ? 'ipv6' : 'ipv4');
+  }
+
+  /**
+   * What is wrong with a URL requests are about to be sent to
+   * @returns {Promise<string|null>} - the problem to show the user, or null when the URL is https on public addresses
+   */
+  async checkUrl(value) {
+    let url;
+    try {
+      url = new URL(String(value || '').trim());
+    } catch (error) {
+      return 'must be a valid URL';
+    }
+    if (url.protocol !== 'https:') return 'must start with https://';
+
+    const hostname = url.hostname.replace(/^\[|\]$/g, '');
+    let addresses;
+    try {
+      addresses = net.isIP(hostname)
+        ? [hostname]
+        : (await dns.promises.lookup(hostname, { all: true })).map(({ address }) => address);
+    } catch (error) {
+      return `host ${hostname} could not be found`;
+    }
+
+    return addresses.every(address => this.isPublic(address))
+      ? null
+      : `host ${hostname} is not a public address`;
+  }
+
+  /**
+   * dns.lookup that fails for hosts resolving to non-public addresses. Passed to requests as their lookup,
+   * so a host can't switch to an internal address between checkUrl and the request.
+   */
+  lookup(hostname, options, callback) {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) return callback(error);
+      if (!addresses.every(({ address }) => this.isPublic(address))) {
+        return callback(Object.assign(new Error(`${hostname} is not a public address`), { code: 'ENOTPUBLIC' }));
+      }
+      return options.all
+        ? callback(null, addresses)
+        : callback(null, addresses[0].address, addresses[0].family);
+    });
+  }
+}
+
+module.exports = new PublicAddresses();
@@ -0,0 +1,342 @@
+const fs = require('fs-extra');
+const { JSDOM, VirtualConsole } = require('jsdom');
+const { getManifestPath } = require('../skeletons');
+
+// Slot ids and repeat fields a user-uploaded skeleton can use; they name the keys of buildContent
+const CONTENT_SOURCES = ['name', 'title', 'bio', 'email', 'phone', 'website', 'linkedin', 'instagram', 'behance', 'dribbble', 'skills', 'projects'];
+const PROJECT_FIELDS = ['title', 'subtitle', 'category', 'overview', 'tags', 'image', 'images'];
+const LINK_SOURCES = ['email', 'phone', 'website', 'linkedin', 'instagram', 'behance', 'dribbble'];
+const LINK_PREFIXES = { email: 'mailto:', phone: 'tel:' };
+const BLOCK_TAGS = ['DIV', 'SECTION', 'ARTICLE'];
+
+/**
+ * Fills the content slots a skeleton declares in its manifest (skeletons/manifests/<id>.json).
+ * Slot markup and semantics are documented in src/skeletons/manifest.ts - keep the two in sync.
+ */
+class SkeletonSlots {
+  constructor() {
+    this.manifests = new Map();
+  }
+
+  /**
+   * Load (and cache) a skeleton's manifest
+   * @param {string} skeletonId - Skeleton id, e.g. "newspaper"
+   * @returns {Promise<Object|null>} - The manifest, or null when the skeleton has none
+   */
+  async loadManifest(skeletonId) {
+    if (this.manifests.has(skeletonId)) return this.manifests.get(skeletonId);
+
+    const manifestPath = getManifestPath(skeletonId);
+    const manifest = await fs.pathExists(manifestPath) ? await fs.readJson(manifestPath) : null;
+
+    this.manifests.set(skeletonId, manifest);
+    return manifest;
+  }
+
+  /**
+   * Build a manifest for a user-uploaded skeleton from the slots marked in its HTML.
+   * Slot types are inferred from the marked elements; ids outside CONTENT_SOURCES/PROJECT_FIELDS are reported, not used.
+   * @param {string} html - Skeleton HTML
+   * @param {string} skeletonId - Id to give the manifest
+   * @param {Object} options - { requiredSlots, maxProjects }
+   * @returns {Object} - { manifest, unknownSlots }
+   */
+  deriveManifest(html, skeletonId, { requiredSlots = [], maxProjects } = {}) {
+    const document = new JSDOM(html, { virtualConsole: new VirtualConsole() }).window.document;
+    const unknownSlots = [];
+    const slots = [];
+
+    this.uniqueAttributeValues(document, 'data-slot').forEach(id => {
+      if (!CONTENT_SOURCES.includes(id)) {
+        unknownSlots.push(id);
+        return;
+      }
+
+      const slot = id === 'projects'
+        ? { id, type: 'repeat', source: id, max: maxProjects, fields: this.deriveFields(document, id, unknownSlots) }
+        : this.deriveSlot(id, document.querySelector(`[data-slot="${id}"]`));
+
+      if (requiredSlots.includes(id)) slot.required = true;
+      slots.push(slot);
+    });
+
+    // A section is optional when it holds slots to decide on
+    const optionalSections = this.uniqueAttributeValues(document, 'data-section')
+      .map(id => ({
+        id,
+        sources: Array.from(document.querySelectorAll(`[data-section="${id}"] [data-slot]`))
+          .map(element => element.getAttribute('data-slot'))
+          .filter((source, index, sources) => CONTENT_SOURCES.includes(source) && sources.indexOf(source) === index)
+      }))
+      .filter(section => section.sources.length > 0);
+
+    return {
+      manifest: { id: skeletonId, version: 1, slots, optionalSections },
+      unknownSlots
+    };
+  }
+
+  deriveSlot(id, element) {
+    if (id === 'skills' || id === 'tags') return { id, type: 'list', source: id };
+    if (id === 'images') return { id, type: 'list', source: id, item: 'image' };
+    if (id === 'image') return { id, type: 'image', source: id };
+
+    if (LINK_SOURCES.includes(id) && element.tagName === 'A') {
+      return LINK_PREFIXES[id]
+        ? { id, type: 'link', source: id, hrefPrefix: LINK_PREFIXES[id], setText: true }
+        : { id, type: 'link', source: id };
+    }
+
+    if ((id === 'bio' || id === 'overview') && BLOCK_TAGS.includes(element.tagName)) {
+      return { id, type: 'paragraphs', source: id };
+    }
+
+    return { id, type: 'text', source: id };
+  }
+
+  /**
+   * Fields used by any item of a repeat slot
+   */
+  deriveFields(document, repeatId, unknownSlots) {
+    const itemSelector = `[data-slot="${repeatId}"]`;
+
+    return this.uniqueAttributeValues(document, 'data-slot-field', itemSelector)
+      .filter(id => {
+        if (PROJECT_FIELDS.includes(id)) return true;
+        unknownSlots.push(`${repeatId}.${id}`);
+        return false;
+      })
+      .map(id => this.deriveSlot(id, document.querySelector(`${itemSelector} [data-slot-field="${id}"]`)));
+  }
+
+  uniqueAttributeValues(root, attribute, scope = '') {
+    const elements = Array.from(root.querySelectorAll(`${scope} [${attribute}]`.trim()));
+    return [...new Set(elements.map(element => element.getAttribute(attribute)))];
+  }
+
+  /**
+   * Build slot content from portfolio data and the user's saved projects
+   * @param {Object} portfolioData - Portfolio data with personalInfo and projects
+   * @param {Array} savedProjects - Projects with finalImages/processImages (getCompleteProjectData)
+   * @returns {Object} - Content keyed by slot source
+   */
+  buildContent(portfolioData = {}, savedProjects = null) {
+    const personalInfo = portfolioData.personalInfo || {};
+    const projects = savedProjects && savedProjects.length > 0 ? savedProjects : (portfolioData.projects || []);
+
+    return {
+      name: personalInfo.name || '',
+      title: personalInfo.title || '',
+      bio: personalInfo.bio || '',
+      email: personalInfo.email || '',
+      phone: personalInfo.phone || '',
+      website: personalInfo.website || '',
+      linkedin: personalInfo.linkedin || '',
+      instagram: personalInfo.instagram || '',
+      behance: personalInfo.behance || '',
+      dribbble: personalInfo.dribbble || '',
+      skills: (personalInfo.skills || []).filter(Boolean),
+      projects: projects.map(project => {
+        const images = this.getImageUrls(project);
+        return {
+          title: project.title || '',
+          subtitle: project.subtitle || '',
+          category: project.customCategory || project.category || '',
+          overview: project.overview || project.description || '',
+          tags: (project.tags || []).filter(Boolean),
+          image: images[0] || '',
+          images
+        };
+      })
+    };
+  }
+
+  /**
+   * Image URLs of a project, final images first.
+   * Saved projects keep Cloudinary images in imageMetadata; generation data has them on the project.
+   */
+  getImageUrls(project) {
+    const urlOf = image => (typeof image === 'string' ? image : image?.url);
+
+    return [
+      project.imageMetadata?.finalImage,
+      ...(project.imageMetadata?.finalImages || []).map(urlOf),
+      ...(project.finalImages || []).map(urlOf),
+      ...(project.imageMetadata?.processImages || []).map(urlOf),
+      ...(project.processImages || []).map(urlOf)
+    ].filter((url, index, urls) => typeof url === 'string' && /^(https?:|data:)/.test(url) && urls.indexOf(url) === index);
+  }
+
+  /**
+   * Fill a skeleton's slots with content
+   * @param {string} html - Skeleton HTML
+   * @param {Object} manifest - Skeleton manifest
+   * @param {Object} content - Result of buildContent
+   * @returns {Object} - { html, missingSlots } where missingSlots lists required slots that could not be filled
+   */
+  fill(html, manifest, content) {
+    // Skeletons carry template tokens in their CSS; don't log jsdom's parse errors for them
+    const dom = new JSDOM(html, { virtualConsole: new VirtualConsole() });
+    const document = dom.window.document;
+    const missingSlots = this.findMissingSlots(document, manifest, content);
+
+    document.querySelectorAll('[data-sample]').forEach(element => element.remove());
+
+    manifest.optionalSections.forEach(section => {
+      const hasContent = section.sources.some(source => !this.isEmpty(content[source]));
+      if (!hasContent) {
+        document.querySelectorAll(`[data-section="${section.id}"]`).forEach(element => element.remove());
+      }
+    });
+
+    this.fillSlots(document, manifest.slots, 'data-slot', content);
+
+    manifest.slots
+      .filter(slot => slot.type === 'repeat' && document.querySelector(`[data-slot="${slot.id}"]`))
+      .forEach(slot => {
+        const values = content[slot.source] || [];
+        this.publishSlotData(document, slot.source, values.slice(0, slot.max ?? values.length));
+      });
+
+    return { html: dom.serialize(), missingSlots };
+  }
+
+  fillSlots(root, slots, attribute, data) {
+    slots.forEach(slot => {
+      const elements = Array.from(root.querySelectorAll(`[${attribute}="${slot.id}"]`));
+      const value = data[slot.source];
+
+      if (slot.type === 'list') {
+        if (elements.length > 0) this.fillList(elements, slot, value || []);
+      } else if (slot.type === 'repeat') {
+        this.fillRepeat(elements, slot, value || []);
+      } else {
+        elements.forEach(element => this.fillValue(element, slot, value));
+      }
+    });
+  }
+
+  fillValue(element, slot, value) {
+    const text = typeof value === 'string' ? value : '';
+
+    switch (slot.type) {
+      case 'text':
+        element.textContent = text;
+        break;
+      case 'paragraphs':
+        this.setParagraphs(element, text);
+        break;
+      case 'link':
+        if (!text) {
+          element.remove();
+          break;
+        }
+        element.setAttribute('href', `${slot.hrefPrefix || ''}${text}`);
+        if (slot.setText) (element.querySelector('[data-slot-text]') || element).textContent = text;
+        break;
+      case 'image':
+        this.setImage(element, text);
+        break;
+    }
+  }
+
+  /**
+   * Values are split across every container that declares the same list slot
+   */
+  fillList(containers, slot, values) {
+    const perContainer = Math.ceil(values.length / Math.max(containers.length, 1));
+
+    containers.forEach((container, index) => {
+      const items = values.slice(index * perContainer, (index + 1) * perContainer);
+      const template = container.firstElementChild;
+
+      if (!template || items.length === 0) {
+        (container.closest('[data-slot-wrapper]') || container).remove();
+        return;
+      }
+
+      container.replaceChildren(...items.map(value => {
+        const item = template.cloneNode(true);
+        if (slot.item === 'image') {
+          this.setImage(item, value);
+        } else {
+          (item.querySelector('[data-slot-text]') || item).textContent = value;
+        }
+        return item;
+      }));
+    });
+  }
+
+  /**
+   * Each element marked with a repeat slot is one item; the last one is cloned when there is more data
+   */
+  fillRepeat(items, slot, values) {
+    if (items.length === 0) return;
+
+    const count = Math.min(values.length, slot.max ?? values.length);
+    while (items.length < count) {
+      const last = items[items.length - 1];
+      const clone = last.cloneNode(true);
+      clone.removeAttribute('id');
+      last.after(clone);
+      items.push(clone);
+    }
+
+    items.forEach((item, index) => {
+      if (index >= count) {
+        item.remove();
+        return;
+      }
+      if (slot.indexAttribute) item.setAttribute(slot.indexAttribute, `${slot.source}-${index + 1}`);
+      this.fillSlots(item, slot.fields || [], 'data-slot-field', values[index]);
+    });
+  }
+
+  setImage(element, url) {
+    if (!url) return;
+    if (element.tagName === 'IMG') {
+      element.setAttribute('src', url);
+      return;
+    }
+    element.style.backgroundImage = `url('${url}')`;
+    element.style.backgroundSize = 'cover';
+    element.style.backgroundPosition = 'center';
+    if (element.children.length === 0) element.textContent = '';
+  }
+
+  setParagraphs(element, text) {
+    const document = element.ownerDocument;
+    const paragraphs = text.split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean);
+    element.replaceChildren(...paragraphs.map(paragraph => {
+      const p = document.createElement('p');
+      p.textContent = paragraph;
+      return p;
+    }));
+  }
+
+  /**
+   * Expose filled repeat items to skeleton scripts (project modals) as JSON
+   */
+  publishSlotData(document, source, values) {
+    if (document.querySelector(`[data-slot-data="${source}"]`)) return;
+
+    const script = document.createElement('script');
+    script.type = 'application/json';
+    script.setAttribute('data-slot-data', source);
+    script.textContent = JSON.stringify(values).replace(/</g, '\\u003c');
+    document.head.appendChild(script);
+  }
+
+  findMissingSlots(document, manifest, content) {
+    return manifest.slots
+      .filter(slot => slot.required)
+      .filter(slot => this.isEmpty(content[slot.source]) || !document.querySelector(`[data-slot="${slot.id}"]`))
+      .map(slot => slot.id);
+  }
+
+  isEmpty(value) {
+    return Array.isArray(value) ? value.length === 0 : !value;
+  }
+}
+
+module.exports = new SkeletonSlots();
@@ -0,0 +1,291 @@
+/**
+ * Theme tokens: the CSS custom properties every portfolio declares for its palette and fonts,
+ * so Preview can swap them without regenerating. Preview imports this module too (src/lib/themeTokens.ts),
+ * so it has no dependencies and runs in the browser.
+ */
+
+const THEME_VARIABLES = {
+  primary: '--theme-primary',
+  accent: '--theme-accent',
+  background: '--theme-background',
+  text: '--theme-text',
+  headingFont: '--theme-font-heading',
+  bodyFont: '--theme-font-body'
+};
+
+const DEFAULT_THEME = {
+  primary: '#1a1a1a',
+  accent: '#c4472b',
+  background: '#f7f5f1',
+  text: '#1a1a1a',
+  headingFont: "'Helvetica Neue', Arial, sans-serif",
+  bodyFont: "'Helvetica Neue', Arial, sans-serif"
+};
+
+// Font stacks for the typography categories ImageParser reports
+const FONT_STACKS = {
+  serif: "Georgia, 'Times New Roman', serif",
+  'sans-serif': "'Helvetica Neue', Arial, sans-serif",
+  display: "'Futura', 'Trebuchet MS', sans-serif",
+  script: "Georgia, 'Times New Roman', serif",
+  monospace: "'SFMono-Regular', Menlo, Consolas, monospace"
+};
+
+const HEX_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+class ThemeTokens {
+  constructor() {
+    this.variables = THEME_VARIABLES;
+    this.defaultTheme = DEFAULT_THEME;
+  }
+
+  /**
+   * Build a theme from a colour palette, e.g. the one ImageParser extracts from the moodboard.
+   * The lightest colour becomes the background (darkest for dark palettes) and the most saturated ones
+   * primary and accent, adjusted until they read on that background.
+   * @param {string[]} palette - Hex colours, most dominant first
+   * @param {Object} options - { brightness: 'low'|'medium'|'high', typography: typography category }
+   * @returns {Object|null} - Theme, or null when the palette has no usable colours
+   */
+  fromPalette(palette, { brightness, typography } = {}) {
+    const colors = [...new Set((palette || []).filter(color => HEX_PATTERN.test(color)).map(color => this.normalizeHex(color)))];
+    if (colors.length === 0) return null;
+
+    const byLuminance = [...colors].sort((a, b) => this.luminance(a) - this.luminance(b));
+    const isDark = brightness === 'low';
+
+    const background = isDark
+      ? this.mix(byLuminance[0], '#000000', 0.6)
+      : this.mix(byLuminance[byLuminance.length - 1], '#ffffff', 0.8);
+    const text = isDark
+      ? this.mix(byLuminance[byLuminance.length - 1], '#ffffff', 0.85)
+      : this.mix(byLuminance[0], '#000000', 0.75);
+
+    const bySaturation = [...colors].sort((a, b) => this.saturation(b) - this.saturation(a));
+    const primary = this.ensureContrast(bySaturation[0], background, 4.5);
+    const accent = this.ensureContrast(bySaturation[1] || colors[0], background, 3);
+
+    const fontStack = FONT_STACKS[String(typography || '').toLowerCase()] || DEFAULT_THEME.bodyFont;
+
+    return {
+      primary,
+      accent,
+      background,
+      text,
+      headingFont: fontStack,
+      bodyFont: typography === 'serif' ? FONT_STACKS.serif : FONT_STACKS['sans-serif']
+    };
+  }
+
+  /**
+   * Theme for the palette and typography found by the comprehensive analysis
+   */
+  fromAnalysis(analysis) {
+    const visual = analysis?.analysisLevels?.visualIntelligence;
+    if (!visual?.colors?.palette) return null;
+
+    return this.fromPalette(visual.colors.palette, {
+      brightness: visual.colors.brightness,
+      typography: visual.typography?.category
+    });
+  }
+
+  /**
+   * Palettes Preview offers from the analysis: the extracted theme and its light/dark counterpart
+   * @returns {Array} - [{ id, name, theme }], empty without an extracted palette
+   */
+  buildPalettes(analysis) {
+    const visual = analysis?.analysisLevels?.visualIntelligence;
+    const theme = this.fromAnalysis(analysis);
+    if (!theme) return [];
+
+    const isDark = visual.colors.brightness === 'low';
+    const counterpart = this.fromPalette(visual.colors.palette, {
+      brightness: isDark ? 'high' : 'low',
+      typography: visual.typography?.category
+    });
+
+    return [
+      { id: 'moodboard', name: 'From your moodboard', theme },
+      { id: isDark ? 'moodboard-light' : 'moodboard-dark', name: isDark ? 'Moodboard, light' : 'Moodboard, dark', theme: counterpart }
+    ];
+  }
+
+  /**
+   * The opposite colour scheme of a theme, for its prefers-color-scheme variant.
+   * Light themes get a dark variant keeping the background's hue, dark themes a light one;
+   * primary and accent are adjusted until they read on the new background.
+   * @returns {Object} - { scheme: 'dark'|'light', theme }
+   */
+  buildSchemeVariant(theme) {
+    const values = Object.fromEntries(Object.entries({ ...DEFAULT_THEME, ...theme })
+      .map(([key, value]) => [key, key.endsWith('Font') || HEX_PATTERN.test(value) ? value : DEFAULT_THEME[key]]));
+    const scheme = this.luminance(values.background) > 0.2 ? 'dark' : 'light';
+
+    const background = scheme === 'dark'
+      ? this.mix(values.background, '#000000', 0.9)
+      : this.mix(values.background, '#ffffff', 0.95);
+    const text = scheme === 'dark'
+      ? this.normalizeHex(values.background)
+      : this.mix(values.background, '#000000', 0.3);
+
+    return {
+      scheme,
+      theme: {
+        // Themes often use the text colour as primary; keep the two together
+        primary: this.normalizeHex(values.primary) === this.normalizeHex(values.text)
+          ? text
+          : this.ensureContrast(values.primary, background, 4.5),
+        accent: this.ensureContrast(values.accent, background, 3),
+        background,
+        text,
+        headingFont: values.headingFont,
+        bodyFont: values.bodyFont
+      }
+    };
+  }
+
+  /**
+   * Theme tokens declared in the HTML; the last declaration of each wins, as in the cascade.
+   * Declarations inside @media blocks (colour scheme variants) are not the page's own values and are skipped.
+   */
+  readTheme(html) {
+    const css = this.removeMediaBlocks(String(html || ''));
+    const theme = {};
+    Object.entries(THEME_VARIABLES).forEach(([key, variable]) => {
+      const matches = [...css.matchAll(new RegExp(`${variable}\\s*:\\s*([^;}]+)`, 'g'))];
+      if (matches.length > 0) theme[key] = matches[matches.length - 1][1].trim();
+    });
+    return theme;
+  }
+
+  removeMediaBlocks(css) {
+    let result = css;
+    let start = result.indexOf('@media');
+    while (start !== -1) {
+      let index = result.indexOf('{', start);
+      if (index === -1) break;
+      for (let depth = 0; index < result.length; index++) {
+        if (result[index] === '{') depth++;
+        if (result[index] === '}' && --depth === 0) break;
+      }
+      result = result.slice(0, start) + result.slice(index + 1);
+      start = result.indexOf('@media', start);
+    }
+    return result;
+  }
+
+  /**
+   * :root rule declaring a theme's custom properties
+   */
+  toCss(theme) {
+    const values = { ...DEFAULT_THEME, ...theme };
+    const declarations = Object.entries(THEME_VARIABLES)
+      .map(([key, variable]) => `  ${variable}: ${values[key]};`)
+      .join('\n');
+
+    return `:root {\n${declarations}\n}`;
+  }
+
+  /**
+   * Theme tokens declared in the HTML that are missing
+   */
+  getMissingVariables(html) {
+    return Object.values(THEME_VARIABLES).filter(variable => !new RegExp(`${variable}\\s*:`).test(html));
+  }
+
+  /**
+   * Make sure a generated page declares every theme token.
+   * Missing tokens are declared ahead of the page's own styles, so any values the page sets still win.
+   * @param {string} html - Portfolio HTML
+   * @param {Object|null} theme - Values for the missing tokens (defaults when null)
+   * @returns {string} - HTML declaring every token
+   */
+  ensureThemeTokens(html, theme = null) {
+    if (!html || this.getMissingVariables(html).length === 0) return html;
+
+    const block = `<style data-theme-tokens>\n${this.toCss(theme || DEFAULT_THEME)}\n</style>\n`;
+    const firstStyle = html.search(/<style[\s>]/i);
+    if (firstStyle !== -1) {
+      return `${html.slice(0, firstStyle)}${block}${html.slice(firstStyle)}`;
+    }
+
+    return html.replace(/<\/head>/i, `${block}</head>`);
+  }
+
+  /**
+   * Prompt lines asking the model to declare and use the theme tokens
+   */
+  buildPromptInstruction(theme = null) {
+    const values = theme
+      ? Object.entries(THEME_VARIABLES).map(([key, variable]) => `${variable}: ${theme[key]}`).join('; ')
+      : Object.values(THEME_VARIABLES).join(', ');
+
+    return `🎨 THEME TOKENS: Declare in :root ${theme ? `(${values})` : `(${values} - values that fit the design)`}. Use var(--theme-*) for every color and font-family; no literal colors outside :root except transparency (rgba of the same colors).`;
+  }
+
+  normalizeHex(hex) {
+    const value = hex.slice(1).toLowerCase();
+    return value.length === 3 ? `#${value.split('').map(char => char + char).join('')}` : `#${value}`;
+  }
+
+  toRgb(hex) {
+    const value = parseInt(this.normalizeHex(hex).slice(1), 16);
+    return { r: (value >> 16) & 255, g: (value >> 8) & 255, b: value & 255 };
+  }
+
+  toHex({ r, g, b }) {
+    return `#${[r, g, b].map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('')}`;
+  }
+
+  /**
+   * Blend a colour towards another; amount 0 keeps the colour, 1 returns the target
+   */
+  mix(hex, target, amount) {
+    const from = this.toRgb(hex);
+    const to = this.toRgb(target);
+    return this.toHex({
+      r: from.r + (to.r - from.r) * amount,
+      g: from.g + (to.g - from.g) * amount,
+      b: from.b + (to.b - from.b) * amount
+    });
+  }
+
+  /**
+   * WCAG relative luminance
+   */
+  luminance(hex) {
+    const { r, g, b } = this.toRgb(hex);
+    const [lr, lg, lb] = [r, g, b].map(channel => {
+      const value = channel / 255;
+      return value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+    });
+    return 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+  }
+
+  contrast(a, b) {
+    const [light, dark] = [this.luminance(a), this.luminance(b)].sort((x, y) => y - x);
+    return (light + 0.05) / (dark + 0.05);
+  }
+
+  saturation(hex) {
+    const { r, g, b } = this.toRgb(hex);
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    return max === 0 ? 0 : (max - min) / max;
+  }
+
+  /**
+   * Darken (or lighten, on dark backgrounds) a colour until it reaches the contrast ratio
+   */
+  ensureContrast(hex, background, ratio) {
+    const target = this.luminance(background) > 0.5 ? '#000000' : '#ffffff';
+    let color = hex;
+    for (let step = 0; step < 10 && this.contrast(color, background) < ratio; step++) {
+      color = this.mix(color, target, 0.15);
+    }
+    return color;
+  }
+}
+
+module.exports = new ThemeTokens();
@@ -1,5 +1,6 @@
 const { logger } = require("./../logger");
 const { JSDOM } = require('jsdom');
+const mediaVariants = require('../mediaVariants');
 
 class AccessibilityValidator {
   constructor() {
@@ -35,6 +36,7 @@ class AccessibilityValidator {
       this.checkSemanticHTML(document);
       this.checkFormAccessibility(document);
       this.checkLinkAccessibility(document);
+      this.checkMediaVariants(document);
 
       // Calculate overall score
       const totalChecks = this.passedChecks.length + this.issues.length;
@@ -426,6 +428,41 @@ class AccessibilityValidator {
     }
   }
 
+  /**
+   * Check the prefers-reduced-motion and prefers-color-scheme variants
+   */
+  checkMediaVariants(document) {
+    const code = Array.from(document.querySelectorAll('style, script'))
+      .map(element => element.textContent)
+      .join('\n');
+
+    if (mediaVariants.hasMotion(code)) {
+      if (mediaVariants.hasReducedMotionVariant(code)) {
+        this.passedChecks.push('Animations respect prefers-reduced-motion');
+      } else {
+        this.issues.push({
+          type: 'missing_reduced_motion',
+          severity: 'medium',
+          message: 'Animations and transitions ignore prefers-reduced-motion',
+          element: 'style',
+          fix: 'Add @media (prefers-reduced-motion: reduce) turning off animations, transitions and smooth scrolling'
+        });
+      }
+    }
+
+    if (mediaVariants.hasColorSchemeVariant(code)) {
+      this.passedChecks.push('Colors follow prefers-color-scheme');
+    } else {
+      this.issues.push({
+        type: 'missing_color_scheme',
+        severity: 'low',
+        message: 'No dark or light variant for prefers-color-scheme',
+        element: 'style',
+        fix: 'Add @media (prefers-color-scheme: dark) redeclaring the --theme-* colors'
+      });
+    }
+  }
+
   /**
    * Simplified contrast calculation
    */
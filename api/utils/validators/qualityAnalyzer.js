@@ -5,6 +5,7 @@ const designValidator = require('./designValidator');
 const technicalValidator = require('./technicalValidator');
 const accessibilityValidator = require('./accessibilityValidator');
 const { JSDOM } = require('jsdom');
+const mediaVariants = require('../mediaVariants');
 
 class QualityAnalyzer {
   constructor() {
@@ -253,6 +254,21 @@ class QualityAnalyzer {
             });
             break;
 
+          case 'missing_reduced_motion':
+          case 'missing_color_scheme':
+            // Add the generated variants once for both issues
+            if (!document.querySelector('style[data-media-variants]')) {
+              const css = mediaVariants.buildMissingCss(document.documentElement.outerHTML);
+              if (css) {
+                const style = document.createElement('style');
+                style.setAttribute('data-media-variants', '');
+                style.textContent = `\n${css}\n`;
+                document.head.appendChild(style);
+                fixes.push('Added prefers-color-scheme / prefers-reduced-motion variants');
+              }
+            }
+            break;
+
           case 'missing_h1':
             // Add H1 if missing
             if (!document.querySelector('h1')) {
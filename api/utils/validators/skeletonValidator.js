@@ -0,0 +1,133 @@
+/**
+ * Skeleton validator - checks user-uploaded skeleton HTML before it can be stored and used for generation
+ */
+
+const { JSDOM, VirtualConsole } = require('jsdom');
+const BaseValidator = require('./BaseValidator');
+const htmlValidator = require('../htmlValidator');
+const skeletonSlots = require('../skeletonSlots');
+const { CUSTOM_SKELETON_CONFIG } = require('../../config/constants');
+
+const STRUCTURE_CHECKS = [
+  ['hasDoctype', 'DOCTYPE declaration'],
+  ['hasHtmlOpen', 'opening <html> tag'],
+  ['hasHeadSection', '<head> section'],
+  ['hasBodyOpen', 'opening <body> tag'],
+  ['hasBodyClose', 'closing </body> tag'],
+  ['hasHtmlClose', 'closing </html> tag']
+];
+
+// import x from 'https://...', import('//...'), importScripts('https://...')
+const REMOTE_IMPORT_PATTERN = /\bimport(?:Scripts)?\s*(?:\(\s*|[\w{*][^;]*?\bfrom\s*)['"`](?:https?:)?\/\//;
+
+class SkeletonValidator extends BaseValidator {
+  constructor() {
+    super('SkeletonValidator');
+  }
+
+  /**
+   * Validate an uploaded skeleton. High severity issues block the upload.
+   * @param {string} html - Skeleton HTML
+   * @returns {Promise<Object>} - Validation results plus `valid`
+   */
+  async validate(html) {
+    this.reset();
+
+    if (!html || typeof html !== 'string') {
+      this.addIssue('No skeleton HTML provided', 'high');
+      return this.getResults();
+    }
+
+    if (html.length > CUSTOM_SKELETON_CONFIG.MAX_HTML_LENGTH) {
+      this.addIssue(`Skeleton is ${html.length} characters; the limit is ${CUSTOM_SKELETON_CONFIG.MAX_HTML_LENGTH}`, 'high');
+    } else {
+      this.addPassedCheck('Skeleton size is within the limit');
+    }
+
+    this.validateStructure(html);
+
+    const document = new JSDOM(html, { virtualConsole: new VirtualConsole() }).window.document;
+    this.validateScripts(document);
+    this.validateSlots(html);
+
+    if (!document.querySelector('[data-sample]')) {
+      this.addSuggestion('Mark illustrative content with data-sample so it is removed when the skeleton is filled');
+    }
+
+    return this.getResults();
+  }
+
+  /**
+   * Reuse the generation completeness check for the document outline
+   */
+  validateStructure(html) {
+    const { structure } = htmlValidator.validateCompleteness(html);
+
+    STRUCTURE_CHECKS.forEach(([flag, label]) => {
+      if (structure[flag]) {
+        this.addPassedCheck(`Has ${label}`);
+      } else {
+        this.addIssue(`Missing ${label}`, 'high');
+      }
+    });
+
+    if (!structure.hasStyleTag) {
+      this.addSuggestion('Add the skeleton styles in a <style> block; external stylesheets may not load once deployed');
+    }
+  }
+
+  /**
+   * Skeletons must be self-contained: no scripts loaded from elsewhere
+   */
+  validateScripts(document) {
+    const externalScripts = Array.from(document.querySelectorAll('script[src]'));
+    externalScripts.forEach(script => {
+      this.addIssue(`External script is not allowed: ${script.getAttribute('src')}`, 'high');
+    });
+
+    const remoteImports = Array.from(document.querySelectorAll('script:not([src])'))
+      .filter(script => REMOTE_IMPORT_PATTERN.test(script.textContent));
+    if (remoteImports.length > 0) {
+      this.addIssue('Scripts must not import code from other sites', 'high');
+    }
+
+    if (externalScripts.length === 0 && remoteImports.length === 0) {
+      this.addPassedCheck('No external scripts');
+    }
+  }
+
+  /**
+   * Required slots must be marked, and each project needs a title
+   */
+  validateSlots(html) {
+    const { manifest, unknownSlots } = skeletonSlots.deriveManifest(html, 'validation');
+    const slotIds = manifest.slots.map(slot => slot.id);
+
+    CUSTOM_SKELETON_CONFIG.REQUIRED_SLOTS.forEach(id => {
+      if (slotIds.includes(id)) {
+        this.addPassedCheck(`Has the "${id}" slot`);
+      } else {
+        this.addIssue(`Missing required slot: add data-slot="${id}" to an element`, 'high');
+      }
+    });
+
+    const projects = manifest.slots.find(slot => slot.id === 'projects');
+    if (projects && !projects.fields.some(field => field.id === 'title')) {
+      this.addIssue('Project items need a title: add data-slot-field="title" inside the data-slot="projects" element', 'high');
+    }
+
+    unknownSlots.forEach(id => {
+      this.addIssue(`Unknown slot "${id}" will be left as is`, 'low');
+    });
+  }
+
+  getResults() {
+    const results = super.getResults();
+    return {
+      ...results,
+      valid: !this.issues.some(issue => issue.severity === 'high')
+    };
+  }
+}
+
+module.exports = new SkeletonValidator();
@@ -15,6 +15,7 @@ import {
 import Index from "@/pages/Index";
 import Preview from "@/pages/Preview";
 import Deployment from "@/pages/Deployment";
+import Incomplete from "@/pages/Incomplete";
 import Dashboard from "@/pages/Dashboard";
 import NotFound from "@/pages/NotFound";
 import ProWaitlist from "@/pages/ProWaitlist";
@@ -132,6 +133,13 @@ function App() {
               </ProtectedRoute>
             } />
             
+            {/* Recovery for generations that stopped before finishing */}
+            <Route path="/incomplete" element={
+              <ProtectedRoute>
+                <Incomplete />
+              </ProtectedRoute>
+            } />
+            
             {/* Step 4: Preview */}
             <Route path="/preview" element={
               <ProtectedRoute>
@@ -0,0 +1,250 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Globe, Copy, RefreshCw, AlertTriangle, Lock, ExternalLink } from 'lucide-react';
+import {
+  CustomDomain,
+  CustomDomainStatus,
+  connectCustomDomain,
+  getCustomDomainStatus,
+  getStoredCredentials,
+} from '@/services/deployments';
+
+// DNS changes take minutes to hours to show up; the status is checked again this often while the page is open
+const STATUS_POLL_INTERVAL = 15000;
+// Checks that fail are retried with a doubling delay, up to this long
+const MAX_STATUS_POLL_INTERVAL = 5 * 60 * 1000;
+
+const STATUS_BADGES: Record<CustomDomainStatus, { label: string; className: string }> = {
+  pending_dns: { label: 'Waiting for DNS', className: 'bg-yellow-100 text-yellow-800' },
+  provisioning_ssl: { label: 'Issuing certificate', className: 'bg-blue-100 text-blue-800' },
+  active: { label: 'Live', className: 'bg-green-100 text-green-800' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-800' },
+};
+
+interface CustomDomainCardProps {
+  provider: string;
+  platform: string;
+  siteId: string;
+  userEmail: string;
+  // Custom domains are a Student and Pro feature
+  canUseCustomDomains: boolean;
+  connectedDomain?: string;
+  onConnected: (domain: string) => void;
+}
+
+const CustomDomainCard = ({
+  provider,
+  platform,
+  siteId,
+  userEmail,
+  canUseCustomDomains,
+  connectedDomain = '',
+  onConnected,
+}: CustomDomainCardProps) => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [domainInput, setDomainInput] = useState(connectedDomain);
+  const [customDomain, setCustomDomain] = useState<CustomDomain | null>(null);
+  const [isConnecting, setIsConnecting] = useState(false);
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [failedChecks, setFailedChecks] = useState(0);
+  const credentials = useMemo(() => getStoredCredentials(provider), [provider]);
+  const hasCredentials = Object.values(credentials).some(value => value);
+
+  const checkStatus = useCallback(async (domain: string) => {
+    setIsChecking(true);
+    try {
+      setCustomDomain(await getCustomDomainStatus({ provider, credentials, siteId, domain }));
+      setError(null);
+      setFailedChecks(0);
+    } catch (checkError) {
+      console.error('Failed to check custom domain:', checkError);
+      setError(checkError instanceof Error ? checkError.message : 'Could not check the domain');
+      setFailedChecks(count => count + 1);
+    } finally {
+      setIsChecking(false);
+    }
+  }, [provider, credentials, siteId]);
+
+  // A domain connected earlier picks up where it was
+  useEffect(() => {
+    if (connectedDomain && hasCredentials && canUseCustomDomains) {
+      checkStatus(connectedDomain);
+    }
+  }, [connectedDomain, hasCredentials, canUseCustomDomains, checkStatus]);
+
+  // Keep checking until the domain is live or the host gives up on it, also when the first check fails
+  const pollingDomain = customDomain?.domain || (hasCredentials && canUseCustomDomains ? connectedDomain : '');
+  useEffect(() => {
+    if (!pollingDomain || customDomain?.status === 'active' || customDomain?.status === 'failed') return;
+
+    const delay = Math.min(STATUS_POLL_INTERVAL * 2 ** failedChecks, MAX_STATUS_POLL_INTERVAL);
+    const timer = setTimeout(() => checkStatus(pollingDomain), delay);
+    return () => clearTimeout(timer);
+  }, [pollingDomain, customDomain, failedChecks, checkStatus]);
+
+  const handleConnect = async () => {
+    setIsConnecting(true);
+    setError(null);
+
+    try {
+      const connected = await connectCustomDomain({ provider, credentials, siteId, domain: domainInput.trim(), userEmail });
+      setCustomDomain(connected);
+      setFailedChecks(0);
+      onConnected(connected.domain);
+      toast({
+        title: "Domain Connected",
+        description: `Add the DNS records below at the company you bought ${connected.domain} from.`,
+      });
+    } catch (connectError) {
+      console.error('Failed to connect custom domain:', connectError);
+      setError(connectError instanceof Error ? connectError.message : 'Could not connect the domain');
+    } finally {
+      setIsConnecting(false);
+    }
+  };
+
+  const copyValue = async (value: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      toast({ title: "Copied", description: value });
+    } catch {
+      toast({ title: "Couldn't Copy", description: 'Select the value and copy it instead', variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl p-8 border border-[#06070A]/10 shadow-lg">
+      <div className="space-y-6">
+        <h2 className="text-2xl font-light text-[#06070A] flex items-center justify-center">
+          <Globe className="h-6 w-6 mr-3" />
+          Custom Domain
+        </h2>
+
+        {!canUseCustomDomains ? (
+          <div className="text-center space-y-4">
+            <p className="text-[#06070A]/70 font-light flex items-center justify-center">
+              <Lock className="h-4 w-4 mr-2" />
+              Serve your portfolio on your own domain with a Student or Pro plan.
+            </p>
+            <Button
+              onClick={() => navigate('/pro-waitlist')}
+              className="bg-[#06070A] hover:bg-[#06070A]/90 text-[#FFFEEA] font-light border-0"
+            >
+              Upgrade
+            </Button>
+          </div>
+        ) : !hasCredentials ? (
+          <p className="text-[#06070A]/70 font-light text-center">
+            Your {platform} credentials aren't saved on this device. Deploy from here once to manage the site's domain.
+          </p>
+        ) : (
+          <>
+            <div className="flex flex-col sm:flex-row gap-3">
+              <Input
+                value={domainInput}
+                onChange={(e) => setDomainInput(e.target.value)}
+                placeholder="www.yourname.com"
+                autoComplete="off"
+                disabled={isConnecting}
+                className="bg-white border-[#06070A]/20 font-light"
+              />
+              <Button
+                onClick={handleConnect}
+                disabled={isConnecting || !domainInput.trim() || domainInput.trim().toLowerCase() === customDomain?.domain}
+                className="bg-[#06070A] hover:bg-[#06070A]/90 text-[#FFFEEA] font-light border-0"
+              >
+                {isConnecting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Connect Domain
+              </Button>
+            </div>
+
+            {error && (
+              <p className="text-sm text-red-600 font-light flex items-center justify-center">
+                <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />
+                {error}
+              </p>
+            )}
+
+            {customDomain && (
+              <div className="space-y-4">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <p className="font-light text-[#06070A] truncate">{customDomain.domain}</p>
+                    <Badge className={`${STATUS_BADGES[customDomain.status].className} border-0 font-light`}>
+                      {STATUS_BADGES[customDomain.status].label}
+                    </Badge>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    {customDomain.status === 'active' && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => window.open(`https://${customDomain.domain}`, '_blank')}
+                        className="border-[#06070A]/20 text-[#06070A] hover:bg-[#06070A] hover:text-[#FFFEEA] font-light"
+                      >
+                        <ExternalLink className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => checkStatus(customDomain.domain)}
+                      disabled={isChecking}
+                      className="border-[#06070A]/20 text-[#06070A] hover:bg-[#06070A] hover:text-[#FFFEEA] font-light"
+                    >
+                      <RefreshCw className={`h-4 w-4 ${isChecking ? 'animate-spin' : ''}`} />
+                    </Button>
+                  </div>
+                </div>
+
+                {customDomain.error && customDomain.status !== 'active' && (
+                  <p className={`text-xs font-light ${customDomain.status === 'failed' ? 'text-red-600' : 'text-[#06070A]/60'}`}>
+                    {customDomain.error}
+                  </p>
+                )}
+
+                {customDomain.status !== 'active' && (
+                  <div className="space-y-2">
+                    <p className="text-sm text-[#06070A]/70 font-light">
+                      Add {customDomain.records.length === 1 ? 'this record' : 'these records'} at your DNS provider:
+                    </p>
+                    {customDomain.records.map(record => (
+                      <div
+                        key={`${record.type}-${record.name}-${record.value}`}
+                        className="grid grid-cols-[4rem_6rem_1fr_auto] items-center gap-3 p-3 bg-[#06070A]/5 rounded-lg border border-[#06070A]/10 text-sm font-light"
+                      >
+                        <span className="font-medium text-[#06070A]">{record.type}</span>
+                        <span className="text-[#06070A]/70 truncate">{record.name}</span>
+                        <code className="text-[#06070A] truncate">{record.value}</code>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => copyValue(record.value)}
+                          className="h-8 w-8 p-0"
+                        >
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            <p className="text-xs text-[#06070A]/50 font-light text-center">
+              DNS changes can take up to 48 hours. {platform} issues the HTTPS certificate once the domain points at your site.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CustomDomainCard;
@@ -0,0 +1,187 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { buildSitePages, type SitePages } from '@/lib/sitePages';
+import { Loader2, Rocket, Server } from 'lucide-react';
+import {
+  DEFAULT_PROVIDER,
+  DeployProvider,
+  DeployCredentials,
+  SiteDeployment,
+  listDeployProviders,
+  deploySite,
+  getStoredCredentials,
+  storeCredentials,
+} from '@/services/deployments';
+
+interface DeployTargetCardProps {
+  html: string;
+  pages: SitePages;
+  personName: string;
+  userEmail: string;
+  projectIds: string[];
+  portfolioId: string | null;
+  // Where the portfolio is live, if it was deployed before
+  liveProvider?: string;
+  liveSiteId?: string | null;
+  title: string;
+  onDeployed: (deployment: SiteDeployment) => void;
+}
+
+const DeployTargetCard = ({
+  html,
+  pages,
+  personName,
+  userEmail,
+  projectIds,
+  portfolioId,
+  liveProvider,
+  liveSiteId = null,
+  title,
+  onDeployed,
+}: DeployTargetCardProps) => {
+  const { toast } = useToast();
+  const [providers, setProviders] = useState<DeployProvider[]>([]);
+  const [providerId, setProviderId] = useState(liveProvider || DEFAULT_PROVIDER);
+  const [credentials, setCredentials] = useState<DeployCredentials>(() => getStoredCredentials(liveProvider || DEFAULT_PROVIDER));
+  const [isDeploying, setIsDeploying] = useState(false);
+
+  useEffect(() => {
+    listDeployProviders()
+      .then(setProviders)
+      .catch(error => console.error('Failed to load deployment providers:', error));
+  }, []);
+
+  const provider = providers.find(candidate => candidate.id === providerId);
+  const isLiveHere = !!liveSiteId && liveProvider === providerId;
+  const isComplete = !!provider && provider.credentialFields
+    .every(field => field.optional || (credentials[field.key] || '').trim());
+
+  const selectProvider = (id: string) => {
+    setProviderId(id);
+    setCredentials(getStoredCredentials(id));
+  };
+
+  const handleDeploy = async () => {
+    if (!provider) return;
+    setIsDeploying(true);
+
+    try {
+      const trimmed = Object.fromEntries(
+        Object.entries(credentials).map(([key, value]) => [key, value.trim()])
+      );
+      storeCredentials(provider.id, trimmed);
+
+      const deployment = await deploySite({
+        provider: provider.id,
+        credentials: trimmed,
+        htmlContent: html,
+        pages: buildSitePages(html, pages),
+        personName: personName || 'Portfolio',
+        userEmail,
+        projectIds,
+        siteId: isLiveHere ? liveSiteId : null,
+        portfolioId,
+      });
+
+      toast({
+        title: deployment.redeployed ? "Site Updated" : "Portfolio Deployed",
+        description: `Live on ${deployment.platform} at ${deployment.url}`,
+      });
+      onDeployed(deployment);
+    } catch (error) {
+      console.error('Deployment failed:', error);
+      toast({
+        title: "Deployment Failed",
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: "destructive",
+      });
+    } finally {
+      setIsDeploying(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl p-8 border border-[#06070A]/10 shadow-lg">
+      <div className="space-y-6">
+        <h2 className="text-2xl font-light text-[#06070A] flex items-center justify-center">
+          <Server className="h-6 w-6 mr-3" />
+          {title}
+        </h2>
+
+        {providers.length === 0 ? (
+          <div className="flex justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-[#06070A]/40" />
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              {providers.map(candidate => (
+                <button
+                  key={candidate.id}
+                  type="button"
+                  onClick={() => selectProvider(candidate.id)}
+                  disabled={isDeploying}
+                  className={cn(
+                    "p-4 rounded-lg border text-sm font-light transition-all duration-200",
+                    candidate.id === providerId
+                      ? "bg-[#06070A] text-[#FFFEEA] border-[#06070A]"
+                      : "bg-[#06070A]/5 text-[#06070A] border-[#06070A]/10 hover:bg-[#06070A]/10"
+                  )}
+                >
+                  {candidate.name}
+                </button>
+              ))}
+            </div>
+
+            {provider && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {provider.credentialFields.map(field => (
+                  <div key={field.key} className="space-y-2">
+                    <Label htmlFor={`deploy-${field.key}`} className="font-light text-[#06070A]">
+                      {field.label}
+                      {field.optional && <span className="text-[#06070A]/40"> (optional)</span>}
+                    </Label>
+                    <Input
+                      id={`deploy-${field.key}`}
+                      type={field.secret ? 'password' : 'text'}
+                      value={credentials[field.key] || ''}
+                      onChange={(e) => setCredentials(current => ({ ...current, [field.key]: e.target.value }))}
+                      placeholder={field.placeholder}
+                      autoComplete="off"
+                      className="bg-white border-[#06070A]/20 font-light"
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <p className="text-xs text-[#06070A]/50 font-light text-center">
+              Credentials are saved on this device only and sent to {provider?.name || 'the host'} when you deploy.
+            </p>
+
+            <div className="flex justify-center">
+              <Button
+                onClick={handleDeploy}
+                disabled={isDeploying || !isComplete}
+                className="bg-[#06070A] hover:bg-[#06070A]/90 text-[#FFFEEA] font-light border-0 px-8"
+              >
+                {isDeploying ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Rocket className="h-4 w-4 mr-2" />
+                )}
+                {isLiveHere ? 'Update Live Site' : `Deploy to ${provider?.name || 'Web'}`}
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DeployTargetCard;
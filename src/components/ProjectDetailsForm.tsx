@@ -1,13 +1,16 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
 import { useToast } from '@/hooks/use-toast';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { useUser } from '@clerk/clerk-react';
 import { API_BASE_URL } from '@/services/api';
-import { getSkeletonPreview, getAllSkeletonPreviews } from '../skeletons';
+import { postWithProgress, getGenerationError, GenerationProgressEvent } from '@/services/generationStream';
+import { getSkeletonPreview, getAllSkeletonPreviews, fillSkeleton, toSkeletonContent, SkeletonPreview } from '../skeletons';
+import { listCustomSkeletons, uploadCustomSkeleton, deleteCustomSkeleton, toSkeletonPreview } from '@/services/customSkeletons';
 import { 
   ArrowRight, 
   ArrowLeft, 
@@ -44,7 +47,8 @@ import {
   Upload,
   Type,
   Settings,
-  AlertTriangle
+  AlertTriangle,
+  Trash2
 } from 'lucide-react';
 
 interface PersonalInfo {
@@ -74,7 +78,8 @@ interface Project {
   processImages: File[];
   finalProductImage: File | null;
   imageMetadata?: {
-    processImages?: string[];
+    processImages?: Array<string | { url?: string }>;
+    finalImages?: Array<{ url?: string }>;
     finalImage?: string;
   };
 }
@@ -110,9 +115,14 @@ const ProjectDetailsForm = () => {
   const [portfolioName, setPortfolioName] = useState('');
   const [selectedProjectIds, setSelectedProjectIds] = useState<string[]>([]);
   const [selectedSkeleton, setSelectedSkeleton] = useState('none');
+  const [instantRender, setInstantRender] = useState(false);
+  const [multiPage, setMultiPage] = useState(false);
   const [customRequest, setCustomRequest] = useState('');
   const [moodboardImages, setMoodboardImages] = useState<File[]>([]);
   const [showSkeletonPreview, setShowSkeletonPreview] = useState<string | null>(null);
+  const [customSkeletons, setCustomSkeletons] = useState<SkeletonPreview[]>([]);
+  const [userTier, setUserTier] = useState<string | null>(null);
+  const [isUploadingSkeleton, setIsUploadingSkeleton] = useState(false);
   
   // Data from backend
   const [personalInfo, setPersonalInfo] = useState<PersonalInfo>({
@@ -138,6 +148,8 @@ const ProjectDetailsForm = () => {
   const [generationProgress, setGenerationProgress] = useState(0);
   const [isAutoCompleting, setIsAutoCompleting] = useState(false);
   const [autoCompleteAttempt, setAutoCompleteAttempt] = useState(0);
+  const [generationStage, setGenerationStage] = useState('');
+  const [partialPreviewHtml, setPartialPreviewHtml] = useState('');
 
   // Theme configuration
   const themeConfig = {
@@ -222,6 +234,14 @@ const ProjectDetailsForm = () => {
     }
   }, [isLoaded, isSignedIn, user, location.state]);
 
+  // Load the user's tier and uploaded skeletons (custom skeletons are a Pro feature)
+  useEffect(() => {
+    const userEmail = user?.primaryEmailAddress?.emailAddress;
+    if (isLoaded && isSignedIn && userEmail) {
+      loadCustomSkeletons(userEmail);
+    }
+  }, [isLoaded, isSignedIn, user]);
+
   // Check auth and redirect if needed
   useEffect(() => {
     if (isLoaded && !isSignedIn) {
@@ -373,6 +393,85 @@ const ProjectDetailsForm = () => {
     setSelectedSkeleton(skeletonId);
   };
 
+  const loadCustomSkeletons = async (userEmail: string) => {
+    try {
+      const [limitsResponse, skeletons] = await Promise.all([
+        fetch(`${import.meta.env.VITE_API_URL || API_BASE_URL}/api/check-user-limits?email=${encodeURIComponent(userEmail)}`),
+        listCustomSkeletons(userEmail)
+      ]);
+
+      if (limitsResponse.ok) {
+        const limitsResult = await limitsResponse.json();
+        if (limitsResult.success) {
+          setUserTier(limitsResult.data.tier);
+        }
+      }
+
+      setCustomSkeletons(skeletons.map(toSkeletonPreview));
+    } catch (error) {
+      console.warn('Could not load custom skeletons:', error);
+    }
+  };
+
+  const handleSkeletonUpload = async (files: FileList | null) => {
+    const file = files?.[0];
+    const userEmail = user?.primaryEmailAddress?.emailAddress;
+    if (!file || !userEmail) return;
+
+    if (!/\.html?$/i.test(file.name)) {
+      toast({
+        title: "Invalid File Type",
+        description: `${file.name} is not an HTML file`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsUploadingSkeleton(true);
+    try {
+      const skeleton = await uploadCustomSkeleton(userEmail, {
+        name: file.name.replace(/\.html?$/i, '').replace(/[-_]+/g, ' ').trim() || 'Custom Skeleton',
+        html: await file.text()
+      });
+      const preview = toSkeletonPreview(skeleton);
+
+      setCustomSkeletons(prev => [preview, ...prev]);
+      setSelectedSkeleton(preview.id);
+
+      toast({
+        title: "Skeleton Uploaded",
+        description: `${preview.name} passed validation and is ready to use`,
+      });
+    } catch (error) {
+      toast({
+        title: "Skeleton Rejected",
+        description: error instanceof Error ? error.message : 'Failed to upload skeleton',
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploadingSkeleton(false);
+    }
+  };
+
+  const handleSkeletonDelete = async (skeletonId: string) => {
+    const userEmail = user?.primaryEmailAddress?.emailAddress;
+    if (!userEmail) return;
+
+    try {
+      await deleteCustomSkeleton(userEmail, skeletonId);
+      setCustomSkeletons(prev => prev.filter(skeleton => skeleton.id !== skeletonId));
+      if (selectedSkeleton === skeletonId) {
+        setSelectedSkeleton('none');
+      }
+    } catch (error) {
+      toast({
+        title: "Delete Failed",
+        description: error instanceof Error ? error.message : 'Failed to delete skeleton',
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleMoodboardUpload = (files: FileList | null) => {
     if (files) {
       const validFiles = Array.from(files).filter((file: File) => {
@@ -407,16 +506,58 @@ const ProjectDetailsForm = () => {
     setMoodboardImages(prev => prev.filter((_, i) => i !== imageIndex));
   };
 
+  // Live progress from the generation stream
+  const generationStreamHandlers = {
+    onProgress: ({ percent, message }: GenerationProgressEvent) => {
+      setGenerationProgress(percent);
+      setGenerationStage(message);
+    },
+    onPartialHtml: setPartialPreviewHtml,
+  };
+
+  // Hand unfinished output to the /incomplete recovery page instead of dropping it
+  const openRecoveryPage = (partialHtml: string, attempts: number, error: string, completionStatus?: unknown) => {
+    toast({
+      title: "Generation Partially Complete",
+      description: "Some sections may be incomplete. You can review and continue manually.",
+      variant: "destructive",
+    });
+
+    const selectedProjects = availableProjects.filter(project => 
+      selectedProjectIds.includes(project.id!)
+    );
+
+    const portfolioData = {
+      personalInfo: personalInfo,
+      projects: selectedProjects,
+      moodboardImages: moodboardImages,
+      stylePreferences: {
+        colorScheme: '',
+        layoutStyle: '',
+        typography: '',
+        mood: ''
+      },
+      selectedSkeleton: selectedSkeleton,
+      customDesignRequest: customRequest
+    };
+
+    navigate('/incomplete', {
+      state: {
+        portfolioData,
+        partialHtml: partialHtml,
+        completionStatus: completionStatus || { estimatedCompletion: 75, issues: ['Auto-completion failed'], canContinue: true },
+        metadata: { autoAttempts: attempts },
+        error
+      }
+    });
+  };
+
   // AUTO-CONTINUE generation function
-  const autoContinueGeneration = async (partialHtml: string, attempt: number = 1) => {
+  const autoContinueGeneration = async (partialHtml: string, attempt: number = 1, completionStatus?: unknown) => {
     const maxAttempts = 2;
     
     if (attempt > maxAttempts) {
-      toast({
-        title: "Generation Failed",
-        description: "Unable to complete generation after multiple attempts. Please try again.",
-        variant: "destructive",
-      });
+      openRecoveryPage(partialHtml, maxAttempts, 'Generation still incomplete after multiple attempts', completionStatus);
       setIsGenerating(false);
       setIsAutoCompleting(false);
       return;
@@ -427,7 +568,8 @@ const ProjectDetailsForm = () => {
     setAutoCompleteAttempt(attempt);
 
     try {
-      setGenerationProgress(70);
+      setGenerationProgress(0);
+      setGenerationStage('Completing unfinished sections');
       
       const formData = new FormData();
       const selectedProjects = availableProjects.filter(project => 
@@ -456,6 +598,7 @@ const ProjectDetailsForm = () => {
         },
         selectedSkeleton: selectedSkeleton || 'none',
         customDesignRequest: customRequest || '',
+        siteMode: multiPage ? 'multi-page' : 'single-page',
         portfolioName: portfolioName,
         enhancedOptions: {
           useClaudeVision: true,
@@ -483,23 +626,16 @@ const ProjectDetailsForm = () => {
         formData.append(`moodboard_${index}`, image);
       });
 
-      setGenerationProgress(85);
-
-      const response = await fetch(`${import.meta.env.VITE_API_URL || API_BASE_URL}/api/generate-portfolio`, {
-        method: 'POST',
-        body: formData,
-      });
-
-      setGenerationProgress(95);
+      const { ok, status, data: result } = await postWithProgress(
+        `${import.meta.env.VITE_API_URL || API_BASE_URL}/api/generate-portfolio`,
+        formData,
+        generationStreamHandlers
+      );
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.details || errorData.error || `HTTP error! status: ${response.status}`);
+      if (!ok) {
+        throw new Error(result.details || getGenerationError(result) || `HTTP error! status: ${status}`);
       }
 
-      const result = await response.json();
-      setGenerationProgress(100);
-
       if (result.incomplete) {
         console.log(`Generation still incomplete after attempt ${attempt}, trying again...`);
         
@@ -509,7 +645,7 @@ const ProjectDetailsForm = () => {
         });
 
         setTimeout(() => {
-          autoContinueGeneration(result.partialHtml, attempt + 1);
+          autoContinueGeneration(result.partialHtml, attempt + 1, result.completionStatus);
         }, 1000);
         return;
       }
@@ -533,49 +669,17 @@ const ProjectDetailsForm = () => {
           }
         });
       } else {
-        throw new Error(result.error || 'Failed to complete portfolio generation');
+        throw new Error(getGenerationError(result) || 'Failed to complete portfolio generation');
       }
 
     } catch (error) {
       console.error('Auto-continuation failed:', error);
       
       if (attempt >= maxAttempts) {
-        toast({
-          title: "Generation Partially Complete",
-          description: "Some sections may be incomplete. You can review and continue manually.",
-          variant: "destructive",
-        });
-
-        const selectedProjects = availableProjects.filter(project => 
-          selectedProjectIds.includes(project.id!)
-        );
-
-        const portfolioData = {
-          personalInfo: personalInfo,
-          projects: selectedProjects,
-          moodboardImages: moodboardImages,
-          stylePreferences: {
-            colorScheme: '',
-            layoutStyle: '',
-            typography: '',
-            mood: ''
-          },
-          selectedSkeleton: selectedSkeleton,
-          customDesignRequest: customRequest
-        };
-
-        navigate('/incomplete', {
-          state: {
-            portfolioData,
-            partialHtml: partialHtml,
-            completionStatus: { estimatedCompletion: 75, issues: ['Auto-completion failed'], canContinue: true },
-            metadata: { autoAttempts: attempt },
-            error: 'Auto-completion failed after multiple attempts'
-          }
-        });
+        openRecoveryPage(partialHtml, attempt, 'Auto-completion failed after multiple attempts', completionStatus);
       } else {
         setTimeout(() => {
-          autoContinueGeneration(partialHtml, attempt + 1);
+          autoContinueGeneration(partialHtml, attempt + 1, completionStatus);
         }, 2000);
       }
     } finally {
@@ -584,6 +688,8 @@ const ProjectDetailsForm = () => {
         setIsAutoCompleting(false);
         setAutoCompleteAttempt(0);
         setGenerationProgress(0);
+        setGenerationStage('');
+        setPartialPreviewHtml('');
       }
     }
   };
@@ -635,21 +741,12 @@ const ProjectDetailsForm = () => {
   
     setIsGenerating(true);
     setGenerationProgress(0);
+    setGenerationStage('Starting generation');
+    setPartialPreviewHtml('');
     setIsAutoCompleting(false);
     setAutoCompleteAttempt(0);
   
     try {
-      // Progress simulation for initial generation
-      const progressInterval = setInterval(() => {
-        setGenerationProgress(prev => {
-          if (prev >= 60) {
-            clearInterval(progressInterval);
-            return 60;
-          }
-          return prev + Math.random() * 15;
-        });
-      }, 500);
-  
       // Prepare form data for initial generation
       const formData = new FormData();
       
@@ -675,6 +772,10 @@ const ProjectDetailsForm = () => {
         },
         selectedSkeleton: selectedSkeleton || 'none',
         customDesignRequest: customRequest || '',
+        // Instant: fill the skeleton with this data as-is, without AI styling
+        renderMode: instantRender && selectedSkeleton !== 'none' ? 'instant' : 'ai',
+        // Multi-page: a home page plus a case study page per project
+        siteMode: multiPage ? 'multi-page' : 'single-page',
         portfolioName: portfolioName,
         enhancedOptions: {
           useClaudeVision: true,
@@ -701,16 +802,14 @@ const ProjectDetailsForm = () => {
       });
   
       console.log('Starting initial generation...');
-      const response = await fetch(`${import.meta.env.VITE_API_URL || API_BASE_URL}/api/generate-portfolio`, {
-        method: 'POST',
-        body: formData,
-      });
-  
-      clearInterval(progressInterval);
-      setGenerationProgress(65);
+      const { ok, status, data: result } = await postWithProgress(
+        `${import.meta.env.VITE_API_URL || API_BASE_URL}/api/generate-portfolio`,
+        formData,
+        generationStreamHandlers
+      );
   
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
+      if (!ok) {
+        const errorData = result;
         
         // Handle specific error types
         let userFriendlyMessage = '';
@@ -730,7 +829,7 @@ const ProjectDetailsForm = () => {
       
       The issue is on our server side and we're working on a permanent fix.`;
           }
-        } else if (errorData.error && errorData.error.error) {
+        } else if (typeof errorData.error === 'object' && errorData.error.error) {
           // Handle nested error objects (like from Claude API)
           if (errorData.error.error.message && 
               errorData.error.error.message.includes('Image does not match')) {
@@ -747,13 +846,11 @@ const ProjectDetailsForm = () => {
         }
         
         if (!userFriendlyMessage) {
-          userFriendlyMessage = errorData.details || errorData.error || `Server error (${response.status}). Please try again.`;
+          userFriendlyMessage = errorData.details || getGenerationError(errorData) || `Server error (${status}). Please try again.`;
         }
         
         throw new Error(userFriendlyMessage);
       }
-  
-      const result = await response.json();
 
       // AUTO-CONTINUE logic: If incomplete, automatically try to continue
       if (result.incomplete) {
@@ -764,7 +861,7 @@ const ProjectDetailsForm = () => {
           description: "Portfolio needs finishing touches. Continuing automatically...",
         });
 
-        await autoContinueGeneration(result.partialHtml, 1);
+        await autoContinueGeneration(result.partialHtml, 1, result.completionStatus);
         return;
       }
 
@@ -800,7 +897,7 @@ const ProjectDetailsForm = () => {
           }
         });
       } else {
-        throw new Error(result.error || 'Failed to generate portfolio');
+        throw new Error(getGenerationError(result) || 'Failed to generate portfolio');
       }
   
     } catch (error) {
@@ -823,6 +920,8 @@ const ProjectDetailsForm = () => {
       if (!isAutoCompleting) {
         setIsGenerating(false);
         setGenerationProgress(0);
+        setGenerationStage('');
+        setPartialPreviewHtml('');
       }
     }
   };
@@ -837,7 +936,8 @@ const ProjectDetailsForm = () => {
       color: 'from-purple-500 to-pink-500',
       html: null
     },
-    ...getAllSkeletonPreviews()
+    ...getAllSkeletonPreviews(),
+    ...customSkeletons
   ];
 
   // Loading screen
@@ -1238,9 +1338,9 @@ const ProjectDetailsForm = () => {
         
                       {/* Preview Button */}
                       {skeleton.id !== 'none' && (
-                        <div className="px-6 pb-6">
+                        <div className="px-6 pb-6 flex gap-2">
                           <button
-                            className={`w-full py-2 px-3 text-sm rounded-lg border transition-all duration-200 hover:scale-105 ${
+                            className={`flex-1 py-2 px-3 text-sm rounded-lg border transition-all duration-200 hover:scale-105 ${
                               selectedSkeleton === skeleton.id
                                 ? theme === 'light'
                                   ? 'border-[#FFFEEA]/30 text-[#FFFEEA] hover:bg-[#FFFEEA]/10'
@@ -1259,11 +1359,68 @@ const ProjectDetailsForm = () => {
                               Live Preview
                             </div>
                           </button>
+                          {customSkeletons.some(custom => custom.id === skeleton.id) && (
+                            <button
+                              className={`py-2 px-3 text-sm rounded-lg border transition-all duration-200 hover:scale-105 ${
+                                selectedSkeleton === skeleton.id
+                                  ? theme === 'light'
+                                    ? 'border-[#FFFEEA]/30 text-[#FFFEEA] hover:bg-[#FFFEEA]/10'
+                                    : 'border-[#06070A]/30 text-[#06070A] hover:bg-[#06070A]/10'
+                                  : theme === 'light'
+                                  ? 'border-[#06070A]/20 text-[#06070A] hover:bg-[#06070A]/5'
+                                  : 'border-[#FFFEEA]/20 text-[#FFFEEA] hover:bg-[#FFFEEA]/5'
+                              }`}
+                              title="Delete skeleton"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleSkeletonDelete(skeleton.id);
+                              }}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          )}
                         </div>
                       )}
                     </div>
                   </div>
                 ))}
+
+                {/* Upload your own skeleton (Pro) */}
+                <label
+                  className={`relative flex-shrink-0 w-[320px] rounded-xl border-2 border-dashed transition-all duration-300 flex flex-col items-center justify-center text-center p-6 ${
+                    userTier === 'Pro' ? 'cursor-pointer' : 'cursor-not-allowed opacity-70'
+                  } ${
+                    theme === 'light'
+                      ? 'border-[#06070A]/20 hover:border-[#06070A]/40'
+                      : 'border-[#FFFEEA]/20 hover:border-[#FFFEEA]/40'
+                  }`}
+                >
+                  <input
+                    type="file"
+                    accept=".html,.htm,text/html"
+                    className="hidden"
+                    disabled={userTier !== 'Pro' || isUploadingSkeleton}
+                    onChange={(e) => {
+                      handleSkeletonUpload(e.target.files);
+                      e.target.value = '';
+                    }}
+                  />
+                  {isUploadingSkeleton ? (
+                    <Loader2 className={`h-8 w-8 mb-3 animate-spin ${currentTheme.text}`} />
+                  ) : userTier === 'Pro' ? (
+                    <Upload className={`h-8 w-8 mb-3 ${currentTheme.text}`} />
+                  ) : (
+                    <Crown className={`h-8 w-8 mb-3 ${currentTheme.text}`} />
+                  )}
+                  <h4 className={`font-medium text-lg mb-2 ${currentTheme.text}`}>
+                    {isUploadingSkeleton ? 'Validating skeleton...' : 'Upload your own skeleton'}
+                  </h4>
+                  <p className={`text-sm leading-relaxed ${currentTheme.textSecondary}`}>
+                    {userTier === 'Pro'
+                      ? 'A self-contained HTML file with data-slot="name", "email" and "projects" marked. No external scripts.'
+                      : 'Upgrade to Pro to build portfolios from your own HTML skeletons.'}
+                  </p>
+                </label>
               </div>
             </div>
         
@@ -1439,6 +1596,36 @@ const ProjectDetailsForm = () => {
                     </span>
                   </div>
                 </div>
+
+                {selectedSkeleton !== 'none' && (
+                  <label className={`flex items-start gap-3 mt-4 pt-4 border-t ${currentTheme.border} text-left cursor-pointer`}>
+                    <Checkbox
+                      checked={instantRender}
+                      onCheckedChange={(checked) => setInstantRender(checked === true)}
+                      className="mt-0.5"
+                    />
+                    <span>
+                      <span className={`block font-light text-sm ${currentTheme.text}`}>Instant portfolio</span>
+                      <span className={`block font-light text-xs ${currentTheme.textSecondary}`}>
+                        Drop your details into the {skeletonOptions.find(s => s.id === selectedSkeleton)?.name} layout as-is. Skips AI styling, so your mood images and style request are not used.
+                      </span>
+                    </span>
+                  </label>
+                )}
+
+                <label className={`flex items-start gap-3 mt-4 pt-4 border-t ${currentTheme.border} text-left cursor-pointer`}>
+                  <Checkbox
+                    checked={multiPage}
+                    onCheckedChange={(checked) => setMultiPage(checked === true)}
+                    className="mt-0.5"
+                  />
+                  <span>
+                    <span className={`block font-light text-sm ${currentTheme.text}`}>Case study pages</span>
+                    <span className={`block font-light text-xs ${currentTheme.textSecondary}`}>
+                      Give every project its own page with its problem, solution, reflection and process images, linked from your home page.
+                    </span>
+                  </span>
+                </label>
               </div>
               
               {/* Error Display */}
@@ -1479,21 +1666,18 @@ const ProjectDetailsForm = () => {
                     />
                   </div>
                   <div className={`text-xs text-center ${currentTheme.textSecondary}`}>
-                    {!isAutoCompleting ? (
-                      <>
-                        {generationProgress < 30 && "Analyzing your projects and style..."}
-                        {generationProgress >= 30 && generationProgress < 60 && "Designing your unique layout..."}
-                        {generationProgress >= 60 && generationProgress < 90 && "Generating content and styling..."}
-                        {generationProgress >= 90 && "Adding final touches..."}
-                      </>
-                    ) : (
-                      <>
-                        {generationProgress < 80 && "Completing unfinished sections..."}
-                        {generationProgress >= 80 && generationProgress < 95 && "Adding final touches..."}
-                        {generationProgress >= 95 && "Almost done..."}
-                      </>
-                    )}
+                    {generationStage ? `${generationStage}...` : "Connecting to Prism..."}
                   </div>
+                  {partialPreviewHtml && (
+                    <div className={`rounded-lg border ${currentTheme.border} overflow-hidden h-48 bg-white`}>
+                      <iframe
+                        srcDoc={partialPreviewHtml}
+                        className="w-[200%] h-[200%] border-0 origin-top-left scale-50 pointer-events-none"
+                        title="Portfolio preview"
+                        sandbox=""
+                      />
+                    </div>
+                  )}
                   {isAutoCompleting && (
                     <div className={`flex items-center justify-center mt-3 text-xs ${theme === 'light' ? 'text-[#06070A]' : 'text-[#FFFEEA]'}`}>
                       <RefreshCw className="h-3 w-3 mr-1 animate-spin" />
@@ -1587,17 +1771,32 @@ const ProjectDetailsForm = () => {
 
   // Skeleton Preview Modal
   const SkeletonPreviewModal = ({ skeletonId, onClose }: { skeletonId: string; onClose: () => void }) => {
-    const skeletonPreview = getSkeletonPreview(skeletonId);
+    const skeletonPreview = getSkeletonPreview(skeletonId) || customSkeletons.find(skeleton => skeleton.id === skeletonId) || null;
     const [iframeSrc, setIframeSrc] = useState<string>('');
+    const hasOwnContent = !!personalInfo.name && selectedProjectIds.length > 0;
+    const [showOwnContent, setShowOwnContent] = useState(hasOwnContent);
+
+    // Fill the skeleton's slots with the user's details and selected projects
+    const previewHtml = useMemo(() => {
+      if (!skeletonPreview || !showOwnContent) return skeletonPreview?.html || '';
+
+      const projects = availableProjects.filter(project => selectedProjectIds.includes(project.id!));
+      try {
+        return fillSkeleton(skeletonPreview.html, skeletonPreview.manifest, toSkeletonContent({ personalInfo, projects })).html;
+      } catch (error) {
+        console.error('Failed to fill skeleton preview:', error);
+        return skeletonPreview.html;
+      }
+    }, [skeletonPreview, showOwnContent]);
 
     useEffect(() => {
-      if (skeletonPreview) {
-        const htmlBlob = new Blob([skeletonPreview.html], { type: 'text/html' });
+      if (previewHtml) {
+        const htmlBlob = new Blob([previewHtml], { type: 'text/html' });
         const blobUrl = URL.createObjectURL(htmlBlob);
         setIframeSrc(blobUrl);
         return () => URL.revokeObjectURL(blobUrl);
       }
-    }, [skeletonId]);
+    }, [previewHtml]);
 
     if (!skeletonPreview || !iframeSrc) {
       return (
@@ -1622,14 +1821,36 @@ const ProjectDetailsForm = () => {
                 {skeletonPreview.description}
               </p>
             </div>
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={onClose}
-              className={currentTheme.hover}
-            >
-              <X className="h-4 w-4" />
-            </Button>
+            <div className="flex items-center gap-3">
+              {hasOwnContent && (
+                <div className={`inline-flex rounded-full border p-0.5 ${currentTheme.border}`}>
+                  {[
+                    { own: true, label: 'Your content' },
+                    { own: false, label: 'Sample' },
+                  ].map(option => (
+                    <button
+                      key={option.label}
+                      onClick={() => setShowOwnContent(option.own)}
+                      className={`px-3 py-1 rounded-full text-xs font-light transition-colors ${
+                        showOwnContent === option.own
+                          ? `${currentTheme.primary} ${currentTheme.primaryText}`
+                          : currentTheme.textSecondary
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onClose}
+                className={currentTheme.hover}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
           </div>
 
           <div className="h-[calc(95vh-120px)] w-full">
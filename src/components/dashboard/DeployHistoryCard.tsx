@@ -0,0 +1,144 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, History, RotateCcw, ExternalLink, Clock, AlertTriangle } from 'lucide-react';
+import { getDeployHistory, rollbackToDeploy, getStoredNetlifyToken, DeployHistory } from '@/services/deployments';
+
+interface DeployHistoryCardProps {
+  siteId: string;
+}
+
+const DeployHistoryCard = ({ siteId }: DeployHistoryCardProps) => {
+  const { toast } = useToast();
+  const [history, setHistory] = useState<DeployHistory | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const netlifyToken = getStoredNetlifyToken();
+
+  const loadHistory = useCallback(async () => {
+    if (!netlifyToken) return;
+
+    try {
+      setHistory(await getDeployHistory(siteId, netlifyToken));
+      setError(null);
+    } catch (loadError) {
+      console.error('Failed to load deploy history:', loadError);
+      setError(loadError instanceof Error ? loadError.message : 'Could not load deploy history');
+    }
+  }, [siteId, netlifyToken]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const handleRollback = async (deployId: string) => {
+    if (!netlifyToken) return;
+    if (!window.confirm('Publish this earlier version of your portfolio? Visitors will see it right away.')) return;
+    setRestoringId(deployId);
+
+    try {
+      await rollbackToDeploy(siteId, deployId, netlifyToken);
+      await loadHistory();
+      toast({
+        title: "Rolled Back",
+        description: 'The earlier version of your portfolio is live again.',
+      });
+    } catch (rollbackError) {
+      console.error('Failed to roll back:', rollbackError);
+      toast({
+        title: "Couldn't Roll Back",
+        description: rollbackError instanceof Error ? rollbackError.message : 'Please try again',
+        variant: "destructive",
+      });
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (!netlifyToken) return null;
+
+  return (
+    <div className="bg-white rounded-xl p-8 border border-[#06070A]/10 shadow-lg">
+      <div className="space-y-6">
+        <h2 className="text-2xl font-light text-[#06070A] flex items-center justify-center">
+          <History className="h-6 w-6 mr-3" />
+          Deploy History
+        </h2>
+
+        {error && (
+          <p className="text-sm text-red-600 font-light flex items-center justify-center">
+            <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />
+            {error}
+          </p>
+        )}
+
+        {!history && !error && (
+          <div className="flex justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-[#06070A]/40" />
+          </div>
+        )}
+
+        {history && (
+          <div className="space-y-3">
+            {history.deploys.map(deploy => (
+              <div key={deploy.id} className="flex items-center justify-between gap-4 p-4 bg-[#06070A]/5 rounded-lg border border-[#06070A]/10">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm font-light text-[#06070A] flex items-center">
+                      <Clock className="h-3 w-3 mr-1" />
+                      {new Date(deploy.createdAt).toLocaleString()}
+                    </p>
+                    {deploy.isLive && (
+                      <Badge className="bg-green-100 text-green-800 border-0 font-light">Live</Badge>
+                    )}
+                    {deploy.state !== 'ready' && (
+                      <Badge className="bg-yellow-100 text-yellow-800 border-0 font-light capitalize">{deploy.state}</Badge>
+                    )}
+                  </div>
+                  {deploy.errorMessage && (
+                    <p className="text-xs text-red-600 font-light mt-1">{deploy.errorMessage}</p>
+                  )}
+                </div>
+
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  {deploy.deployUrl && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => window.open(deploy.deployUrl, '_blank')}
+                      className="border-[#06070A]/20 text-[#06070A] hover:bg-[#06070A] hover:text-[#FFFEEA] font-light"
+                    >
+                      <ExternalLink className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {!deploy.isLive && deploy.state === 'ready' && (
+                    <Button
+                      size="sm"
+                      onClick={() => handleRollback(deploy.id)}
+                      disabled={restoringId !== null}
+                      className="bg-[#06070A] hover:bg-[#06070A]/90 text-[#FFFEEA] font-light border-0"
+                    >
+                      {restoringId === deploy.id ? (
+                        <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                      ) : (
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                      )}
+                      Roll Back
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <p className="text-xs text-[#06070A]/50 font-light text-center">
+          Every update goes to {history?.url || 'the same address'}. Roll back to publish an earlier version again.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default DeployHistoryCard;
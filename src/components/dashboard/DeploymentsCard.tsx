@@ -0,0 +1,263 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, ExternalLink, Rocket, PowerOff, Clock, Globe, AlertTriangle } from 'lucide-react';
+import {
+  DEFAULT_PROVIDER,
+  TrackedSite,
+  SiteStatus,
+  listDeployments,
+  getSiteStatus,
+  takeSiteOffline,
+  getStoredNetlifyToken,
+  getLiveSite,
+} from '@/services/deployments';
+
+interface DeploymentsCardProps {
+  email: string;
+  // Shown on the favicon and in the page titles of redeployed sites
+  name: string;
+}
+
+// Netlify deploy states that are still on their way to being published
+const BUILDING_STATES = ['new', 'enqueued', 'preparing', 'prepared', 'uploading', 'uploaded', 'processing', 'processed', 'building'];
+
+const statusBadge = (site: TrackedSite, status: SiteStatus | 'unavailable' | undefined) => {
+  if (site.takenOfflineAt) return { label: 'Offline', className: 'bg-[#06070A]/10 text-[#06070A]' };
+  if (status === 'unavailable') return { label: 'Not Found', className: 'bg-red-100 text-red-800' };
+  if (!status) return null;
+  if (status.state === 'error') return { label: 'Failed', className: 'bg-red-100 text-red-800' };
+  if (BUILDING_STATES.includes(status.state)) return { label: 'Deploying', className: 'bg-blue-100 text-blue-800' };
+  if (status.state === 'ready' && status.isLive) return { label: 'Live', className: 'bg-green-100 text-green-800' };
+  return { label: status.state, className: 'bg-yellow-100 text-yellow-800' };
+};
+
+const DeploymentsCard = ({ email, name }: DeploymentsCardProps) => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [sites, setSites] = useState<TrackedSite[] | null>(null);
+  const [statuses, setStatuses] = useState<Record<string, SiteStatus | 'unavailable'>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+  const [loadingId, setLoadingId] = useState<string | null>(null);
+  const netlifyToken = getStoredNetlifyToken();
+
+  const loadSites = useCallback(async () => {
+    try {
+      setSites(await listDeployments(email));
+      setError(null);
+    } catch (loadError) {
+      console.error('Failed to load deployments:', loadError);
+      setError(loadError instanceof Error ? loadError.message : 'Could not load your deployments');
+    }
+  }, [email]);
+
+  useEffect(() => {
+    loadSites();
+  }, [loadSites]);
+
+  // Deploy status comes from Netlify, with the token saved when deploying from this device
+  useEffect(() => {
+    if (!sites || !netlifyToken) return;
+
+    sites
+      .filter(site => site.siteId && site.provider === DEFAULT_PROVIDER && !site.takenOfflineAt)
+      .forEach(async site => {
+        try {
+          const status = await getSiteStatus(site.siteId!, site.deployId, netlifyToken);
+          setStatuses(current => ({ ...current, [site.siteId!]: status }));
+        } catch (statusError) {
+          console.error(`Failed to check status of ${site.siteId}:`, statusError);
+          setStatuses(current => ({ ...current, [site.siteId!]: 'unavailable' }));
+        }
+      });
+  }, [sites, netlifyToken]);
+
+  // Redeploying opens what the site shows now, so changes made in Preview go out to the same site
+  const handleRedeploy = async (site: TrackedSite) => {
+    if (!site.siteId) return;
+    setLoadingId(site.siteId);
+
+    try {
+      const liveSite = await getLiveSite(site.siteId, site.provider, email);
+      navigate('/preview', {
+        state: {
+          portfolioData: {
+            personalInfo: { name, email },
+            projects: site.projectIds.map(id => ({ id })),
+          },
+          generatedPortfolio: {
+            html: liveSite.html,
+            pages: liveSite.pages,
+          },
+          metadata: {
+            generatedAt: site.lastDeployedAt,
+            title: site.siteName || name,
+            siteId: site.siteId,
+            provider: site.provider,
+            portfolioId: site.portfolioId,
+            customDomain: site.customDomain,
+          },
+        }
+      });
+    } catch (loadError) {
+      console.error('Failed to load live site:', loadError);
+      toast({
+        title: "Couldn't Open Site",
+        description: loadError instanceof Error ? loadError.message : 'Please try again',
+        variant: "destructive",
+      });
+      setLoadingId(null);
+    }
+  };
+
+  const handleTakeOffline = async (site: TrackedSite) => {
+    if (!netlifyToken || !site.siteId) return;
+    if (!window.confirm(`Take ${site.url} offline? The site is deleted on Netlify and its URL stops working.`)) return;
+    setRemovingId(site.siteId);
+
+    try {
+      await takeSiteOffline(site.siteId, email, netlifyToken);
+      await loadSites();
+      toast({
+        title: "Site Taken Offline",
+        description: `${site.siteName || site.url} is no longer online.`,
+      });
+    } catch (removeError) {
+      console.error('Failed to take site offline:', removeError);
+      toast({
+        title: "Couldn't Take Site Offline",
+        description: removeError instanceof Error ? removeError.message : 'Please try again',
+        variant: "destructive",
+      });
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  return (
+    <Card className="shadow-sm border border-[#06070A]/10 mb-8 bg-[#FFFEEA]">
+      <CardContent className="p-6 space-y-4">
+        {error && (
+          <p className="text-sm text-red-600 font-light flex items-center justify-center">
+            <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />
+            {error}
+          </p>
+        )}
+
+        {!sites && !error && (
+          <div className="flex justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-[#06070A]/40" />
+          </div>
+        )}
+
+        {sites?.length === 0 && (
+          <p className="text-center text-[#06070A]/60 font-light py-6">
+            Portfolios you deploy show up here.
+          </p>
+        )}
+
+        {sites && sites.length > 0 && (
+          <div className="space-y-3">
+            {sites.map(site => {
+              const isNetlify = site.provider === DEFAULT_PROVIDER;
+              const status = site.siteId ? statuses[site.siteId] : undefined;
+              const badge = statusBadge(site, status);
+              const liveUrl = site.customDomain ? `https://${site.customDomain}` : site.url;
+
+              return (
+                <div key={site.siteId || site.url} className="bg-white rounded-lg border border-[#06070A]/10 p-4 space-y-3">
+                  <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <p className="font-light text-[#06070A] truncate">{liveUrl.replace(/^https?:\/\//, '')}</p>
+                        {badge ? (
+                          <Badge className={`${badge.className} border-0 font-light capitalize`}>{badge.label}</Badge>
+                        ) : isNetlify && netlifyToken && (
+                          <Loader2 className="h-4 w-4 animate-spin text-[#06070A]/40" />
+                        )}
+                      </div>
+                      <p className="text-xs text-[#06070A]/50 font-light flex items-center">
+                        <Clock className="h-3 w-3 mr-1" />
+                        {site.takenOfflineAt
+                          ? `Taken offline ${new Date(site.takenOfflineAt).toLocaleString()}`
+                          : `Deployed ${site.lastDeployedAt ? new Date(site.lastDeployedAt).toLocaleString() : 'recently'}`}
+                        {` • ${site.platform}`}
+                      </p>
+                      <p className="text-xs text-[#06070A]/50 font-light truncate">
+                        Portfolio {site.portfolioId || 'unknown'}
+                        {site.projectIds.length > 0 && ` • Projects ${site.projectIds.join(', ')}`}
+                      </p>
+                      {status && status !== 'unavailable' && status.errorMessage && (
+                        <p className="text-xs text-red-600 font-light">{status.errorMessage}</p>
+                      )}
+                    </div>
+
+                    {!site.takenOfflineAt && (
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => window.open(liveUrl, '_blank')}
+                          className="border-[#06070A]/20 text-[#06070A] hover:bg-[#06070A] hover:text-[#FFFEEA] font-light"
+                        >
+                          <ExternalLink className="h-4 w-4 mr-1" />
+                          Open
+                        </Button>
+                        <Button
+                          size="sm"
+                          onClick={() => handleRedeploy(site)}
+                          disabled={!site.siteId || loadingId !== null}
+                          className="bg-[#06070A] hover:bg-[#06070A]/90 text-[#FFFEEA] font-light border-0"
+                        >
+                          {loadingId === site.siteId ? (
+                            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                          ) : (
+                            <Rocket className="h-4 w-4 mr-1" />
+                          )}
+                          Redeploy
+                        </Button>
+                        {isNetlify ? (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleTakeOffline(site)}
+                            disabled={!netlifyToken || removingId !== null}
+                            className="border-red-200 text-red-600 hover:bg-red-600 hover:text-white font-light"
+                          >
+                            {removingId === site.siteId ? (
+                              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                            ) : (
+                              <PowerOff className="h-4 w-4 mr-1" />
+                            )}
+                            Take Offline
+                          </Button>
+                        ) : (
+                          <span className="text-xs text-[#06070A]/50 font-light flex items-center">
+                            <Globe className="h-3 w-3 mr-1" />
+                            Managed on {site.platform}
+                          </span>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {sites && sites.some(site => site.provider === DEFAULT_PROVIDER) && !netlifyToken && (
+          <p className="text-xs text-[#06070A]/50 font-light text-center">
+            Your Netlify token isn't saved on this device. Deploy from here once to see the status of your sites and take them offline.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DeploymentsCard;
@@ -0,0 +1,184 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Eye, RefreshCw, AlertTriangle, Clock } from 'lucide-react';
+import {
+  listGenerationJobs,
+  getGenerationJob,
+  ACTIVE_JOB_STATUSES,
+  GenerationJobStatus,
+  GenerationJobSummary,
+} from '@/services/generationJobs';
+
+interface GenerationJobsCardProps {
+  email: string;
+}
+
+const REFRESH_INTERVAL_MS = 3000;
+
+const STATUS_STYLES: Record<GenerationJobStatus, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'bg-[#06070A]/10 text-[#06070A]' },
+  running: { label: 'Generating', className: 'bg-blue-100 text-blue-800' },
+  completed: { label: 'Ready', className: 'bg-green-100 text-green-800' },
+  incomplete: { label: 'Incomplete', className: 'bg-yellow-100 text-yellow-800' },
+  interrupted: { label: 'Interrupted', className: 'bg-yellow-100 text-yellow-800' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-800' },
+};
+
+const GenerationJobsCard = ({ email }: GenerationJobsCardProps) => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [jobs, setJobs] = useState<GenerationJobSummary[]>([]);
+  const [openingJobId, setOpeningJobId] = useState<string | null>(null);
+
+  const loadJobs = useCallback(async () => {
+    try {
+      setJobs(await listGenerationJobs(email));
+    } catch (error) {
+      console.error('Failed to load generation jobs:', error);
+    }
+  }, [email]);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  // Keep refreshing while something is still generating
+  const hasActiveJobs = jobs.some(job => ACTIVE_JOB_STATUSES.includes(job.status));
+  useEffect(() => {
+    if (!hasActiveJobs) return;
+    const interval = setInterval(loadJobs, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasActiveJobs, loadJobs]);
+
+  const handleOpenJob = async (jobId: string) => {
+    setOpeningJobId(jobId);
+
+    try {
+      const job = await getGenerationJob(jobId, email);
+
+      if (job.status === 'completed' && job.result?.portfolio) {
+        navigate('/preview', {
+          state: {
+            portfolioData: job.portfolioData,
+            generatedPortfolio: job.result.portfolio,
+            metadata: {
+              ...job.result.portfolio.metadata,
+              portfolioId: job.result.portfolio.metadata.portfolioId,
+              generationJobId: job.id,
+            },
+          },
+        });
+        return;
+      }
+
+      const partialHtml = job.result?.partialHtml || job.intermediate.partialHtml;
+      if (!partialHtml) {
+        throw new Error('This generation has no output to recover');
+      }
+
+      navigate('/incomplete', {
+        state: {
+          portfolioData: job.portfolioData,
+          partialHtml,
+          completionStatus: job.result?.completionStatus,
+          metadata: { autoAttempts: job.intermediate.continuationAttempts.length, generationJobId: job.id },
+          error: job.error || undefined,
+        },
+      });
+    } catch (error) {
+      console.error('Failed to open generation job:', error);
+      toast({
+        title: "Couldn't Open Generation",
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: "destructive",
+      });
+    } finally {
+      setOpeningJobId(null);
+    }
+  };
+
+  if (jobs.length === 0) return null;
+
+  return (
+    <Card className="shadow-sm border border-[#06070A]/10 mb-12 bg-[#FFFEEA]">
+      <CardContent className="p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-2xl font-light text-[#06070A]">Recent Generations</h2>
+          <span className="text-sm text-[#06070A]/50 font-light">Kept for 24 hours</span>
+        </div>
+
+        <div className="space-y-3">
+          {jobs.map(job => {
+            const status = STATUS_STYLES[job.status];
+            const isActive = ACTIVE_JOB_STATUSES.includes(job.status);
+            const canOpen = job.status === 'completed' || (!isActive && job.hasPartialHtml);
+
+            return (
+              <div key={job.id} className="bg-white rounded-lg border border-[#06070A]/10 p-4 space-y-3">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="font-light text-[#06070A] truncate">{job.portfolioName}</p>
+                      <Badge className={`${status.className} border-0 font-light`}>{status.label}</Badge>
+                    </div>
+                    <p className="text-xs text-[#06070A]/50 font-light flex items-center mt-1">
+                      <Clock className="h-3 w-3 mr-1" />
+                      Started {new Date(job.createdAt).toLocaleString()}
+                      {job.continuationAttempts > 0 && ` • ${job.continuationAttempts} continuation attempt${job.continuationAttempts === 1 ? '' : 's'}`}
+                    </p>
+                  </div>
+
+                  {canOpen && (
+                    <Button
+                      size="sm"
+                      className="bg-[#06070A] hover:bg-[#06070A]/90 text-[#FFFEEA] font-light border-0 flex-shrink-0"
+                      onClick={() => handleOpenJob(job.id)}
+                      disabled={openingJobId !== null}
+                    >
+                      {openingJobId === job.id ? (
+                        <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                      ) : job.status === 'completed' ? (
+                        <Eye className="h-4 w-4 mr-1" />
+                      ) : (
+                        <RefreshCw className="h-4 w-4 mr-1" />
+                      )}
+                      {job.status === 'completed' ? 'Open in Editor' : 'Recover'}
+                    </Button>
+                  )}
+                </div>
+
+                {isActive && (
+                  <div className="space-y-1">
+                    <div className="flex items-center justify-between text-xs text-[#06070A]/60 font-light">
+                      <span>{job.message}...</span>
+                      <span>{job.percent}%</span>
+                    </div>
+                    <div className="w-full rounded-full h-1.5 bg-[#06070A]/10">
+                      <div
+                        className="h-1.5 rounded-full bg-[#06070A] transition-all duration-300 ease-out"
+                        style={{ width: `${job.percent}%` }}
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {job.status === 'failed' && job.error && (
+                  <p className="text-xs text-red-600 font-light flex items-center">
+                    <AlertTriangle className="h-3 w-3 mr-1 flex-shrink-0" />
+                    {job.error}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default GenerationJobsCard;
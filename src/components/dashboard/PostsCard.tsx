@@ -0,0 +1,230 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Plus, Edit, Trash2, Clock, PenLine } from 'lucide-react';
+import { listPosts, createPost, updatePost, deletePost, Post, PostFields } from '@/services/posts';
+
+interface PostsCardProps {
+  email: string;
+}
+
+const EMPTY_POST: PostFields = { title: '', summary: '', markdown: '', status: 'draft' };
+
+const PostsCard = ({ email }: PostsCardProps) => {
+  const { toast } = useToast();
+  const [posts, setPosts] = useState<Post[]>([]);
+  // null while the editor is closed; an empty id means a new post
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<PostFields>(EMPTY_POST);
+  const [isSaving, setIsSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const loadPosts = useCallback(async () => {
+    try {
+      setPosts(await listPosts(email));
+    } catch (error) {
+      console.error('Failed to load posts:', error);
+    }
+  }, [email]);
+
+  useEffect(() => {
+    loadPosts();
+  }, [loadPosts]);
+
+  const openEditor = (post?: Post) => {
+    setEditingId(post?.id || '');
+    setDraft(post
+      ? { title: post.title, summary: post.summary, markdown: post.markdown, status: post.status }
+      : EMPTY_POST);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+
+    try {
+      const saved = editingId
+        ? await updatePost(email, editingId, draft)
+        : await createPost(email, draft);
+
+      setPosts(current => editingId
+        ? current.map(post => post.id === saved.id ? saved : post)
+        : [saved, ...current]);
+      setEditingId(null);
+      toast({
+        title: saved.status === 'published' ? "Post Published" : "Draft Saved",
+        description: saved.status === 'published'
+          ? 'It will appear in the Writing section the next time you generate your portfolio.'
+          : 'Publish it when you want it on your portfolio.',
+      });
+    } catch (error) {
+      console.error('Failed to save post:', error);
+      toast({
+        title: "Couldn't Save Post",
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (post: Post) => {
+    if (!window.confirm(`Delete "${post.title}"? This cannot be undone.`)) return;
+    setDeletingId(post.id);
+
+    try {
+      await deletePost(email, post.id);
+      setPosts(current => current.filter(other => other.id !== post.id));
+    } catch (error) {
+      console.error('Failed to delete post:', error);
+      toast({
+        title: "Couldn't Delete Post",
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: "destructive",
+      });
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <Card className="shadow-sm border border-[#06070A]/10 mb-12 bg-[#FFFEEA]">
+      <CardContent className="p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-light text-[#06070A]">Writing</h2>
+            <p className="text-sm text-[#06070A]/50 font-light">
+              Published posts get their own pages in your portfolio, styled like the rest of it
+            </p>
+          </div>
+          <Button
+            size="sm"
+            onClick={() => openEditor()}
+            className="bg-[#06070A] hover:bg-[#06070A]/90 text-[#FFFEEA] font-light border-0 flex-shrink-0"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            New Post
+          </Button>
+        </div>
+
+        {posts.length === 0 ? (
+          <div className="bg-white rounded-lg border border-dashed border-[#06070A]/20 p-8 text-center">
+            <PenLine className="h-8 w-8 text-[#06070A]/30 mx-auto mb-2" />
+            <p className="text-sm text-[#06070A]/60 font-light">
+              Write about your process, lessons learned or the ideas behind your work.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {posts.map(post => (
+              <div key={post.id} className="bg-white rounded-lg border border-[#06070A]/10 p-4 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="font-light text-[#06070A] truncate">{post.title}</p>
+                    <Badge className={`${post.status === 'published' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'} border-0 font-light capitalize`}>
+                      {post.status}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-[#06070A]/50 font-light flex items-center mt-1">
+                    <Clock className="h-3 w-3 mr-1" />
+                    {post.status === 'published' && post.publishedAt
+                      ? `Published ${new Date(post.publishedAt).toLocaleDateString()}`
+                      : `Edited ${new Date(post.updatedAt).toLocaleDateString()}`}
+                    {` • blog/${post.slug}.html`}
+                  </p>
+                </div>
+
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => openEditor(post)}
+                    className="border-[#06070A]/20 text-[#06070A] hover:bg-[#06070A] hover:text-[#FFFEEA] font-light"
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleDelete(post)}
+                    disabled={deletingId !== null}
+                    className="border-red-200 text-red-600 hover:bg-red-600 hover:text-white font-light"
+                  >
+                    {deletingId === post.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      {/* Post Editor */}
+      <Dialog open={editingId !== null} onOpenChange={(open) => !open && !isSaving && setEditingId(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto bg-[#FFFEEA] border border-[#06070A]/10">
+          <DialogHeader>
+            <DialogTitle className="text-[#06070A] font-light">{editingId ? 'Edit Post' : 'New Post'}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <Input
+              value={draft.title}
+              onChange={(e) => setDraft(current => ({ ...current, title: e.target.value }))}
+              placeholder="Title"
+              maxLength={120}
+              className="bg-white border-[#06070A]/20 font-light"
+            />
+            <Input
+              value={draft.summary}
+              onChange={(e) => setDraft(current => ({ ...current, summary: e.target.value }))}
+              placeholder="Summary for the post list (optional)"
+              maxLength={300}
+              className="bg-white border-[#06070A]/20 font-light"
+            />
+            <Textarea
+              value={draft.markdown}
+              onChange={(e) => setDraft(current => ({ ...current, markdown: e.target.value }))}
+              placeholder={'Write in Markdown: ## headings, **bold**, _italic_, [links](https://...), > quotes, - lists'}
+              rows={16}
+              className="bg-white border-[#06070A]/20 font-mono text-sm"
+            />
+            <label className="flex items-center gap-3 text-sm font-light text-[#06070A]">
+              <Switch
+                checked={draft.status === 'published'}
+                onCheckedChange={(checked) => setDraft(current => ({ ...current, status: checked ? 'published' : 'draft' }))}
+              />
+              Publish on my portfolio
+            </label>
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setEditingId(null)}
+              disabled={isSaving}
+              className="border-[#06070A]/20 text-[#06070A] hover:bg-[#06070A] hover:text-[#FFFEEA] font-light"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={isSaving || !draft.title.trim() || !draft.markdown.trim()}
+              className="bg-[#06070A] hover:bg-[#06070A]/90 text-[#FFFEEA] font-light border-0"
+            >
+              {isSaving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default PostsCard;
@@ -0,0 +1,152 @@
+import { Checkbox } from '@/components/ui/checkbox';
+import { Sparkles, Check, X, Code, Paintbrush } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { DiffHunk } from '@/lib/htmlDiff';
+
+interface AiEditReviewDialogProps {
+  request: string;
+  beforeHtml: string;
+  mergedHtml: string;
+  hunks: DiffHunk[];
+  acceptedIds: string[];
+  onToggleHunk: (hunkId: string) => void;
+  onSetAll: (accepted: boolean) => void;
+  onApply: () => void;
+  onCancel: () => void;
+}
+
+const KIND_STYLES: Record<DiffHunk['kind'], string> = {
+  added: 'bg-green-50 text-green-700 border-green-200',
+  removed: 'bg-red-50 text-red-700 border-red-200',
+  changed: 'bg-blue-50 text-blue-700 border-blue-200',
+};
+
+const AiEditReviewDialog = ({
+  request,
+  beforeHtml,
+  mergedHtml,
+  hunks,
+  acceptedIds,
+  onToggleHunk,
+  onSetAll,
+  onApply,
+  onCancel,
+}: AiEditReviewDialogProps) => {
+  const acceptedCount = acceptedIds.length;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-[#FFFEEA] rounded-xl w-full max-w-6xl max-h-[92vh] flex flex-col border border-[#06070A]/10 shadow-xl">
+        {/* Header */}
+        <div className="p-6 border-b border-[#06070A]/10 space-y-1">
+          <div className="flex items-center space-x-3">
+            <Sparkles className="h-6 w-6 text-[#06070A]" />
+            <h2 className="text-2xl font-light text-[#06070A]">Review AI Changes</h2>
+          </div>
+          <p className="text-sm font-light text-[#06070A]/60">
+            "{request}" • {hunks.length} change{hunks.length === 1 ? '' : 's'} found, {acceptedCount} selected
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* Side-by-side preview */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {[
+              { label: 'Before', html: beforeHtml },
+              { label: 'After (selected changes)', html: mergedHtml },
+            ].map(({ label, html }) => (
+              <div key={label} className="space-y-2">
+                <p className="text-xs font-light text-[#06070A]/60 uppercase tracking-wide">{label}</p>
+                <div className="bg-white rounded-lg border border-[#06070A]/10 overflow-hidden h-72">
+                  <iframe
+                    srcDoc={html}
+                    className="w-full h-full border-0"
+                    title={label}
+                    sandbox="allow-scripts"
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Structural diff */}
+          <div className="space-y-3">
+            {hunks.length === 0 && (
+              <p className="text-sm font-light text-[#06070A]/60">The AI response did not change the portfolio.</p>
+            )}
+            {hunks.map(hunk => {
+              const isAccepted = acceptedIds.includes(hunk.id);
+              const Icon = hunk.target === 'css' ? Paintbrush : Code;
+              return (
+                <div
+                  key={hunk.id}
+                  className={cn(
+                    "bg-white rounded-lg border p-4 space-y-3 transition-all duration-200",
+                    isAccepted ? "border-[#06070A]/30" : "border-[#06070A]/10 opacity-60"
+                  )}
+                >
+                  <label className="flex items-center space-x-3 cursor-pointer">
+                    <Checkbox checked={isAccepted} onCheckedChange={() => onToggleHunk(hunk.id)} />
+                    <Icon className="h-4 w-4 text-[#06070A]/60" />
+                    <span className="flex-1 text-sm font-light text-[#06070A] truncate">{hunk.label}</span>
+                    <span className={cn("px-2 py-0.5 rounded-full border text-xs font-light", KIND_STYLES[hunk.kind])}>
+                      {hunk.kind}
+                    </span>
+                  </label>
+                  <div className={cn("grid gap-2", hunk.before && hunk.after ? "md:grid-cols-2" : "grid-cols-1")}>
+                    {hunk.before && (
+                      <pre className="text-xs bg-red-50/60 text-red-900 rounded-md p-3 overflow-x-auto whitespace-pre-wrap break-all max-h-48">
+                        {hunk.before}
+                      </pre>
+                    )}
+                    {hunk.after && (
+                      <pre className="text-xs bg-green-50/60 text-green-900 rounded-md p-3 overflow-x-auto whitespace-pre-wrap break-all max-h-48">
+                        {hunk.after}
+                      </pre>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="p-6 border-t border-[#06070A]/10 flex flex-wrap items-center justify-between gap-3">
+          <div className="flex space-x-3 text-sm font-light">
+            <div className="cursor-pointer text-[#06070A] hover:underline" onClick={() => onSetAll(true)}>
+              Accept all
+            </div>
+            <div className="cursor-pointer text-[#06070A] hover:underline" onClick={() => onSetAll(false)}>
+              Reject all
+            </div>
+          </div>
+          <div className="flex space-x-3">
+            <div className="group cursor-pointer" onClick={onCancel}>
+              <div className="px-4 py-2 border border-[#06070A]/10 text-[#06070A] rounded-lg transition-all duration-200 hover:bg-[#06070A]/5 group-hover:scale-105 font-light flex items-center space-x-1 text-sm">
+                <X className="h-4 w-4" />
+                <span>Discard</span>
+              </div>
+            </div>
+            <div
+              className="group cursor-pointer"
+              onClick={acceptedCount > 0 ? onApply : undefined}
+            >
+              <div className={cn(
+                "px-4 py-2 rounded-lg transition-all duration-200 font-light flex items-center space-x-1 text-sm",
+                acceptedCount > 0
+                  ? "bg-[#06070A] text-[#FFFEEA] hover:bg-[#06070A]/80 group-hover:scale-105"
+                  : "bg-[#06070A]/20 text-[#06070A]/50 cursor-not-allowed"
+              )}>
+                <Check className="h-4 w-4" />
+                <span>Apply {acceptedCount} change{acceptedCount === 1 ? '' : 's'}</span>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AiEditReviewDialog;
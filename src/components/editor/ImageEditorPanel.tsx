@@ -0,0 +1,187 @@
+import { useRef } from 'react';
+import { Input } from '@/components/ui/input';
+import { Image as ImageIcon, Upload, Crosshair, Check, X, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+// An image the user can swap in, either from their saved projects or already in the portfolio
+export interface LibraryImage {
+  url: string;
+  label: string;
+}
+
+interface ImageEditorPanelProps {
+  src: string;
+  alt: string;
+  objectPosition?: string;
+  library: LibraryImage[];
+  isLoadingLibrary: boolean;
+  isUploading: boolean;
+  hasPendingChanges: boolean;
+  onReplace: (url: string) => void;
+  onUpload: (file: File) => void;
+  onAltChange: (alt: string) => void;
+  onFocalPointChange: (x: number, y: number) => void;
+  onApply: () => void;
+  onCancel: () => void;
+}
+
+// Read "30% 70%" style object-position values, anything else falls back to the center
+const parseFocalPoint = (objectPosition?: string): { x: number; y: number } => {
+  const [x = NaN, y = NaN] = (objectPosition || '').split(/\s+/).map(part =>
+    part.endsWith('%') ? parseFloat(part) : NaN
+  );
+  return {
+    x: Number.isNaN(x) ? 50 : x,
+    y: Number.isNaN(y) ? 50 : y,
+  };
+};
+
+const ImageEditorPanel = ({
+  src,
+  alt,
+  objectPosition,
+  library,
+  isLoadingLibrary,
+  isUploading,
+  hasPendingChanges,
+  onReplace,
+  onUpload,
+  onAltChange,
+  onFocalPointChange,
+  onApply,
+  onCancel,
+}: ImageEditorPanelProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const focalPoint = parseFocalPoint(objectPosition);
+
+  const handleFocalPointClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = Math.round(((e.clientX - rect.left) / rect.width) * 100);
+    const y = Math.round(((e.clientY - rect.top) / rect.height) * 100);
+    onFocalPointChange(Math.min(100, Math.max(0, x)), Math.min(100, Math.max(0, y)));
+  };
+
+  return (
+    <div className="bg-white rounded-xl p-6 border border-[#06070A]/10 shadow-lg">
+      <div className="space-y-5">
+        <div className="flex items-center space-x-2">
+          <ImageIcon className="h-5 w-5 text-[#06070A]" />
+          <h3 className="text-lg font-light text-[#06070A]">Image</h3>
+        </div>
+
+        {/* Focal point */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2 text-sm font-light text-[#06070A]">
+              <Crosshair className="h-4 w-4" />
+              <span>Focal point</span>
+            </div>
+            <span className="text-xs font-light text-[#06070A]/60">
+              {focalPoint.x}% {focalPoint.y}%
+            </span>
+          </div>
+          <div
+            className="relative cursor-crosshair rounded-lg overflow-hidden border border-[#06070A]/10"
+            onClick={handleFocalPointClick}
+          >
+            <img src={src} alt={alt} className="w-full h-auto block select-none" draggable={false} />
+            <div
+              className="absolute w-5 h-5 -ml-2.5 -mt-2.5 rounded-full border-2 border-white bg-blue-500/70 shadow-lg pointer-events-none"
+              style={{ left: `${focalPoint.x}%`, top: `${focalPoint.y}%` }}
+            />
+          </div>
+          <p className="text-xs font-light text-[#06070A]/60">
+            Click the part of the image that should stay visible when it is cropped
+          </p>
+        </div>
+
+        {/* Alt text */}
+        <div className="space-y-1">
+          <label className="text-xs font-light text-[#06070A]/60">Alt text</label>
+          <Input
+            value={alt}
+            onChange={(e) => onAltChange(e.target.value)}
+            placeholder="Describe the image for screen readers"
+            className="h-9 border border-[#06070A]/20 focus:border-[#06070A] focus:ring-0 rounded-lg font-light text-xs"
+          />
+        </div>
+
+        {/* Replacement */}
+        <div className="space-y-3 pt-4 border-t border-[#06070A]/10">
+          <p className="text-sm font-light text-[#06070A]">Replace with</p>
+          {isLoadingLibrary ? (
+            <div className="flex items-center space-x-2 text-xs font-light text-[#06070A]/60">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              <span>Loading your images...</span>
+            </div>
+          ) : library.length > 0 ? (
+            <div className="grid grid-cols-3 gap-2 max-h-48 overflow-y-auto">
+              {library.map(image => (
+                <div
+                  key={image.url}
+                  title={image.label}
+                  className={cn(
+                    "cursor-pointer aspect-square rounded-lg overflow-hidden border-2 transition-all duration-200",
+                    image.url === src ? "border-[#06070A]" : "border-transparent hover:border-[#06070A]/30"
+                  )}
+                  onClick={() => onReplace(image.url)}
+                >
+                  <img src={image.url} alt={image.label} className="w-full h-full object-cover" />
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs font-light text-[#06070A]/60">No project images found</p>
+          )}
+
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/jpeg,image/png,image/gif,image/webp"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onUpload(file);
+              e.target.value = '';
+            }}
+          />
+          <div
+            className={cn("group", isUploading ? "cursor-not-allowed" : "cursor-pointer")}
+            onClick={isUploading ? undefined : () => fileInputRef.current?.click()}
+          >
+            <div className="text-center py-2 border border-[#06070A]/10 text-[#06070A] rounded-lg transition-all duration-200 hover:bg-[#06070A]/5 group-hover:scale-105 font-light flex items-center justify-center space-x-1 text-sm">
+              {isUploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+              <span>{isUploading ? 'Uploading...' : 'Upload New Image'}</span>
+            </div>
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="flex space-x-3 pt-4 border-t border-[#06070A]/10">
+          <div
+            className="group cursor-pointer flex-1"
+            onClick={hasPendingChanges ? onApply : undefined}
+          >
+            <div className={cn(
+              "text-center py-2 rounded-lg transition-all duration-200 font-light flex items-center justify-center space-x-1 text-sm",
+              hasPendingChanges
+                ? "bg-[#06070A] text-[#FFFEEA] hover:bg-[#06070A]/80 group-hover:scale-105"
+                : "bg-[#06070A]/20 text-[#06070A]/50 cursor-not-allowed"
+            )}>
+              <Check className="h-4 w-4" />
+              <span>Apply</span>
+            </div>
+          </div>
+          <div className="group cursor-pointer flex-1" onClick={onCancel}>
+            <div className="text-center py-2 border border-[#06070A]/10 text-[#06070A] rounded-lg transition-all duration-200 hover:bg-[#06070A]/5 group-hover:scale-105 font-light flex items-center justify-center space-x-1 text-sm">
+              <X className="h-4 w-4" />
+              <span>{hasPendingChanges ? 'Discard' : 'Close'}</span>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageEditorPanel;
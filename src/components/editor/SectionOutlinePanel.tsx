@@ -0,0 +1,137 @@
+import { useRef } from 'react';
+import { DndProvider, useDrag, useDrop } from 'react-dnd';
+import { HTML5Backend } from 'react-dnd-html5-backend';
+import { Layers, GripVertical, Eye, EyeOff, Copy, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { OutlineSection } from '@/hooks/useSectionOutline';
+
+const SECTION_ITEM = 'outline-section';
+
+interface DragItem {
+  id: string;
+  index: number;
+}
+
+interface SectionOutlinePanelProps {
+  sections: OutlineSection[];
+  selectedSectionId?: string | null;
+  onSelect: (sectionId: string) => void;
+  onMove: (sectionId: string, toIndex: number) => void;
+  onToggleVisibility: (sectionId: string) => void;
+  onDuplicate: (sectionId: string) => void;
+  onDelete: (sectionId: string) => void;
+}
+
+interface SectionRowProps extends Omit<SectionOutlinePanelProps, 'sections' | 'selectedSectionId'> {
+  section: OutlineSection;
+  index: number;
+  isSelected: boolean;
+}
+
+const SectionRow = ({
+  section,
+  index,
+  isSelected,
+  onSelect,
+  onMove,
+  onToggleVisibility,
+  onDuplicate,
+  onDelete,
+}: SectionRowProps) => {
+  const rowRef = useRef<HTMLDivElement>(null);
+
+  const [{ isDragging }, drag, preview] = useDrag({
+    type: SECTION_ITEM,
+    item: (): DragItem => ({ id: section.id, index }),
+    collect: monitor => ({ isDragging: monitor.isDragging() }),
+  });
+
+  const [{ isOver }, drop] = useDrop({
+    accept: SECTION_ITEM,
+    drop: (item: DragItem) => {
+      if (item.index !== index) onMove(item.id, index);
+    },
+    collect: monitor => ({ isOver: monitor.isOver() && monitor.getItem<DragItem>()?.index !== index }),
+  });
+
+  preview(drop(rowRef));
+
+  const actions = [
+    {
+      label: section.hidden ? 'Show section' : 'Hide section',
+      icon: section.hidden ? EyeOff : Eye,
+      onClick: () => onToggleVisibility(section.id),
+    },
+    { label: 'Duplicate section', icon: Copy, onClick: () => onDuplicate(section.id) },
+    { label: 'Delete section', icon: Trash2, onClick: () => onDelete(section.id) },
+  ];
+
+  return (
+    <div
+      ref={rowRef}
+      className={cn(
+        "flex items-center space-x-2 p-2 rounded-lg border transition-all duration-200",
+        isSelected ? "border-[#06070A]/40 bg-[#06070A]/5" : "border-[#06070A]/10 hover:bg-[#06070A]/5",
+        isOver && "border-blue-400 bg-blue-50",
+        isDragging && "opacity-40"
+      )}
+    >
+      <div ref={drag} className="cursor-grab text-[#06070A]/40 hover:text-[#06070A]">
+        <GripVertical className="h-4 w-4" />
+      </div>
+      <div className="flex-1 min-w-0 cursor-pointer" onClick={() => onSelect(section.id)}>
+        <p className={cn(
+          "text-sm font-light truncate",
+          section.hidden ? "text-[#06070A]/40 line-through" : "text-[#06070A]"
+        )}>
+          {section.label}
+        </p>
+        <p className="text-xs font-light text-[#06070A]/50">&lt;{section.tagName}&gt;</p>
+      </div>
+      {actions.map(({ label, icon: Icon, onClick }) => (
+        <div
+          key={label}
+          title={label}
+          className="cursor-pointer p-1 rounded-md text-[#06070A]/60 hover:text-[#06070A] hover:bg-[#06070A]/10 transition-all duration-200"
+          onClick={onClick}
+        >
+          <Icon className="h-3.5 w-3.5" />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const SectionOutlinePanel = ({ sections, selectedSectionId, ...handlers }: SectionOutlinePanelProps) => (
+  <div className="bg-white rounded-xl p-6 border border-[#06070A]/10 shadow-lg">
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Layers className="h-5 w-5 text-[#06070A]" />
+          <h3 className="text-lg font-light text-[#06070A]">Sections</h3>
+        </div>
+        <span className="text-xs font-light text-[#06070A]/60">Drag to reorder</span>
+      </div>
+
+      {sections.length > 0 ? (
+        <DndProvider backend={HTML5Backend}>
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {sections.map((section, index) => (
+              <SectionRow
+                key={section.id}
+                section={section}
+                index={index}
+                isSelected={section.id === selectedSectionId}
+                {...handlers}
+              />
+            ))}
+          </div>
+        </DndProvider>
+      ) : (
+        <p className="text-sm font-light text-[#06070A]/60">No sections found in this portfolio</p>
+      )}
+    </div>
+  </div>
+);
+
+export default SectionOutlinePanel;
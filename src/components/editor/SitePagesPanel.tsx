@@ -0,0 +1,69 @@
+import { Files, Home, FileText } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { SitePage } from '@/lib/sitePages';
+
+interface SitePagesPanelProps {
+  pages: SitePage[];
+  // null while the home page is shown
+  currentPath: string | null;
+  onSelect: (path: string | null) => void;
+}
+
+const PageRow = ({ icon: Icon, title, detail, isActive, onSelect }: {
+  icon: typeof Home;
+  title: string;
+  detail: string;
+  isActive: boolean;
+  onSelect: () => void;
+}) => (
+  <div
+    className={cn(
+      "cursor-pointer flex items-center p-2 rounded-lg border transition-all duration-200",
+      isActive ? "border-[#06070A]/40 bg-[#06070A]/5" : "border-[#06070A]/10 hover:bg-[#06070A]/5"
+    )}
+    onClick={onSelect}
+  >
+    <Icon className="h-4 w-4 text-[#06070A]/60 flex-shrink-0 mr-2" />
+    <div className="min-w-0">
+      <p className="text-sm font-light text-[#06070A] truncate">{title}</p>
+      <p className="text-xs font-light text-[#06070A]/50 truncate">{detail}</p>
+    </div>
+  </div>
+);
+
+const SitePagesPanel = ({ pages, currentPath, onSelect }: SitePagesPanelProps) => (
+  <div className="bg-white rounded-xl p-6 border border-[#06070A]/10 shadow-lg">
+    <div className="space-y-4">
+      <div className="flex items-center space-x-2">
+        <Files className="h-5 w-5 text-[#06070A]" />
+        <h3 className="text-lg font-light text-[#06070A]">Pages</h3>
+      </div>
+
+      <div className="space-y-2">
+        <PageRow
+          icon={Home}
+          title="Home"
+          detail="index.html"
+          isActive={currentPath === null}
+          onSelect={() => onSelect(null)}
+        />
+        {pages.map(page => (
+          <PageRow
+            key={page.path}
+            icon={FileText}
+            title={page.title}
+            detail={page.path}
+            isActive={currentPath === page.path}
+            onSelect={() => onSelect(page.path)}
+          />
+        ))}
+      </div>
+
+      <p className="text-xs font-light text-[#06070A]/50">
+        Case study and blog pages are built from your projects and posts and follow the home page's theme. Other edits apply to the home page.
+      </p>
+    </div>
+  </div>
+);
+
+export default SitePagesPanel;
@@ -0,0 +1,397 @@
+import { useState, useEffect, useRef } from 'react';
+import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Paintbrush, Type, Palette, Box, Check, X, Edit3,
+  AlignLeft, AlignCenter, AlignRight, AlignJustify
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { EditableElement } from '@/hooks/useHtmlParser';
+
+type ElementStyles = EditableElement['styles'];
+
+interface StyleInspectorPanelProps {
+  tagName: string;
+  styles: ElementStyles;
+  hasPendingChanges: boolean;
+  onStyleChange: (changes: ElementStyles) => void;
+  onApply: () => void;
+  onCancel: () => void;
+  onEditText?: () => void;
+}
+
+const FONT_FAMILIES = [
+  { label: 'System UI', value: 'system-ui, -apple-system, sans-serif' },
+  { label: 'Inter', value: 'Inter, sans-serif' },
+  { label: 'Helvetica', value: '"Helvetica Neue", Helvetica, Arial, sans-serif' },
+  { label: 'Georgia', value: 'Georgia, serif' },
+  { label: 'Times New Roman', value: '"Times New Roman", Times, serif' },
+  { label: 'Playfair Display', value: '"Playfair Display", Georgia, serif' },
+  { label: 'Trebuchet MS', value: '"Trebuchet MS", sans-serif' },
+  { label: 'Verdana', value: 'Verdana, Geneva, sans-serif' },
+  { label: 'Courier New', value: '"Courier New", Courier, monospace' },
+];
+
+const FONT_WEIGHTS = ['300', '400', '500', '600', '700', '800', '900'];
+
+const TEXT_TRANSFORMS = ['none', 'uppercase', 'lowercase', 'capitalize'];
+
+const BOX_SHADOWS = [
+  { label: 'None', value: 'none' },
+  { label: 'Subtle', value: '0 1px 3px rgba(0, 0, 0, 0.12)' },
+  { label: 'Medium', value: '0 4px 12px rgba(0, 0, 0, 0.15)' },
+  { label: 'Large', value: '0 12px 32px rgba(0, 0, 0, 0.2)' },
+];
+
+const TEXT_ALIGNMENTS = [
+  { value: 'left', icon: AlignLeft },
+  { value: 'center', icon: AlignCenter },
+  { value: 'right', icon: AlignRight },
+  { value: 'justify', icon: AlignJustify },
+];
+
+// Convert computed colors such as "rgb(12, 34, 56)" to "#0c2238" for the color input; null for anything
+// else (named colors, var(--theme-*), ...)
+const toHexColor = (color?: string): string | null => {
+  if (!color) return null;
+  if (/^#[0-9a-f]{3}$/i.test(color)) return `#${color.slice(1).split('').map(c => c + c).join('')}`;
+  if (/^#[0-9a-f]{6}([0-9a-f]{2})?$/i.test(color)) return color.slice(0, 7);
+
+  const match = color.match(/^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)/i);
+  if (!match) return null;
+
+  return `#${match.slice(1, 4)
+    .map(channel => Math.min(255, parseInt(channel, 10)).toString(16).padStart(2, '0'))
+    .join('')}`;
+};
+
+const isTransparent = (color?: string) =>
+  !color || color === 'transparent' || /rgba\([^)]*,\s*0\)$/.test(color);
+
+// Read the first pixel value out of a (possibly shorthand) length
+const toPixels = (value?: string, fallback = 0): number => {
+  const parsed = parseFloat(value || '');
+  return Number.isNaN(parsed) ? fallback : Math.round(parsed);
+};
+
+interface ColorFieldProps {
+  label: string;
+  value?: string;
+  onChange: (value: string) => void;
+}
+
+// Computed rgb() colors show as hex; whatever else the element has, or the user types, is kept as written
+const formatColor = (color?: string) => {
+  if (isTransparent(color)) return 'transparent';
+  return color?.startsWith('rgb') ? toHexColor(color) || color : color || '';
+};
+
+const ColorField = ({ label, value, onChange }: ColorFieldProps) => {
+  const [text, setText] = useState(() => formatColor(value));
+  const typedValueRef = useRef(value);
+
+  // Values that didn't come from typing (the color picker, another element) replace the text
+  useEffect(() => {
+    if (value === typedValueRef.current) return;
+    typedValueRef.current = value;
+    setText(formatColor(value));
+  }, [value]);
+
+  const handleTextChange = (next: string) => {
+    typedValueRef.current = next;
+    setText(next);
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-1">
+      <label className="text-xs font-light text-[#06070A]/60">{label}</label>
+      <div className="flex items-center space-x-2">
+        <input
+          type="color"
+          value={toHexColor(text) || toHexColor(value) || '#000000'}
+          onChange={(e) => onChange(e.target.value)}
+          className="h-9 w-9 rounded-lg border border-[#06070A]/20 cursor-pointer bg-transparent p-0.5"
+        />
+        <Input
+          value={text}
+          onChange={(e) => handleTextChange(e.target.value)}
+          className="h-9 border border-[#06070A]/20 focus:border-[#06070A] focus:ring-0 rounded-lg font-light text-xs"
+        />
+      </div>
+    </div>
+  );
+};
+
+interface SliderFieldProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  unit: string;
+  onChange: (value: number) => void;
+}
+
+const SliderField = ({ label, value, min, max, step = 1, unit, onChange }: SliderFieldProps) => (
+  <div className="space-y-2">
+    <div className="flex justify-between items-center">
+      <label className="text-xs font-light text-[#06070A]/60">{label}</label>
+      <span className="text-xs font-light text-[#06070A]">{value}{unit}</span>
+    </div>
+    <Slider
+      value={[value]}
+      min={min}
+      max={max}
+      step={step}
+      onValueChange={([next]) => onChange(next)}
+    />
+  </div>
+);
+
+const StyleInspectorPanel = ({
+  tagName,
+  styles,
+  hasPendingChanges,
+  onStyleChange,
+  onApply,
+  onCancel,
+  onEditText,
+}: StyleInspectorPanelProps) => {
+  const fontSize = toPixels(styles.fontSize, 16);
+  const lineHeightPx = parseFloat(styles.lineHeight || '');
+  const lineHeight = Number.isNaN(lineHeightPx) ? 1.2 : Math.round((lineHeightPx / fontSize) * 10) / 10;
+  const currentFont = FONT_FAMILIES.find(font =>
+    styles.fontFamily?.toLowerCase().startsWith(font.value.split(',')[0].replace(/"/g, '').toLowerCase())
+  );
+
+  return (
+    <div className="bg-white rounded-xl p-6 border border-[#06070A]/10 shadow-lg">
+      <div className="space-y-5">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Paintbrush className="h-5 w-5 text-[#06070A]" />
+            <h3 className="text-lg font-light text-[#06070A]">Style Inspector</h3>
+          </div>
+          <span className="px-2 py-0.5 rounded-full bg-[#06070A]/5 text-xs font-light text-[#06070A]">
+            &lt;{tagName}&gt;
+          </span>
+        </div>
+
+        {/* Typography */}
+        <div className="space-y-3">
+          <div className="flex items-center space-x-2 text-sm font-light text-[#06070A]">
+            <Type className="h-4 w-4" />
+            <span>Typography</span>
+          </div>
+
+          <Select
+            value={currentFont?.value}
+            onValueChange={(value) => onStyleChange({ fontFamily: value })}
+          >
+            <SelectTrigger className="h-9 border border-[#06070A]/20 rounded-lg font-light text-xs">
+              <SelectValue placeholder={styles.fontFamily?.split(',')[0].replace(/"/g, '') || 'Font family'} />
+            </SelectTrigger>
+            <SelectContent>
+              {FONT_FAMILIES.map(font => (
+                <SelectItem key={font.label} value={font.value} style={{ fontFamily: font.value }}>
+                  {font.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <div className="grid grid-cols-2 gap-2">
+            <Select
+              value={FONT_WEIGHTS.includes(styles.fontWeight || '') ? styles.fontWeight : undefined}
+              onValueChange={(value) => onStyleChange({ fontWeight: value })}
+            >
+              <SelectTrigger className="h-9 border border-[#06070A]/20 rounded-lg font-light text-xs">
+                <SelectValue placeholder="Weight" />
+              </SelectTrigger>
+              <SelectContent>
+                {FONT_WEIGHTS.map(weight => (
+                  <SelectItem key={weight} value={weight}>{weight}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select
+              value={TEXT_TRANSFORMS.includes(styles.textTransform || '') ? styles.textTransform : undefined}
+              onValueChange={(value) => onStyleChange({ textTransform: value })}
+            >
+              <SelectTrigger className="h-9 border border-[#06070A]/20 rounded-lg font-light text-xs">
+                <SelectValue placeholder="Case" />
+              </SelectTrigger>
+              <SelectContent>
+                {TEXT_TRANSFORMS.map(transform => (
+                  <SelectItem key={transform} value={transform} className="capitalize">{transform}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <SliderField
+            label="Font size"
+            value={fontSize}
+            min={8}
+            max={120}
+            unit="px"
+            onChange={(value) => onStyleChange({ fontSize: `${value}px` })}
+          />
+          <SliderField
+            label="Line height"
+            value={lineHeight}
+            min={0.8}
+            max={3}
+            step={0.1}
+            unit=""
+            onChange={(value) => onStyleChange({ lineHeight: `${value}` })}
+          />
+          <SliderField
+            label="Letter spacing"
+            value={toPixels(styles.letterSpacing, 0)}
+            min={-5}
+            max={20}
+            unit="px"
+            onChange={(value) => onStyleChange({ letterSpacing: `${value}px` })}
+          />
+
+          <div className="flex items-center justify-between">
+            <div className="flex bg-[#06070A]/5 rounded-lg p-1">
+              {TEXT_ALIGNMENTS.map(({ value, icon: Icon }) => (
+                <div
+                  key={value}
+                  className={cn(
+                    "cursor-pointer p-1.5 rounded-md transition-all duration-200",
+                    styles.textAlign === value ? "bg-[#06070A] text-[#FFFEEA]" : "text-[#06070A] hover:bg-[#06070A]/10"
+                  )}
+                  onClick={() => onStyleChange({ textAlign: value })}
+                >
+                  <Icon className="h-3.5 w-3.5" />
+                </div>
+              ))}
+            </div>
+            <div
+              className={cn(
+                "cursor-pointer px-3 py-1.5 rounded-lg text-xs italic transition-all duration-200",
+                styles.fontStyle === 'italic' ? "bg-[#06070A] text-[#FFFEEA]" : "bg-[#06070A]/5 text-[#06070A] hover:bg-[#06070A]/10"
+              )}
+              onClick={() => onStyleChange({ fontStyle: styles.fontStyle === 'italic' ? 'normal' : 'italic' })}
+            >
+              Italic
+            </div>
+          </div>
+        </div>
+
+        {/* Colors */}
+        <div className="space-y-3 pt-4 border-t border-[#06070A]/10">
+          <div className="flex items-center space-x-2 text-sm font-light text-[#06070A]">
+            <Palette className="h-4 w-4" />
+            <span>Colors</span>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <ColorField
+              label="Text"
+              value={styles.color}
+              onChange={(value) => onStyleChange({ color: value })}
+            />
+            <ColorField
+              label="Background"
+              value={styles.backgroundColor}
+              onChange={(value) => onStyleChange({ backgroundColor: value })}
+            />
+          </div>
+        </div>
+
+        {/* Spacing and shape */}
+        <div className="space-y-3 pt-4 border-t border-[#06070A]/10">
+          <div className="flex items-center space-x-2 text-sm font-light text-[#06070A]">
+            <Box className="h-4 w-4" />
+            <span>Spacing &amp; Shape</span>
+          </div>
+          <SliderField
+            label="Padding"
+            value={toPixels(styles.padding)}
+            min={0}
+            max={160}
+            unit="px"
+            onChange={(value) => onStyleChange({ padding: `${value}px` })}
+          />
+          <SliderField
+            label="Margin"
+            value={toPixels(styles.margin)}
+            min={0}
+            max={160}
+            unit="px"
+            onChange={(value) => onStyleChange({ margin: `${value}px` })}
+          />
+          <SliderField
+            label="Corner radius"
+            value={toPixels(styles.borderRadius)}
+            min={0}
+            max={64}
+            unit="px"
+            onChange={(value) => onStyleChange({ borderRadius: `${value}px` })}
+          />
+          <Select
+            value={BOX_SHADOWS.find(shadow => shadow.value === styles.boxShadow)?.value}
+            onValueChange={(value) => onStyleChange({ boxShadow: value })}
+          >
+            <SelectTrigger className="h-9 border border-[#06070A]/20 rounded-lg font-light text-xs">
+              <SelectValue placeholder="Shadow" />
+            </SelectTrigger>
+            <SelectContent>
+              {BOX_SHADOWS.map(shadow => (
+                <SelectItem key={shadow.label} value={shadow.value}>{shadow.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Actions */}
+        <div className="space-y-3 pt-4 border-t border-[#06070A]/10">
+          {onEditText && (
+            <div className="group cursor-pointer" onClick={onEditText}>
+              <div className="text-center py-2 border border-[#06070A]/10 text-[#06070A] rounded-lg transition-all duration-200 hover:bg-[#06070A]/5 group-hover:scale-105 font-light flex items-center justify-center space-x-1 text-sm">
+                <Edit3 className="h-4 w-4" />
+                <span>Edit Text</span>
+              </div>
+            </div>
+          )}
+          <div className="flex space-x-3">
+            <div
+              className="group cursor-pointer flex-1"
+              onClick={hasPendingChanges ? onApply : undefined}
+            >
+              <div className={cn(
+                "text-center py-2 rounded-lg transition-all duration-200 font-light flex items-center justify-center space-x-1 text-sm",
+                hasPendingChanges
+                  ? "bg-[#06070A] text-[#FFFEEA] hover:bg-[#06070A]/80 group-hover:scale-105"
+                  : "bg-[#06070A]/20 text-[#06070A]/50 cursor-not-allowed"
+              )}>
+                <Check className="h-4 w-4" />
+                <span>Apply</span>
+              </div>
+            </div>
+            <div className="group cursor-pointer flex-1" onClick={onCancel}>
+              <div className="text-center py-2 border border-[#06070A]/10 text-[#06070A] rounded-lg transition-all duration-200 hover:bg-[#06070A]/5 group-hover:scale-105 font-light flex items-center justify-center space-x-1 text-sm">
+                <X className="h-4 w-4" />
+                <span>{hasPendingChanges ? 'Discard' : 'Close'}</span>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StyleInspectorPanel;
@@ -0,0 +1,130 @@
+import { Palette, Type, RotateCcw, Sparkles } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { isSameColors, type FontPairing, type ThemePalette, type ThemeTokens } from '@/lib/themeTokens';
+
+interface ThemePanelProps {
+  currentTheme: Partial<ThemeTokens>;
+  moodboardPalettes: ThemePalette[];
+  presets: ThemePalette[];
+  fontPairings: FontPairing[];
+  hasOverride: boolean;
+  onSelectPalette: (palette: ThemePalette) => void;
+  onSelectFonts: (pairing: FontPairing) => void;
+  onReset: () => void;
+}
+
+const SWATCH_KEYS = ['background', 'primary', 'accent', 'text'] as const;
+
+const PaletteRow = ({ palette, isActive, onSelect }: { palette: ThemePalette; isActive: boolean; onSelect: () => void }) => (
+  <div
+    className={cn(
+      "cursor-pointer flex items-center justify-between p-2 rounded-lg border transition-all duration-200",
+      isActive ? "border-[#06070A]/40 bg-[#06070A]/5" : "border-[#06070A]/10 hover:bg-[#06070A]/5"
+    )}
+    onClick={onSelect}
+  >
+    <span className="text-sm font-light text-[#06070A] truncate">{palette.name}</span>
+    <div className="flex -space-x-1 flex-shrink-0 ml-2">
+      {SWATCH_KEYS.map(key => (
+        <span
+          key={key}
+          title={`${key}: ${palette.theme[key]}`}
+          className="h-5 w-5 rounded-full border border-[#06070A]/20"
+          style={{ backgroundColor: palette.theme[key] }}
+        />
+      ))}
+    </div>
+  </div>
+);
+
+const ThemePanel = ({
+  currentTheme,
+  moodboardPalettes,
+  presets,
+  fontPairings,
+  hasOverride,
+  onSelectPalette,
+  onSelectFonts,
+  onReset,
+}: ThemePanelProps) => (
+  <div className="bg-white rounded-xl p-6 border border-[#06070A]/10 shadow-lg">
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Palette className="h-5 w-5 text-[#06070A]" />
+          <h3 className="text-lg font-light text-[#06070A]">Theme</h3>
+        </div>
+        {hasOverride && (
+          <div
+            className="cursor-pointer flex items-center text-xs font-light text-[#06070A]/60 hover:text-[#06070A]"
+            onClick={onReset}
+          >
+            <RotateCcw className="h-3 w-3 mr-1" />
+            Original
+          </div>
+        )}
+      </div>
+
+      {moodboardPalettes.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs font-light text-[#06070A]/60 flex items-center">
+            <Sparkles className="h-3 w-3 mr-1" />
+            From your moodboard
+          </p>
+          {moodboardPalettes.map(palette => (
+            <PaletteRow
+              key={palette.id}
+              palette={palette}
+              isActive={isSameColors(currentTheme, palette.theme)}
+              onSelect={() => onSelectPalette(palette)}
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <p className="text-xs font-light text-[#06070A]/60">Palettes</p>
+        {presets.map(palette => (
+          <PaletteRow
+            key={palette.id}
+            palette={palette}
+            isActive={isSameColors(currentTheme, palette.theme)}
+            onSelect={() => onSelectPalette(palette)}
+          />
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs font-light text-[#06070A]/60 flex items-center">
+          <Type className="h-3 w-3 mr-1" />
+          Fonts
+        </p>
+        {fontPairings.map(pairing => (
+          <div
+            key={pairing.id}
+            className={cn(
+              "cursor-pointer p-2 rounded-lg border transition-all duration-200",
+              currentTheme.headingFont === pairing.headingFont && currentTheme.bodyFont === pairing.bodyFont
+                ? "border-[#06070A]/40 bg-[#06070A]/5"
+                : "border-[#06070A]/10 hover:bg-[#06070A]/5"
+            )}
+            onClick={() => onSelectFonts(pairing)}
+          >
+            <p className="text-sm text-[#06070A] truncate" style={{ fontFamily: pairing.headingFont }}>{pairing.name}</p>
+            <p className="text-xs font-light text-[#06070A]/60 truncate" style={{ fontFamily: pairing.bodyFont }}>
+              The quick brown fox jumps over the lazy dog
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {!hasOverride && !currentTheme.primary && (
+        <p className="text-xs font-light text-[#06070A]/50">
+          This portfolio doesn't declare theme tokens, so theme changes may only partly apply
+        </p>
+      )}
+    </div>
+  </div>
+);
+
+export default ThemePanel;
@@ -0,0 +1,163 @@
+import { useState, useCallback } from 'react';
+
+// A single committed step in the editor history
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  html: string;
+  createdAt: string;
+}
+
+interface HistoryState {
+  entries: HistoryEntry[];
+  currentIndex: number;
+}
+
+const MAX_HISTORY_ENTRIES = 50;
+const STORAGE_PREFIX = 'portfolio-edit-history:';
+
+const createEntry = (label: string, html: string): HistoryEntry => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  label,
+  html,
+  createdAt: new Date().toISOString(),
+});
+
+// Keep the first entry (the original document) and the most recent steps
+const trimEntries = (entries: HistoryEntry[], maxEntries: number): HistoryEntry[] => {
+  if (entries.length <= maxEntries) return entries;
+  return [entries[0], ...entries.slice(entries.length - (maxEntries - 1))];
+};
+
+// Add a step after the current one, dropping any steps that were undone
+const appendEntry = (state: HistoryState, label: string, html: string): HistoryState => {
+  const kept = state.entries.slice(0, state.currentIndex + 1);
+  if (kept.length > 0 && kept[kept.length - 1].html === html) return state;
+
+  const entries = trimEntries([...kept, createEntry(label, html)], MAX_HISTORY_ENTRIES);
+  return {
+    entries,
+    currentIndex: entries.length - 1,
+  };
+};
+
+const isHistoryState = (value: unknown): value is HistoryState => {
+  const candidate = value as HistoryState;
+  return !!candidate &&
+    Array.isArray(candidate.entries) &&
+    candidate.entries.length > 0 &&
+    candidate.entries.every(entry => typeof entry?.html === 'string' && typeof entry?.label === 'string') &&
+    Number.isInteger(candidate.currentIndex) &&
+    candidate.currentIndex >= 0 &&
+    candidate.currentIndex < candidate.entries.length;
+};
+
+// Main hook
+export const useEditHistory = () => {
+  const [history, setHistory] = useState<HistoryState>({
+    entries: [],
+    currentIndex: -1,
+  });
+
+  // Start a fresh history from a base document
+  const resetHistory = useCallback((html: string, label = 'Original') => {
+    setHistory({
+      entries: [createEntry(label, html)],
+      currentIndex: 0,
+    });
+  }, []);
+
+  // Commit a new step, dropping any steps that were undone
+  const pushEntry = useCallback((label: string, html: string) => {
+    setHistory(prev => appendEntry(prev, label, html));
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(prev => prev.currentIndex > 0
+      ? { ...prev, currentIndex: prev.currentIndex - 1 }
+      : prev);
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(prev => prev.currentIndex < prev.entries.length - 1
+      ? { ...prev, currentIndex: prev.currentIndex + 1 }
+      : prev);
+  }, []);
+
+  // Jump straight to any step in the history
+  const goTo = useCallback((index: number) => {
+    setHistory(prev => index >= 0 && index < prev.entries.length
+      ? { ...prev, currentIndex: index }
+      : prev);
+  }, []);
+
+  // Persist the history under a key (e.g. a draft id) so it survives a reload. The HTML that was
+  // saved along with it is committed as the last step first, so the restored history ends on it
+  const saveHistory = useCallback((key: string, saved?: { label: string; html: string }): boolean => {
+    const state = saved ? appendEntry(history, saved.label, saved.html) : history;
+    if (state !== history) setHistory(state);
+
+    let entries = state.entries;
+    let currentIndex = state.currentIndex;
+
+    // Drop the oldest steps until the snapshot fits in storage
+    while (entries.length > 0) {
+      try {
+        localStorage.setItem(`${STORAGE_PREFIX}${key}`, JSON.stringify({ entries, currentIndex }));
+        return true;
+      } catch (error) {
+        if (entries.length <= 1) {
+          console.warn('Could not persist edit history:', error);
+          return false;
+        }
+        entries = trimEntries(entries, entries.length - 1);
+        currentIndex = Math.max(0, currentIndex - 1);
+      }
+    }
+
+    return false;
+  }, [history]);
+
+  // Restore a previously saved history, returns false if none was found
+  const loadHistory = useCallback((key: string): boolean => {
+    try {
+      const stored = localStorage.getItem(`${STORAGE_PREFIX}${key}`);
+      if (!stored) return false;
+
+      const parsed = JSON.parse(stored);
+      if (!isHistoryState(parsed)) return false;
+
+      setHistory(parsed);
+      return true;
+    } catch (error) {
+      console.warn('Could not restore edit history:', error);
+      return false;
+    }
+  }, []);
+
+  const currentEntry = history.entries[history.currentIndex] || null;
+  const canUndo = history.currentIndex > 0;
+  const canRedo = history.currentIndex < history.entries.length - 1;
+
+  return {
+    // History state
+    entries: history.entries,
+    currentIndex: history.currentIndex,
+    currentEntry,
+
+    // Actions
+    resetHistory,
+    pushEntry,
+    undo,
+    redo,
+    goTo,
+    saveHistory,
+    loadHistory,
+
+    // Computed values
+    canUndo,
+    canRedo,
+    undoLabel: canUndo ? currentEntry?.label : null,
+    redoLabel: canRedo ? history.entries[history.currentIndex + 1].label : null,
+  };
+};
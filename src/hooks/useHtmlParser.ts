@@ -1,5 +1,4 @@
 import { useState, useCallback, useMemo } from 'react';
-import { v4 as uuidv4 } from 'uuid';
 
 // Types for our parsed components
 export interface EditableElement {
@@ -24,6 +23,8 @@ export interface EditableElement {
     boxShadow?: string;
     transition?: string;
     textTransform?: string;
+    objectFit?: string;
+    objectPosition?: string;
   };
   attributes: Record<string, string>;
   children?: EditableElement[];
@@ -78,9 +79,11 @@ const detectComponentType = (element: HTMLElement): EditableElement['type'] => {
   return 'section'; // fallback
 };
 
-// Extract computed styles from element
-const extractStyles = (element: HTMLElement) => {
-  const computed = window.getComputedStyle(element);
+// Extract computed styles from element (uses the element's own window, so it
+// also works for elements rendered inside the preview iframe)
+export const extractStyles = (element: Element): EditableElement['styles'] => {
+  const view = element.ownerDocument?.defaultView || window;
+  const computed = view.getComputedStyle(element);
   return {
     color: computed.color,
     backgroundColor: computed.backgroundColor,
@@ -90,13 +93,164 @@ const extractStyles = (element: HTMLElement) => {
     padding: computed.padding,
     margin: computed.margin,
     borderRadius: computed.borderRadius,
-    textAlign: computed.textAlign as any,
+    textAlign: computed.textAlign,
+    fontStyle: computed.fontStyle,
+    letterSpacing: computed.letterSpacing,
+    lineHeight: computed.lineHeight,
+    boxShadow: computed.boxShadow,
+    textTransform: computed.textTransform,
+    objectFit: computed.objectFit,
+    objectPosition: computed.objectPosition,
   };
 };
 
+const EDITABLE_ID_PREFIX = 'editable-';
+const EDITABLE_ID_ATTRIBUTE = 'data-editable-id';
+
+// Build an id from the element's position under <body> in the source HTML; parsed components,
+// saved modifications and the API's scoped edits all resolve ids against the source
+const getSourceId = (element: Element): string | null => {
+  if (element.id) return element.id;
+
+  const path: number[] = [];
+  let current: Element | null = element;
+  while (current && current.parentElement && current.tagName.toLowerCase() !== 'body') {
+    path.unshift(Array.prototype.indexOf.call(current.parentElement.children, current));
+    current = current.parentElement;
+  }
+
+  if (!current || current.tagName.toLowerCase() !== 'body' || path.length === 0) return null;
+  return `${EDITABLE_ID_PREFIX}${path.join('-')}`;
+};
+
+// Stamp every element with its source id before the HTML is rendered, so scripts in the
+// preview that insert nodes (nav toggles, wrappers, edit indicators) can't shift what an id points at
+export const stampEditableIds = (htmlString: string): string => {
+  if (!htmlString) return htmlString;
+
+  try {
+    const doc = new DOMParser().parseFromString(htmlString, 'text/html');
+    doc.body?.querySelectorAll('*').forEach(element => {
+      const id = getSourceId(element);
+      if (id) element.setAttribute(EDITABLE_ID_ATTRIBUTE, id);
+    });
+    return serializeDocument(doc);
+  } catch (error) {
+    console.error('Failed to mark editable elements:', error);
+    return htmlString;
+  }
+};
+
+// The id of an element in the stamped preview; elements added at runtime have none
+export const getEditableId = (element: Element): string | null => element.getAttribute(EDITABLE_ID_ATTRIBUTE);
+
+// Resolve an id back to an element: by its stamp in the preview, or by id and position in the source HTML
+export const findElementByEditableId = (doc: Document, id: string): HTMLElement | null => {
+  if (doc.querySelector(`[${EDITABLE_ID_ATTRIBUTE}]`)) {
+    return doc.querySelector<HTMLElement>(`[${EDITABLE_ID_ATTRIBUTE}="${CSS.escape(id)}"]`);
+  }
+
+  const byId = doc.getElementById(id);
+  if (byId) return byId;
+  if (!id.startsWith(EDITABLE_ID_PREFIX) || !doc.body) return null;
+
+  const path = id.slice(EDITABLE_ID_PREFIX.length).split('-').map(Number);
+  if (path.some(index => Number.isNaN(index))) return null;
+
+  let current: Element | undefined = doc.body;
+  for (const index of path) {
+    current = current?.children[index];
+    if (!current) return null;
+  }
+  return current as HTMLElement;
+};
+
+// Find a parsed component anywhere in the tree
+const findComponent = (components: EditableElement[], id: string): EditableElement | null => {
+  for (const component of components) {
+    if (component.id === id) return component;
+    if (component.children) {
+      const match = findComponent(component.children, id);
+      if (match) return match;
+    }
+  }
+  return null;
+};
+
+// Write style changes onto an element, removing properties that were cleared
+export const applyStylesToElement = (element: HTMLElement, styles: EditableElement['styles']) => {
+  Object.entries(styles).forEach(([property, value]) => {
+    const cssProperty = property.replace(/[A-Z]/g, match => `-${match.toLowerCase()}`);
+    if (value) {
+      element.style.setProperty(cssProperty, value);
+    } else {
+      element.style.removeProperty(cssProperty);
+    }
+  });
+  if (!element.getAttribute('style')) {
+    element.removeAttribute('style');
+  }
+};
+
+// Write a set of modifications onto an element in a detached document
+const applyModification = (element: HTMLElement, changes: Partial<EditableElement>) => {
+  if (changes.attributes) {
+    Object.entries(changes.attributes).forEach(([name, value]) => {
+      if (value === null || value === undefined) {
+        element.removeAttribute(name);
+      } else {
+        element.setAttribute(name, value);
+      }
+    });
+  }
+
+  if (changes.styles) {
+    applyStylesToElement(element, changes.styles);
+  }
+
+  if (typeof changes.content === 'string' && changes.content !== (element.textContent?.trim() || '')) {
+    element.textContent = changes.content;
+  }
+};
+
+// Serialize a parsed document back into a full HTML string
+export const serializeDocument = (doc: Document): string => {
+  const doctype = doc.doctype ? `<!DOCTYPE ${doc.doctype.name}>\n` : '';
+  return `${doctype}${doc.documentElement.outerHTML}`;
+};
+
+// Apply a set of modifications to an HTML document and serialize the result
+export const applyModificationsToHtml = (
+  htmlString: string,
+  modifications: Record<string, Partial<EditableElement>>
+): string => {
+  const modifiedIds = Object.keys(modifications);
+  if (!htmlString || modifiedIds.length === 0) return htmlString;
+
+  try {
+    // Work on a fresh copy so the parsed components stay untouched
+    const parser = new DOMParser();
+    const doc = parser.parseFromString(htmlString, 'text/html');
+
+    modifiedIds.forEach(elementId => {
+      const element = findElementByEditableId(doc, elementId);
+      if (!element) {
+        console.warn(`Modified element not found in document: ${elementId}`);
+        return;
+      }
+      applyModification(element, modifications[elementId]);
+    });
+
+    return serializeDocument(doc);
+  } catch (error) {
+    console.error('Failed to apply modifications to HTML:', error);
+    return htmlString;
+  }
+};
+
 // Convert HTML element to our editable structure
-const parseElement = (element: HTMLElement): EditableElement => {
-  const id = element.id || `editable-${uuidv4()}`;
+const parseElement = (element: HTMLElement, path: number[]): EditableElement => {
+  const id = element.id || `${EDITABLE_ID_PREFIX}${path.join('-')}`;
   const type = detectComponentType(element);
   
   // Get all attributes
@@ -109,9 +263,12 @@ const parseElement = (element: HTMLElement): EditableElement => {
   // Parse children recursively, but only for sections
   let children: EditableElement[] | undefined;
   if (type === 'section' && element.children.length > 0) {
-    children = Array.from(element.children)
-      .filter(child => child instanceof HTMLElement)
-      .map(child => parseElement(child as HTMLElement));
+    children = [];
+    Array.from(element.children).forEach((child, index) => {
+      if (child instanceof HTMLElement) {
+        children.push(parseElement(child, [...path, index]));
+      }
+    });
   }
 
   return {
@@ -148,11 +305,11 @@ export const useHtmlParser = (htmlString: string) => {
       const editableElements: EditableElement[] = [];
 
       // Parse top-level elements in body
-      Array.from(body.children).forEach(element => {
+      Array.from(body.children).forEach((element, index) => {
         if (element instanceof HTMLElement) {
           // Skip script and style tags
           if (!['script', 'style', 'meta', 'link'].includes(element.tagName.toLowerCase())) {
-            editableElements.push(parseElement(element));
+            editableElements.push(parseElement(element, [index]));
           }
         }
       });
@@ -174,21 +331,27 @@ export const useHtmlParser = (htmlString: string) => {
 
   // Apply modifications to an element
   const modifyElement = useCallback((elementId: string, changes: Partial<EditableElement>) => {
-    setEditSession(prev => ({
-      ...prev,
-      modifications: {
-        ...prev.modifications,
-        [elementId]: {
-          ...prev.modifications[elementId],
-          ...changes,
+    setEditSession(prev => {
+      const existing = prev.modifications[elementId] || {};
+      const merged: Partial<EditableElement> = { ...existing, ...changes };
+
+      // Styles and attributes accumulate across edits instead of replacing each other
+      if (changes.styles) merged.styles = { ...existing.styles, ...changes.styles };
+      if (changes.attributes) merged.attributes = { ...existing.attributes, ...changes.attributes };
+
+      return {
+        ...prev,
+        modifications: {
+          ...prev.modifications,
+          [elementId]: merged,
         },
-      },
-    }));
+      };
+    });
   }, []);
 
   // Get the current state of an element (original + modifications)
   const getElementState = useCallback((elementId: string): EditableElement | null => {
-    const original = parsedComponents.find(comp => comp.id === elementId);
+    const original = findComponent(parsedComponents, elementId);
     if (!original) return null;
 
     const modifications = editSession.modifications[elementId];
@@ -201,6 +364,10 @@ export const useHtmlParser = (htmlString: string) => {
         ...original.styles,
         ...modifications.styles,
       },
+      attributes: {
+        ...original.attributes,
+        ...modifications.attributes,
+      },
     };
   }, [parsedComponents, editSession.modifications]);
 
@@ -215,9 +382,7 @@ export const useHtmlParser = (htmlString: string) => {
 
   // Generate modified HTML (for export/save)
   const generateModifiedHtml = useCallback(() => {
-    // This would rebuild the HTML with modifications applied
-    // For now, return original - we'll implement this later
-    return htmlString;
+    return applyModificationsToHtml(htmlString, editSession.modifications);
   }, [htmlString, editSession.modifications]);
 
   return {
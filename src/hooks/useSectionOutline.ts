@@ -0,0 +1,118 @@
+import { useMemo } from 'react';
+import { EditableElement, findElementByEditableId, serializeDocument } from './useHtmlParser';
+
+// A top-level block of the portfolio as shown in the outline panel
+export interface OutlineSection {
+  id: string;
+  label: string;
+  tagName: string;
+  hidden: boolean;
+}
+
+const HIDDEN_ATTRIBUTE = 'data-section-hidden';
+const NON_CONTENT_TAGS = ['script', 'style', 'link', 'meta', 'noscript', 'template'];
+
+const isContentComponent = (component: EditableElement) =>
+  !NON_CONTENT_TAGS.includes(component.tagName);
+
+const isContentElement = (element: Element) =>
+  !NON_CONTENT_TAGS.includes(element.tagName.toLowerCase());
+
+// Turn "featured-work" or "projectsSection" into "Featured work" / "Projects section"
+const humanize = (value: string): string => {
+  const words = value
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/[-_]+/g, ' ')
+    .trim()
+    .toLowerCase();
+  const label = words.charAt(0).toUpperCase() + words.slice(1);
+  return label.length > 32 ? `${label.slice(0, 32)}…` : label;
+};
+
+const getSectionLabel = (component: EditableElement): string => {
+  const { id, 'aria-label': ariaLabel, class: className } = component.attributes;
+  const heading = component.originalElement.querySelector('h1, h2, h3')?.textContent?.trim();
+  const name = id || ariaLabel || heading || className?.split(/\s+/)[0];
+  return name ? humanize(name) : `<${component.tagName}>`;
+};
+
+// Find the list of sections, looking through single wrappers such as <main> or a container div
+const getTopLevelSections = (components: EditableElement[]): EditableElement[] => {
+  let sections = components.filter(isContentComponent);
+  while (sections.length === 1 && sections[0].children && sections[0].children.filter(isContentComponent).length > 1) {
+    sections = sections[0].children.filter(isContentComponent);
+  }
+  return sections;
+};
+
+// Parse the document, run a change against one section and serialize the result
+const updateSection = (
+  htmlString: string,
+  sectionId: string,
+  change: (section: HTMLElement, siblings: Element[]) => void
+): string => {
+  try {
+    const doc = new DOMParser().parseFromString(htmlString, 'text/html');
+    const section = findElementByEditableId(doc, sectionId);
+    if (!section?.parentElement) return htmlString;
+
+    const siblings = Array.from(section.parentElement.children).filter(isContentElement);
+    change(section, siblings);
+    return serializeDocument(doc);
+  } catch (error) {
+    console.error('Failed to update section:', error);
+    return htmlString;
+  }
+};
+
+// Move a section to a new position among its sibling sections
+export const moveSection = (htmlString: string, sectionId: string, toIndex: number): string =>
+  updateSection(htmlString, sectionId, (section, siblings) => {
+    const fromIndex = siblings.indexOf(section);
+    const target = siblings[toIndex];
+    if (!target || fromIndex === toIndex) return;
+
+    if (toIndex > fromIndex) {
+      target.after(section);
+    } else {
+      target.before(section);
+    }
+  });
+
+// Insert a copy of a section right after it, renaming ids so they stay unique
+export const duplicateSection = (htmlString: string, sectionId: string): string =>
+  updateSection(htmlString, sectionId, (section) => {
+    const copy = section.cloneNode(true) as HTMLElement;
+    [copy, ...Array.from(copy.querySelectorAll('[id]'))].forEach(element => {
+      if (element.id) element.id = `${element.id}-copy`;
+    });
+    section.after(copy);
+  });
+
+export const removeSection = (htmlString: string, sectionId: string): string =>
+  updateSection(htmlString, sectionId, (section) => {
+    section.remove();
+  });
+
+// Hidden sections stay in the document so they can be shown again later
+export const toggleSectionVisibility = (htmlString: string, sectionId: string): string =>
+  updateSection(htmlString, sectionId, (section) => {
+    if (section.hasAttribute(HIDDEN_ATTRIBUTE)) {
+      section.removeAttribute(HIDDEN_ATTRIBUTE);
+      section.style.removeProperty('display');
+      if (!section.getAttribute('style')) section.removeAttribute('style');
+    } else {
+      section.setAttribute(HIDDEN_ATTRIBUTE, 'true');
+      section.style.setProperty('display', 'none', 'important');
+    }
+  });
+
+// Main hook
+export const useSectionOutline = (parsedComponents: EditableElement[]): OutlineSection[] => {
+  return useMemo(() => getTopLevelSections(parsedComponents).map(component => ({
+    id: component.id,
+    label: getSectionLabel(component),
+    tagName: component.tagName,
+    hidden: HIDDEN_ATTRIBUTE in component.attributes,
+  })), [parsedComponents]);
+};
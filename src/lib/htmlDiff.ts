@@ -0,0 +1,397 @@
+import { serializeDocument } from '@/hooks/useHtmlParser';
+
+// A single reviewable change between two versions of a portfolio
+export interface DiffHunk {
+  id: string;
+  target: 'element' | 'css';
+  kind: 'added' | 'removed' | 'changed';
+  label: string;
+  before: string;
+  after: string;
+}
+
+interface CssRule {
+  key: string;
+  text: string;
+}
+
+interface ElementChange {
+  hunk: DiffHunk;
+  apply: (inserted: Map<Node, Node>) => void;
+}
+
+interface StylesheetChange {
+  hunk: DiffHunk;
+  styleIndex: number;
+  ruleKey: string | null;
+}
+
+const PREVIEW_LENGTH = 600;
+
+const truncate = (value: string, length = PREVIEW_LENGTH) =>
+  value.length > length ? `${value.slice(0, length)}…` : value;
+
+const normalizeWhitespace = (value: string) => value.replace(/\s+/g, ' ').trim();
+
+// "<section#about.hero>" style description of an element
+const describeElement = (element: Element): string => {
+  const id = element.id ? `#${element.id}` : '';
+  const className = element.classList.length > 0 ? `.${Array.from(element.classList).slice(0, 2).join('.')}` : '';
+  const text = normalizeWhitespace(element.textContent || '');
+  const snippet = text ? ` "${truncate(text, 40)}"` : '';
+  return `<${element.tagName.toLowerCase()}${id}${className}>${snippet}`;
+};
+
+// Elements are aligned on tag, id and classes so edits inside them show up as changes
+const signature = (element: Element) =>
+  `${element.tagName}#${element.id}.${Array.from(element.classList).sort().join('.')}`;
+
+// Tag, attributes and direct text, ignoring child elements
+const shallowSignature = (element: Element) => {
+  const attributes = Array.from(element.attributes)
+    .map(attribute => `${attribute.name}=${attribute.value}`)
+    .sort()
+    .join(' ');
+  const text = Array.from(element.childNodes)
+    .filter(node => node.nodeType === Node.TEXT_NODE)
+    .map(node => normalizeWhitespace(node.textContent || ''))
+    .join(' ');
+  return `${element.tagName} ${attributes} ${text}`;
+};
+
+// Longest common subsequence of two element lists, as index pairs
+const alignElements = (before: Element[], after: Element[]): Array<[number, number]> => {
+  const lengths = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = signature(before[i]) === signature(after[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const pairs: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (signature(before[i]) === signature(after[j])) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+};
+
+// Split a stylesheet into top-level rules; @media and other blocks are kept whole
+const parseCssRules = (css: string): CssRule[] => {
+  const source = css.replace(/\/\*[\s\S]*?\*\//g, '');
+  const rules: CssRule[] = [];
+  const occurrences = new Map<string, number>();
+  let index = 0;
+
+  const addRule = (selector: string, text: string) => {
+    const name = normalizeWhitespace(selector);
+    const count = occurrences.get(name) || 0;
+    occurrences.set(name, count + 1);
+    rules.push({ key: count === 0 ? name : `${name} (${count + 1})`, text: text.trim() });
+  };
+
+  while (index < source.length) {
+    const brace = source.indexOf('{', index);
+    const semicolon = source.indexOf(';', index);
+
+    // Statements such as @import end with a semicolon instead of a block
+    if (semicolon !== -1 && (brace === -1 || semicolon < brace)) {
+      const statement = source.slice(index, semicolon + 1);
+      if (statement.trim()) addRule(statement.replace(/;$/, ''), statement);
+      index = semicolon + 1;
+      continue;
+    }
+    if (brace === -1) break;
+
+    let depth = 1;
+    let end = brace + 1;
+    while (end < source.length && depth > 0) {
+      if (source[end] === '{') depth++;
+      if (source[end] === '}') depth--;
+      end++;
+    }
+
+    addRule(source.slice(index, brace), source.slice(index, end));
+    index = end;
+  }
+
+  return rules;
+};
+
+const getHeadStyles = (doc: Document) =>
+  Array.from(doc.head?.children || []).filter(element => element.tagName === 'STYLE');
+
+// Compute the element and stylesheet changes between two parsed documents
+const compareDocuments = (beforeDoc: Document, afterDoc: Document) => {
+  const elementChanges: ElementChange[] = [];
+  const stylesheetChanges: StylesheetChange[] = [];
+  let nextId = 0;
+  const createHunk = (hunk: Omit<DiffHunk, 'id'>): DiffHunk => ({ id: `hunk-${nextId++}`, ...hunk });
+
+  const compareChildren = (beforeParent: Element, afterParent: Element, skipStyles: boolean) => {
+    const isComparable = (element: Element) => !(skipStyles && element.tagName === 'STYLE');
+    const beforeChildren = Array.from(beforeParent.children).filter(isComparable);
+    const afterChildren = Array.from(afterParent.children).filter(isComparable);
+    const pairs = alignElements(beforeChildren, afterChildren);
+
+    let beforeIndex = 0;
+    let afterIndex = 0;
+    let anchor: Element | null = null;
+
+    [...pairs, [beforeChildren.length, afterChildren.length] as [number, number]].forEach(([matchedBefore, matchedAfter]) => {
+      for (; beforeIndex < matchedBefore; beforeIndex++) {
+        const removed = beforeChildren[beforeIndex];
+        elementChanges.push({
+          hunk: createHunk({
+            target: 'element',
+            kind: 'removed',
+            label: `Removed ${describeElement(removed)}`,
+            before: truncate(removed.outerHTML),
+            after: '',
+          }),
+          apply: () => removed.remove(),
+        });
+      }
+
+      for (; afterIndex < matchedAfter; afterIndex++) {
+        const added = afterChildren[afterIndex];
+        const insertAfter = anchor;
+        elementChanges.push({
+          hunk: createHunk({
+            target: 'element',
+            kind: 'added',
+            label: `Added ${describeElement(added)}`,
+            before: '',
+            after: truncate(added.outerHTML),
+          }),
+          apply: (inserted) => {
+            // Consecutive additions after the same anchor keep their order
+            const key = insertAfter || beforeParent;
+            const copy = beforeDoc.importNode(added, true);
+            const previous = inserted.get(key);
+            if (previous) {
+              (previous as Element).after(copy);
+            } else if (insertAfter) {
+              insertAfter.after(copy);
+            } else {
+              beforeParent.prepend(copy);
+            }
+            inserted.set(key, copy);
+          },
+        });
+      }
+
+      if (matchedBefore >= beforeChildren.length) return;
+
+      const beforeElement = beforeChildren[matchedBefore];
+      const afterElement = afterChildren[matchedAfter];
+      anchor = beforeElement;
+      beforeIndex = matchedBefore + 1;
+      afterIndex = matchedAfter + 1;
+
+      if (beforeElement.outerHTML === afterElement.outerHTML) return;
+
+      // Descend while only the children differ, so the hunk is as small as possible
+      if (shallowSignature(beforeElement) === shallowSignature(afterElement) &&
+          beforeElement.children.length > 0 && afterElement.children.length > 0) {
+        compareChildren(beforeElement, afterElement, false);
+        return;
+      }
+
+      elementChanges.push({
+        hunk: createHunk({
+          target: 'element',
+          kind: 'changed',
+          label: `Changed ${describeElement(beforeElement)}`,
+          before: truncate(beforeElement.outerHTML),
+          after: truncate(afterElement.outerHTML),
+        }),
+        apply: () => beforeElement.replaceWith(beforeDoc.importNode(afterElement, true)),
+      });
+    });
+  };
+
+  if (beforeDoc.head && afterDoc.head) compareChildren(beforeDoc.head, afterDoc.head, true);
+
+  // Stylesheets in <head> are compared rule by rule
+  const beforeStyles = getHeadStyles(beforeDoc);
+  const afterStyles = getHeadStyles(afterDoc);
+  afterStyles.forEach((afterStyle, styleIndex) => {
+    const beforeStyle = beforeStyles[styleIndex];
+    if (!beforeStyle) {
+      stylesheetChanges.push({
+        hunk: createHunk({
+          target: 'css',
+          kind: 'added',
+          label: 'Added stylesheet',
+          before: '',
+          after: truncate(afterStyle.textContent || ''),
+        }),
+        styleIndex,
+        ruleKey: null,
+      });
+      return;
+    }
+    if (beforeStyle.textContent === afterStyle.textContent) return;
+
+    const beforeRules = parseCssRules(beforeStyle.textContent || '');
+    const afterRules = parseCssRules(afterStyle.textContent || '');
+    const beforeByKey = new Map(beforeRules.map(rule => [rule.key, rule]));
+    const afterByKey = new Map(afterRules.map(rule => [rule.key, rule]));
+
+    beforeRules.forEach(rule => {
+      const afterRule = afterByKey.get(rule.key);
+      if (afterRule && normalizeWhitespace(afterRule.text) === normalizeWhitespace(rule.text)) return;
+      stylesheetChanges.push({
+        hunk: createHunk({
+          target: 'css',
+          kind: afterRule ? 'changed' : 'removed',
+          label: `${afterRule ? 'Changed' : 'Removed'} rule ${truncate(rule.key, 60)}`,
+          before: truncate(rule.text),
+          after: afterRule ? truncate(afterRule.text) : '',
+        }),
+        styleIndex,
+        ruleKey: rule.key,
+      });
+    });
+
+    afterRules.forEach(rule => {
+      if (beforeByKey.has(rule.key)) return;
+      stylesheetChanges.push({
+        hunk: createHunk({
+          target: 'css',
+          kind: 'added',
+          label: `Added rule ${truncate(rule.key, 60)}`,
+          before: '',
+          after: truncate(rule.text),
+        }),
+        styleIndex,
+        ruleKey: rule.key,
+      });
+    });
+  });
+
+  beforeStyles.slice(afterStyles.length).forEach((beforeStyle, offset) => {
+    stylesheetChanges.push({
+      hunk: createHunk({
+        target: 'css',
+        kind: 'removed',
+        label: 'Removed stylesheet',
+        before: truncate(beforeStyle.textContent || ''),
+        after: '',
+      }),
+      styleIndex: afterStyles.length + offset,
+      ruleKey: null,
+    });
+  });
+
+  if (beforeDoc.body && afterDoc.body) compareChildren(beforeDoc.body, afterDoc.body, false);
+
+  return { elementChanges, stylesheetChanges };
+};
+
+// Rebuild one stylesheet keeping only the accepted rule changes
+const mergeStylesheet = (beforeCss: string, afterCss: string, acceptedKeys: Set<string>): string => {
+  const beforeRules = parseCssRules(beforeCss);
+  const afterRules = parseCssRules(afterCss);
+  const beforeKeys = new Set(beforeRules.map(rule => rule.key));
+  const afterByKey = new Map(afterRules.map(rule => [rule.key, rule]));
+
+  // Added rules are placed after the closest preceding rule that also exists in the original
+  const additions = new Map<string | null, string[]>();
+  let anchor: string | null = null;
+  afterRules.forEach(rule => {
+    if (beforeKeys.has(rule.key)) {
+      anchor = rule.key;
+    } else if (acceptedKeys.has(rule.key)) {
+      additions.set(anchor, [...(additions.get(anchor) || []), rule.text]);
+    }
+  });
+
+  const merged: string[] = [...(additions.get(null) || [])];
+  beforeRules.forEach(rule => {
+    const afterRule = afterByKey.get(rule.key);
+    if (!acceptedKeys.has(rule.key)) {
+      merged.push(rule.text);
+    } else if (afterRule) {
+      merged.push(afterRule.text);
+    }
+    merged.push(...(additions.get(rule.key) || []));
+  });
+
+  return `\n${merged.join('\n')}\n`;
+};
+
+// List the changes an AI edit made, for review before it is applied
+export const diffHtml = (beforeHtml: string, afterHtml: string): DiffHunk[] => {
+  const parser = new DOMParser();
+  const { elementChanges, stylesheetChanges } = compareDocuments(
+    parser.parseFromString(beforeHtml, 'text/html'),
+    parser.parseFromString(afterHtml, 'text/html')
+  );
+  return [...stylesheetChanges, ...elementChanges]
+    .map(change => change.hunk)
+    .sort((a, b) => Number(a.id.slice(5)) - Number(b.id.slice(5)));
+};
+
+// Apply only the accepted changes from afterHtml on top of beforeHtml
+export const mergeHtmlDiff = (beforeHtml: string, afterHtml: string, acceptedIds: string[]): string => {
+  const parser = new DOMParser();
+  const beforeDoc = parser.parseFromString(beforeHtml, 'text/html');
+  const afterDoc = parser.parseFromString(afterHtml, 'text/html');
+  const { elementChanges, stylesheetChanges } = compareDocuments(beforeDoc, afterDoc);
+
+  const accepted = new Set(acceptedIds);
+  const totalChanges = elementChanges.length + stylesheetChanges.length;
+  if (accepted.size === 0) return beforeHtml;
+  if (totalChanges > 0 && [...elementChanges, ...stylesheetChanges].every(change => accepted.has(change.hunk.id))) {
+    return afterHtml;
+  }
+
+  // Stylesheets first, while the head still lines up with the diff
+  const beforeStyles = getHeadStyles(beforeDoc);
+  const afterStyles = getHeadStyles(afterDoc);
+  const acceptedRuleKeys = new Map<number, Set<string>>();
+  stylesheetChanges.filter(change => accepted.has(change.hunk.id)).forEach(change => {
+    if (change.ruleKey === null) {
+      if (change.hunk.kind === 'added') {
+        beforeDoc.head.appendChild(beforeDoc.importNode(afterStyles[change.styleIndex], true));
+      } else {
+        beforeStyles[change.styleIndex]?.remove();
+      }
+      return;
+    }
+    const keys = acceptedRuleKeys.get(change.styleIndex) || new Set<string>();
+    keys.add(change.ruleKey);
+    acceptedRuleKeys.set(change.styleIndex, keys);
+  });
+  acceptedRuleKeys.forEach((keys, styleIndex) => {
+    beforeStyles[styleIndex].textContent = mergeStylesheet(
+      beforeStyles[styleIndex].textContent || '',
+      afterStyles[styleIndex].textContent || '',
+      keys
+    );
+  });
+
+  // Insert additions before replacing or removing the elements they are anchored to
+  const acceptedElements = elementChanges.filter(change => accepted.has(change.hunk.id));
+  const inserted = new Map<Node, Node>();
+  ['added', 'changed', 'removed'].forEach(kind => {
+    acceptedElements
+      .filter(change => change.hunk.kind === kind)
+      .forEach(change => change.apply(inserted));
+  });
+
+  return serializeDocument(beforeDoc);
+};
@@ -0,0 +1,32 @@
+// Preview the prefers-color-scheme and prefers-reduced-motion variants of a portfolio.
+// An iframe can't override the visitor's media features, so the queries themselves are rewritten
+// into conditions that always or never match. Only the preview document changes, never the saved HTML.
+
+export type PreviewColorScheme = 'system' | 'light' | 'dark';
+
+export interface PreviewMediaOptions {
+  colorScheme: PreviewColorScheme;
+  reducedMotion: boolean;
+}
+
+const ALWAYS = '(min-width: 0px)';
+const NEVER = '(max-width: 0px)';
+
+const COLOR_SCHEME_QUERY = /\(\s*prefers-color-scheme\s*:\s*(light|dark)\s*\)/gi;
+// "(prefers-reduced-motion)" on its own means reduce
+const REDUCED_MOTION_QUERY = /\(\s*prefers-reduced-motion\s*(?::\s*(reduce|no-preference)\s*)?\)/gi;
+
+export const emulateMediaFeatures = (html: string, { colorScheme, reducedMotion }: PreviewMediaOptions): string => {
+  let result = html;
+
+  if (colorScheme !== 'system') {
+    result = result.replace(COLOR_SCHEME_QUERY, (_, scheme: string) =>
+      scheme.toLowerCase() === colorScheme ? ALWAYS : NEVER
+    );
+  }
+
+  // Full motion is shown as "no-preference" so the preview doesn't depend on the editor's own setting
+  return result.replace(REDUCED_MOTION_QUERY, (_, value?: string) =>
+    (value?.toLowerCase() !== 'no-preference') === reducedMotion ? ALWAYS : NEVER
+  );
+};
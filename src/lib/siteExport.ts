@@ -0,0 +1,236 @@
+// Offline ZIP export, built in the browser: every page with the images, stylesheets, fonts and scripts it loads
+// saved next to it and the references rewritten to those copies, so the site opens from file:// with no network.
+// Files the browser can't fetch (no CORS, offline) keep their URL and are listed in the README.
+
+import JSZip from 'jszip';
+import { HOME_PAGE, type SitePages } from '@/lib/sitePages';
+
+export interface OfflineExport {
+  blob: Blob;
+  fileName: string;
+  fileCount: number;
+  // URLs that still point at the web
+  missing: string[];
+}
+
+const FOLDERS = {
+  image: 'images',
+  style: 'css',
+  font: 'fonts',
+  script: 'js',
+} as const;
+
+type AssetKind = keyof typeof FOLDERS;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'image/svg+xml': 'svg',
+  'font/woff2': 'woff2',
+  'font/woff': 'woff',
+  'font/ttf': 'ttf',
+  'font/otf': 'otf',
+  'text/css': 'css',
+  'text/javascript': 'js',
+  'application/javascript': 'js',
+};
+
+// url(...) in CSS, and @import with or without url(); quoted strings only count after @import
+const CSS_REFERENCE_PATTERN = /(@import\s+)?(?:url\(\s*(['"]?)([^'")]+)\2\s*\)|(['"])([^'"]+)\4)/g;
+
+const isRemote = (url: string) => /^(https?:)?\/\//i.test(url.trim());
+
+const kindOf = (url: string): AssetKind => {
+  const extension = new URL(url).pathname.split('.').pop()?.toLowerCase() || '';
+  if (['woff2', 'woff', 'ttf', 'otf', 'eot'].includes(extension)) return 'font';
+  if (extension === 'css') return 'style';
+  if (['js', 'mjs'].includes(extension)) return 'script';
+  return 'image';
+};
+
+const replaceAsync = async (text: string, pattern: RegExp, replacer: (match: RegExpMatchArray) => Promise<string>) => {
+  const replacements = await Promise.all(Array.from(text.matchAll(pattern), replacer));
+  let index = 0;
+  return text.replace(pattern, () => replacements[index++]);
+};
+
+// Downloads each URL once into its folder; resolves to the path in the archive, or null when it can't be fetched
+const createAssetStore = (zip: JSZip) => {
+  const downloads = new Map<string, Promise<string | null>>();
+  const usedPaths = new Set<string>();
+
+  const archivePath = (url: string, kind: AssetKind, contentType: string) => {
+    const baseName = decodeURIComponent(new URL(url).pathname.split('/').pop() || '')
+      .toLowerCase()
+      .replace(/[^a-z0-9._-]+/g, '-')
+      .replace(/^[-.]+|-+$/g, '') || kind;
+    const extension = EXTENSIONS[contentType.split(';')[0].trim()];
+    const fileName = /\.[a-z0-9]{2,5}$/.test(baseName) || !extension ? baseName : `${baseName}.${extension}`;
+
+    let path = `${FOLDERS[kind]}/${fileName}`;
+    for (let copy = 2; usedPaths.has(path); copy++) {
+      path = `${FOLDERS[kind]}/${fileName.replace(/(\.[a-z0-9]+)?$/, `-${copy}$1`)}`;
+    }
+    usedPaths.add(path);
+    return path;
+  };
+
+  const download = async (url: string, kind: AssetKind): Promise<string | null> => {
+    try {
+      const response = await fetch(url, { mode: 'cors' });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+      const path = archivePath(url, kind, response.headers.get('Content-Type') || '');
+      // Stylesheets bring their own fonts and images, referenced from css/
+      zip.file(path, kind === 'style'
+        ? await rewriteCss(await response.text(), url, '../', save)
+        : await response.arrayBuffer());
+      return path;
+    } catch (error) {
+      console.warn(`Could not bundle ${url}:`, error);
+      return null;
+    }
+  };
+
+  const save = (url: string, kind?: AssetKind): Promise<string | null> => {
+    // Protocol-relative URLs (//fonts.googleapis.com/...) are fetched over HTTPS
+    const absolute = new URL(url.trim(), 'https://site.invalid/').href;
+    if (!downloads.has(absolute)) {
+      downloads.set(absolute, download(absolute, kind || kindOf(absolute)));
+    }
+    return downloads.get(absolute)!;
+  };
+
+  const missing = async () => {
+    const paths = await Promise.all(downloads.values());
+    return Array.from(downloads.keys()).filter((_, index) => paths[index] === null);
+  };
+
+  return { save, missing };
+};
+
+type SaveAsset = ReturnType<typeof createAssetStore>['save'];
+
+// References in a downloaded stylesheet are resolved against its URL, those in a page's own CSS (baseUrl null)
+// stay as they are unless remote; prefix leads from the CSS back to the site root
+const rewriteCss = (css: string, baseUrl: string | null, prefix: string, save: SaveAsset) =>
+  replaceAsync(css, CSS_REFERENCE_PATTERN, async (match) => {
+    const [whole, importRule, , urlValue, , quotedValue] = match;
+    if (!importRule && urlValue === undefined) return whole;
+
+    const reference = (urlValue ?? quotedValue).trim();
+    if (reference.startsWith('#')) return whole;
+    const url = baseUrl ? new URL(reference, baseUrl).href : reference;
+    if (!isRemote(url)) return whole;
+
+    const path = await save(url, importRule ? 'style' : undefined);
+    return path ? `${importRule || ''}url("${prefix}${path}")` : whole;
+  });
+
+const rewriteSrcset = async (srcset: string, localUrl: (url: string) => Promise<string>) =>
+  (await Promise.all(srcset.split(/(\s+)/).map(async (token) => {
+    const [, leading, url, trailing] = token.match(/^(,*)(.*?)(,*)$/) || [];
+    return url && isRemote(url) ? `${leading}${await localUrl(url)}${trailing}` : token;
+  }))).join('');
+
+const exportPage = async (html: string, pagePath: string, save: SaveAsset) => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const prefix = '../'.repeat(pagePath.split('/').length - 1);
+
+  const localUrl = async (url: string, kind?: AssetKind) => {
+    if (!isRemote(url)) return url;
+    const path = await save(url, kind);
+    return path ? `${prefix}${path}` : url;
+  };
+
+  const rewriteAttribute = (selector: string, attribute: string, kind?: AssetKind) =>
+    Array.from(doc.querySelectorAll(selector), async (element) => {
+      const value = element.getAttribute(attribute) || '';
+      const rewritten = attribute === 'srcset' ? await rewriteSrcset(value, url => localUrl(url, kind)) : await localUrl(value, kind);
+      if (rewritten !== value) {
+        element.setAttribute(attribute, rewritten);
+        // file:// pages can't make CORS requests, which crossorigin asks for
+        element.removeAttribute('crossorigin');
+        element.removeAttribute('integrity');
+      }
+    });
+
+  await Promise.all([
+    ...rewriteAttribute('img[src], picture source[src]', 'src', 'image'),
+    ...rewriteAttribute('img[srcset], picture source[srcset]', 'srcset', 'image'),
+    ...rewriteAttribute('video[poster]', 'poster', 'image'),
+    ...rewriteAttribute('link[rel~="icon"][href], link[rel="apple-touch-icon"][href]', 'href', 'image'),
+    ...rewriteAttribute('link[rel="stylesheet"][href]', 'href', 'style'),
+    ...rewriteAttribute('script[src]', 'src', 'script'),
+    ...Array.from(doc.querySelectorAll('style'), async (style) => {
+      style.textContent = await rewriteCss(style.textContent || '', null, prefix, save);
+    }),
+    ...Array.from(doc.querySelectorAll('[style]'), async (element) => {
+      element.setAttribute('style', await rewriteCss(element.getAttribute('style') || '', null, prefix, save));
+    }),
+  ]);
+
+  // Hints for servers that are not there offline
+  doc.querySelectorAll('link[rel="preconnect"], link[rel="dns-prefetch"]').forEach(link => link.remove());
+
+  return `<!DOCTYPE html>\n${doc.documentElement.outerHTML}`;
+};
+
+const buildReadme = (personName: string, pagePaths: string[], zip: JSZip, missing: string[]) => {
+  const folders = Object.entries({
+    images: 'photos and graphics',
+    css: 'stylesheets',
+    fonts: 'web fonts',
+    js: 'scripts',
+  }).filter(([folder]) => Object.keys(zip.files).some(path => path.startsWith(`${folder}/`)));
+
+  return [
+    `# ${personName ? `${personName}'s` : 'My'} Portfolio`,
+    '',
+    `Exported on ${new Date().toLocaleDateString()}. Open \`index.html\` in a browser to view the site; everything it needs is in this folder, so it works offline.`,
+    '',
+    '## Contents',
+    '',
+    ...pagePaths.map(path => `- \`${path}\``),
+    ...folders.map(([folder, description]) => `- \`${folder}/\` - ${description}`),
+    '',
+    '## Publishing',
+    '',
+    "Upload the folder's contents to any static host (Netlify Drop, GitHub Pages, Cloudflare Pages, an S3 bucket...). Keep the folder structure as it is: pages link to each other and to their files with relative paths.",
+    ...(missing.length > 0 ? [
+      '',
+      '## Still loaded from the web',
+      '',
+      "These files couldn't be downloaded when exporting, so they only show up with an internet connection:",
+      '',
+      ...missing.map(url => `- ${url}`),
+    ] : []),
+    '',
+  ].join('\n');
+};
+
+// The home page plus the site's other pages, already themed (see buildSitePages)
+export const buildOfflineZip = async (homeHtml: string, pages: SitePages, personName = ''): Promise<OfflineExport> => {
+  const zip = new JSZip();
+  const { save, missing } = createAssetStore(zip);
+  const sitePages: SitePages = { [HOME_PAGE]: homeHtml, ...pages };
+
+  const exported = await Promise.all(
+    Object.entries(sitePages).map(async ([path, html]) => [path, await exportPage(html, path, save)] as const)
+  );
+  exported.forEach(([path, html]) => zip.file(path, html));
+
+  const missingUrls = await missing();
+  zip.file('README.md', buildReadme(personName, Object.keys(sitePages), zip, missingUrls));
+
+  const slug = personName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return {
+    blob: await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' }),
+    fileName: `${slug || 'my'}-portfolio.zip`,
+    fileCount: Object.values(zip.files).filter(file => !file.dir).length,
+    missing: missingUrls,
+  };
+};
@@ -0,0 +1,37 @@
+// Multi-page portfolios: the home page plus case study and blog pages keyed by site path,
+// e.g. "projects/brand-refresh.html" or "blog/index.html" (see api/services/siteBuilder.js).
+// Preview edits the home page; the other pages follow its theme when previewed and deployed.
+
+import { copyThemeOverride } from '@/lib/themeTokens';
+
+export type SitePages = Record<string, string>;
+
+export const HOME_PAGE = 'index.html';
+
+export interface SitePage {
+  path: string;
+  title: string;
+}
+
+// Site pages with the theme picked for the home page
+export const buildSitePages = (homeHtml: string, pages: SitePages): SitePages =>
+  Object.fromEntries(
+    Object.entries(pages).map(([path, html]) => [path, copyThemeOverride(homeHtml, html)])
+  );
+
+// Pages in site order, titled by their main heading
+export const listSitePages = (pages: SitePages): SitePage[] => {
+  const parser = new DOMParser();
+  return Object.entries(pages).map(([path, html]) => ({
+    path,
+    title: parser.parseFromString(html, 'text/html').querySelector('h1')?.textContent?.trim() || path,
+  }));
+};
+
+// Site path a link on a page points to; null for external links and anchors on the same page
+export const resolveSitePath = (fromPath: string, href: string): string | null => {
+  if (!href || href.startsWith('#') || /^([a-z][a-z0-9+.-]*:|\/\/)/i.test(href)) return null;
+
+  const path = new URL(href, `https://site.invalid/${fromPath}`).pathname.replace(/^\//, '');
+  return path === '' ? HOME_PAGE : decodeURIComponent(path);
+};
@@ -0,0 +1,181 @@
+// Theme tokens every portfolio declares for its palette and fonts. Reading them and the colour maths
+// are the API's own (api/utils/themeTokens.js), so Preview and generation agree on the values.
+// Preview swaps them by appending an override block, so the generated styles are never rewritten.
+
+import sharedThemeTokens from '../../api/utils/themeTokens.js';
+
+export interface ThemeTokens {
+  primary: string;
+  accent: string;
+  background: string;
+  text: string;
+  headingFont: string;
+  bodyFont: string;
+}
+
+export type ThemeColors = Pick<ThemeTokens, 'primary' | 'accent' | 'background' | 'text'>;
+
+// Palette as offered by the theme panel; the API sends moodboard palettes in metadata.themePalettes
+export interface ThemePalette {
+  id: string;
+  name: string;
+  theme: ThemeColors & Partial<ThemeTokens>;
+}
+
+export interface FontPairing {
+  id: string;
+  name: string;
+  headingFont: string;
+  bodyFont: string;
+  // Google Fonts css2 "family" parameters, loaded alongside the override
+  googleFonts?: string[];
+}
+
+// The parts of the API module Preview uses
+interface SharedThemeTokens {
+  variables: Record<keyof ThemeTokens, string>;
+  readTheme: (html: string) => Partial<ThemeTokens>;
+  buildSchemeVariant: (theme: Partial<ThemeTokens>) => { scheme: 'dark' | 'light'; theme: ThemeTokens };
+}
+
+const themeTokens = sharedThemeTokens as SharedThemeTokens;
+
+export const THEME_VARIABLES = themeTokens.variables;
+
+export const THEME_PRESETS: ThemePalette[] = [
+  { id: 'paper', name: 'Paper', theme: { primary: '#1a1a1a', accent: '#c4472b', background: '#f7f5f1', text: '#1a1a1a' } },
+  { id: 'midnight', name: 'Midnight', theme: { primary: '#e8e6e3', accent: '#8b9cff', background: '#0f1115', text: '#e8e6e3' } },
+  { id: 'forest', name: 'Forest', theme: { primary: '#2f4a3a', accent: '#b4883e', background: '#f3f1ea', text: '#1f2a24' } },
+  { id: 'ocean', name: 'Ocean', theme: { primary: '#1d4e89', accent: '#e07a5f', background: '#f4f8fb', text: '#13212f' } },
+  { id: 'terracotta', name: 'Terracotta', theme: { primary: '#9c3d1f', accent: '#3d6b6b', background: '#fbf4ec', text: '#2b1d16' } },
+  { id: 'mono', name: 'Mono', theme: { primary: '#000000', accent: '#000000', background: '#ffffff', text: '#000000' } },
+];
+
+export const FONT_PAIRINGS: FontPairing[] = [
+  {
+    id: 'editorial',
+    name: 'Playfair Display / Source Sans',
+    headingFont: "'Playfair Display', Georgia, serif",
+    bodyFont: "'Source Sans 3', 'Helvetica Neue', Arial, sans-serif",
+    googleFonts: ['Playfair+Display:wght@400;700', 'Source+Sans+3:wght@300;400;600'],
+  },
+  {
+    id: 'modern',
+    name: 'Inter',
+    headingFont: "'Inter', 'Helvetica Neue', Arial, sans-serif",
+    bodyFont: "'Inter', 'Helvetica Neue', Arial, sans-serif",
+    googleFonts: ['Inter:wght@300;400;600;700'],
+  },
+  {
+    id: 'classic',
+    name: 'Cormorant / Lato',
+    headingFont: "'Cormorant Garamond', Georgia, serif",
+    bodyFont: "'Lato', 'Helvetica Neue', Arial, sans-serif",
+    googleFonts: ['Cormorant+Garamond:wght@400;600', 'Lato:wght@300;400;700'],
+  },
+  {
+    id: 'geometric',
+    name: 'Space Grotesk / IBM Plex Sans',
+    headingFont: "'Space Grotesk', 'Helvetica Neue', Arial, sans-serif",
+    bodyFont: "'IBM Plex Sans', 'Helvetica Neue', Arial, sans-serif",
+    googleFonts: ['Space+Grotesk:wght@400;600;700', 'IBM+Plex+Sans:wght@300;400;600'],
+  },
+  {
+    id: 'system',
+    name: 'System fonts',
+    headingFont: "Georgia, 'Times New Roman', serif",
+    bodyFont: "'Helvetica Neue', Arial, sans-serif",
+  },
+];
+
+// Serializing the preview document writes the marker attributes as data-theme-override=""
+const OVERRIDE_PATTERN = /<style data-theme-override(?:="")?>([\s\S]*?)<\/style>\s*/i;
+const FONTS_LINK_PATTERN = /<link data-theme-fonts(?:="")?[^>]*>\s*/i;
+
+const HEX_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+// Declarations outside @media blocks; colour scheme variants are not the page's own values
+const readDeclarations = (html: string): Partial<ThemeTokens> => themeTokens.readTheme(html);
+
+// Tokens currently in effect: the Preview override where set, else the page's own declarations
+export const readTheme = (html: string): Partial<ThemeTokens> => {
+  const override = html.match(OVERRIDE_PATTERN);
+  return {
+    ...readDeclarations(override ? html.replace(OVERRIDE_PATTERN, '') : html),
+    ...(override ? readDeclarations(override[1]) : {}),
+  };
+};
+
+/**
+ * The opposite colour scheme of a palette, for its prefers-color-scheme variant, as the API builds it;
+ * null when a colour is not hex.
+ */
+export const buildSchemeVariant = (colors: Partial<ThemeColors>): { scheme: 'dark' | 'light'; colors: ThemeColors } | null => {
+  const { primary, accent, background, text } = colors;
+  if (![primary, accent, background, text].every(color => color && HEX_PATTERN.test(color))) return null;
+
+  const { scheme, theme } = themeTokens.buildSchemeVariant({ primary, accent, background, text });
+  return {
+    scheme,
+    colors: { primary: theme.primary, accent: theme.accent, background: theme.background, text: theme.text },
+  };
+};
+
+export const hasThemeOverride = (html: string): boolean => OVERRIDE_PATTERN.test(html);
+
+const buildFontsLink = (families: string[]) =>
+  `<link data-theme-fonts rel="stylesheet" href="https://fonts.googleapis.com/css2?${families.map(family => `family=${family}`).join('&')}&display=swap">\n`;
+
+const insertIntoHead = (html: string, markup: string) =>
+  /<\/head>/i.test(html) ? html.replace(/<\/head>/i, `${markup}</head>`) : `${markup}${html}`;
+
+/**
+ * Override some of the page's theme tokens, keeping earlier overrides for the rest.
+ * googleFonts replaces the loaded web fonts; leave it undefined to keep them.
+ */
+export const applyTheme = (html: string, changes: Partial<ThemeTokens>, googleFonts?: string[]): string => {
+  const existing = html.match(OVERRIDE_PATTERN);
+  const theme = { ...(existing ? readDeclarations(existing[1]) : {}), ...changes };
+
+  let nextHtml = html.replace(OVERRIDE_PATTERN, '');
+  const existingLink = nextHtml.match(FONTS_LINK_PATTERN)?.[0];
+  nextHtml = nextHtml.replace(FONTS_LINK_PATTERN, '');
+
+  const declarations = (Object.keys(THEME_VARIABLES) as (keyof ThemeTokens)[])
+    .filter(key => theme[key])
+    .map(key => `  ${THEME_VARIABLES[key]}: ${theme[key]};`)
+    .join('\n');
+
+  const fontsLink = googleFonts === undefined
+    ? existingLink || ''
+    : googleFonts.length > 0 ? buildFontsLink(googleFonts) : '';
+
+  // The override also outranks the page's colour scheme variant, so it brings its own
+  const variant = buildSchemeVariant({ ...readDeclarations(nextHtml), ...theme });
+  const variantCss = variant
+    ? `\n@media (prefers-color-scheme: ${variant.scheme}) {\n:root:root {\n  color-scheme: ${variant.scheme};\n${
+      (Object.keys(variant.colors) as (keyof ThemeColors)[])
+        .map(key => `  ${THEME_VARIABLES[key]}: ${variant.colors[key]};`)
+        .join('\n')
+    }\n}\n}`
+    : '';
+
+  // :root:root outranks the page's own :root rules wherever they are declared
+  return insertIntoHead(nextHtml, `${fontsLink}<style data-theme-override>\n:root:root {\n${declarations}\n}${variantCss}\n</style>\n`);
+};
+
+// Drop every Preview override, returning to the generated theme
+export const resetTheme = (html: string): string =>
+  html.replace(OVERRIDE_PATTERN, '').replace(FONTS_LINK_PATTERN, '');
+
+// Carry the Preview override and its fonts over to another page of the same site
+export const copyThemeOverride = (fromHtml: string, toHtml: string): string => {
+  const override = fromHtml.match(OVERRIDE_PATTERN)?.[0];
+  const fontsLink = fromHtml.match(FONTS_LINK_PATTERN)?.[0] || '';
+  const page = resetTheme(toHtml);
+  return override ? insertIntoHead(page, `${fontsLink}${override}`) : page;
+};
+
+export const isSameColors = (theme: Partial<ThemeTokens>, colors: ThemeColors): boolean =>
+  (['primary', 'accent', 'background', 'text'] as const)
+    .every(key => theme[key]?.toLowerCase() === colors[key].toLowerCase());
@@ -6,7 +6,11 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { DashboardWelcome } from '@/components/auth/AuthComponents';
+import GenerationJobsCard from '@/components/dashboard/GenerationJobsCard';
+import PostsCard from '@/components/dashboard/PostsCard';
+import DeploymentsCard from '@/components/dashboard/DeploymentsCard';
 import { 
   Plus, 
   Eye, 
@@ -303,7 +307,8 @@ const Dashboard = () => {
           title: draft.name
         },
         isDraft: true,
-        draftHtml: draft.htmlContent
+        draftHtml: draft.htmlContent,
+        draftId: draft.id
       }
     });
   };
@@ -658,179 +663,203 @@ const Dashboard = () => {
             </>
           )}
 
-          {/* Your Portfolios Section */}
-          <div className="flex items-center justify-between mb-6">
-            <h2 className="text-2xl font-light text-[#06070A]">Your Portfolios</h2>
-          </div>
+          {/* Recorded generations that are running or can be reopened */}
+          {user?.primaryEmailAddress?.emailAddress && (
+            <GenerationJobsCard email={user.primaryEmailAddress.emailAddress} />
+          )}
 
-          {/* Portfolios Grid */}
-          {portfolios.length === 0 && drafts.length === 0 ? (
-            <Card className="shadow-sm border border-[#06070A]/10 mb-8 bg-[#FFFEEA]">
-              <CardContent className="p-12 text-center">
-                <div className="w-24 h-24 bg-[#06070A] rounded-full flex items-center justify-center mx-auto mb-6">
-                  <Sparkles className="h-12 w-12 text-[#FFFEEA]" />
-                </div>
-                <h3 className="text-xl font-light text-[#06070A] mb-2">No Portfolios Yet</h3>
-                <p className="text-[#06070A]/60 mb-6 max-w-md mx-auto font-light">
-                  Create your first AI-powered portfolio to showcase your work and land your dream opportunities.
-                </p>
-                <Button 
-                  onClick={handleCreateNewPortfolio} 
-                  className="bg-[#06070A] hover:bg-[#06070A]/90 text-[#FFFEEA] font-light border-0"
-                  size="lg" 
-                  disabled={projects.length === 0 || (tier === 'Free' && portfoliosUsage.isAtLimit)}
-                >
-                  <Plus className="h-5 w-5 mr-2" />
-                  {projects.length === 0 ? 'Add Projects First' : 'Create Your First Portfolio'}
-                  {tier === 'Free' && portfoliosUsage.isAtLimit && (
-                    <Lock className="h-4 w-4 ml-2" />
-                  )}
-                </Button>
-                
-                {tier === 'Free' && portfoliosUsage.isAtLimit && (
-                  <p className="text-sm text-red-600 mt-3 font-light">
-                    You've reached the limit of {TIER_LIMITS.Free.maxPortfolios} portfolio for free users
-                  </p>
-                )}
-              </CardContent>
-            </Card>
-          ) : (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
-              {/* Render drafts first */}
-              {drafts.map((draft) => (
-                <Card key={draft.id} className="shadow-sm border border-[#06070A]/10 bg-[#FFFEEA] hover:shadow-md transition-shadow">
-                  <CardHeader className="pb-3">
-                    <div className="flex items-center justify-between">
-                      <CardTitle className="text-lg font-light truncate text-[#06070A]">{draft.name}</CardTitle>
-                      <Badge className="bg-yellow-100 text-yellow-800 font-light">
-                        <span className="flex items-center space-x-1">
-                          <FileText className="h-3 w-3" />
-                          <span className="capitalize">Draft</span>
-                        </span>
-                      </Badge>
-                    </div>
-                  </CardHeader>
-                  
-                  <CardContent className="space-y-4">
-                    {/* Draft Preview */}
-                    <div 
-                      className="aspect-video bg-[#06070A]/10 rounded-lg flex items-center justify-center cursor-pointer hover:bg-[#06070A]/20"
-                      onClick={() => handlePreviewDraft(draft)}
-                    >
-                      <div className="text-center">
-                        <FileText className="h-8 w-8 text-[#06070A]/50 mx-auto mb-2" />
-                        <p className="text-xs text-[#06070A]/50 font-light">Click to Preview Draft</p>
-                      </div>
-                    </div>
+          {/* Markdown posts published with the portfolio */}
+          {user?.primaryEmailAddress?.emailAddress && (
+            <PostsCard email={user.primaryEmailAddress.emailAddress} />
+          )}
 
-                    {/* Draft Info */}
-                    <div className="space-y-2 text-sm font-light">
-                      <div className="flex items-center text-[#06070A]/50">
-                        <Calendar className="h-4 w-4 mr-2" />
-                        Created {new Date(draft.createdAt).toLocaleDateString()}
-                      </div>
-                      <div className="flex items-center text-[#06070A]/50">
-                        <FileText className="h-4 w-4 mr-2" />
-                        Modified {new Date(draft.lastModified).toLocaleDateString()}
-                      </div>
-                    </div>
+          {/* Your Portfolios Section, with the sites they are deployed to */}
+          <Tabs defaultValue="portfolios">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-2xl font-light text-[#06070A]">Your Portfolios</h2>
+              <TabsList className="bg-[#06070A]/5">
+                <TabsTrigger value="portfolios" className="font-light">Portfolios</TabsTrigger>
+                <TabsTrigger value="deployments" className="font-light">Deployments</TabsTrigger>
+              </TabsList>
+            </div>
 
-                    {/* Actions */}
-                    <div className="flex space-x-2">
-                      <Button 
-                        className="flex-1 bg-[#06070A] hover:bg-[#06070A]/90 text-[#FFFEEA] font-light border-0"
-                        size="sm" 
-                        onClick={() => handleLoadDraft(draft)}
-                      >
-                        <Edit3 className="h-4 w-4 mr-1" />
-                        Continue Editing
-                      </Button>
+            <TabsContent value="portfolios">
+              {/* Portfolios Grid */}
+              {portfolios.length === 0 && drafts.length === 0 ? (
+                <Card className="shadow-sm border border-[#06070A]/10 mb-8 bg-[#FFFEEA]">
+                  <CardContent className="p-12 text-center">
+                    <div className="w-24 h-24 bg-[#06070A] rounded-full flex items-center justify-center mx-auto mb-6">
+                      <Sparkles className="h-12 w-12 text-[#FFFEEA]" />
                     </div>
+                    <h3 className="text-xl font-light text-[#06070A] mb-2">No Portfolios Yet</h3>
+                    <p className="text-[#06070A]/60 mb-6 max-w-md mx-auto font-light">
+                      Create your first AI-powered portfolio to showcase your work and land your dream opportunities.
+                    </p>
+                    <Button 
+                      onClick={handleCreateNewPortfolio} 
+                      className="bg-[#06070A] hover:bg-[#06070A]/90 text-[#FFFEEA] font-light border-0"
+                      size="lg" 
+                      disabled={projects.length === 0 || (tier === 'Free' && portfoliosUsage.isAtLimit)}
+                    >
+                      <Plus className="h-5 w-5 mr-2" />
+                      {projects.length === 0 ? 'Add Projects First' : 'Create Your First Portfolio'}
+                      {tier === 'Free' && portfoliosUsage.isAtLimit && (
+                        <Lock className="h-4 w-4 ml-2" />
+                      )}
+                    </Button>
+                
+                    {tier === 'Free' && portfoliosUsage.isAtLimit && (
+                      <p className="text-sm text-red-600 mt-3 font-light">
+                        You've reached the limit of {TIER_LIMITS.Free.maxPortfolios} portfolio for free users
+                      </p>
+                    )}
                   </CardContent>
                 </Card>
-              ))}
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
+                  {/* Render drafts first */}
+                  {drafts.map((draft) => (
+                    <Card key={draft.id} className="shadow-sm border border-[#06070A]/10 bg-[#FFFEEA] hover:shadow-md transition-shadow">
+                      <CardHeader className="pb-3">
+                        <div className="flex items-center justify-between">
+                          <CardTitle className="text-lg font-light truncate text-[#06070A]">{draft.name}</CardTitle>
+                          <Badge className="bg-yellow-100 text-yellow-800 font-light">
+                            <span className="flex items-center space-x-1">
+                              <FileText className="h-3 w-3" />
+                              <span className="capitalize">Draft</span>
+                            </span>
+                          </Badge>
+                        </div>
+                      </CardHeader>
+                  
+                      <CardContent className="space-y-4">
+                        {/* Draft Preview */}
+                        <div 
+                          className="aspect-video bg-[#06070A]/10 rounded-lg flex items-center justify-center cursor-pointer hover:bg-[#06070A]/20"
+                          onClick={() => handlePreviewDraft(draft)}
+                        >
+                          <div className="text-center">
+                            <FileText className="h-8 w-8 text-[#06070A]/50 mx-auto mb-2" />
+                            <p className="text-xs text-[#06070A]/50 font-light">Click to Preview Draft</p>
+                          </div>
+                        </div>
 
-              {/* Render regular portfolios */}
-              {portfolios.map((portfolio) => (
-                <Card key={portfolio.id} className="shadow-sm border border-[#06070A]/10 bg-[#FFFEEA] hover:shadow-md transition-shadow">
-                  <CardHeader className="pb-3">
-                    <div className="flex items-center justify-between">
-                      <CardTitle className="text-lg font-light truncate text-[#06070A]">{portfolio.name}</CardTitle>
-                      <Badge className={getStatusColor(portfolio.status) + " font-light"}>
-                        <span className="flex items-center space-x-1">
-                          {getStatusIcon(portfolio.status)}
-                          <span className="capitalize">{portfolio.status}</span>
-                        </span>
-                      </Badge>
-                    </div>
-                  </CardHeader>
+                        {/* Draft Info */}
+                        <div className="space-y-2 text-sm font-light">
+                          <div className="flex items-center text-[#06070A]/50">
+                            <Calendar className="h-4 w-4 mr-2" />
+                            Created {new Date(draft.createdAt).toLocaleDateString()}
+                          </div>
+                          <div className="flex items-center text-[#06070A]/50">
+                            <FileText className="h-4 w-4 mr-2" />
+                            Modified {new Date(draft.lastModified).toLocaleDateString()}
+                          </div>
+                        </div>
+
+                        {/* Actions */}
+                        <div className="flex space-x-2">
+                          <Button 
+                            className="flex-1 bg-[#06070A] hover:bg-[#06070A]/90 text-[#FFFEEA] font-light border-0"
+                            size="sm" 
+                            onClick={() => handleLoadDraft(draft)}
+                          >
+                            <Edit3 className="h-4 w-4 mr-1" />
+                            Continue Editing
+                          </Button>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+
+                  {/* Render regular portfolios */}
+                  {portfolios.map((portfolio) => (
+                    <Card key={portfolio.id} className="shadow-sm border border-[#06070A]/10 bg-[#FFFEEA] hover:shadow-md transition-shadow">
+                      <CardHeader className="pb-3">
+                        <div className="flex items-center justify-between">
+                          <CardTitle className="text-lg font-light truncate text-[#06070A]">{portfolio.name}</CardTitle>
+                          <Badge className={getStatusColor(portfolio.status) + " font-light"}>
+                            <span className="flex items-center space-x-1">
+                              {getStatusIcon(portfolio.status)}
+                              <span className="capitalize">{portfolio.status}</span>
+                            </span>
+                          </Badge>
+                        </div>
+                      </CardHeader>
                   
-                  <CardContent className="space-y-4">
-                    {/* Portfolio Preview/Thumbnail */}
-                    <div className="aspect-video bg-[#06070A]/10 rounded-lg flex items-center justify-center">
-                      {portfolio.thumbnail ? (
-                        <img 
-                          src={portfolio.thumbnail} 
-                          alt={portfolio.name}
-                          className="w-full h-full object-cover rounded-lg"
-                        />
-                      ) : (
-                        <div className="text-center">
-                          <FileText className="h-8 w-8 text-[#06070A]/50 mx-auto mb-2" />
-                          <p className="text-xs text-[#06070A]/50 font-light">Portfolio Preview</p>
+                      <CardContent className="space-y-4">
+                        {/* Portfolio Preview/Thumbnail */}
+                        <div className="aspect-video bg-[#06070A]/10 rounded-lg flex items-center justify-center">
+                          {portfolio.thumbnail ? (
+                            <img 
+                              src={portfolio.thumbnail} 
+                              alt={portfolio.name}
+                              className="w-full h-full object-cover rounded-lg"
+                            />
+                          ) : (
+                            <div className="text-center">
+                              <FileText className="h-8 w-8 text-[#06070A]/50 mx-auto mb-2" />
+                              <p className="text-xs text-[#06070A]/50 font-light">Portfolio Preview</p>
+                            </div>
+                          )}
                         </div>
-                      )}
-                    </div>
 
-                    {/* Portfolio Info */}
-                    <div className="space-y-2 text-sm font-light">
-                      <div className="flex items-center text-[#06070A]/50">
-                        <Calendar className="h-4 w-4 mr-2" />
-                        Created {new Date(portfolio.createdAt).toLocaleDateString()}
-                      </div>
-                      <div className="flex items-center text-[#06070A]/50">
-                        <FileText className="h-4 w-4 mr-2" />
-                        Modified {new Date(portfolio.lastModified).toLocaleDateString()}
-                      </div>
-                    </div>
+                        {/* Portfolio Info */}
+                        <div className="space-y-2 text-sm font-light">
+                          <div className="flex items-center text-[#06070A]/50">
+                            <Calendar className="h-4 w-4 mr-2" />
+                            Created {new Date(portfolio.createdAt).toLocaleDateString()}
+                          </div>
+                          <div className="flex items-center text-[#06070A]/50">
+                            <FileText className="h-4 w-4 mr-2" />
+                            Modified {new Date(portfolio.lastModified).toLocaleDateString()}
+                          </div>
+                        </div>
 
-                    {/* Actions */}
-                    <div className="flex space-x-2">
-                      {portfolio.status === 'deployed' && portfolio.deployUrl ? (
-                        <Button 
-                          className="flex-1 bg-[#06070A] hover:bg-[#06070A]/90 text-[#FFFEEA] font-light border-0"
-                          size="sm" 
-                          onClick={() => window.open(portfolio.deployUrl, '_blank')}
-                        >
-                          <ExternalLink className="h-4 w-4 mr-1" />
-                          View Live
-                        </Button>
-                      ) : (
-                        <Button 
-                          className="flex-1 bg-[#06070A] hover:bg-[#06070A]/90 text-[#FFFEEA] font-light border-0"
-                          size="sm" 
-                          onClick={() => navigate('/preview', { 
-                            state: { portfolioId: portfolio.id } 
-                          })}
-                        >
-                          <Eye className="h-4 w-4 mr-1" />
-                          {portfolio.status === 'draft' ? 'Continue' : 'Preview'}
-                        </Button>
-                      )}
+                        {/* Actions */}
+                        <div className="flex space-x-2">
+                          {portfolio.status === 'deployed' && portfolio.deployUrl ? (
+                            <Button 
+                              className="flex-1 bg-[#06070A] hover:bg-[#06070A]/90 text-[#FFFEEA] font-light border-0"
+                              size="sm" 
+                              onClick={() => window.open(portfolio.deployUrl, '_blank')}
+                            >
+                              <ExternalLink className="h-4 w-4 mr-1" />
+                              View Live
+                            </Button>
+                          ) : (
+                            <Button 
+                              className="flex-1 bg-[#06070A] hover:bg-[#06070A]/90 text-[#FFFEEA] font-light border-0"
+                              size="sm" 
+                              onClick={() => navigate('/preview', { 
+                                state: { portfolioId: portfolio.id } 
+                              })}
+                            >
+                              <Eye className="h-4 w-4 mr-1" />
+                              {portfolio.status === 'draft' ? 'Continue' : 'Preview'}
+                            </Button>
+                          )}
                       
-                      <Button 
-                        variant="outline" 
-                        size="sm"
-                        className="border-[#06070A]/20 text-[#06070A] hover:bg-[#06070A] hover:text-[#FFFEEA] font-light"
-                      >
-                        <Download className="h-4 w-4" />
-                      </Button>
-                    </div>
-                  </CardContent>
-                </Card>
-              ))}
-            </div>
-          )}
+                          <Button 
+                            variant="outline" 
+                            size="sm"
+                            className="border-[#06070A]/20 text-[#06070A] hover:bg-[#06070A] hover:text-[#FFFEEA] font-light"
+                          >
+                            <Download className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="deployments">
+              {user?.primaryEmailAddress?.emailAddress && (
+                <DeploymentsCard email={user.primaryEmailAddress.emailAddress} name={user.fullName || ''} />
+              )}
+            </TabsContent>
+          </Tabs>
           
           {/* Project Selection Modal */}
           <Dialog open={showProjectSelector} onOpenChange={setShowProjectSelector}>
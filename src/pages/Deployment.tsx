@@ -29,6 +29,10 @@ import { useNavigate, useLocation } from 'react-router-dom';
 import { useToast } from '@/hooks/use-toast';
 import { useUser } from '@clerk/clerk-react';
 import ViralSharing from '@/components/ViralSharing';
+import DeployHistoryCard from '@/components/dashboard/DeployHistoryCard';
+import CustomDomainCard from '@/components/CustomDomainCard';
+import DeployTargetCard from '@/components/DeployTargetCard';
+import { DEFAULT_PROVIDER, SiteDeployment } from '@/services/deployments';
 import { API_BASE_URL } from '@/services/api';
 
 interface UserLimits {
@@ -178,6 +182,59 @@ const Deployment = () => {
     },
   ];
 
+  // Preview sends the site it deployed (or wants deployed) as { html, pages }
+  const siteHtml: string = typeof generatedPortfolio === 'string' ? generatedPortfolio : generatedPortfolio?.html || '';
+  const sitePages: Record<string, string> = (typeof generatedPortfolio === 'object' && generatedPortfolio?.pages) || {};
+  const liveProvider: string = metadata.provider || DEFAULT_PROVIDER;
+
+  const handleDeployed = (deployment: SiteDeployment) => {
+    const deployedAt = new Date().toISOString();
+    navigate('/deployment', {
+      replace: true,
+      state: {
+        ...location.state,
+        deploymentUrl: deployment.url,
+        platform: deployment.platform,
+        deployedAt,
+        metadata: {
+          ...metadata,
+          deployedAt,
+          deployTime: deployment.deployTime,
+          siteId: deployment.siteId,
+          provider: deployment.provider,
+          redeployed: deployment.redeployed
+        },
+        isDeployed: true,
+      },
+    });
+  };
+
+  // Kept with the deployment so going back and forth keeps showing the domain
+  const handleDomainConnected = (customDomain: string) => {
+    navigate('/deployment', {
+      replace: true,
+      state: {
+        ...location.state,
+        metadata: { ...metadata, customDomain },
+      },
+    });
+  };
+
+  const deployTargetCard = siteHtml && (deploymentUrl || canDeploy()) && (
+    <DeployTargetCard
+      html={siteHtml}
+      pages={sitePages}
+      personName={portfolioData.personalInfo?.name || ''}
+      userEmail={portfolioData.personalInfo?.email || user?.primaryEmailAddress?.emailAddress || ''}
+      projectIds={metadata.projectIds || []}
+      portfolioId={metadata.portfolioId || null}
+      liveProvider={metadata.siteId ? liveProvider : undefined}
+      liveSiteId={metadata.siteId || null}
+      title={deploymentUrl ? 'Deploy or Update Elsewhere' : 'Choose Where to Publish'}
+      onDeployed={handleDeployed}
+    />
+  );
+
   const handleStartNew = () => {
     navigate('/');
   };
@@ -303,6 +360,9 @@ const Deployment = () => {
             </div>
           )}
 
+          {/* Host picker - before the first deploy */}
+          {!deploymentUrl && deployTargetCard}
+
           {/* Success Header - Only show if successfully deployed */}
           {deploymentUrl && (
             <>
@@ -508,6 +568,25 @@ const Deployment = () => {
                     </div>
                   </div>
                 </div>
+
+                {/* Deploy History - updates and rollbacks of the live site (Netlify only) */}
+                {metadata.siteId && liveProvider === DEFAULT_PROVIDER && <DeployHistoryCard siteId={metadata.siteId} />}
+
+                {/* Custom Domain - DNS records, verification and certificate status */}
+                {metadata.siteId && liveProvider !== 'static-host' && (
+                  <CustomDomainCard
+                    provider={liveProvider}
+                    platform={platform || 'Your host'}
+                    siteId={metadata.siteId}
+                    userEmail={portfolioData.personalInfo?.email || user?.primaryEmailAddress?.emailAddress || ''}
+                    canUseCustomDomains={userLimits?.tier !== 'Free'}
+                    connectedDomain={metadata.customDomain}
+                    onConnected={handleDomainConnected}
+                  />
+                )}
+
+                {/* Host picker - update the site or publish it on another host */}
+                {deployTargetCard}
               </div>
             </>
           )}
@@ -0,0 +1,516 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate, useLocation } from 'react-router-dom';
+import { useUser } from '@clerk/clerk-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useToast } from '@/hooks/use-toast';
+import { API_BASE_URL } from '@/services/api';
+import {
+  postWithProgress,
+  getGenerationError,
+  GenerationProgressEvent,
+  GenerationResponseBody,
+} from '@/services/generationStream';
+import {
+  ArrowLeft,
+  AlertTriangle,
+  CheckCircle,
+  Loader2,
+  PlayCircle,
+  Puzzle,
+  Save,
+  ListChecks,
+} from 'lucide-react';
+
+interface MissingSection {
+  key: string;
+  label: string;
+}
+
+interface CompletionStatus {
+  isComplete?: boolean;
+  estimatedCompletion: number;
+  issues: string[];
+  canContinue: boolean;
+  missingSections?: MissingSection[];
+}
+
+interface RecoveryProject {
+  title?: string;
+  subtitle?: string;
+  description?: string;
+  category?: string;
+  customCategory?: string;
+  tags?: string[];
+}
+
+interface RecoveryPortfolioData {
+  personalInfo: {
+    name: string;
+    title?: string;
+    bio?: string;
+    email?: string;
+    [key: string]: unknown;
+  };
+  projects?: RecoveryProject[];
+  selectedSkeleton?: string;
+  customDesignRequest?: string;
+  [key: string]: unknown;
+}
+
+interface RecoveryState {
+  portfolioData?: RecoveryPortfolioData;
+  partialHtml?: string;
+  completionStatus?: CompletionStatus;
+  metadata?: Record<string, unknown>;
+  error?: string;
+}
+
+type RecoveryAction = 'resume' | 'sections' | 'draft' | null;
+
+const apiUrl = (path: string) => `${import.meta.env.VITE_API_URL || API_BASE_URL}/api/${path}`;
+
+// Files can't be sent as JSON, so projects go to the API as plain text fields (same shape as the builder sends)
+const toBackendData = (portfolioData: RecoveryPortfolioData) => ({
+  ...portfolioData,
+  projects: (portfolioData.projects || []).map(project => ({
+    title: project.title,
+    subtitle: project.subtitle,
+    overview: project.description,
+    description: project.description,
+    category: project.category || project.customCategory,
+    customCategory: project.customCategory,
+    tags: project.tags,
+    processImages: [],
+    finalProductImage: null,
+  })),
+  moodboardImages: [],
+});
+
+const Incomplete = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { toast } = useToast();
+  const { user } = useUser();
+
+  const {
+    portfolioData,
+    partialHtml: initialHtml = '',
+    completionStatus: initialStatus,
+    metadata = {},
+    error: initialError,
+  } = (location.state || {}) as RecoveryState;
+
+  const [partialHtml, setPartialHtml] = useState(initialHtml);
+  const [completionStatus, setCompletionStatus] = useState<CompletionStatus | null>(initialStatus || null);
+  const [isValidating, setIsValidating] = useState(false);
+  const [selectedSections, setSelectedSections] = useState<string[]>([]);
+  const [activeAction, setActiveAction] = useState<RecoveryAction>(null);
+  const [progress, setProgress] = useState<GenerationProgressEvent | null>(null);
+  const [lastSavedDraft, setLastSavedDraft] = useState<string | null>(null);
+
+  const missingSections = completionStatus?.missingSections || [];
+  const userEmail = user?.primaryEmailAddress?.emailAddress || portfolioData?.personalInfo?.email;
+
+  const validatePartialHtml = useCallback(async (htmlContent: string) => {
+    setIsValidating(true);
+    try {
+      const response = await fetch(apiUrl('validate-portfolio-html'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ htmlContent, portfolioData: portfolioData ? toBackendData(portfolioData) : {} }),
+      });
+
+      const result = await response.json();
+      if (result.success) {
+        setCompletionStatus(result.data);
+        setSelectedSections((result.data.missingSections || []).map((section: MissingSection) => section.key));
+      }
+    } catch (error) {
+      console.error('Error validating partial portfolio:', error);
+    } finally {
+      setIsValidating(false);
+    }
+  }, [portfolioData]);
+
+  useEffect(() => {
+    if (initialHtml) {
+      validatePartialHtml(initialHtml);
+    }
+  }, [initialHtml, validatePartialHtml]);
+
+  // Open a finished portfolio in the editor, or keep recovering if parts are still missing
+  const handleRecoveryResult = async (result: GenerationResponseBody, successMessage: string) => {
+    if (!result.success || !result.portfolio) {
+      throw new Error(result.details || getGenerationError(result) || 'Recovery failed');
+    }
+
+    const recoveredHtml = result.portfolio.html;
+    const validation = result.portfolio.metadata.validationResult as CompletionStatus | undefined;
+
+    if (validation && !validation.isComplete) {
+      setPartialHtml(recoveredHtml);
+      await validatePartialHtml(recoveredHtml);
+      toast({
+        title: "Almost There",
+        description: "More of your portfolio was recovered, but some parts are still missing.",
+      });
+      return;
+    }
+
+    toast({
+      title: "Portfolio Recovered!",
+      description: successMessage,
+    });
+
+    navigate('/preview', {
+      state: {
+        portfolioData,
+        generatedPortfolio: result.portfolio,
+        metadata: {
+          ...result.portfolio.metadata,
+          recoveredFromIncomplete: true,
+          portfolioId: result.portfolio.metadata.portfolioId,
+        },
+      },
+    });
+  };
+
+  const handleResumeGeneration = async () => {
+    if (!portfolioData || activeAction) return;
+
+    setActiveAction('resume');
+    setProgress(null);
+
+    try {
+      const formData = new FormData();
+      formData.append('portfolioData', JSON.stringify(toBackendData(portfolioData)));
+      formData.append('partialHtml', partialHtml);
+      formData.append('continueGeneration', 'true');
+
+      const { ok, status, data: result } = await postWithProgress(apiUrl('generate-portfolio'), formData, {
+        onProgress: setProgress,
+      });
+
+      if (!ok) {
+        throw new Error(result.details || getGenerationError(result) || `HTTP error! status: ${status}`);
+      }
+
+      if (result.incomplete) {
+        setPartialHtml(result.partialHtml || partialHtml);
+        await validatePartialHtml(result.partialHtml || partialHtml);
+        toast({
+          title: "Still Incomplete",
+          description: "Prism made progress but couldn't finish. Try again or regenerate the missing sections.",
+        });
+        return;
+      }
+
+      await handleRecoveryResult(result, "Generation resumed and your portfolio is complete.");
+    } catch (error) {
+      console.error('Resume generation failed:', error);
+      toast({
+        title: "Resume Failed",
+        description: error instanceof Error ? error.message : 'Could not resume generation',
+        variant: "destructive",
+      });
+    } finally {
+      setActiveAction(null);
+      setProgress(null);
+    }
+  };
+
+  const handleRegenerateSections = async () => {
+    if (!portfolioData || activeAction || selectedSections.length === 0) return;
+
+    setActiveAction('sections');
+
+    try {
+      const response = await fetch(apiUrl('regenerate-missing-sections'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          partialHtml,
+          portfolioData: toBackendData(portfolioData),
+          sections: selectedSections,
+        }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.details || result.error || `HTTP error! status: ${response.status}`);
+      }
+
+      await handleRecoveryResult(result, "The missing sections were added to your portfolio.");
+    } catch (error) {
+      console.error('Section regeneration failed:', error);
+      toast({
+        title: "Regeneration Failed",
+        description: error instanceof Error ? error.message : 'Could not regenerate the missing sections',
+        variant: "destructive",
+      });
+    } finally {
+      setActiveAction(null);
+    }
+  };
+
+  const handleSaveDraft = async () => {
+    if (activeAction) return;
+
+    if (!userEmail) {
+      toast({
+        title: "Cannot Save Draft",
+        description: "No user email found in portfolio data",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setActiveAction('draft');
+
+    try {
+      const response = await fetch(apiUrl('save-draft'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: userEmail, htmlContent: partialHtml }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.details || data.error || `HTTP error! status: ${response.status}`);
+      }
+
+      setLastSavedDraft(new Date().toISOString());
+      toast({
+        title: "Draft Saved",
+        description: "Your partial portfolio has been saved as a draft",
+      });
+    } catch (error) {
+      console.error('Draft Save Error:', error);
+      toast({
+        title: "Failed to Save Draft",
+        description: error instanceof Error ? error.message : 'Could not save your draft',
+        variant: "destructive",
+      });
+    } finally {
+      setActiveAction(null);
+    }
+  };
+
+  const toggleSection = (sectionKey: string) => {
+    setSelectedSections(prev =>
+      prev.includes(sectionKey) ? prev.filter(key => key !== sectionKey) : [...prev, sectionKey]
+    );
+  };
+
+  const estimatedCompletion = Math.round(completionStatus?.estimatedCompletion || 0);
+  const actions = [
+    {
+      id: 'resume' as const,
+      label: 'Resume Generation',
+      description: 'Continue from where Prism stopped',
+      icon: PlayCircle,
+      onClick: handleResumeGeneration,
+      disabled: !portfolioData || completionStatus?.canContinue === false,
+    },
+    {
+      id: 'sections' as const,
+      label: `Regenerate ${selectedSections.length} Section${selectedSections.length === 1 ? '' : 's'}`,
+      description: 'Only write the parts that are missing',
+      icon: Puzzle,
+      onClick: handleRegenerateSections,
+      disabled: !portfolioData || selectedSections.length === 0,
+    },
+    {
+      id: 'draft' as const,
+      label: 'Save as Draft',
+      description: lastSavedDraft
+        ? `Saved at ${new Date(lastSavedDraft).toLocaleTimeString()}`
+        : 'Keep this version and finish it later',
+      icon: Save,
+      onClick: handleSaveDraft,
+      disabled: !userEmail,
+    },
+  ];
+
+  if (!initialHtml) {
+    return (
+      <div className="min-h-screen bg-[#FFFEEA] flex items-center justify-center px-6">
+        <div className="bg-white rounded-xl p-8 border border-[#06070A]/10 shadow-lg max-w-md text-center space-y-6">
+          <AlertTriangle className="h-10 w-10 text-[#06070A] mx-auto" />
+          <div className="space-y-2">
+            <h1 className="text-2xl font-light text-[#06070A]">Nothing to recover</h1>
+            <p className="text-sm font-light text-[#06070A]/60">
+              There is no unfinished portfolio to restore. Start a new generation from the portfolio builder.
+            </p>
+          </div>
+          <div className="group cursor-pointer inline-block" onClick={() => navigate('/portfolio-builder')}>
+            <div className="inline-flex items-center space-x-2 px-6 py-3 bg-[#06070A] text-[#FFFEEA] rounded-full transition-all duration-200 hover:bg-[#06070A]/80 group-hover:scale-105 shadow-sm">
+              <ArrowLeft className="h-4 w-4" />
+              <span className="font-light text-sm">Back to Portfolio Builder</span>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-[#FFFEEA]">
+      <div className="container mx-auto px-6 py-12">
+        <div className="max-w-7xl mx-auto space-y-8">
+          {/* Header */}
+          <div className="flex justify-between items-center">
+            <div className="group cursor-pointer" onClick={() => navigate('/portfolio-builder')}>
+              <div className="inline-flex items-center space-x-2 px-4 py-2 bg-white/90 backdrop-blur-sm border border-[#06070A]/10 rounded-full transition-all duration-200 hover:bg-[#06070A]/5 group-hover:scale-105 shadow-sm">
+                <ArrowLeft className="h-4 w-4 transition-transform group-hover:-translate-x-1" />
+                <span className="font-light text-sm">Back to Portfolio Builder</span>
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <h1 className="text-4xl xl:text-5xl font-light text-[#06070A] leading-tight">
+              Your portfolio is almost ready
+            </h1>
+            <p className="text-lg font-light text-[#06070A]/70 max-w-3xl">
+              Generation stopped before Prism could finish
+              {typeof metadata.autoAttempts === 'number' ? ` after ${metadata.autoAttempts} attempts` : ''}.
+              Nothing is lost — pick up where it left off, fill in just the missing sections, or save it for later.
+            </p>
+            {initialError && (
+              <p className="text-sm font-light text-red-600">{initialError}</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            {/* Partial preview */}
+            <div className="lg:col-span-2">
+              <div className="bg-white rounded-xl border border-[#06070A]/10 shadow-lg overflow-hidden">
+                <div className="px-6 py-4 border-b border-[#06070A]/10 flex items-center justify-between">
+                  <h2 className="text-lg font-light text-[#06070A]">Partial Preview</h2>
+                  <span className="text-xs font-light text-[#06070A]/60">
+                    {partialHtml.length.toLocaleString()} characters
+                  </span>
+                </div>
+                <iframe
+                  srcDoc={partialHtml}
+                  className="w-full h-[640px] border-0"
+                  title="Partial portfolio preview"
+                  sandbox="allow-scripts"
+                />
+              </div>
+            </div>
+
+            {/* Sidebar */}
+            <div className="space-y-6">
+              {/* Completion */}
+              <div className="bg-white rounded-xl p-6 border border-[#06070A]/10 shadow-lg space-y-4">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <CheckCircle className="h-5 w-5 text-[#06070A]" />
+                    <h3 className="text-lg font-light text-[#06070A]">Completion</h3>
+                  </div>
+                  {isValidating ? (
+                    <Loader2 className="h-4 w-4 animate-spin text-[#06070A]/60" />
+                  ) : (
+                    <span className="text-sm font-light text-[#06070A]">{estimatedCompletion}%</span>
+                  )}
+                </div>
+                <div className="w-full rounded-full h-2 bg-[#06070A]/10">
+                  <div
+                    className="h-2 rounded-full bg-[#06070A] transition-all duration-300 ease-out"
+                    style={{ width: `${estimatedCompletion}%` }}
+                  />
+                </div>
+                {completionStatus && completionStatus.issues.length > 0 && (
+                  <ul className="space-y-2">
+                    {completionStatus.issues.map(issue => (
+                      <li key={issue} className="flex items-start space-x-2 text-sm font-light text-[#06070A]/70">
+                        <AlertTriangle className="h-4 w-4 text-yellow-600 flex-shrink-0 mt-0.5" />
+                        <span>{issue}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              {/* Missing sections */}
+              <div className="bg-white rounded-xl p-6 border border-[#06070A]/10 shadow-lg space-y-4">
+                <div className="flex items-center space-x-2">
+                  <ListChecks className="h-5 w-5 text-[#06070A]" />
+                  <h3 className="text-lg font-light text-[#06070A]">Missing Sections</h3>
+                </div>
+                {missingSections.length > 0 ? (
+                  <div className="space-y-2">
+                    {missingSections.map(section => (
+                      <label
+                        key={section.key}
+                        className="flex items-center space-x-3 p-2 rounded-lg border border-[#06070A]/10 hover:bg-[#06070A]/5 cursor-pointer transition-all duration-200"
+                      >
+                        <Checkbox
+                          checked={selectedSections.includes(section.key)}
+                          onCheckedChange={() => toggleSection(section.key)}
+                        />
+                        <span className="text-sm font-light text-[#06070A]">{section.label}</span>
+                      </label>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm font-light text-[#06070A]/60">
+                    {isValidating ? 'Checking your portfolio...' : 'All expected sections are present'}
+                  </p>
+                )}
+              </div>
+
+              {/* Actions */}
+              <div className="bg-white rounded-xl p-6 border border-[#06070A]/10 shadow-lg space-y-3">
+                {actions.map(({ id, label, description, icon: Icon, onClick, disabled }) => {
+                  const isRunning = activeAction === id;
+                  const isDisabled = disabled || (activeAction !== null && !isRunning);
+                  return (
+                    <div
+                      key={id}
+                      className={`group ${isDisabled ? 'cursor-not-allowed opacity-50' : 'cursor-pointer'}`}
+                      onClick={isDisabled ? undefined : onClick}
+                    >
+                      <div className={`flex items-center space-x-3 p-3 rounded-lg border transition-all duration-200 ${
+                        id === 'resume'
+                          ? 'bg-[#06070A] text-[#FFFEEA] border-[#06070A] hover:bg-[#06070A]/80'
+                          : 'border-[#06070A]/10 text-[#06070A] hover:bg-[#06070A]/5'
+                      }`}>
+                        {isRunning ? <Loader2 className="h-5 w-5 animate-spin" /> : <Icon className="h-5 w-5" />}
+                        <div className="min-w-0">
+                          <p className="text-sm font-light">{label}</p>
+                          <p className="text-xs font-light opacity-60">{description}</p>
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
+
+                {activeAction === 'resume' && (
+                  <div className="space-y-2 pt-2">
+                    <div className="flex items-center justify-between text-xs font-light text-[#06070A]/60">
+                      <span>{progress ? `${progress.message}...` : 'Connecting to Prism...'}</span>
+                      <span>{Math.round(progress?.percent || 0)}%</span>
+                    </div>
+                    <div className="w-full rounded-full h-1.5 bg-[#06070A]/10">
+                      <div
+                        className="h-1.5 rounded-full bg-[#06070A] transition-all duration-300 ease-out"
+                        style={{ width: `${progress?.percent || 0}%` }}
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Incomplete;
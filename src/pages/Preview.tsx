@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { useLocation, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -9,11 +9,51 @@ import {
   ArrowLeft, Rocket, Eye, Edit3, Check, X, 
   Smartphone, Tablet, Monitor, Crown, Lock, Lightbulb,
   Type, Palette, Layout, Zap, AlertCircle, Save,
-  Sparkles, ChevronRight, ExternalLink, Undo2, FileArchive,
-  User, Target, Calendar, FolderOpen, Star, Loader2
+  Sparkles, ChevronRight, ExternalLink, Undo2, Redo2, RotateCcw, History, FileArchive,
+  User, Target, Calendar, FolderOpen, Star, Loader2, Sun, Moon, SunMoon, Pause, Server
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import {
+  useHtmlParser,
+  getEditableId,
+  applyModificationsToHtml,
+  applyStylesToElement,
+  extractStyles,
+  findElementByEditableId,
+  stampEditableIds,
+  type EditableElement,
+} from '@/hooks/useHtmlParser';
+import { useEditHistory } from '@/hooks/useEditHistory';
+import {
+  useSectionOutline,
+  moveSection,
+  duplicateSection,
+  removeSection,
+  toggleSectionVisibility,
+} from '@/hooks/useSectionOutline';
 import { cn } from '@/lib/utils';
+import { diffHtml, mergeHtmlDiff, type DiffHunk } from '@/lib/htmlDiff';
+import {
+  applyTheme,
+  resetTheme,
+  readTheme,
+  hasThemeOverride,
+  THEME_PRESETS,
+  FONT_PAIRINGS,
+  type FontPairing,
+  type ThemePalette,
+} from '@/lib/themeTokens';
+import { emulateMediaFeatures, type PreviewColorScheme } from '@/lib/previewMedia';
+import { buildSitePages, listSitePages, resolveSitePath, HOME_PAGE, type SitePages } from '@/lib/sitePages';
+import { buildOfflineZip } from '@/lib/siteExport';
+import StyleInspectorPanel from '@/components/editor/StyleInspectorPanel';
+import ImageEditorPanel, { type LibraryImage } from '@/components/editor/ImageEditorPanel';
+import SectionOutlinePanel from '@/components/editor/SectionOutlinePanel';
+import ThemePanel from '@/components/editor/ThemePanel';
+import SitePagesPanel from '@/components/editor/SitePagesPanel';
+import AiEditReviewDialog from '@/components/editor/AiEditReviewDialog';
+import apiService from '@/services/api';
+import { DEFAULT_PROVIDER } from '@/services/deployments';
 
 // Tier system configuration
 const TIER_LIMITS = {
@@ -51,15 +91,42 @@ interface UserLimits {
   deploymentsRemaining: number;
 }
 
-interface EditableRegion {
+type ViewportSize = 'mobile' | 'tablet' | 'desktop';
+
+const COLOR_SCHEME_OPTIONS: { value: PreviewColorScheme; label: string; icon: typeof Sun }[] = [
+  { value: 'system', label: 'Auto', icon: SunMoon },
+  { value: 'light', label: 'Light', icon: Sun },
+  { value: 'dark', label: 'Dark', icon: Moon },
+];
+
+interface AiEditReview {
+  request: string;
+  label: string;
+  beforeHtml: string;
+  afterHtml: string;
+  hunks: DiffHunk[];
+  acceptedIds: string[];
+}
+
+interface InspectedElement {
   id: string;
-  type: 'heading' | 'paragraph' | 'list-item' | 'button';
-  content: string;
-  selector: string;
-  bounds: { top: number; left: number; width: number; height: number };
+  tagName: string;
+  styles: EditableElement['styles'];
+  text: string | null;
+  image: {
+    src: string;
+    alt: string;
+    hasSrcset: boolean;
+  } | null;
 }
 
-type ViewportSize = 'mobile' | 'tablet' | 'desktop';
+// Text of an editable element without the injected edit indicator
+const getElementText = (element: HTMLElement): string =>
+  Array.from(element.childNodes)
+    .filter(node => !(node instanceof Element && node.classList.contains('freemium-edit-indicator')))
+    .map(node => node.textContent || '')
+    .join('')
+    .trim();
 
 const Preview = () => {
   const location = useLocation();
@@ -67,30 +134,435 @@ const Preview = () => {
   const { toast } = useToast();
   const iframeRef = useRef<HTMLIFrameElement>(null);
   const [viewportSize, setViewportSize] = useState<ViewportSize>('desktop');
+  const [previewColorScheme, setPreviewColorScheme] = useState<PreviewColorScheme>('system');
+  const [previewReducedMotion, setPreviewReducedMotion] = useState(false);
+  // Case study or blog page shown instead of the home page, by site path
+  const [previewPage, setPreviewPage] = useState<string | null>(null);
   const [isDeploying, setIsDeploying] = useState(false);
-  const [editableRegions, setEditableRegions] = useState<EditableRegion[]>([]);
   const [activeEdit, setActiveEdit] = useState<string | null>(null);
   const [editingText, setEditingText] = useState('');
-  const [htmlContent, setHtmlContent] = useState('');
-  const [hasChanges, setHasChanges] = useState(false);
   const [userLimits, setUserLimits] = useState<UserLimits | null>(null);
   const [isLoadingLimits, setIsLoadingLimits] = useState(true);
   const [showPaywallModal, setShowPaywallModal] = useState(false);
 
-  const { portfolioData, generatedPortfolio, metadata, isIncomplete, isDraft, draftHtml } = location.state || {}; 
+  const { portfolioData, generatedPortfolio, metadata, isIncomplete, isDraft, draftHtml, draftId } = location.state || {}; 
   const [aiRequest, setAiRequest] = useState('');
   const [isProcessingAiRequest, setIsProcessingAiRequest] = useState(false);
+  const [aiEditSelectionOnly, setAiEditSelectionOnly] = useState(true);
+  const [aiEditReview, setAiEditReview] = useState<AiEditReview | null>(null);
   const originalHtml = isDraft ? draftHtml : 
     (typeof generatedPortfolio === 'string' ? generatedPortfolio : generatedPortfolio?.html || '');
 
-  if (!portfolioData || !generatedPortfolio) {
-    React.useEffect(() => {
+  const hasPortfolio = !!portfolioData && !!generatedPortfolio;
+  // Portfolios deployed before are updated on the same site, with the host they were deployed to
+  const liveSiteId: string | null = metadata?.siteId || null;
+  const liveProvider: string = metadata?.provider || DEFAULT_PROVIDER;
+  const canDeploy = !!userLimits?.canDeploy || !!liveSiteId;
+
+  // Multi-page portfolios and portfolios with published posts come with pages next to the home page
+  const generatedPages: SitePages = useMemo(
+    () => (!isDraft && typeof generatedPortfolio === 'object' && generatedPortfolio?.pages) || {},
+    [isDraft, generatedPortfolio]
+  );
+  const sitePageList = useMemo(() => listSitePages(generatedPages), [generatedPages]);
+
+  useEffect(() => {
+    if (!hasPortfolio) {
       navigate('/');
-    }, [navigate]);
-    return null;
-  }
+    }
+  }, [hasPortfolio, navigate]);
+
+  // Every committed edit is a labelled history step; htmlContent is the current step
+  const {
+    entries: historyEntries,
+    currentIndex: historyIndex,
+    currentEntry,
+    resetHistory,
+    pushEntry,
+    undo,
+    redo,
+    goTo,
+    saveHistory,
+    loadHistory,
+    canUndo,
+    canRedo,
+    undoLabel,
+    redoLabel,
+  } = useEditHistory();
+  const htmlContent = currentEntry?.html || '';
+
+  // The iframe shows the colour scheme and motion variant picked in the viewport controls;
+  // the home page is editable, so its elements carry the ids the edits are recorded against
+  const previewHtml = useMemo(() => {
+    const pageHtml = previewPage && generatedPages[previewPage]
+      ? buildSitePages(htmlContent, { [previewPage]: generatedPages[previewPage] })[previewPage]
+      : stampEditableIds(htmlContent);
+    return emulateMediaFeatures(pageHtml, { colorScheme: previewColorScheme, reducedMotion: previewReducedMotion });
+  }, [htmlContent, generatedPages, previewPage, previewColorScheme, previewReducedMotion]);
+
+  // Pending edits are recorded as modifications on top of htmlContent and serialized on demand
+  const {
+    parsedComponents,
+    selectedElementId,
+    selectElement,
+    modifyElement,
+    resetModifications,
+    generateModifiedHtml,
+    hasModifications,
+  } = useHtmlParser(htmlContent);
+  const hasChanges = historyIndex > 0 || hasModifications;
+  const outlineSections = useSectionOutline(parsedComponents);
+
+  // Inspector: the element picked in the iframe and the attributes it had
+  // before live previewing, so unapplied changes can be rolled back
+  const [inspectedElement, setInspectedElement] = useState<InspectedElement | null>(null);
+  const inspectorBaselineRef = useRef<Record<string, Record<string, string | null>>>({});
+
+  const revertInspectorPreview = useCallback(() => {
+    const doc = iframeRef.current?.contentDocument;
+    Object.entries(inspectorBaselineRef.current).forEach(([elementId, attributes]) => {
+      const element = doc ? findElementByEditableId(doc, elementId) : null;
+      if (!element) return;
+      Object.entries(attributes).forEach(([name, value]) => {
+        if (value === null) {
+          element.removeAttribute(name);
+        } else {
+          element.setAttribute(name, value);
+        }
+      });
+    });
+    inspectorBaselineRef.current = {};
+    doc?.querySelectorAll('.freemium-selected').forEach(el => el.classList.remove('freemium-selected'));
+  }, []);
+
+  const discardPendingEdits = useCallback(() => {
+    revertInspectorPreview();
+    resetModifications();
+    setInspectedElement(null);
+  }, [revertInspectorPreview, resetModifications]);
+
+  const commitEdit = useCallback((label: string, html: string) => {
+    inspectorBaselineRef.current = {};
+    resetModifications();
+    setInspectedElement(null);
+    pushEntry(label, html);
+  }, [pushEntry, resetModifications]);
+
+  const handleUndo = useCallback(() => {
+    if (!canUndo) return;
+    discardPendingEdits();
+    undo();
+    setActiveEdit(null);
+    toast({
+      title: "Undone",
+      description: undoLabel,
+    });
+  }, [canUndo, discardPendingEdits, undo, undoLabel, toast]);
+
+  const handleRedo = useCallback(() => {
+    if (!canRedo) return;
+    discardPendingEdits();
+    redo();
+    setActiveEdit(null);
+    toast({
+      title: "Redone",
+      description: redoLabel,
+    });
+  }, [canRedo, discardPendingEdits, redo, redoLabel, toast]);
+
+  const handleGoToHistoryEntry = useCallback((index: number) => {
+    discardPendingEdits();
+    goTo(index);
+    setActiveEdit(null);
+  }, [goTo, discardPendingEdits]);
+
+  // Select an element in the iframe and load its computed styles into the inspector
+  const handleInspectElement = useCallback((element: HTMLElement) => {
+    const elementId = getEditableId(element);
+    if (!elementId) return;
+
+    // Switching elements discards changes that were never applied
+    revertInspectorPreview();
+    resetModifications();
+    selectElement(elementId);
+    element.classList.add('freemium-selected');
+
+    setInspectedElement({
+      id: elementId,
+      tagName: element.tagName.toLowerCase(),
+      styles: extractStyles(element),
+      text: element.classList.contains('freemium-editable') ? getElementText(element) : null,
+      image: element.tagName === 'IMG' ? {
+        src: element.getAttribute('src') || '',
+        alt: element.getAttribute('alt') || '',
+        hasSrcset: element.hasAttribute('srcset'),
+      } : null,
+    });
+  }, [revertInspectorPreview, resetModifications, selectElement]);
+
+  // Run a live change against the inspected element in the iframe, remembering the
+  // attributes it touches so the change can be discarded later
+  const previewInspectedChange = useCallback((attributeNames: string[], apply: (element: HTMLElement) => void) => {
+    if (!inspectedElement) return;
+
+    const doc = iframeRef.current?.contentDocument;
+    const element = doc ? findElementByEditableId(doc, inspectedElement.id) : null;
+    if (!element) return;
+
+    const baseline = inspectorBaselineRef.current[inspectedElement.id] || {};
+    attributeNames.forEach(name => {
+      if (!(name in baseline)) baseline[name] = element.getAttribute(name);
+    });
+    inspectorBaselineRef.current[inspectedElement.id] = baseline;
+    apply(element);
+  }, [inspectedElement]);
+
+  // Preview style changes directly in the iframe DOM and record them as pending modifications
+  const handleInspectorStyleChange = useCallback((changes: EditableElement['styles']) => {
+    if (!inspectedElement) return;
+
+    previewInspectedChange(['style'], element => applyStylesToElement(element, changes));
+    modifyElement(inspectedElement.id, { styles: changes });
+    setInspectedElement(prev => prev && { ...prev, styles: { ...prev.styles, ...changes } });
+  }, [inspectedElement, previewInspectedChange, modifyElement]);
+
+  const handleInspectorAttributeChange = useCallback((changes: Record<string, string>) => {
+    if (!inspectedElement) return;
+
+    previewInspectedChange(Object.keys(changes), element => {
+      Object.entries(changes).forEach(([name, value]) => element.setAttribute(name, value));
+    });
+    modifyElement(inspectedElement.id, { attributes: changes });
+    setInspectedElement(prev => prev && prev.image ? {
+      ...prev,
+      image: {
+        ...prev.image,
+        src: changes.src ?? prev.image.src,
+        alt: changes.alt ?? prev.image.alt,
+      },
+    } : prev);
+  }, [inspectedElement, previewInspectedChange, modifyElement]);
+
+  const handleApplyInspectorChanges = useCallback(() => {
+    if (!inspectedElement) return;
+    const label = inspectedElement.image ? 'Edit image' : `Style <${inspectedElement.tagName}>`;
+    commitEdit(label, generateModifiedHtml());
+    toast({
+      title: inspectedElement.image ? "Image Updated" : "Styles Applied",
+      description: `Updated the <${inspectedElement.tagName}> element`,
+    });
+  }, [inspectedElement, commitEdit, generateModifiedHtml, toast]);
+
+  // Swap the inspected image, clearing any srcset so the browser shows the new source
+  const handleImageReplace = useCallback((url: string) => {
+    if (!inspectedElement?.image) return;
+    handleInspectorAttributeChange({
+      src: url,
+      ...(inspectedElement.image.hasSrcset ? { srcset: '' } : {}),
+    });
+  }, [inspectedElement, handleInspectorAttributeChange]);
+
+  // Section outline actions each become an undoable step; pending edits are carried along
+  const handleSectionChange = useCallback((sectionId: string, action: string, update: (html: string, id: string) => string) => {
+    const section = outlineSections.find(item => item.id === sectionId);
+    const nextHtml = update(generateModifiedHtml(), sectionId);
+    if (!section || nextHtml === htmlContent) return;
+    commitEdit(`${action} "${section.label}"`, nextHtml);
+  }, [outlineSections, generateModifiedHtml, htmlContent, commitEdit]);
+
+  const handleMoveSection = useCallback((sectionId: string, toIndex: number) => {
+    handleSectionChange(sectionId, 'Move', (html, id) => moveSection(html, id, toIndex));
+  }, [handleSectionChange]);
+
+  const handleToggleSection = useCallback((sectionId: string) => {
+    const hidden = outlineSections.find(item => item.id === sectionId)?.hidden;
+    handleSectionChange(sectionId, hidden ? 'Show' : 'Hide', toggleSectionVisibility);
+  }, [outlineSections, handleSectionChange]);
+
+  const handleDuplicateSection = useCallback((sectionId: string) => {
+    handleSectionChange(sectionId, 'Duplicate', duplicateSection);
+  }, [handleSectionChange]);
+
+  const handleDeleteSection = useCallback((sectionId: string) => {
+    handleSectionChange(sectionId, 'Delete', removeSection);
+    toast({
+      title: "Section Deleted",
+      description: "You can undo this from the toolbar or Edit History",
+    });
+  }, [handleSectionChange, toast]);
+
+  // Scroll the preview to a section and select it in the inspector
+  const handleSelectSection = useCallback((sectionId: string) => {
+    const doc = iframeRef.current?.contentDocument;
+    const element = doc ? findElementByEditableId(doc, sectionId) : null;
+    if (!element) return;
+    element.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    handleInspectElement(element);
+  }, [handleInspectElement]);
+
+  // Theme swaps only override the --theme-* tokens, so they apply instantly and stay undoable
+  const currentTheme = useMemo(() => readTheme(htmlContent), [htmlContent]);
+  const hasCustomTheme = useMemo(() => hasThemeOverride(htmlContent), [htmlContent]);
+  const moodboardPalettes: ThemePalette[] = useMemo(() => metadata?.themePalettes || [], [metadata]);
+
+  // The moodboard's typography is offered next to the stock pairings
+  const fontPairings = useMemo<FontPairing[]>(() => {
+    const moodboardTheme = moodboardPalettes[0]?.theme;
+    return moodboardTheme?.headingFont && moodboardTheme.bodyFont
+      ? [{ id: 'moodboard', name: 'Moodboard typography', headingFont: moodboardTheme.headingFont, bodyFont: moodboardTheme.bodyFont }, ...FONT_PAIRINGS]
+      : FONT_PAIRINGS;
+  }, [moodboardPalettes]);
+
+  const handleSelectPalette = useCallback((palette: ThemePalette) => {
+    const { primary, accent, background, text } = palette.theme;
+    commitEdit(`Theme: ${palette.name}`, applyTheme(generateModifiedHtml(), { primary, accent, background, text }));
+  }, [commitEdit, generateModifiedHtml]);
+
+  const handleSelectFonts = useCallback((pairing: FontPairing) => {
+    const nextHtml = applyTheme(
+      generateModifiedHtml(),
+      { headingFont: pairing.headingFont, bodyFont: pairing.bodyFont },
+      pairing.googleFonts || []
+    );
+    commitEdit(`Fonts: ${pairing.name}`, nextHtml);
+  }, [commitEdit, generateModifiedHtml]);
+
+  const handleResetTheme = useCallback(() => {
+    commitEdit('Theme: Original', resetTheme(generateModifiedHtml()));
+  }, [commitEdit, generateModifiedHtml]);
+
+  const handleImageFocalPointChange = useCallback((x: number, y: number) => {
+    handleInspectorStyleChange({ objectFit: 'cover', objectPosition: `${x}% ${y}%` });
+  }, [handleInspectorStyleChange]);
+
+  // Images the user can swap in: their saved project uploads plus everything already in the portfolio
+  const [projectImages, setProjectImages] = useState<LibraryImage[]>([]);
+  const [isLoadingProjectImages, setIsLoadingProjectImages] = useState(false);
+  const [isUploadingImage, setIsUploadingImage] = useState(false);
+  const projectImagesRequestedRef = useRef(false);
+  const isInspectingImage = !!inspectedElement?.image;
+
+  useEffect(() => {
+    const email = portfolioData?.personalInfo?.email;
+    if (!isInspectingImage || !email || projectImagesRequestedRef.current) return;
+    projectImagesRequestedRef.current = true;
+
+    const loadProjectImages = async () => {
+      setIsLoadingProjectImages(true);
+      try {
+        const response = await fetch(
+          `${import.meta.env.VITE_API_URL}/api/get-user-projects?email=${encodeURIComponent(email)}`
+        );
+        const data = await response.json();
+        if (!response.ok || !data.success) return;
+
+        const images: LibraryImage[] = [];
+        data.data.forEach((project: { title: string; imageMetadata?: { finalImages?: { url?: string }[]; processImages?: { url?: string }[] } }) => {
+          const { finalImages = [], processImages = [] } = project.imageMetadata || {};
+          finalImages.forEach(image => image.url && images.push({ url: image.url, label: `${project.title} (final)` }));
+          processImages.forEach(image => image.url && images.push({ url: image.url, label: `${project.title} (process)` }));
+        });
+        setProjectImages(prev => [...prev, ...images]);
+      } catch (error) {
+        console.warn('Could not load project images:', error);
+      } finally {
+        setIsLoadingProjectImages(false);
+      }
+    };
+
+    loadProjectImages();
+  }, [isInspectingImage, portfolioData?.personalInfo?.email]);
+
+  const imageLibrary = useMemo(() => {
+    if (!isInspectingImage) return [];
+
+    const library = [...projectImages];
+    const doc = new DOMParser().parseFromString(htmlContent, 'text/html');
+    doc.querySelectorAll('img[src]').forEach(img => {
+      const url = img.getAttribute('src') || '';
+      if (url && !url.startsWith('data:') && !library.some(image => image.url === url)) {
+        library.push({ url, label: img.getAttribute('alt') || 'Portfolio image' });
+      }
+    });
+    return library;
+  }, [isInspectingImage, projectImages, htmlContent]);
+
+  const handleImageUpload = useCallback(async (file: File) => {
+    const { valid, errors } = apiService.validateFiles([file]);
+    if (valid.length === 0) {
+      toast({
+        title: "Invalid Image",
+        description: errors[0],
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsUploadingImage(true);
+    try {
+      const formData = new FormData();
+      formData.append('image', file);
+      formData.append('userEmail', portfolioData?.personalInfo?.email || '');
+
+      const response = await fetch(`${import.meta.env.VITE_API_URL}/api/upload-portfolio-image`, {
+        method: 'POST',
+        body: formData,
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.details || data.error || 'Upload failed');
+      }
+
+      setProjectImages(prev => [{ url: data.data.url, label: file.name }, ...prev]);
+      handleImageReplace(data.data.url);
+    } catch (error) {
+      console.error('Image upload failed:', error);
+      toast({
+        title: "Upload Failed",
+        description: error instanceof Error ? error.message : "Could not upload the image",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploadingImage(false);
+    }
+  }, [portfolioData?.personalInfo?.email, handleImageReplace, toast]);
+
+  const handleInspectorEditText = useCallback(() => {
+    if (!inspectedElement || inspectedElement.text === null) return;
+    setActiveEdit(inspectedElement.id);
+    setEditingText(inspectedElement.text);
+  }, [inspectedElement]);
+
+  // Keep the latest handlers in a ref so listeners attached to the iframe stay current
+  const historyShortcutsRef = useRef({ handleUndo, handleRedo });
+  historyShortcutsRef.current = { handleUndo, handleRedo };
+
+  const handleHistoryShortcut = useCallback((e: KeyboardEvent) => {
+    if (!(e.metaKey || e.ctrlKey)) return;
+
+    const target = e.target as HTMLElement | null;
+    if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) {
+      return;
+    }
+
+    const key = e.key.toLowerCase();
+    if (key === 'z' && !e.shiftKey) {
+      e.preventDefault();
+      historyShortcutsRef.current.handleUndo();
+    } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+      e.preventDefault();
+      historyShortcutsRef.current.handleRedo();
+    }
+  }, []);
+
+  useEffect(() => {
+    window.addEventListener('keydown', handleHistoryShortcut);
+    return () => window.removeEventListener('keydown', handleHistoryShortcut);
+  }, [handleHistoryShortcut]);
 
   const [isSavingDraft, setIsSavingDraft] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
   const [lastSavedDraft, setLastSavedDraft] = useState<string | null>(null);
 
   // Load user limits on component mount
@@ -139,10 +611,11 @@ const Preview = () => {
     loadUserLimits();
   }, [portfolioData?.personalInfo?.email]);
 
-  // Initialize HTML content
+  // Initialize HTML content, restoring the saved edit history for drafts
   useEffect(() => {
-    setHtmlContent(originalHtml);
-  }, [originalHtml]);
+    if (isDraft && draftId && loadHistory(draftId)) return;
+    resetHistory(originalHtml);
+  }, [originalHtml, isDraft, draftId, loadHistory, resetHistory]);
 
   // Paywall Modal Component
   const PaywallModal = () => (
@@ -348,6 +821,31 @@ const Preview = () => {
     );
   };
 
+  // Deploy to GitHub Pages, Vercel, Cloudflare Pages or a storage bucket from the Deployment page
+  const handleChooseHost = () => {
+    if (isIncomplete) {
+      toast({
+        title: "Cannot Deploy Incomplete Portfolio",
+        description: "Please complete the generation first",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    navigate('/deployment', {
+      state: {
+        portfolioData,
+        generatedPortfolio: { html: cleanHtmlForExport(generateModifiedHtml()), pages: generatedPages },
+        metadata: {
+          ...metadata,
+          projectIds: (portfolioData.projects || []).map(project => project.id).filter(Boolean),
+          tier: userLimits?.tier,
+          portfolioId: metadata?.portfolioId || draftId,
+        },
+      },
+    });
+  };
+
   // Enhanced Deploy Handler with Paywall Check
   const handleDeploy = async () => {
     if (isIncomplete) {
@@ -369,12 +867,18 @@ const Preview = () => {
       return;
     }
 
-    // Show paywall if user cannot deploy
-    if (!userLimits.canDeploy) {
+    // Show paywall if user cannot deploy; updating a live site is not a new deployment
+    if (!canDeploy) {
       setShowPaywallModal(true);
       return;
     }
 
+    // Sites on other hosts are updated from the Deployment page, which holds their credentials
+    if (liveSiteId && liveProvider !== DEFAULT_PROVIDER) {
+      handleChooseHost();
+      return;
+    }
+
     // Proceed with original deployment logic
     try {
       setIsDeploying(true);
@@ -438,7 +942,7 @@ const Preview = () => {
         description: "Preparing your portfolio for deployment",
       });
 
-      const currentHtml = iframeRef.current?.contentDocument?.documentElement.outerHTML || htmlContent;
+      const currentHtml = generateModifiedHtml();
       const cleanedHtml = cleanHtmlForExport(currentHtml);
 
       if (!cleanedHtml || cleanedHtml.length < 100) {
@@ -468,6 +972,9 @@ const Preview = () => {
           personName: portfolioData.personalInfo.name || 'Portfolio',
           userEmail: portfolioData.personalInfo.email,
           projectIds: projectIds,
+          pages: buildSitePages(cleanedHtml, generatedPages),
+          siteId: liveSiteId,
+          portfolioId: metadata?.portfolioId || draftId,
           metadata: {
             generatedAt: new Date().toISOString(),
             projectCount: (portfolioData.projects || []).length,
@@ -530,7 +1037,7 @@ const Preview = () => {
         }
 
         // Update user limits after successful deployment
-        setUserLimits(prev => prev ? {
+        setUserLimits(prev => prev && !deployment.redeployed ? {
           ...prev,
           usage: {
             ...prev.usage,
@@ -538,12 +1045,13 @@ const Preview = () => {
           },
           canDeploy: prev.tier === 'Pro' || (prev.usage.portfolios + 1 < TIER_LIMITS[prev.tier].maxDeployments),
           deploymentsRemaining: prev.tier === 'Pro' ? Infinity : Math.max(0, TIER_LIMITS[prev.tier].maxDeployments - (prev.usage.portfolios + 1))
-        } : null);
+        } : prev);
 
         navigate('/deployment', {
           state: {
             portfolioData,
-            generatedPortfolio: cleanedHtml,
+            // Pages stay with the portfolio so going back to Preview and redeploying keeps the whole site
+            generatedPortfolio: { html: cleanedHtml, pages: generatedPages },
             metadata: {
               generatedAt: new Date().toISOString(),
               projectCount: (portfolioData.projects || []).length,
@@ -551,7 +1059,11 @@ const Preview = () => {
               deployTime,
               deployedAt: new Date().toISOString(),
               projectIds: projectIds,
-              tier: userLimits.tier
+              tier: userLimits.tier,
+              portfolioId: metadata?.portfolioId || draftId,
+              siteId: deployment.siteId,
+              provider: DEFAULT_PROVIDER,
+              redeployed: deployment.redeployed
             },
             deploymentUrl: deployment.url,
             platform: 'Netlify',
@@ -604,49 +1116,21 @@ const Preview = () => {
     }
   };
 
-  // Rest of your existing methods (parseEditableRegions, handleIframeLoad, etc.)
-  const parseEditableRegions = useCallback(() => {
-    if (!iframeRef.current?.contentDocument) return;
-    
-    const doc = iframeRef.current.contentDocument;
-    const regions: EditableRegion[] = [];
-    
-    const selectors = [
-      'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
-      'p', '.bio', '.about', '.description',
-      '.project-title', '.project-description',
-      'button', '.btn', '.button'
-    ];    
-    selectors.forEach(selector => {
-      const elements = doc.querySelectorAll(selector);
-      elements.forEach((element, index) => {
-        const rect = element.getBoundingClientRect();
-        const text = element.textContent?.trim() || '';
-        
-        if (text.length > 3 && rect.width > 0 && rect.height > 0) {
-          regions.push({
-            id: `${selector.replace(/[^a-zA-Z0-9]/g, '_')}_${index}`,
-            type: selector.startsWith('h') ? 'heading' : 
-                  selector === 'p' || selector.includes('description') || selector.includes('bio') ? 'paragraph' :
-                  selector.includes('button') || selector.includes('btn') ? 'button' : 'paragraph',
-            content: text,
-            selector: `${selector}:nth-of-type(${index + 1})`,
-            bounds: {
-              top: rect.top,
-              left: rect.left,
-              width: rect.width,
-              height: rect.height
-            }
-          });
-        }
-      });
-    });
-    
-    setEditableRegions(regions);
-  }, []);
-
   const handleIframeLoad = useCallback(() => {
     if (!iframeRef.current?.contentDocument) return;
+
+    // Case study and blog pages are only previewed; their links move between the pages of the site
+    if (previewPage) {
+      iframeRef.current.contentDocument.addEventListener('click', (e) => {
+        const link = (e.target as HTMLElement | null)?.closest('a');
+        if (!link) return;
+        e.preventDefault();
+        const path = resolveSitePath(previewPage, link.getAttribute('href') || '');
+        if (path === HOME_PAGE) setPreviewPage(null);
+        else if (path && generatedPages[path]) setPreviewPage(path);
+      });
+      return;
+    }
     
     const style = iframeRef.current.contentDocument.createElement('style');
     style.textContent = `
@@ -681,20 +1165,44 @@ const Preview = () => {
       .freemium-editable:hover .freemium-edit-indicator {
         opacity: 1;
       }
+      img.freemium-image {
+        cursor: pointer;
+      }
+      img.freemium-image:hover {
+        outline: 2px dashed rgba(59, 130, 246, 0.4);
+        outline-offset: 2px;
+      }
+      .freemium-selected {
+        outline: 2px solid #3b82f6 !important;
+        outline-offset: 2px;
+      }
     `;
     iframeRef.current.contentDocument.head.appendChild(style);
+    iframeRef.current.contentDocument.addEventListener('keydown', handleHistoryShortcut);
+
+    // Any other element can be selected for styling; links and forms are kept from navigating
+    iframeRef.current.contentDocument.addEventListener('click', (e) => {
+      const target = e.target as HTMLElement | null;
+      if (!target || target.tagName === 'BODY' || target.tagName === 'HTML') return;
+      e.preventDefault();
+      handleInspectElement(target);
+    });
     
     const addEditableHandlers = () => {
       const doc = iframeRef.current?.contentDocument;
       if (!doc) return;
       
       const editableSelectors = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'button', '.btn'];
+
+      // Images open the image editor through the document click handler
+      doc.querySelectorAll('img').forEach(img => img.classList.add('freemium-image'));
       
       editableSelectors.forEach(selector => {
         const elements = doc.querySelectorAll(selector);
-        elements.forEach((element, index) => {
+        elements.forEach((element) => {
           const textContent = element.textContent?.trim();
-          if (textContent && textContent.length > 3) {
+          const elementId = getEditableId(element);
+          if (elementId && textContent && textContent.length > 3 && !element.classList.contains('freemium-editable')) {
             element.classList.add('freemium-editable');
             
             const indicator = doc.createElement('div');
@@ -703,12 +1211,19 @@ const Preview = () => {
             element.appendChild(indicator);
             
             element.addEventListener('click', (e) => {
+              // Images inside text elements are handled by the image editor
+              if ((e.target as HTMLElement).tagName === 'IMG') return;
+              e.preventDefault();
+              e.stopPropagation();
+              handleInspectElement(element as HTMLElement);
+            });
+
+            element.addEventListener('dblclick', (e) => {
               e.preventDefault();
               e.stopPropagation();
               
-              const regionId = `${selector.replace(/[^a-zA-Z0-9]/g, '_')}_${index}`;
-              setActiveEdit(regionId);
-              setEditingText(textContent);
+              setActiveEdit(elementId);
+              setEditingText(getElementText(element as HTMLElement));
             });
           }
         });
@@ -716,8 +1231,7 @@ const Preview = () => {
     };
     
     setTimeout(addEditableHandlers, 100);
-    setTimeout(parseEditableRegions, 200);
-  }, [parseEditableRegions]);
+  }, [handleHistoryShortcut, handleInspectElement, previewPage, generatedPages]);
 
   const cleanHtmlForExport = (html: string): string => {
     if (!html) return '';
@@ -796,30 +1310,18 @@ const Preview = () => {
   };
 
   // Apply text edit
-  const applyTextEdit = useCallback((regionId: string, newText: string) => {
-    if (!iframeRef.current?.contentDocument) return;
-    
-    const region = editableRegions.find(r => r.id === regionId);
-    if (!region) return;
-    
+  const applyTextEdit = useCallback((elementId: string, newText: string) => {
     try {
-      const element = iframeRef.current.contentDocument.querySelector(region.selector);
-      if (element) {
-        element.textContent = newText;
-        
-        const newHtml = iframeRef.current.contentDocument.documentElement.outerHTML;
-        setHtmlContent(newHtml);
-        setHasChanges(true);
-        
-        setEditableRegions(prev => 
-          prev.map(r => r.id === regionId ? { ...r, content: newText } : r)
-        );
-        
-        toast({
-          title: "Text Updated",
-          description: "Your changes have been applied",
-        });
-      }
+      const nextHtml = applyModificationsToHtml(generateModifiedHtml(), {
+        [elementId]: { content: newText },
+      });
+      const preview = newText.length > 30 ? `${newText.slice(0, 30)}…` : newText;
+      commitEdit(`Edit text: "${preview}"`, nextHtml);
+
+      toast({
+        title: "Text Updated",
+        description: "Your changes have been applied",
+      });
     } catch (error) {
       console.error('Failed to apply text edit:', error);
       toast({
@@ -828,7 +1330,7 @@ const Preview = () => {
         variant: "destructive",
       });
     }
-  }, [editableRegions, toast]);
+  }, [commitEdit, generateModifiedHtml, toast]);
 
   const handleSaveEdit = () => {
     if (activeEdit && editingText.trim()) {
@@ -844,15 +1346,62 @@ const Preview = () => {
   };
 
   const handleResetChanges = useCallback(() => {
-    setHtmlContent(originalHtml);
-    setHasChanges(false);
+    commitEdit('Reset to original', originalHtml);
     setActiveEdit(null);
     setEditingText('');
     toast({
       title: "Changes Reset",
-      description: "All edits have been reverted to original content",
+      description: "All edits have been reverted to original content. You can undo this.",
     });
-  }, [originalHtml, toast]);
+  }, [originalHtml, commitEdit, toast]);
+
+  // Offline copy of the whole site with its images, stylesheets and fonts, built in the browser
+  const handleExportZip = async () => {
+    if (isIncomplete) {
+      toast({
+        title: "Cannot Export Incomplete Portfolio",
+        description: "Please complete the generation first",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsExporting(true);
+
+    try {
+      const cleanedHtml = cleanHtmlForExport(generateModifiedHtml());
+      const { blob, fileName, fileCount, missing } = await buildOfflineZip(
+        cleanedHtml,
+        buildSitePages(cleanedHtml, generatedPages),
+        portfolioData?.personalInfo?.name
+      );
+
+      const downloadUrl = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = downloadUrl;
+      link.download = fileName;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(downloadUrl);
+
+      toast({
+        title: "Portfolio Exported",
+        description: missing.length > 0
+          ? `${fileCount} files saved. ${missing.length} couldn't be downloaded and still load from the web (listed in README.md).`
+          : `${fileCount} files saved. Open index.html to view your portfolio offline.`,
+      });
+    } catch (error) {
+      console.error('Export failed:', error);
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
 
   const handleSaveDraft = async () => {
     if (!portfolioData?.personalInfo?.email) {
@@ -867,7 +1416,7 @@ const Preview = () => {
     setIsSavingDraft(true);
   
     try {
-      const currentHtml = iframeRef.current?.contentDocument?.documentElement.outerHTML || htmlContent;
+      const currentHtml = generateModifiedHtml();
       const cleanedHtml = cleanHtmlForExport(currentHtml);
   
       const response = await fetch(`${import.meta.env.VITE_API_URL}/api/save-draft`, {
@@ -889,6 +1438,16 @@ const Preview = () => {
       
       if (data.success) {
         setLastSavedDraft(new Date().toISOString());
+        // The draft has the pending inspector changes applied, so they become a step of their own
+        // and the history stored with the draft ends on what was saved
+        inspectorBaselineRef.current = {};
+        resetModifications();
+        setInspectedElement(null);
+        if (data.draftId) {
+          saveHistory(data.draftId, { label: 'Save draft', html: cleanedHtml });
+        } else {
+          pushEntry('Save draft', cleanedHtml);
+        }
         toast({
           title: "Draft Saved",
           description: "Your portfolio has been saved as a draft",
@@ -910,6 +1469,11 @@ const Preview = () => {
 
   const handleAiEditRequest = async () => {
     if (!aiRequest.trim()) return;
+
+    const editRequest = aiRequest.trim();
+    // With an element selected, only that element is sent for rewriting
+    const targetElement = aiEditSelectionOnly ? inspectedElement : null;
+    const sentHtml = generateModifiedHtml();
     
     setIsProcessingAiRequest(true);
 
@@ -920,27 +1484,42 @@ const Preview = () => {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          htmlContent,
-          editRequest: aiRequest
+          htmlContent: sentHtml,
+          editRequest,
+          ...(targetElement ? { targetElementId: targetElement.id } : {})
         }),
       });
   
-      if (!response.ok) {
+      const data = await response.json();
+
+      if (!response.ok && !data.details) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
-  
-      const data = await response.json();
       
       if (data.success) {
-        setHtmlContent(data.modifiedHtml);
-        setHasChanges(true);
-        
-        toast({
-          title: "AI Edit Applied",
-          description: "Your changes have been processed",
+        const preview = editRequest.length > 30 ? `${editRequest.slice(0, 30)}…` : editRequest;
+        const scope = targetElement ? ` <${targetElement.tagName}>` : '';
+        const hunks = diffHtml(sentHtml, data.modifiedHtml);
+
+        if (hunks.length === 0) {
+          toast({
+            title: "No Changes",
+            description: "The AI response did not change your portfolio",
+          });
+          return;
+        }
+
+        // Nothing lands in the history until the user has reviewed the changes
+        setAiEditReview({
+          request: editRequest,
+          label: `AI edit${scope}: "${preview}"`,
+          beforeHtml: sentHtml,
+          afterHtml: data.modifiedHtml,
+          hunks,
+          acceptedIds: hunks.map(hunk => hunk.id),
         });
       } else {
-        throw new Error(data.error || 'Failed to process AI edit');
+        throw new Error(data.details || data.error || 'Failed to process AI edit');
       }
     } catch (error) {
       console.error('AI Edit Error:', error);
@@ -955,6 +1534,50 @@ const Preview = () => {
     }
   };
 
+  const reviewMergedHtml = useMemo(() => aiEditReview
+    ? mergeHtmlDiff(aiEditReview.beforeHtml, aiEditReview.afterHtml, aiEditReview.acceptedIds)
+    : '', [aiEditReview]);
+
+  const handleToggleReviewHunk = useCallback((hunkId: string) => {
+    setAiEditReview(prev => prev && {
+      ...prev,
+      acceptedIds: prev.acceptedIds.includes(hunkId)
+        ? prev.acceptedIds.filter(id => id !== hunkId)
+        : [...prev.acceptedIds, hunkId],
+    });
+  }, []);
+
+  const handleSetAllReviewHunks = useCallback((accepted: boolean) => {
+    setAiEditReview(prev => prev && {
+      ...prev,
+      acceptedIds: accepted ? prev.hunks.map(hunk => hunk.id) : [],
+    });
+  }, []);
+
+  const handleApplyAiEditReview = useCallback(() => {
+    if (!aiEditReview) return;
+
+    const { hunks, acceptedIds, label } = aiEditReview;
+    const isPartial = acceptedIds.length < hunks.length;
+    commitEdit(isPartial ? `${label} (${acceptedIds.length}/${hunks.length} changes)` : label, reviewMergedHtml);
+    setAiEditReview(null);
+
+    toast({
+      title: "AI Edit Applied",
+      description: isPartial
+        ? `Applied ${acceptedIds.length} of ${hunks.length} changes`
+        : "Your changes have been processed",
+    });
+  }, [aiEditReview, reviewMergedHtml, commitEdit, toast]);
+
+  const handleDiscardAiEditReview = useCallback(() => {
+    setAiEditReview(null);
+    toast({
+      title: "AI Edit Discarded",
+      description: "Your portfolio was left unchanged",
+    });
+  }, [toast]);
+
   const getViewportClasses = () => {
     switch (viewportSize) {
       case 'mobile':
@@ -968,6 +1591,10 @@ const Preview = () => {
     }
   };
 
+  if (!hasPortfolio) {
+    return null;
+  }
+
   // Loading state
   if (isLoadingLimits) {
     return (
@@ -996,6 +1623,21 @@ const Preview = () => {
 
       {/* Paywall Modal */}
       {showPaywallModal && <PaywallModal />}
+
+      {/* AI Edit Review */}
+      {aiEditReview && (
+        <AiEditReviewDialog
+          request={aiEditReview.request}
+          beforeHtml={aiEditReview.beforeHtml}
+          mergedHtml={reviewMergedHtml}
+          hunks={aiEditReview.hunks}
+          acceptedIds={aiEditReview.acceptedIds}
+          onToggleHunk={handleToggleReviewHunk}
+          onSetAll={handleSetAllReviewHunks}
+          onApply={handleApplyAiEditReview}
+          onCancel={handleDiscardAiEditReview}
+        />
+      )}
       
       <div className="container mx-auto px-6 py-8 relative">
         <div className="max-w-7xl mx-auto">
@@ -1018,7 +1660,7 @@ const Preview = () => {
                   {userLimits && <TierBadge tier={userLimits.tier} />}
                 </h1>
                 <p className="text-[#06070A]/60 text-sm font-light mt-1">
-                  Click on any text to edit • {hasChanges ? 'Unsaved changes' : 'No changes'}
+                  Click to style, double-click text to edit • {hasChanges ? 'Unsaved changes' : 'No changes'}
                   {userLimits && userLimits.tier !== 'Pro' && userLimits.deploymentsRemaining !== Infinity && (
                     <span className="ml-2 text-orange-600 font-medium">
                       {userLimits.deploymentsRemaining} deployment{userLimits.deploymentsRemaining !== 1 ? 's' : ''} remaining
@@ -1030,13 +1672,35 @@ const Preview = () => {
             
             {/* Status and Actions */}
             <div className="flex items-center space-x-3">
+              <div className="inline-flex items-center bg-white border border-[#06070A]/10 rounded-lg shadow-sm overflow-hidden">
+                <div
+                  className={cn(
+                    "px-3 py-2 transition-all duration-200",
+                    canUndo ? "cursor-pointer hover:bg-[#06070A]/5" : "opacity-40 cursor-not-allowed"
+                  )}
+                  onClick={handleUndo}
+                  title={canUndo ? `Undo ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+                >
+                  <Undo2 className="h-4 w-4" />
+                </div>
+                <div
+                  className={cn(
+                    "px-3 py-2 border-l border-[#06070A]/10 transition-all duration-200",
+                    canRedo ? "cursor-pointer hover:bg-[#06070A]/5" : "opacity-40 cursor-not-allowed"
+                  )}
+                  onClick={handleRedo}
+                  title={canRedo ? `Redo ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                >
+                  <Redo2 className="h-4 w-4" />
+                </div>
+              </div>
               {hasChanges && (
                 <div 
                   className="group cursor-pointer"
                   onClick={handleResetChanges}
                 >
                   <div className="inline-flex items-center space-x-2 px-4 py-2 bg-white border border-[#06070A]/10 rounded-lg transition-all duration-200 hover:bg-[#06070A]/5 group-hover:scale-105 shadow-sm">
-                    <Undo2 className="h-4 w-4" />
+                    <RotateCcw className="h-4 w-4" />
                     <span className="font-light text-sm">Reset Changes</span>
                   </div>
                 </div>
@@ -1059,17 +1723,35 @@ const Preview = () => {
                   )}
                 </div>
               </div>
+              <div 
+                className="group cursor-pointer"
+                onClick={isExporting ? undefined : handleExportZip}
+              >
+                <div className="inline-flex items-center space-x-2 px-4 py-2 bg-white border border-[#06070A]/10 rounded-lg transition-all duration-200 hover:bg-[#06070A]/5 group-hover:scale-105 shadow-sm">
+                  {isExporting ? (
+                    <>
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      <span className="font-light text-sm">Exporting...</span>
+                    </>
+                  ) : (
+                    <>
+                      <FileArchive className="h-4 w-4" />
+                      <span className="font-light text-sm">Export ZIP</span>
+                    </>
+                  )}
+                </div>
+              </div>
               <div 
                 className="group cursor-pointer"
                 onClick={handleDeploy}
               >
                 <div className={cn(
                   "inline-flex items-center space-x-2 px-6 py-2 rounded-lg transition-all duration-200 group-hover:scale-105 shadow-sm font-light",
-                  userLimits?.canDeploy 
+                  canDeploy 
                     ? "bg-[#06070A] text-[#FFFEEA] hover:bg-[#06070A]/80" 
                     : "bg-white border border-[#06070A]/10 text-[#06070A] opacity-60 cursor-not-allowed"
                 )}>
-                  {!userLimits?.canDeploy && <Lock className="h-4 w-4" />}
+                  {!canDeploy && <Lock className="h-4 w-4" />}
                   {isDeploying ? (
                     <>
                       <Loader2 className="h-4 w-4 animate-spin" />
@@ -1077,12 +1759,23 @@ const Preview = () => {
                     </>
                   ) : (
                     <>
-                      {userLimits?.canDeploy && <Rocket className="h-4 w-4" />}
-                      <span>{userLimits?.canDeploy ? 'Deploy to Web' : 'Upgrade to Deploy'}</span>
+                      {canDeploy && <Rocket className="h-4 w-4" />}
+                      <span>{liveSiteId ? 'Update Live Site' : canDeploy ? 'Deploy to Web' : 'Upgrade to Deploy'}</span>
                     </>
                   )}
                 </div>
               </div>
+              {canDeploy && !isDeploying && (
+                <div 
+                  className="group cursor-pointer"
+                  onClick={handleChooseHost}
+                >
+                  <div className="inline-flex items-center space-x-2 px-4 py-2 bg-white border border-[#06070A]/10 rounded-lg transition-all duration-200 hover:bg-[#06070A]/5 group-hover:scale-105 shadow-sm">
+                    <Server className="h-4 w-4" />
+                    <span className="font-light text-sm">Other Hosts</span>
+                  </div>
+                </div>
+              )}
             </div>
           </div>
 
@@ -1091,7 +1784,7 @@ const Preview = () => {
             <div className="lg:col-span-3">
               {/* Viewport Controls */}
               <div className="flex items-center justify-between mb-6 p-4 bg-white/90 backdrop-blur-sm rounded-xl border border-[#06070A]/10 shadow-sm">
-                <div className="flex items-center space-x-3">
+                <div className="flex flex-wrap items-center gap-3">
                   <span className="text-sm font-light text-[#06070A]">Device Preview:</span>
                   <div 
                     className={cn(
@@ -1135,11 +1828,46 @@ const Preview = () => {
                       <span>Mobile</span>
                     </div>
                   </div>
+
+                  <div className="w-px h-6 bg-[#06070A]/10" />
+                  {COLOR_SCHEME_OPTIONS.map(({ value, label, icon: Icon }) => (
+                    <div
+                      key={value}
+                      title={value === 'system' ? 'Follow your system color scheme' : `Preview the ${label.toLowerCase()} color scheme`}
+                      className={cn(
+                        "group cursor-pointer px-3 py-1 rounded-lg transition-all duration-200 text-sm font-light",
+                        previewColorScheme === value
+                          ? "bg-[#06070A] text-[#FFFEEA]"
+                          : "bg-white border border-[#06070A]/10 text-[#06070A] hover:bg-[#06070A]/5"
+                      )}
+                      onClick={() => setPreviewColorScheme(value)}
+                    >
+                      <div className="flex items-center space-x-1">
+                        <Icon className="h-4 w-4" />
+                        <span>{label}</span>
+                      </div>
+                    </div>
+                  ))}
+                  <div
+                    title="Preview with reduced motion"
+                    className={cn(
+                      "group cursor-pointer px-3 py-1 rounded-lg transition-all duration-200 text-sm font-light",
+                      previewReducedMotion
+                        ? "bg-[#06070A] text-[#FFFEEA]"
+                        : "bg-white border border-[#06070A]/10 text-[#06070A] hover:bg-[#06070A]/5"
+                    )}
+                    onClick={() => setPreviewReducedMotion(prev => !prev)}
+                  >
+                    <div className="flex items-center space-x-1">
+                      <Pause className="h-4 w-4" />
+                      <span>Reduced Motion</span>
+                    </div>
+                  </div>
                 </div>
                 
                 <div className="text-xs text-[#06070A]/60 flex items-center font-light">
                   <Edit3 className="h-3 w-3 mr-1" />
-                  Click text to edit
+                  {previewPage ? 'Previewing another page • Edit on the home page' : 'Click to style • Double-click to edit'}
                 </div>
               </div>
 
@@ -1149,7 +1877,7 @@ const Preview = () => {
                   <div className={`${getViewportClasses()} transition-all duration-300 bg-white rounded-lg shadow-lg overflow-hidden border border-[#06070A]/10 relative`}>
                     <iframe
                       ref={iframeRef}
-                      srcDoc={htmlContent}
+                      srcDoc={previewHtml}
                       className="w-full h-full border-0"
                       title="Portfolio Preview"
                       sandbox="allow-scripts allow-same-origin allow-forms"
@@ -1233,9 +1961,115 @@ const Preview = () => {
 
             {/* Sidebar */}
             <div className="space-y-6">
+              {/* Image Editor */}
+              {inspectedElement?.image && (
+                <ImageEditorPanel
+                  src={inspectedElement.image.src}
+                  alt={inspectedElement.image.alt}
+                  objectPosition={inspectedElement.styles.objectPosition}
+                  library={imageLibrary}
+                  isLoadingLibrary={isLoadingProjectImages}
+                  isUploading={isUploadingImage}
+                  hasPendingChanges={hasModifications}
+                  onReplace={handleImageReplace}
+                  onUpload={handleImageUpload}
+                  onAltChange={(alt) => handleInspectorAttributeChange({ alt })}
+                  onFocalPointChange={handleImageFocalPointChange}
+                  onApply={handleApplyInspectorChanges}
+                  onCancel={discardPendingEdits}
+                />
+              )}
+
+              {/* Style Inspector */}
+              {inspectedElement && !inspectedElement.image && (
+                <StyleInspectorPanel
+                  tagName={inspectedElement.tagName}
+                  styles={inspectedElement.styles}
+                  hasPendingChanges={hasModifications}
+                  onStyleChange={handleInspectorStyleChange}
+                  onApply={handleApplyInspectorChanges}
+                  onCancel={discardPendingEdits}
+                  onEditText={inspectedElement.text !== null ? handleInspectorEditText : undefined}
+                />
+              )}
+
               {/* Usage Stats */}
               <UsageStats />
 
+              {/* Pages of multi-page portfolios */}
+              {sitePageList.length > 0 && (
+                <SitePagesPanel
+                  pages={sitePageList}
+                  currentPath={previewPage}
+                  onSelect={setPreviewPage}
+                />
+              )}
+
+              {/* Section Outline */}
+              <SectionOutlinePanel
+                sections={outlineSections}
+                selectedSectionId={selectedElementId}
+                onSelect={handleSelectSection}
+                onMove={handleMoveSection}
+                onToggleVisibility={handleToggleSection}
+                onDuplicate={handleDuplicateSection}
+                onDelete={handleDeleteSection}
+              />
+
+              {/* Theme */}
+              <ThemePanel
+                currentTheme={currentTheme}
+                moodboardPalettes={moodboardPalettes}
+                presets={THEME_PRESETS}
+                fontPairings={fontPairings}
+                hasOverride={hasCustomTheme}
+                onSelectPalette={handleSelectPalette}
+                onSelectFonts={handleSelectFonts}
+                onReset={handleResetTheme}
+              />
+
+              {/* Edit History */}
+              <div className="bg-white rounded-xl p-6 border border-[#06070A]/10 shadow-lg">
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <History className="h-5 w-5 text-[#06070A]" />
+                      <h3 className="text-lg font-light text-[#06070A]">Edit History</h3>
+                    </div>
+                    <span className="text-xs text-[#06070A]/50 font-light">
+                      {historyIndex + 1} / {historyEntries.length}
+                    </span>
+                  </div>
+
+                  <div className="space-y-1 max-h-64 overflow-y-auto">
+                    {historyEntries.map((entry, index) => (
+                      <div
+                        key={entry.id}
+                        className={cn(
+                          "cursor-pointer px-3 py-2 rounded-lg text-sm font-light transition-all duration-200 flex items-center justify-between",
+                          index === historyIndex
+                            ? "bg-[#06070A] text-[#FFFEEA]"
+                            : index > historyIndex
+                              ? "text-[#06070A]/40 hover:bg-[#06070A]/5"
+                              : "text-[#06070A] hover:bg-[#06070A]/5"
+                        )}
+                        onClick={() => handleGoToHistoryEntry(index)}
+                      >
+                        <span className="truncate">{entry.label}</span>
+                        <span className="text-xs opacity-60 ml-2 flex-shrink-0">
+                          {new Date(entry.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="text-xs text-[#06070A]/50 flex items-center font-light">
+                    <Lightbulb className="h-3 w-3 mr-1" />
+                    Ctrl+Z to undo, Ctrl+Shift+Z to redo
+                  </div>
+                </div>
+              </div>
+
               {/* AI Assistant */}
               <div className="bg-white rounded-xl p-6 border border-[#06070A]/10 shadow-lg">
                 <div className="space-y-4">
@@ -1245,10 +2079,33 @@ const Preview = () => {
                   </div>
                   
                   <div className="space-y-3">
+                    {inspectedElement && (
+                      <div className="flex bg-[#06070A]/5 rounded-lg p-1 text-xs font-light">
+                        {[
+                          { selectionOnly: true, label: `Selected <${inspectedElement.tagName}>` },
+                          { selectionOnly: false, label: 'Whole page' },
+                        ].map(option => (
+                          <div
+                            key={option.label}
+                            className={cn(
+                              "flex-1 text-center cursor-pointer py-1.5 rounded-md transition-all duration-200",
+                              aiEditSelectionOnly === option.selectionOnly
+                                ? "bg-[#06070A] text-[#FFFEEA]"
+                                : "text-[#06070A] hover:bg-[#06070A]/10"
+                            )}
+                            onClick={() => setAiEditSelectionOnly(option.selectionOnly)}
+                          >
+                            {option.label}
+                          </div>
+                        ))}
+                      </div>
+                    )}
                     <Textarea
                       value={aiRequest}
                       onChange={(e) => setAiRequest(e.target.value)}
-                      placeholder="Describe changes you'd like to make..."
+                      placeholder={inspectedElement && aiEditSelectionOnly
+                        ? `Describe changes to the selected <${inspectedElement.tagName}>...`
+                        : "Describe changes you'd like to make..."}
                       className="min-h-[100px] border border-[#06070A]/20 focus:border-[#06070A] focus:ring-0 rounded-lg font-light"
                       disabled={isProcessingAiRequest}
                     />
@@ -1277,7 +2134,9 @@ const Preview = () => {
                   </div>
                   <div className="text-xs text-[#06070A]/50 flex items-center font-light">
                     <Lightbulb className="h-3 w-3 mr-1" />
-                    Example: "Make the header smaller and use blue colors"
+                    {inspectedElement
+                      ? 'Example: "Make this section more compact"'
+                      : 'Example: "Make the header smaller and use blue colors"'}
                   </div>
                 </div>
               </div>
@@ -1342,9 +2201,9 @@ const Preview = () => {
                       <span className="text-xs font-light text-blue-600">1</span>
                     </div>
                     <div>
-                      <p className="font-light text-[#06070A]">Click on Text</p>
+                      <p className="font-light text-[#06070A]">Click on Elements</p>
                       <p className="text-[#06070A]/60 text-xs font-light">
-                        Hover over any text and click to edit
+                        Click to open the style inspector, double-click text to edit it
                       </p>
                     </div>
                   </div>
@@ -45,6 +45,8 @@ export interface PortfolioData {
 export interface GeneratedPortfolio {
   html: string;
   css?: string;
+  // Case study pages of multi-page portfolios, keyed by site path
+  pages?: Record<string, string>;
   metadata: {
     title: string;
     description: string;
@@ -219,28 +221,6 @@ class ApiService {
     }
   }
 
-  async deployToNetlify(htmlContent: string, netlifyToken: string, personName: string): Promise<any> {
-    try {
-      const response = await fetch(this.getApiUrl('/deploy-folder-to-netlify'), {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ htmlContent, netlifyToken, personName }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
-      }
-
-      return await response.json();
-    } catch (error) {
-      console.error('Deploy to Netlify error:', error);
-      throw error;
-    }
-  }
-
   async aiEditPortfolio(htmlContent: string, editRequest: string, isContinuation?: boolean, partialHtml?: string): Promise<any> {
     try {
       const response = await fetch(this.getApiUrl('/ai-edit-portfolio'), {
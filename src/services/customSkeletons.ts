@@ -0,0 +1,76 @@
+// src/services/customSkeletons.ts
+// Pro users' uploaded skeletons (see api/routes/skeletons.js)
+import { API_BASE_URL } from './api';
+import type { SkeletonManifest, SkeletonPreview } from '../skeletons';
+
+export interface CustomSkeleton {
+  id: string;
+  name: string;
+  description: string;
+  html: string;
+  manifest: SkeletonManifest;
+  createdAt: string;
+}
+
+export interface SkeletonValidationIssue {
+  message: string;
+  severity: 'high' | 'medium' | 'low';
+}
+
+export const CUSTOM_SKELETON_PREFIX = 'custom-';
+
+const skeletonsUrl = (path = '') => `${import.meta.env.VITE_API_URL || API_BASE_URL}/api/custom-skeletons${path}`;
+
+export const isCustomSkeletonId = (skeletonId: string) => skeletonId.startsWith(CUSTOM_SKELETON_PREFIX);
+
+// Show an uploaded skeleton alongside the built-in ones
+export const toSkeletonPreview = (skeleton: CustomSkeleton): SkeletonPreview => ({
+  id: skeleton.id,
+  name: skeleton.name,
+  description: skeleton.description || 'Your own uploaded skeleton',
+  html: skeleton.html,
+  manifest: skeleton.manifest,
+  features: ['Your Own HTML', `${skeleton.manifest.slots.length} Content Slots`, 'Private to You'],
+  color: 'from-emerald-500 to-teal-600',
+});
+
+export const listCustomSkeletons = async (email: string): Promise<CustomSkeleton[]> => {
+  const response = await fetch(skeletonsUrl(`?email=${encodeURIComponent(email)}`));
+  const result = await response.json().catch(() => ({}));
+  return response.ok && result.success ? result.data : [];
+};
+
+// Rejected uploads throw with the validator's blocking issues as the message
+export const uploadCustomSkeleton = async (
+  email: string,
+  skeleton: { name: string; description?: string; html: string }
+): Promise<CustomSkeleton> => {
+  const response = await fetch(skeletonsUrl(), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, ...skeleton }),
+  });
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok || !result.success) {
+    const blocking = ((result.validation?.issues || []) as SkeletonValidationIssue[])
+      .filter(issue => issue.severity === 'high')
+      .map(issue => issue.message);
+    throw new Error(blocking.length > 0
+      ? blocking.join('. ')
+      : result.details || result.error || `Server error (${response.status}). Please try again.`);
+  }
+
+  return result.data;
+};
+
+export const deleteCustomSkeleton = async (email: string, skeletonId: string): Promise<void> => {
+  const response = await fetch(skeletonsUrl(`/${encodeURIComponent(skeletonId)}?email=${encodeURIComponent(email)}`), {
+    method: 'DELETE',
+  });
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || `HTTP error! status: ${response.status}`);
+  }
+};
@@ -0,0 +1,288 @@
+// src/services/deployments.ts
+// Deploying portfolios to a provider, custom domains, the user's deployed sites, and deploy history, status, rollback
+// and taking down of Netlify sites (see api/routes/deployments.js)
+import { API_BASE_URL } from './api';
+
+export const DEFAULT_PROVIDER = 'netlify';
+
+export interface CredentialField {
+  key: string;
+  label: string;
+  secret?: boolean;
+  optional?: boolean;
+  placeholder?: string;
+}
+
+export interface DeployProvider {
+  id: string;
+  name: string;
+  credentialFields: CredentialField[];
+  customDomains: boolean;
+}
+
+export type DeployCredentials = Record<string, string>;
+
+export interface DeploySiteRequest {
+  provider: string;
+  credentials: DeployCredentials;
+  htmlContent: string;
+  pages: Record<string, string>;
+  personName: string;
+  userEmail: string;
+  projectIds: string[];
+  siteId: string | null;
+  portfolioId: string | null;
+}
+
+export interface SiteDeployment {
+  provider: string;
+  platform: string;
+  url: string;
+  siteId: string;
+  siteName: string;
+  deployId: string;
+  status: string;
+  redeployed: boolean;
+  pageCount: number;
+  fileCount: number;
+  uploadedCount: number;
+  deployTime: number;
+  ready: boolean;
+}
+
+export interface DnsRecord {
+  type: string;
+  name: string;
+  value: string;
+}
+
+export type CustomDomainStatus = 'pending_dns' | 'provisioning_ssl' | 'active' | 'failed';
+
+export interface CustomDomain {
+  domain: string;
+  status: CustomDomainStatus;
+  verified: boolean;
+  ssl: 'pending' | 'issued' | 'failed';
+  // What to add at the domain's DNS host
+  records: DnsRecord[];
+  error: string | null;
+}
+
+export interface CustomDomainRequest {
+  provider: string;
+  credentials: DeployCredentials;
+  siteId: string;
+  domain: string;
+}
+
+export interface SiteDeploy {
+  id: string;
+  state: string;
+  createdAt: string;
+  publishedAt: string | null;
+  deployUrl: string;
+  errorMessage: string | null;
+  isLive: boolean;
+}
+
+export interface DeployHistory {
+  siteId: string;
+  siteName: string;
+  url: string;
+  liveDeployId: string | null;
+  deploys: SiteDeploy[];
+}
+
+// A site from the Portfolio Details sheet
+export interface TrackedSite {
+  siteId: string | null;
+  siteName: string;
+  url: string;
+  provider: string;
+  platform: string;
+  deployedAt: string | null;
+  lastDeployedAt: string | null;
+  deployId: string | null;
+  portfolioId: string | null;
+  projectIds: string[];
+  tier: string;
+  customDomain: string;
+  takenOfflineAt: string | null;
+}
+
+// A deployed site read back from its URL, with its images pointing at the site
+export interface LiveSite {
+  html: string;
+  pages: Record<string, string>;
+  url: string;
+}
+
+export interface SiteStatus {
+  siteId: string;
+  url: string;
+  deployId: string | null;
+  state: string;
+  isLive: boolean;
+  publishedAt: string | null;
+  errorMessage: string | null;
+}
+
+const deploymentsUrl = (path: string) => `${import.meta.env.VITE_API_URL || API_BASE_URL}/api${path}`;
+const sitesUrl = (path: string) => deploymentsUrl(`/netlify-sites${path}`);
+
+export const getStoredNetlifyToken = () => import.meta.env.VITE_NETLIFY_TOKEN || localStorage.getItem('netlifyToken');
+
+// Credentials stay on this device, like the Netlify token Preview asks for
+const credentialsKey = (providerId: string) => `deployCredentials:${providerId}`;
+
+export const getStoredCredentials = (providerId: string): DeployCredentials => {
+  if (providerId === DEFAULT_PROVIDER) {
+    return { token: getStoredNetlifyToken() || '' };
+  }
+
+  try {
+    return JSON.parse(localStorage.getItem(credentialsKey(providerId)) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const storeCredentials = (providerId: string, credentials: DeployCredentials) => {
+  if (providerId === DEFAULT_PROVIDER) {
+    localStorage.setItem('netlifyToken', credentials.token || '');
+  } else {
+    localStorage.setItem(credentialsKey(providerId), JSON.stringify(credentials));
+  }
+};
+
+export const listDeployProviders = async (): Promise<DeployProvider[]> => {
+  const response = await fetch(deploymentsUrl('/deploy-providers'));
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.details || result.error || `HTTP error! status: ${response.status}`);
+  }
+
+  return result.data.providers;
+};
+
+export const deploySite = async (request: DeploySiteRequest): Promise<SiteDeployment> => {
+  const response = await fetch(deploymentsUrl('/deploy-site'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.details || result.error || `Deployment failed with status ${response.status}`);
+  }
+
+  return result.deployment;
+};
+
+export const getDeployHistory = async (siteId: string, netlifyToken: string): Promise<DeployHistory> => {
+  const response = await fetch(sitesUrl(`/${encodeURIComponent(siteId)}/deploys`), {
+    headers: { Authorization: `Bearer ${netlifyToken}` },
+  });
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.details || result.error || `HTTP error! status: ${response.status}`);
+  }
+
+  return result.data;
+};
+
+export const rollbackToDeploy = async (siteId: string, deployId: string, netlifyToken: string): Promise<void> => {
+  const response = await fetch(sitesUrl(`/${encodeURIComponent(siteId)}/rollback`), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ netlifyToken, deployId }),
+  });
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.details || result.error || `HTTP error! status: ${response.status}`);
+  }
+};
+
+export const connectCustomDomain = async (request: CustomDomainRequest & { userEmail: string }): Promise<CustomDomain> => {
+  const response = await fetch(deploymentsUrl('/custom-domains'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.details || result.error || `HTTP error! status: ${response.status}`);
+  }
+
+  return result.data;
+};
+
+export const getCustomDomainStatus = async (request: CustomDomainRequest): Promise<CustomDomain> => {
+  const response = await fetch(deploymentsUrl('/custom-domains/status'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.details || result.error || `HTTP error! status: ${response.status}`);
+  }
+
+  return result.data;
+};
+
+export const listDeployments = async (email: string): Promise<TrackedSite[]> => {
+  const response = await fetch(deploymentsUrl(`/deployments?email=${encodeURIComponent(email)}`));
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.details || result.error || `HTTP error! status: ${response.status}`);
+  }
+
+  return result.data;
+};
+
+export const getLiveSite = async (siteId: string, provider: string, email: string): Promise<LiveSite> => {
+  const query = `?email=${encodeURIComponent(email)}&provider=${encodeURIComponent(provider)}`;
+  const response = await fetch(deploymentsUrl(`/deployments/${encodeURIComponent(siteId)}/content${query}`));
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.details || result.error || `HTTP error! status: ${response.status}`);
+  }
+
+  return result.data;
+};
+
+// Without a deployId, the status of the deploy that is live
+export const getSiteStatus = async (siteId: string, deployId: string | null, netlifyToken: string): Promise<SiteStatus> => {
+  const query = deployId ? `?deployId=${encodeURIComponent(deployId)}` : '';
+  const response = await fetch(sitesUrl(`/${encodeURIComponent(siteId)}/status${query}`), {
+    headers: { Authorization: `Bearer ${netlifyToken}` },
+  });
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.details || result.error || `HTTP error! status: ${response.status}`);
+  }
+
+  return result.data;
+};
+
+export const takeSiteOffline = async (siteId: string, email: string, netlifyToken: string): Promise<void> => {
+  const response = await fetch(sitesUrl(`/${encodeURIComponent(siteId)}?email=${encodeURIComponent(email)}`), {
+    method: 'DELETE',
+    headers: { Authorization: `Bearer ${netlifyToken}` },
+  });
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.details || result.error || `HTTP error! status: ${response.status}`);
+  }
+};
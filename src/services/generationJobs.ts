@@ -0,0 +1,51 @@
+// src/services/generationJobs.ts
+// Recorded generation jobs, reopened from the Dashboard (see api/services/generationJobService.js)
+import { API_BASE_URL } from './api';
+import type { GenerationResponseBody } from './generationStream';
+
+export type GenerationJobStatus = 'queued' | 'running' | 'completed' | 'incomplete' | 'failed' | 'interrupted';
+
+export interface GenerationJobSummary {
+  id: string;
+  portfolioName: string;
+  status: GenerationJobStatus;
+  stage: string;
+  percent: number;
+  message: string;
+  createdAt: string;
+  updatedAt: string;
+  hasPartialHtml: boolean;
+  continuationAttempts: number;
+  error: string | null;
+}
+
+export interface GenerationJob extends Omit<GenerationJobSummary, 'hasPartialHtml' | 'continuationAttempts'> {
+  portfolioData: Record<string, unknown>;
+  intermediate: {
+    analysis: Record<string, unknown> | null;
+    partialHtml: string | null;
+    continuationAttempts: Array<{ attempt: number; isComplete: boolean; estimatedCompletion: number; completedAt: string }>;
+  };
+  result: GenerationResponseBody | null;
+}
+
+export const ACTIVE_JOB_STATUSES: GenerationJobStatus[] = ['queued', 'running'];
+
+const jobsUrl = (path = '') => `${import.meta.env.VITE_API_URL || API_BASE_URL}/api/generation-jobs${path}`;
+
+export const getGenerationJob = async (jobId: string, email: string): Promise<GenerationJob> => {
+  const response = await fetch(jobsUrl(`/${encodeURIComponent(jobId)}?email=${encodeURIComponent(email)}`));
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || `HTTP error! status: ${response.status}`);
+  }
+
+  return result.data;
+};
+
+export const listGenerationJobs = async (email: string): Promise<GenerationJobSummary[]> => {
+  const response = await fetch(jobsUrl(`?email=${encodeURIComponent(email)}`));
+  const result = await response.json().catch(() => ({}));
+  return response.ok && result.success ? result.data : [];
+};
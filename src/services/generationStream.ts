@@ -0,0 +1,114 @@
+// src/services/generationStream.ts
+// Reads Server-Sent Events from /api/generate-portfolio (see api/helpers/progressStream.js)
+
+export interface GenerationProgressEvent {
+  stage: string;
+  percent: number;
+  message: string;
+  phase?: number;
+  characters?: number;
+}
+
+export interface GenerationStreamHandlers {
+  onProgress?: (event: GenerationProgressEvent) => void;
+  onPartialHtml?: (html: string) => void;
+}
+
+// Body of the /api/generate-portfolio response (or of the stream's result event)
+export interface GenerationResponseBody {
+  success?: boolean;
+  incomplete?: boolean;
+  partialHtml?: string;
+  error?: string | { error?: { message?: string } };
+  details?: string;
+  portfolio?: {
+    html: string;
+    metadata: { portfolioId?: string; [key: string]: unknown };
+  };
+  [key: string]: unknown;
+}
+
+export interface GenerationStreamResult {
+  ok: boolean;
+  status: number;
+  data: GenerationResponseBody;
+}
+
+// Error text from a response body, including nested API errors
+export const getGenerationError = (body: GenerationResponseBody): string | undefined =>
+  typeof body.error === 'string' ? body.error : body.error?.error?.message;
+
+interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+// Split a buffer into complete events, returning whatever is left over
+const parseEvents = (buffer: string): { events: ServerSentEvent[]; rest: string } => {
+  const blocks = buffer.split(/\r?\n\r?\n/);
+  const rest = blocks.pop() || '';
+
+  const events = blocks.flatMap(block => {
+    let event = 'message';
+    const dataLines: string[] = [];
+
+    block.split(/\r?\n/).forEach(line => {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart());
+    });
+
+    // Comment-only blocks are heartbeats
+    return dataLines.length > 0 ? [{ event, data: dataLines.join('\n') }] : [];
+  });
+
+  return { events, rest };
+};
+
+// POST form data and follow the progress stream until the result event arrives.
+// Falls back to a plain JSON response when the server (or a middleware error) doesn't stream.
+export const postWithProgress = async (
+  url: string,
+  body: FormData,
+  { onProgress, onPartialHtml }: GenerationStreamHandlers = {}
+): Promise<GenerationStreamResult> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { Accept: 'text/event-stream' },
+    body,
+  });
+
+  const contentType = response.headers.get('content-type') || '';
+  if (!contentType.includes('text/event-stream') || !response.body) {
+    const data = await response.json().catch(() => ({}));
+    return { ok: response.ok, status: response.status, data };
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const { events, rest } = parseEvents(buffer);
+    buffer = rest;
+
+    for (const { event, data } of events) {
+      const payload = JSON.parse(data);
+
+      if (event === 'progress') {
+        onProgress?.(payload);
+      } else if (event === 'partial') {
+        onPartialHtml?.(payload.html);
+      } else if (event === 'result') {
+        reader.cancel().catch(() => {});
+        const { statusCode = 200, ...result } = payload;
+        return { ok: statusCode < 400, status: statusCode, data: result };
+      }
+    }
+  }
+
+  throw new Error('Generation stream ended before the portfolio was ready');
+};
@@ -0,0 +1,60 @@
+// src/services/posts.ts
+// Markdown blog posts published with a portfolio (see api/routes/posts.js)
+import { API_BASE_URL } from './api';
+
+export type PostStatus = 'draft' | 'published';
+
+export interface Post {
+  id: string;
+  title: string;
+  slug: string;
+  summary: string;
+  markdown: string;
+  status: PostStatus;
+  createdAt: string;
+  updatedAt: string;
+  publishedAt: string;
+}
+
+export type PostFields = Pick<Post, 'title' | 'summary' | 'markdown' | 'status'>;
+
+const postsUrl = (path = '') => `${import.meta.env.VITE_API_URL || API_BASE_URL}/api/posts${path}`;
+
+export const listPosts = async (email: string): Promise<Post[]> => {
+  const response = await fetch(postsUrl(`?email=${encodeURIComponent(email)}`));
+  const result = await response.json().catch(() => ({}));
+  return response.ok && result.success ? result.data : [];
+};
+
+// Rejected posts throw with the validation problems as the message
+const sendPost = async (url: string, method: 'POST' | 'PUT', body: Record<string, unknown>): Promise<Post> => {
+  const response = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.details || result.error || `Server error (${response.status}). Please try again.`);
+  }
+
+  return result.data;
+};
+
+export const createPost = (email: string, post: PostFields): Promise<Post> =>
+  sendPost(postsUrl(), 'POST', { email, ...post });
+
+export const updatePost = (email: string, postId: string, post: Partial<PostFields>): Promise<Post> =>
+  sendPost(postsUrl(`/${encodeURIComponent(postId)}`), 'PUT', { email, ...post });
+
+export const deletePost = async (email: string, postId: string): Promise<void> => {
+  const response = await fetch(postsUrl(`/${encodeURIComponent(postId)}?email=${encodeURIComponent(email)}`), {
+    method: 'DELETE',
+  });
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || `HTTP error! status: ${response.status}`);
+  }
+};
@@ -1,14 +1,23 @@
-// Import skeleton HTML files as strings
-import creativeProHtml from './creative-professional.html?raw';
-import galleryFirstHtml from './gallery-first.html?raw';
-import newspaperHtml from './newspaper.html?raw';
-import storytellerHtml from './storyteller.html?raw';
+// Skeleton HTML and slot manifests live in api/skeletons, shared with the API's generator and renderer.
+// Edit the templates there only; `npm run build` checks them (api/scripts/checkSkeletons.js).
+import creativeProHtml from '../../api/skeletons/creative-professional.html?raw';
+import galleryFirstHtml from '../../api/skeletons/gallery-first.html?raw';
+import newspaperHtml from '../../api/skeletons/newspaper.html?raw';
+import storytellerHtml from '../../api/skeletons/storyteller.html?raw';
+import creativeProManifest from '../../api/skeletons/manifests/creative-professional.json';
+import galleryFirstManifest from '../../api/skeletons/manifests/gallery-first.json';
+import newspaperManifest from '../../api/skeletons/manifests/newspaper.json';
+import storytellerManifest from '../../api/skeletons/manifests/storyteller.json';
+import type { SkeletonManifest } from './manifest';
+
+export * from './manifest';
 
 export interface SkeletonPreview {
   id: string;
   name: string;
   description: string;
   html: string;
+  manifest: SkeletonManifest;
   features: string[];
   color: string;
 }
@@ -19,6 +28,7 @@ export const skeletonPreviews: Record<string, SkeletonPreview> = {
     name: 'Creative Professional',
     description: 'Warm, textured design perfect for designers and artists',
     html: creativeProHtml,
+    manifest: creativeProManifest as SkeletonManifest,
     features: ['Expandable Project Cards', 'Grain Texture', 'Skills Grid', 'Contact Methods'],
     color: 'from-amber-500 to-orange-500'
   },
@@ -27,6 +37,7 @@ export const skeletonPreviews: Record<string, SkeletonPreview> = {
     name: 'Gallery First',
     description: 'Dark, minimal layout that puts your visuals center stage',
     html: galleryFirstHtml,
+    manifest: galleryFirstManifest as SkeletonManifest,
     features: ['Dynamic Masonry', 'Filter Tags', 'Lightbox Effects', 'Image Navigation'],
     color: 'from-gray-700 to-gray-900'
   },
@@ -35,6 +46,7 @@ export const skeletonPreviews: Record<string, SkeletonPreview> = {
     name: 'Newspaper Style',
     description: 'Vintage editorial layout for content-heavy portfolios',
     html: newspaperHtml,
+    manifest: newspaperManifest as SkeletonManifest,
     features: ['Column Layout', 'Article Style', 'Modal Overlays', 'Stats Boxes'],
     color: 'from-yellow-600 to-amber-700'
   },
@@ -43,6 +55,7 @@ export const skeletonPreviews: Record<string, SkeletonPreview> = {
     name: 'Storyteller',
     description: 'Cinematic narrative flow for filmmakers and storytellers',
     html: storytellerHtml,
+    manifest: storytellerManifest as SkeletonManifest,
     features: ['Chapter System', 'Parallax Effects', 'Video Sections', 'Timeline Layout'],
     color: 'from-blue-600 to-indigo-700'
   }
@@ -0,0 +1,299 @@
+// Skeleton manifests: typed content slots that can be filled without the model.
+// Slots are marked in the skeleton HTML with data attributes:
+//   data-slot="<slot id>"          element filled by a top-level slot (every match is filled)
+//   data-slot-field="<field id>"   element inside a repeat item, filled from that item
+//   data-slot-text                 the part of a link or list item that receives the text
+//   data-slot-wrapper              removed together with a list container that ends up empty
+//   data-section="<section id>"    optional section, removed when its sources are all empty
+//   data-sample                    illustrative sample content, removed when the skeleton is filled
+// Filled repeat slots are also published as <script type="application/json" data-slot-data="<source>">
+// so skeleton scripts (project modals) can use the real items instead of their sample data.
+// Keep in sync with api/utils/skeletonSlots.js
+
+export type SkeletonSlotType = 'text' | 'paragraphs' | 'link' | 'image' | 'list' | 'repeat';
+
+export interface SkeletonSlot {
+  id: string;
+  type: SkeletonSlotType;
+  // Key in SkeletonContent, or in SkeletonProjectContent for repeat fields
+  source: string;
+  required?: boolean;
+  // link: prefix for the href (mailto:, tel:) and whether the label is replaced too
+  hrefPrefix?: string;
+  setText?: boolean;
+  // list: what each item holds
+  item?: 'text' | 'image';
+  // repeat: how many items the layout supports and the fields of each item
+  min?: number;
+  max?: number;
+  fields?: SkeletonSlot[];
+  // repeat: attribute rewritten to "<source>-<n>" on each item (e.g. data-modal)
+  indexAttribute?: string;
+}
+
+export interface SkeletonSection {
+  id: string;
+  sources: string[];
+}
+
+export interface SkeletonManifest {
+  id: string;
+  version: number;
+  slots: SkeletonSlot[];
+  optionalSections: SkeletonSection[];
+}
+
+export interface SkeletonProjectContent {
+  title: string;
+  subtitle: string;
+  category: string;
+  overview: string;
+  tags: string[];
+  image: string;
+  images: string[];
+}
+
+export interface SkeletonContent {
+  name: string;
+  title: string;
+  bio: string;
+  email: string;
+  phone: string;
+  website: string;
+  linkedin: string;
+  instagram: string;
+  behance: string;
+  dribbble: string;
+  skills: string[];
+  projects: SkeletonProjectContent[];
+}
+
+export interface FilledSkeleton {
+  html: string;
+  // Required slots that had no content or no element in the template
+  missingSlots: string[];
+}
+
+// Loose input so both form data and saved projects (with Cloudinary metadata) can be used
+type SkeletonSourceImage = string | { url?: string } | null | undefined;
+
+interface SkeletonSourceProject {
+  title?: string;
+  subtitle?: string;
+  overview?: string;
+  description?: string;
+  category?: string;
+  customCategory?: string;
+  tags?: string[];
+  imageMetadata?: { finalImage?: string; finalImages?: SkeletonSourceImage[]; processImages?: SkeletonSourceImage[] };
+  finalImages?: SkeletonSourceImage[];
+  processImages?: unknown[];
+}
+
+interface SkeletonSourceData {
+  personalInfo?: Partial<Omit<SkeletonContent, 'projects'>>;
+  projects?: SkeletonSourceProject[];
+}
+
+const imageUrlOf = (image: unknown) =>
+  typeof image === 'string' ? image : (image as { url?: string } | null)?.url;
+
+const imageUrlsOf = (project: SkeletonSourceProject): string[] =>
+  [
+    project.imageMetadata?.finalImage,
+    ...(project.imageMetadata?.finalImages || []).map(imageUrlOf),
+    ...(project.finalImages || []).map(imageUrlOf),
+    ...(project.imageMetadata?.processImages || []).map(imageUrlOf),
+    ...(project.processImages || []).map(imageUrlOf),
+  ].filter((url, index, urls): url is string =>
+    typeof url === 'string' && /^(https?:|data:)/.test(url) && urls.indexOf(url) === index
+  );
+
+export const toSkeletonContent = ({ personalInfo = {}, projects = [] }: SkeletonSourceData): SkeletonContent => ({
+  name: personalInfo.name || '',
+  title: personalInfo.title || '',
+  bio: personalInfo.bio || '',
+  email: personalInfo.email || '',
+  phone: personalInfo.phone || '',
+  website: personalInfo.website || '',
+  linkedin: personalInfo.linkedin || '',
+  instagram: personalInfo.instagram || '',
+  behance: personalInfo.behance || '',
+  dribbble: personalInfo.dribbble || '',
+  skills: (personalInfo.skills || []).filter(Boolean),
+  projects: projects.map(project => {
+    const images = imageUrlsOf(project);
+    return {
+      title: project.title || '',
+      subtitle: project.subtitle || '',
+      category: project.customCategory || project.category || '',
+      overview: project.overview || project.description || '',
+      tags: (project.tags || []).filter(Boolean),
+      image: images[0] || '',
+      images,
+    };
+  }),
+});
+
+type SlotValue = string | string[] | SkeletonProjectContent[] | undefined;
+
+const isEmpty = (value: SlotValue) => (Array.isArray(value) ? value.length === 0 : !value);
+
+const slotSelector = (attribute: string, id: string) => `[${attribute}="${id}"]`;
+
+const setImage = (element: Element, url: string) => {
+  if (!url) return;
+  if (element.tagName === 'IMG') {
+    element.setAttribute('src', url);
+    return;
+  }
+  const style = (element as HTMLElement).style;
+  style.backgroundImage = `url('${url}')`;
+  style.backgroundSize = 'cover';
+  style.backgroundPosition = 'center';
+  if (element.children.length === 0) element.textContent = '';
+};
+
+const setParagraphs = (element: Element, text: string) => {
+  const document = element.ownerDocument;
+  const paragraphs = text.split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean);
+  element.replaceChildren(...paragraphs.map(paragraph => {
+    const p = document.createElement('p');
+    p.textContent = paragraph;
+    return p;
+  }));
+};
+
+// Values are split across every container that declares the same list slot
+const fillList = (containers: Element[], slot: SkeletonSlot, values: string[]) => {
+  const perContainer = Math.ceil(values.length / Math.max(containers.length, 1));
+
+  containers.forEach((container, index) => {
+    const items = values.slice(index * perContainer, (index + 1) * perContainer);
+    const template = container.firstElementChild;
+
+    if (!template || items.length === 0) {
+      (container.closest('[data-slot-wrapper]') || container).remove();
+      return;
+    }
+
+    container.replaceChildren(...items.map(value => {
+      const item = template.cloneNode(true) as Element;
+      if (slot.item === 'image') {
+        setImage(item, value);
+      } else {
+        (item.querySelector('[data-slot-text]') || item).textContent = value;
+      }
+      return item;
+    }));
+  });
+};
+
+const fillValue = (element: Element, slot: SkeletonSlot, value: SlotValue) => {
+  const text = typeof value === 'string' ? value : '';
+
+  switch (slot.type) {
+    case 'text':
+      element.textContent = text;
+      break;
+    case 'paragraphs':
+      setParagraphs(element, text);
+      break;
+    case 'link':
+      if (!text) {
+        element.remove();
+        break;
+      }
+      element.setAttribute('href', `${slot.hrefPrefix || ''}${text}`);
+      if (slot.setText) (element.querySelector('[data-slot-text]') || element).textContent = text;
+      break;
+    case 'image':
+      setImage(element, text);
+      break;
+  }
+};
+
+const fillSlots = (root: ParentNode, slots: SkeletonSlot[], attribute: string, data: Record<string, unknown>) => {
+  slots.forEach(slot => {
+    const elements = Array.from(root.querySelectorAll(slotSelector(attribute, slot.id)));
+    const value = data[slot.source] as SlotValue;
+
+    if (slot.type === 'list') {
+      if (elements.length > 0) fillList(elements, slot, (value as string[]) || []);
+    } else if (slot.type === 'repeat') {
+      fillRepeat(elements, slot, (value as SkeletonProjectContent[]) || []);
+    } else {
+      elements.forEach(element => fillValue(element, slot, value));
+    }
+  });
+};
+
+// Each element marked with a repeat slot is one item; the last one is cloned when there is more data
+const fillRepeat = (items: Element[], slot: SkeletonSlot, values: SkeletonProjectContent[]) => {
+  if (items.length === 0) return;
+
+  const count = Math.min(values.length, slot.max ?? values.length);
+  while (items.length < count) {
+    const last = items[items.length - 1];
+    const clone = last.cloneNode(true) as Element;
+    clone.removeAttribute('id');
+    last.after(clone);
+    items.push(clone);
+  }
+
+  items.forEach((item, index) => {
+    if (index >= count) {
+      item.remove();
+      return;
+    }
+    if (slot.indexAttribute) item.setAttribute(slot.indexAttribute, `${slot.source}-${index + 1}`);
+    fillSlots(item, slot.fields || [], 'data-slot-field', values[index] as unknown as Record<string, unknown>);
+  });
+};
+
+const publishSlotData = (document: Document, source: string, values: unknown[]) => {
+  if (document.querySelector(slotSelector('data-slot-data', source))) return;
+
+  const script = document.createElement('script');
+  script.type = 'application/json';
+  script.setAttribute('data-slot-data', source);
+  script.textContent = JSON.stringify(values).replace(/</g, '\\u003c');
+  document.head.appendChild(script);
+};
+
+const findMissingSlots = (document: Document, manifest: SkeletonManifest, content: SkeletonContent) =>
+  manifest.slots
+    .filter(slot => slot.required)
+    .filter(slot =>
+      isEmpty(content[slot.source as keyof SkeletonContent]) ||
+      !document.querySelector(slotSelector('data-slot', slot.id))
+    )
+    .map(slot => slot.id);
+
+export const fillSkeleton = (html: string, manifest: SkeletonManifest, content: SkeletonContent): FilledSkeleton => {
+  const document = new DOMParser().parseFromString(html, 'text/html');
+  const missingSlots = findMissingSlots(document, manifest, content);
+
+  document.querySelectorAll('[data-sample]').forEach(element => element.remove());
+
+  manifest.optionalSections.forEach(section => {
+    const hasContent = section.sources.some(source => !isEmpty(content[source as keyof SkeletonContent]));
+    if (!hasContent) {
+      document.querySelectorAll(slotSelector('data-section', section.id)).forEach(element => element.remove());
+    }
+  });
+
+  fillSlots(document, manifest.slots, 'data-slot', content as unknown as Record<string, unknown>);
+
+  manifest.slots
+    .filter(slot => slot.type === 'repeat' && document.querySelector(slotSelector('data-slot', slot.id)))
+    .forEach(slot => {
+      const values = content[slot.source as keyof SkeletonContent] as SkeletonProjectContent[];
+      publishSlotData(document, slot.source, values.slice(0, slot.max ?? values.length));
+    });
+
+  return {
+    html: `<!DOCTYPE html>\n${document.documentElement.outerHTML}`,
+    missingSlots,
+  };
+};
@@ -1,9 +1,33 @@
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react-swc'
 import path from 'path'
+import fs from 'fs'
+
+// CommonJS modules of the API the client imports as they are; they must not require anything
+const SHARED_API_MODULES = [path.resolve(__dirname, 'api/utils/themeTokens.js')]
+
+// Files under api/ the client imports: the built-in skeletons, their manifests and the shared modules.
+// In development Vite serves these URLs itself; every other /api request goes to the API server
+const listFiles = (dir: string, extension: string) => fs.readdirSync(path.resolve(__dirname, dir))
+  .filter(file => file.endsWith(extension))
+  .map(file => `/${dir}/${file}`)
+const SHARED_API_URLS = new Set([
+  ...listFiles('api/skeletons', '.html'),
+  ...listFiles('api/skeletons/manifests', '.json'),
+  ...SHARED_API_MODULES.map(file => `/${path.relative(__dirname, file)}`),
+])
+
+// Serve the shared API modules as ES modules with their module.exports as the default export
+const sharedApiModules = (): Plugin => ({
+  name: 'shared-api-modules',
+  transform(code, id) {
+    if (!SHARED_API_MODULES.includes(id)) return null
+    return { code: `const module = { exports: {} };\n${code}\nexport default module.exports;\n`, map: null }
+  },
+})
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), sharedApiModules()],
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
@@ -26,7 +50,8 @@ export default defineConfig({
     proxy: {
       '/api': {
         target: 'http://localhost:3001',
-        changeOrigin: true
+        changeOrigin: true,
+        bypass: (req) => SHARED_API_URLS.has((req.url || '').split('?')[0]) ? req.url : undefined
       }
     }
   }